@@ -1,8 +1,9 @@
-import { useEffect, useMemo, useState } from "react";
+import { UIEvent, useEffect, useMemo, useRef, useState } from "react";
 import "./styles.css";
-import { api } from "./api";
-import { Group, Message, ThreadWithMessages } from "./types";
+import { AuthRequiredError, api, downloadAttachment, subscribeToEvents } from "./api";
+import { Draft, Group, LabelSummary, Message, SearchResult, ThreadSummary, ThreadWithMessages } from "./types";
 import Settings from "./Settings";
+import Login from "./Login";
 
 type Status = { kind: "idle" } | { kind: "loading"; label?: string } | { kind: "error"; message: string };
 
@@ -18,10 +19,68 @@ function useStatus() {
   };
 }
 
+function splitAddresses(raw: string) {
+  return raw.split(",").map(t => t.trim()).filter(Boolean);
+}
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Agents can only label mail they sent or received
+function isParticipant(msg: Message, agent: string) {
+  return msg.from === agent || [...msg.to, ...msg.cc, ...msg.bcc].includes(agent);
+}
+
+function messageKey(msg: Message) {
+  return `${msg.threadId}-${msg.messageId}`;
+}
+
+// Appends a further page, skipping anything a live update already added
+function appendUnique(existing: Message[], more: Message[]) {
+  const seen = new Set(existing.map(messageKey));
+  return [...existing, ...more.filter(m => !seen.has(messageKey(m)))];
+}
+
+function isNearBottom(el: HTMLElement) {
+  return el.scrollHeight - el.scrollTop - el.clientHeight < 80;
+}
+
 function formatDate(iso: string) {
   return new Date(iso).toLocaleString();
 }
 
+// Search snippets wrap matched terms in <mark> tags; render them as elements rather than raw HTML
+function renderHighlighted(text: string) {
+  return text.split(/(<mark>.*?<\/mark>)/g).map((part, i) =>
+    part.startsWith("<mark>") ? <mark key={i}>{part.slice(6, -7)}</mark> : part
+  );
+}
+
+function ConversationList({ threads, onSelect }: { threads: ThreadSummary[]; onSelect: (threadId: string) => void }) {
+  return (
+    <>
+      {threads.length === 0 && <div className="muted">No conversations</div>}
+      {threads.map(t => (
+        <button key={t.threadId} onClick={() => onSelect(t.threadId)}>
+          <div className="inline">
+            <span className="pill">{t.messageCount}</span>
+            <span className="grow">{t.subject || "(no subject)"}</span>
+            {!!t.unreadCount && <span className="pill">{t.unreadCount} new</span>}
+          </div>
+          <div className="muted">{t.participants.join(", ")}</div>
+          <div className="muted">
+            {t.lastMessage.from}: {t.lastMessage.bodyPreview.slice(0, 80)}
+          </div>
+          <div className="muted">{formatDate(t.lastActivityAt)}</div>
+        </button>
+      ))}
+    </>
+  );
+}
+
 export default function App() {
   const { status, setLoading, setError, reset } = useStatus();
   const [groups, setGroups] = useState<Group[]>([]);
@@ -29,101 +88,420 @@ export default function App() {
   const [selectedAgent, setSelectedAgent] = useState<string>("");
   const [messages, setMessages] = useState<Message[]>([]);
   const [allMail, setAllMail] = useState<Message[]>([]);
+  const [inboxCursor, setInboxCursor] = useState<string | null>(null);
+  const [allMailCursor, setAllMailCursor] = useState<string | null>(null);
+  const loadingMore = useRef(false);
+  const [conversationView, setConversationView] = useState(false);
+  const [inboxThreads, setInboxThreads] = useState<ThreadSummary[]>([]);
+  const [allThreads, setAllThreads] = useState<ThreadSummary[]>([]);
   const [thread, setThread] = useState<ThreadWithMessages | null>(null);
-  const [newEmail, setNewEmail] = useState({ to: "", subject: "", body: "" });
+  const [newEmail, setNewEmail] = useState({ to: "", cc: "", bcc: "", subject: "", body: "" });
   const [replyBody, setReplyBody] = useState("");
   const [replyMode, setReplyMode] = useState<"reply" | "reply-all">("reply");
+  const [labels, setLabels] = useState<LabelSummary[]>([]);
+  const [selectedLabel, setSelectedLabel] = useState<string | null>(null);
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [newDraftId, setNewDraftId] = useState<string | null>(null);
+  const [replyDraftId, setReplyDraftId] = useState<string | null>(null);
   const [showSettings, setShowSettings] = useState(false);
+  const [needsLogin, setNeedsLogin] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null);
   const [collapsed, setCollapsed] = useState({
     inbox: false,
     thread: false,
     allMail: false
   });
 
+  // Reload groups whenever we return from Settings, since agents may have been added, renamed or removed there
   useEffect(() => {
+    if (showSettings || needsLogin) return;
     const load = async () => {
       try {
         setLoading("Loading groups...");
         const data = await api.listGroups();
         setGroups(data);
-        if (data[0]) {
-          setSelectedGroupId(data[0].id);
-        }
+        setSelectedGroupId(current => (data.some(g => g.id === current) ? current : data[0]?.id ?? ""));
         reset();
       } catch (err) {
+        if (err instanceof AuthRequiredError) {
+          setNeedsLogin(true);
+          reset();
+          return;
+        }
         setError((err as Error).message);
       }
     };
     load();
-  }, []);
+  }, [showSettings, needsLogin]);
 
   useEffect(() => {
     const group = groups.find(g => g.id === selectedGroupId);
     const firstAgent = group?.agents?.[0] ?? "";
     setSelectedAgent(firstAgent);
+    setSelectedLabel(null);
     setThread(null);
     setMessages([]);
     setAllMail([]);
+    setInboxCursor(null);
+    setAllMailCursor(null);
+    setSearchResults(null);
   }, [groups, selectedGroupId]);
 
+  // Drafts belong to one agent, so switching agents leaves any draft being edited
+  useEffect(() => {
+    setNewDraftId(null);
+    setReplyDraftId(null);
+    if (!selectedGroupId || !selectedAgent) {
+      setDrafts([]);
+      return;
+    }
+    refreshDrafts(selectedGroupId, selectedAgent).catch(err => setError((err as Error).message));
+  }, [selectedGroupId, selectedAgent]);
+
   useEffect(() => {
     if (!selectedGroupId) return;
     const load = async () => {
       try {
         setLoading("Loading mail...");
         if (selectedAgent) {
-          const data = await api.inboxByAgent(selectedGroupId, selectedAgent);
-          setMessages(data);
+          await refreshInbox(selectedGroupId, selectedAgent, selectedLabel);
+          await refreshLabels(selectedGroupId, selectedAgent);
         } else {
           setMessages([]);
+          setInboxCursor(null);
+          setLabels([]);
         }
-        const groupMail = await api.inboxGroup(selectedGroupId);
-        setAllMail(groupMail);
+        await refreshAllMail(selectedGroupId);
         reset();
       } catch (err) {
         setError((err as Error).message);
       }
     };
     load();
-  }, [selectedGroupId, selectedAgent]);
+  }, [selectedGroupId, selectedAgent, selectedLabel]);
+
+  useEffect(() => {
+    if (!selectedGroupId || !conversationView) return;
+    refreshConversations(selectedGroupId, selectedAgent).catch(err => setError((err as Error).message));
+  }, [selectedGroupId, selectedAgent, conversationView]);
+
+  // Latest selections for the long-lived event stream handler
+  const liveState = useRef({ selectedAgent, selectedLabel, threadId: thread?.thread.threadId, conversationView });
+  liveState.current = { selectedAgent, selectedLabel, threadId: thread?.thread.threadId, conversationView };
+
+  useEffect(() => {
+    if (!selectedGroupId) return;
+    return subscribeToEvents(selectedGroupId, async (type, data) => {
+      const { selectedAgent: agent, selectedLabel: label, threadId, conversationView: conversations } = liveState.current;
+      try {
+        if (type === "message.created" && data.message) {
+          const incoming = data.message;
+          setAllMail(prev => [
+            incoming,
+            ...prev.filter(m => m.threadId !== incoming.threadId || m.messageId !== incoming.messageId)
+          ]);
+          if (threadId === incoming.threadId) {
+            setThread(await api.thread(threadId, agent || undefined));
+          }
+        }
+        if (type === "message.deleted" && data.threadId) {
+          const deleted = new Set(data.messageIds ?? []);
+          setAllMail(prev => prev.filter(m => m.threadId !== data.threadId || !deleted.has(m.messageId)));
+          if (threadId === data.threadId) {
+            setThread(data.threadDeleted ? null : await api.thread(threadId, agent || undefined));
+          }
+        }
+        if (type === "mailbox.restored") {
+          setThread(null);
+          await refreshAllMail(selectedGroupId);
+          if (agent) await refreshDrafts(selectedGroupId, agent);
+        }
+        if (
+          type === "message.created" ||
+          type === "message.read" ||
+          type === "message.unread" ||
+          type === "message.deleted" ||
+          type === "mailbox.restored"
+        ) {
+          if (agent) {
+            await refreshInbox(selectedGroupId, agent, label);
+            await refreshLabels(selectedGroupId, agent);
+          }
+          if (conversations) {
+            await refreshConversations(selectedGroupId, agent);
+          }
+        }
+      } catch (err) {
+        setError((err as Error).message);
+      }
+    });
+  }, [selectedGroupId]);
 
   const agents = useMemo(() => {
     const group = groups.find(g => g.id === selectedGroupId);
     return group?.agents ?? [];
   }, [groups, selectedGroupId]);
 
-  async function handleSelectMessage(msg: Message) {
+  const profiles = useMemo(() => {
+    const group = groups.find(g => g.id === selectedGroupId);
+    return new Map((group?.profiles ?? []).map(p => [p.agentAddress, p]));
+  }, [groups, selectedGroupId]);
+
+  // Reloading starts again from the newest page; a null label lists everything the agent received
+  async function refreshInbox(groupId: string, agent: string, label: string | null) {
+    const page = await api.inboxByAgent(groupId, agent, label);
+    setMessages(page.items);
+    setInboxCursor(page.nextCursor);
+  }
+
+  async function refreshLabels(groupId: string, agent: string) {
+    setLabels(await api.listLabels(groupId, agent));
+  }
+
+  async function refreshAllMail(groupId: string) {
+    const page = await api.inboxGroup(groupId);
+    setAllMail(page.items);
+    setAllMailCursor(page.nextCursor);
+  }
+
+  async function refreshConversations(groupId: string, agent: string) {
+    const [mine, all] = await Promise.all([
+      agent ? api.threads(groupId, { participant: agent, agentAddress: agent }) : Promise.resolve([]),
+      api.threads(groupId, { agentAddress: agent || undefined })
+    ]);
+    setInboxThreads(mine);
+    setAllThreads(all);
+  }
+
+  async function refreshDrafts(groupId: string, agent: string) {
+    setDrafts(await api.listDrafts(groupId, agent));
+  }
+
+  async function loadMore(list: "inbox" | "allMail") {
+    const cursor = list === "inbox" ? inboxCursor : allMailCursor;
+    if (!cursor || loadingMore.current) return;
+    loadingMore.current = true;
+    try {
+      if (list === "inbox") {
+        const page = await api.inboxByAgent(selectedGroupId, selectedAgent, selectedLabel, cursor);
+        setMessages(prev => appendUnique(prev, page.items));
+        setInboxCursor(page.nextCursor);
+      } else {
+        const page = await api.inboxGroup(selectedGroupId, cursor);
+        setAllMail(prev => appendUnique(prev, page.items));
+        setAllMailCursor(page.nextCursor);
+      }
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      loadingMore.current = false;
+    }
+  }
+
+  function handleListScroll(list: "inbox" | "allMail") {
+    return (e: UIEvent<HTMLDivElement>) => {
+      if (isNearBottom(e.currentTarget)) loadMore(list);
+    };
+  }
+
+  function handleSelectMessage(msg: Message) {
+    return handleSelectThread(msg.threadId);
+  }
+
+  async function handleSelectThread(threadId: string) {
     try {
       setLoading("Loading thread...");
-      const data = await api.thread(msg.threadId);
+      const data = await api.thread(threadId, selectedAgent || undefined);
       setThread(data);
+      setReplyDraftId(null);
+      reset();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function handleSearch() {
+    if (!selectedGroupId) return setError("Select a group first");
+    if (!searchQuery.trim()) {
+      setSearchResults(null);
+      return;
+    }
+    try {
+      setLoading("Searching...");
+      const results = await api.search(selectedGroupId, searchQuery.trim());
+      setSearchResults(results);
       reset();
     } catch (err) {
       setError((err as Error).message);
     }
   }
 
+  function clearSearch() {
+    setSearchQuery("");
+    setSearchResults(null);
+  }
+
   async function handleSendNew() {
     if (!selectedGroupId) return setError("Select a group first");
     if (!selectedAgent) return setError("Select an agent to send from");
     if (!newEmail.to || !newEmail.body) return setError("To and body are required");
     try {
       setLoading("Sending...");
-      await api.writeEmail({
-        groupId: selectedGroupId,
-        from: selectedAgent,
-        to: newEmail.to.split(",").map(t => t.trim()).filter(Boolean),
-        subject: newEmail.subject || "No subject",
-        body: newEmail.body
-      });
-      setNewEmail({ to: "", subject: "", body: "" });
+      if (newDraftId) {
+        await api.updateDraft(newDraftId, newDraftFields());
+        await api.sendDraft(newDraftId);
+        setNewDraftId(null);
+        await refreshDrafts(selectedGroupId, selectedAgent);
+      } else {
+        await api.writeEmail({
+          groupId: selectedGroupId,
+          from: selectedAgent,
+          to: splitAddresses(newEmail.to),
+          cc: splitAddresses(newEmail.cc),
+          bcc: splitAddresses(newEmail.bcc),
+          subject: newEmail.subject || "No subject",
+          body: newEmail.body
+        });
+      }
+      setNewEmail({ to: "", cc: "", bcc: "", subject: "", body: "" });
       reset();
       if (selectedAgent) {
-        const refreshed = await api.inboxByAgent(selectedGroupId, selectedAgent);
-        setMessages(refreshed);
+        await refreshInbox(selectedGroupId, selectedAgent, selectedLabel);
+      }
+      await refreshAllMail(selectedGroupId);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  function newDraftFields() {
+    return {
+      to: splitAddresses(newEmail.to),
+      cc: splitAddresses(newEmail.cc),
+      bcc: splitAddresses(newEmail.bcc),
+      subject: newEmail.subject || "No subject",
+      body: newEmail.body
+    };
+  }
+
+  async function handleSaveNewDraft() {
+    if (!selectedGroupId) return setError("Select a group first");
+    if (!selectedAgent) return setError("Select an agent to save a draft for");
+    try {
+      setLoading("Saving draft...");
+      if (newDraftId) {
+        await api.updateDraft(newDraftId, newDraftFields());
+      } else {
+        const draft = await api.createDraft({ groupId: selectedGroupId, from: selectedAgent, ...newDraftFields() });
+        setNewDraftId(draft.draftId);
       }
-      const groupMail = await api.inboxGroup(selectedGroupId);
-      setAllMail(groupMail);
+      await refreshDrafts(selectedGroupId, selectedAgent);
+      reset();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  // A reply draft's kind is fixed, so switching between reply and reply-all replaces it
+  async function saveReplyDraft(): Promise<string> {
+    const existing = drafts.find(d => d.draftId === replyDraftId);
+    if (existing && existing.kind === replyMode) {
+      await api.updateDraft(existing.draftId, { body: replyBody });
+      return existing.draftId;
+    }
+    if (existing) {
+      await api.deleteDraft(existing.draftId);
+    }
+    const draft = await api.createDraft({
+      groupId: selectedGroupId,
+      from: selectedAgent,
+      kind: replyMode,
+      threadId: thread!.thread.threadId,
+      body: replyBody
+    });
+    setReplyDraftId(draft.draftId);
+    return draft.draftId;
+  }
+
+  async function handleSaveReplyDraft() {
+    if (!thread) return;
+    if (!selectedAgent) return setError("Select an agent to save a draft for");
+    try {
+      setLoading("Saving draft...");
+      await saveReplyDraft();
+      await refreshDrafts(selectedGroupId, selectedAgent);
+      reset();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function handleOpenDraft(draft: Draft) {
+    if (draft.kind === "new") {
+      setNewDraftId(draft.draftId);
+      setNewEmail({
+        to: draft.to.join(", "),
+        cc: draft.cc.join(", "),
+        bcc: draft.bcc.join(", "),
+        subject: draft.subject ?? "",
+        body: draft.body
+      });
+      return;
+    }
+    await handleSelectThread(draft.threadId!);
+    setReplyDraftId(draft.draftId);
+    setReplyMode(draft.kind);
+    setReplyBody(draft.body);
+  }
+
+  async function handleDeleteDraft(draft: Draft) {
+    try {
+      await api.deleteDraft(draft.draftId);
+      if (draft.draftId === newDraftId) setNewDraftId(null);
+      if (draft.draftId === replyDraftId) setReplyDraftId(null);
+      await refreshDrafts(selectedGroupId, selectedAgent);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function handleToggleLabel(msg: Message, label: string) {
+    if (!thread || !selectedAgent) return;
+    const applied = msg.labels?.includes(label) ?? false;
+    try {
+      await api.updateLabels({
+        threadId: msg.threadId,
+        messageId: msg.messageId,
+        agentAddress: selectedAgent,
+        ...(applied ? { remove: [label] } : { add: [label] })
+      });
+      setThread(await api.thread(thread.thread.threadId, selectedAgent));
+      await refreshInbox(selectedGroupId, selectedAgent, selectedLabel);
+      await refreshLabels(selectedGroupId, selectedAgent);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function handleForward(msg: Message) {
+    const sender = selectedAgent;
+    if (!sender) return setError("Select an agent to send from");
+    const to = window.prompt("Forward to (comma separated):");
+    if (!to || splitAddresses(to).length === 0) return;
+    const note = window.prompt("Add a note (optional):") ?? "";
+    try {
+      setLoading("Forwarding...");
+      const sent = await api.forwardEmail({
+        threadId: msg.threadId,
+        messageId: msg.messageId,
+        from: sender,
+        to: splitAddresses(to),
+        note: note || undefined
+      });
+      setThread(await api.thread(sent.threadId, sender));
+      await refreshAllMail(selectedGroupId);
+      reset();
     } catch (err) {
       setError((err as Error).message);
     }
@@ -141,24 +519,34 @@ export default function App() {
     };
     try {
       setLoading("Sending reply...");
-      if (target === "reply-all") {
+      if (replyDraftId) {
+        await api.sendDraft(await saveReplyDraft());
+        setReplyDraftId(null);
+        await refreshDrafts(selectedGroupId, sender);
+      } else if (target === "reply-all") {
         await api.replyAll(payload);
       } else {
         await api.replyEmail(payload);
       }
       setReplyBody("");
-      const updated = await api.thread(thread.thread.threadId);
+      const updated = await api.thread(thread.thread.threadId, sender);
       setThread(updated);
-      const groupMail = await api.inboxGroup(selectedGroupId);
-      setAllMail(groupMail);
+      await refreshAllMail(selectedGroupId);
       reset();
     } catch (err) {
       setError((err as Error).message);
     }
   }
 
+  if (needsLogin) {
+    return <Login onLogin={() => setNeedsLogin(false)} />;
+  }
+
   if (showSettings) {
-    return <Settings onBack={() => setShowSettings(false)} />;
+    return <Settings onBack={() => setShowSettings(false)} onSignOut={() => {
+      setShowSettings(false);
+      setNeedsLogin(true);
+    }} />;
   }
 
   return (
@@ -178,17 +566,75 @@ export default function App() {
               <h3 className="section-title">Agents</h3>
               <div className="list">
                 {agents.length === 0 && <div className="muted">No agents</div>}
-                {agents.map(agent => (
+                {agents.map(agent => {
+                  const profile = profiles.get(agent);
+                  return (
+                    <button
+                      key={agent}
+                      title={profile?.description ?? undefined}
+                      onClick={() => {
+                        setSelectedAgent(agent);
+                        setSelectedLabel(null);
+                        setThread(null);
+                      }}
+                      style={{ background: selectedAgent === agent ? "#000" : undefined, color: selectedAgent === agent ? "#fff" : undefined }}
+                    >
+                      {agent}
+                      {profile?.displayName && <span> ({profile.displayName})</span>}
+                      {profile?.role && <div className="agent-role">{profile.role}</div>}
+                      {profile?.description && <div className="agent-role">{profile.description}</div>}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+            {selectedAgent && (
+              <div>
+                <h3 className="section-title">Folders</h3>
+                <div className="list">
                   <button
-                    key={agent}
-                    onClick={() => {
-                      setSelectedAgent(agent);
-                      setThread(null);
-                    }}
-                    style={{ background: selectedAgent === agent ? "#000" : undefined, color: selectedAgent === agent ? "#fff" : undefined }}
+                    onClick={() => setSelectedLabel(null)}
+                    style={{ background: selectedLabel === null ? "#000" : undefined, color: selectedLabel === null ? "#fff" : undefined }}
                   >
-                    {agent}
+                    All received
                   </button>
+                  {labels.map(label => (
+                    <button
+                      key={label.name}
+                      onClick={() => setSelectedLabel(label.name)}
+                      style={{
+                        background: selectedLabel === label.name ? "#000" : undefined,
+                        color: selectedLabel === label.name ? "#fff" : undefined
+                      }}
+                    >
+                      {label.name}
+                      {label.unreadCount > 0 && <span> ({label.unreadCount})</span>}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div>
+              <h3 className="section-title">Drafts</h3>
+              <div className="list">
+                {drafts.length === 0 && <div className="muted">No drafts</div>}
+                {drafts.map(draft => (
+                  <div key={draft.draftId} className="inline">
+                    <button
+                      className="grow"
+                      onClick={() => handleOpenDraft(draft)}
+                      style={{
+                        background: draft.draftId === newDraftId || draft.draftId === replyDraftId ? "#000" : undefined,
+                        color: draft.draftId === newDraftId || draft.draftId === replyDraftId ? "#fff" : undefined
+                      }}
+                    >
+                      {draft.kind === "new" ? draft.subject || "(no subject)" : `${draft.kind === "reply" ? "Reply" : "Reply-all"} draft`}
+                      <div className="agent-role">{draft.body.slice(0, 60) || "(empty)"}</div>
+                    </button>
+                    <button className="chip" title="Discard draft" onClick={() => handleDeleteDraft(draft)}>
+                      ✕
+                    </button>
+                  </div>
                 ))}
               </div>
             </div>
@@ -229,11 +675,59 @@ export default function App() {
                         <div className="inline">
                           <span className="pill">{msg.messageId}</span>
                           <strong>{msg.from}</strong>
-                          <span className="muted">→ {msg.to.join(", ")}</span>
+                          <span className="muted grow">→ {msg.to.join(", ")}</span>
+                          {msg.labels && isParticipant(msg, selectedAgent) && (
+                            <>
+                              <button
+                                className="chip"
+                                title={msg.labels.includes("Starred") ? "Unstar" : "Star"}
+                                onClick={() => handleToggleLabel(msg, "Starred")}
+                              >
+                                {msg.labels.includes("Starred") ? "★" : "☆"}
+                              </button>
+                              <button className="chip" onClick={() => handleToggleLabel(msg, "Archive")}>
+                                {msg.labels.includes("Archive") ? "Move to Inbox" : "Archive"}
+                              </button>
+                              <button className="chip" onClick={() => handleToggleLabel(msg, "Trash")}>
+                                {msg.labels.includes("Trash") ? "Restore" : "Delete"}
+                              </button>
+                            </>
+                          )}
+                          <button className="chip" onClick={() => handleForward(msg)}>Forward</button>
                         </div>
+                        {msg.cc.length > 0 && <div className="muted">Cc: {msg.cc.join(", ")}</div>}
+                        {msg.bcc.length > 0 && <div className="muted">Bcc: {msg.bcc.join(", ")}</div>}
+                        {msg.aliases.map(a => (
+                          <div key={`${a.field}-${a.alias}`} className="muted">
+                            Via {a.alias} ({a.field}): {a.members.join(", ") || "no one"}
+                          </div>
+                        ))}
                         <div className="muted">{formatDate(msg.createdAt)}</div>
+                        {msg.forwardedFrom && (
+                          <button
+                            className="chip"
+                            style={{ alignSelf: "flex-start" }}
+                            onClick={() => handleSelectThread(msg.forwardedFrom!.threadId)}
+                          >
+                            ↪ View original
+                          </button>
+                        )}
                       </div>
                       <div className="message-body">{msg.body}</div>
+                      {msg.attachments.length > 0 && (
+                        <div className="attachments">
+                          {msg.attachments.map(att => (
+                            <button
+                              key={att.attachmentId}
+                              type="button"
+                              className="pill"
+                              onClick={() => downloadAttachment(att.downloadUrl, att.filename).catch(err => setError((err as Error).message))}
+                            >
+                              📎 {att.filename} <span className="muted">({formatSize(att.size)})</span>
+                            </button>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -251,6 +745,9 @@ export default function App() {
                       <option value="reply-all">Reply-all</option>
                     </select>
                     <button onClick={() => handleReply(replyMode)}>Send</button>
+                    <button className="chip" onClick={handleSaveReplyDraft}>
+                      {replyDraftId ? "Update Draft" : "Save Draft"}
+                    </button>
                   </div>
                 </div>
               </div>
@@ -264,6 +761,16 @@ export default function App() {
                   value={newEmail.to}
                   onChange={e => setNewEmail(prev => ({ ...prev, to: e.target.value }))}
                 />
+                <input
+                  placeholder="Cc (comma separated)"
+                  value={newEmail.cc}
+                  onChange={e => setNewEmail(prev => ({ ...prev, cc: e.target.value }))}
+                />
+                <input
+                  placeholder="Bcc (comma separated)"
+                  value={newEmail.bcc}
+                  onChange={e => setNewEmail(prev => ({ ...prev, bcc: e.target.value }))}
+                />
                 <input
                   placeholder="Subject"
                   value={newEmail.subject}
@@ -275,7 +782,12 @@ export default function App() {
                   value={newEmail.body}
                   onChange={e => setNewEmail(prev => ({ ...prev, body: e.target.value }))}
                 />
-                <button onClick={handleSendNew}>Send Email</button>
+                <div className="inline">
+                  <button className="grow" onClick={handleSendNew}>Send Email</button>
+                  <button className="chip" onClick={handleSaveNewDraft}>
+                    {newDraftId ? "Update Draft" : "Save Draft"}
+                  </button>
+                </div>
               </div>
             </div>
           </>
@@ -285,28 +797,40 @@ export default function App() {
         <section className="panel inbox">
         <div className="section-header">
           <h2 className="section-title">Inbox ({selectedAgent || "select an agent"})</h2>
-          <button className="chip" onClick={() => setCollapsed(c => ({ ...c, inbox: !c.inbox }))}>
-            {collapsed.inbox ? "▸" : "▾"}
-          </button>
+          <div className="inline">
+            <button className="chip" onClick={() => setConversationView(v => !v)}>
+              {conversationView ? "Messages" : "Conversations"}
+            </button>
+            <button className="chip" onClick={() => setCollapsed(c => ({ ...c, inbox: !c.inbox }))}>
+              {collapsed.inbox ? "▸" : "▾"}
+            </button>
+          </div>
         </div>
         {!collapsed.inbox && (
           <>
             {status.kind === "error" && <div className="muted">Error: {status.message}</div>}
             {status.kind === "loading" && <div className="muted">{status.label || "Loading..."}</div>}
-            <div className="list">
-              {messages.length === 0 && <div className="muted">No messages</div>}
-              {messages.map(msg => (
-                <button key={`${msg.threadId}-${msg.messageId}`} onClick={() => handleSelectMessage(msg)}>
-                  <div className="inline">
-                    <span className="pill">{msg.messageId}</span>
-                    <span>{msg.subject || "(no subject)"}</span>
-                  </div>
-                  <div className="muted">
-                    From: {msg.from} · {formatDate(msg.createdAt)}
-                  </div>
-                </button>
-              ))}
-            </div>
+            {conversationView ? (
+              <div className="list scroll">
+                <ConversationList threads={inboxThreads} onSelect={handleSelectThread} />
+              </div>
+            ) : (
+              <div className="list scroll" onScroll={handleListScroll("inbox")}>
+                {messages.length === 0 && <div className="muted">No messages</div>}
+                {messages.map(msg => (
+                  <button key={messageKey(msg)} onClick={() => handleSelectMessage(msg)}>
+                    <div className="inline">
+                      <span className="pill">{msg.messageId}</span>
+                      <span>{msg.subject || "(no subject)"}</span>
+                    </div>
+                    <div className="muted">
+                      From: {msg.from} · {formatDate(msg.createdAt)}
+                    </div>
+                  </button>
+                ))}
+                {inboxCursor && <button className="chip" onClick={() => loadMore("inbox")}>Load older</button>}
+              </div>
+            )}
           </>
         )}
       </section>
@@ -319,20 +843,58 @@ export default function App() {
           </button>
         </div>
         {!collapsed.allMail && (
-          <div className="list">
-            {allMail.length === 0 && <div className="muted">No messages</div>}
-            {allMail.map(msg => (
-              <button key={`${msg.threadId}-${msg.messageId}-all`} onClick={() => handleSelectMessage(msg)}>
-                <div className="inline">
-                  <span className="pill">{msg.messageId}</span>
-                  <span>{msg.subject || "(no subject)"}</span>
-                </div>
-                <div className="muted">
-                  From: {msg.from} → {msg.to.join(", ")} · {formatDate(msg.createdAt)}
-                </div>
-              </button>
-            ))}
-          </div>
+          <>
+            <div className="inline search-bar">
+              <input
+                className="grow"
+                placeholder="Search mail..."
+                value={searchQuery}
+                onChange={e => setSearchQuery(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === "Enter") handleSearch();
+                }}
+              />
+              <button onClick={handleSearch}>Search</button>
+              {searchResults && <button onClick={clearSearch}>Clear</button>}
+            </div>
+            {searchResults ? (
+              <div className="list">
+                {searchResults.length === 0 && <div className="muted">No matches</div>}
+                {searchResults.map(result => (
+                  <button key={`${result.threadId}-${result.messageId}-search`} onClick={() => handleSelectMessage(result)}>
+                    <div className="inline">
+                      <span className="pill">{result.messageId}</span>
+                      <span>{result.subjectHighlight ? renderHighlighted(result.subjectHighlight) : "(no subject)"}</span>
+                    </div>
+                    <div className="message-body">{renderHighlighted(result.snippet)}</div>
+                    <div className="muted">
+                      From: {result.from} → {result.to.join(", ")} · {formatDate(result.createdAt)}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            ) : conversationView ? (
+              <div className="list scroll">
+                <ConversationList threads={allThreads} onSelect={handleSelectThread} />
+              </div>
+            ) : (
+              <div className="list scroll" onScroll={handleListScroll("allMail")}>
+                {allMail.length === 0 && <div className="muted">No messages</div>}
+                {allMail.map(msg => (
+                  <button key={`${messageKey(msg)}-all`} onClick={() => handleSelectMessage(msg)}>
+                    <div className="inline">
+                      <span className="pill">{msg.messageId}</span>
+                      <span>{msg.subject || "(no subject)"}</span>
+                    </div>
+                    <div className="muted">
+                      From: {msg.from} → {msg.to.join(", ")} · {formatDate(msg.createdAt)}
+                    </div>
+                  </button>
+                ))}
+                {allMailCursor && <button className="chip" onClick={() => loadMore("allMail")}>Load older</button>}
+              </div>
+            )}
+          </>
         )}
         </section>
       </div>
@@ -0,0 +1,57 @@
+import { FormEvent, useState } from "react";
+import "./styles.css";
+import { api, setAdminToken } from "./api";
+
+type LoginProps = {
+  onLogin: () => void;
+};
+
+// Shown when the server has auth on. The UI manages every group, so it needs an admin token, not an agent's.
+export default function Login({ onLogin }: LoginProps) {
+  const [token, setToken] = useState("");
+  const [error, setError] = useState("");
+  const [checking, setChecking] = useState(false);
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    if (!token.trim()) return;
+    setChecking(true);
+    try {
+      const me = await api.whoAmI(token.trim());
+      if (me.role !== "admin") {
+        setError(`That token belongs to ${me.agentAddress} in ${me.groupId}. Sign in with an admin token.`);
+        return;
+      }
+      setAdminToken(token.trim());
+      onLogin();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setChecking(false);
+    }
+  }
+
+  return (
+    <div className="app">
+      <section className="panel" style={{ maxWidth: "420px", margin: "0 auto" }}>
+        <h2 className="section-title">Admin Login</h2>
+        <p className="muted" style={{ lineHeight: "1.6" }}>
+          This server requires a token. Enter one of the admin tokens set in ADMIN_TOKEN or ADMIN_TOKENS.
+        </p>
+        <form className="stack" onSubmit={handleSubmit}>
+          <input
+            type="password"
+            placeholder="Admin token"
+            value={token}
+            onChange={e => setToken(e.target.value)}
+            autoFocus
+          />
+          <button type="submit" disabled={checking}>
+            {checking ? "Checking..." : "Sign in"}
+          </button>
+          {error && <div className="muted" style={{ color: "#c53030" }}>{error}</div>}
+        </form>
+      </section>
+    </div>
+  );
+}
@@ -1,22 +1,170 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import "./styles.css";
-import { api } from "./api";
+import { api, getAdminToken, setAdminToken } from "./api";
+import { Alias, Group, Snapshot } from "./types";
 
 type SettingsProps = {
   onBack: () => void;
+  onSignOut: () => void;
 };
 
-export default function Settings({ onBack }: SettingsProps) {
+export default function Settings({ onBack, onSignOut }: SettingsProps) {
   const [status, setStatus] = useState<string>("");
   const [isResetting, setIsResetting] = useState(false);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [manageStatus, setManageStatus] = useState<string>("");
+  const [newGroupId, setNewGroupId] = useState("");
+  const [newAgents, setNewAgents] = useState<Record<string, string>>({});
+  const [aliases, setAliases] = useState<Record<string, Alias[]>>({});
+  const [newAliases, setNewAliases] = useState<Record<string, { name: string; members: string }>>({});
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [newSnapshot, setNewSnapshot] = useState({ name: "", groupId: "" });
+  const [snapshotStatus, setSnapshotStatus] = useState<string>("");
 
-  async function handleReset() {
+  async function loadGroups() {
+    const data = await api.listGroups();
+    const aliasLists = await Promise.all(data.map(g => api.listAliases(g.id)));
+    setGroups(data);
+    setAliases(Object.fromEntries(data.map((g, i) => [g.id, aliasLists[i]])));
+  }
+
+  useEffect(() => {
+    loadGroups().catch(err => setManageStatus(`✗ Error: ${(err as Error).message}`));
+    api.listSnapshots().then(setSnapshots).catch(err => setSnapshotStatus(`✗ ${(err as Error).message}`));
+  }, []);
+
+  // Runs a management call, then refreshes the group list so the panel reflects the server state
+  async function manage(action: () => Promise<unknown>, success: string) {
+    try {
+      await action();
+      await loadGroups();
+      setManageStatus(`✓ ${success}`);
+    } catch (err) {
+      setManageStatus(`✗ Error: ${(err as Error).message}`);
+    }
+  }
+
+  // Restoring can change groups as well as mail, so both lists are reloaded
+  async function manageSnapshots(action: () => Promise<unknown>, success: string) {
+    try {
+      await action();
+      setSnapshots(await api.listSnapshots());
+      await loadGroups();
+      setSnapshotStatus(`✓ ${success}`);
+    } catch (err) {
+      setSnapshotStatus(`✗ Error: ${(err as Error).message}`);
+    }
+  }
+
+  function handleCreateSnapshot() {
+    const { name, groupId } = newSnapshot;
+    if (!name.trim()) return;
+    manageSnapshots(async () => {
+      await api.createSnapshot(name.trim(), groupId || undefined);
+      setNewSnapshot({ name: "", groupId: "" });
+    }, `Saved snapshot ${name.trim()}`);
+  }
+
+  function handleRestoreSnapshot(snapshot: Snapshot) {
+    const scope = snapshot.groupId ?? "every group";
+    if (!window.confirm(`Replace ${scope} with snapshot ${snapshot.name}? Mail sent since it was taken is lost.`)) return;
+    manageSnapshots(() => api.restoreSnapshot(snapshot.name), `Restored ${snapshot.name}`);
+  }
+
+  function handleDeleteSnapshot(name: string) {
+    if (!window.confirm(`Delete snapshot ${name}?`)) return;
+    manageSnapshots(() => api.deleteSnapshot(name), `Deleted snapshot ${name}`);
+  }
+
+  function splitMembers(raw: string) {
+    return raw.split(",").map(m => m.trim()).filter(Boolean);
+  }
+
+  function handleCreateAlias(groupId: string) {
+    const draft = newAliases[groupId];
+    if (!draft?.name.trim()) return;
+    const name = draft.name.trim();
+    manage(() => api.createAlias(groupId, name, splitMembers(draft.members)), `Created alias ${name}`).then(() =>
+      setNewAliases(current => ({ ...current, [groupId]: { name: "", members: "" } }))
+    );
+  }
+
+  function handleEditAlias(groupId: string, alias: Alias) {
+    const next = window.prompt(`Members of ${alias.name} (comma separated):`, alias.members.join(", "));
+    if (next === null) return;
+    manage(() => api.updateAlias(groupId, alias.name, splitMembers(next)), `Updated alias ${alias.name}`);
+  }
+
+  function handleDeleteAlias(groupId: string, name: string) {
+    if (!window.confirm(`Delete alias ${name}? Messages already sent to it are kept.`)) return;
+    manage(() => api.deleteAlias(groupId, name), `Deleted alias ${name}`);
+  }
+
+  function handleCreateGroup() {
+    const raw = newGroupId.trim();
+    if (!raw) return;
+    const groupId = raw.startsWith("@") ? raw : `@${raw}`;
+    manage(() => api.createGroup(groupId), `Created ${groupId}`).then(() => setNewGroupId(""));
+  }
+
+  function handleRenameGroup(groupId: string) {
+    const next = window.prompt(`Rename ${groupId} to:`, groupId);
+    if (!next || next === groupId) return;
+    manage(() => api.renameGroup(groupId, next), `Renamed ${groupId} to ${next}`);
+  }
+
+  function handleDeleteGroup(groupId: string) {
+    if (!window.confirm(`Delete ${groupId} and all of its threads and messages? This cannot be undone.`)) return;
+    manage(() => api.deleteGroup(groupId), `Deleted ${groupId}`);
+  }
+
+  function handleAddAgent(groupId: string) {
+    const agent = (newAgents[groupId] || "").trim();
+    if (!agent) return;
+    manage(() => api.addAgent(groupId, agent), `Added ${agent} to ${groupId}`).then(() =>
+      setNewAgents(current => ({ ...current, [groupId]: "" }))
+    );
+  }
+
+  function handleRenameAgent(groupId: string, agent: string) {
+    const next = window.prompt(`Rename ${agent} to:`, agent);
+    if (!next || next === agent) return;
+    manage(() => api.renameAgent(groupId, agent, next), `Renamed ${agent} to ${next}`);
+  }
+
+  function handleRemoveAgent(groupId: string, agent: string) {
+    if (!window.confirm(`Remove ${agent} from ${groupId}? Existing mail is kept.`)) return;
+    manage(() => api.removeAgent(groupId, agent), `Removed ${agent} from ${groupId}`);
+  }
+
+  function handleResetGroup(groupId: string) {
+    if (!window.confirm(`Delete every thread and message in ${groupId}? Agents and aliases are kept.`)) return;
+    manage(() => api.resetGroup(groupId), `Deleted all mail in ${groupId}`);
+  }
+
+  const RESET_OPTIONS = {
+    mail: {
+      options: { keepAgents: true },
+      warning: "all threads, messages, drafts and scheduled mail. Groups, agents and aliases are kept",
+      done: "All mail deleted"
+    },
+    config: {
+      options: { useConfigFile: true },
+      warning: "all groups, threads and messages, then recreate the groups from the saved setup configuration",
+      done: "Database reset to the saved configuration"
+    },
+    all: {
+      options: {},
+      warning: "all groups, threads and messages",
+      done: "Database reset. Create a group above to start again"
+    }
+  } as const;
+
+  async function handleReset(kind: keyof typeof RESET_OPTIONS) {
+    const { options, warning, done } = RESET_OPTIONS[kind];
     const confirmed = window.confirm(
       "⚠️ ARE YOU SURE?\n\n" +
-      "This will permanently delete:\n" +
-      "• All groups\n" +
-      "• All email threads\n" +
-      "• All messages\n\n" +
+      `This will permanently delete ${warning}.\n\n` +
       "This action CANNOT be undone!\n\n" +
       "Click OK to proceed with the reset."
     );
@@ -26,8 +174,9 @@ export default function Settings({ onBack }: SettingsProps) {
     try {
       setIsResetting(true);
       setStatus("Resetting database...");
-      await api.resetDatabase();
-      setStatus("✓ Database reset successfully. Please restart the server to run the wizard again.");
+      await api.resetDatabase(options);
+      await loadGroups();
+      setStatus(`✓ ${done}.`);
     } catch (err) {
       setStatus(`✗ Error: ${(err as Error).message}`);
     } finally {
@@ -42,7 +191,18 @@ export default function Settings({ onBack }: SettingsProps) {
           <button onClick={onBack} style={{ padding: "8px 16px" }}>
             ← Back
           </button>
-          <h2 className="section-title" style={{ margin: 0 }}>Settings</h2>
+          <h2 className="section-title" style={{ margin: 0, flex: 1 }}>Settings</h2>
+          {getAdminToken() && (
+            <button
+              style={{ padding: "8px 16px" }}
+              onClick={() => {
+                setAdminToken(null);
+                onSignOut();
+              }}
+            >
+              Sign out
+            </button>
+          )}
         </div>
 
         <div className="stack" style={{ gap: "20px" }}>
@@ -53,6 +213,127 @@ export default function Settings({ onBack }: SettingsProps) {
             </p>
           </div>
 
+          <div>
+            <h3 className="section-title">Groups &amp; Agents</h3>
+            <div className="stack" style={{ gap: "16px" }}>
+              {groups.map(group => (
+                <div key={group.id} className="message-card stack">
+                  <div className="inline">
+                    <strong className="grow">{group.id}</strong>
+                    <button className="chip" onClick={() => handleRenameGroup(group.id)}>Rename</button>
+                    <button className="chip" onClick={() => handleResetGroup(group.id)}>Clear mail</button>
+                    <button className="chip" onClick={() => handleDeleteGroup(group.id)}>Delete</button>
+                  </div>
+                  {group.agents.length === 0 && <div className="muted">No agents yet.</div>}
+                  {group.agents.map(agent => (
+                    <div key={agent} className="inline">
+                      <span className="grow">{agent}</span>
+                      <button className="chip" onClick={() => handleRenameAgent(group.id, agent)}>Rename</button>
+                      <button className="chip" onClick={() => handleRemoveAgent(group.id, agent)}>Remove</button>
+                    </div>
+                  ))}
+                  <div className="inline">
+                    <input
+                      className="grow"
+                      placeholder="New agent handle"
+                      value={newAgents[group.id] || ""}
+                      onChange={e => setNewAgents(current => ({ ...current, [group.id]: e.target.value }))}
+                      onKeyDown={e => e.key === "Enter" && handleAddAgent(group.id)}
+                    />
+                    <button onClick={() => handleAddAgent(group.id)}>Add</button>
+                  </div>
+                  <div className="muted">Aliases</div>
+                  {(aliases[group.id] ?? []).map(alias => (
+                    <div key={alias.name} className="inline">
+                      <span className="grow">
+                        {alias.name} <span className="muted">→ {alias.members.join(", ")}</span>
+                      </span>
+                      <button className="chip" onClick={() => handleEditAlias(group.id, alias)}>Edit</button>
+                      <button className="chip" onClick={() => handleDeleteAlias(group.id, alias.name)}>Delete</button>
+                    </div>
+                  ))}
+                  <div className="inline">
+                    <input
+                      placeholder="Alias (e.g. eng)"
+                      value={newAliases[group.id]?.name ?? ""}
+                      onChange={e =>
+                        setNewAliases(current => ({
+                          ...current,
+                          [group.id]: { name: e.target.value, members: current[group.id]?.members ?? "" }
+                        }))
+                      }
+                    />
+                    <input
+                      className="grow"
+                      placeholder="Members (comma separated)"
+                      value={newAliases[group.id]?.members ?? ""}
+                      onChange={e =>
+                        setNewAliases(current => ({
+                          ...current,
+                          [group.id]: { name: current[group.id]?.name ?? "", members: e.target.value }
+                        }))
+                      }
+                      onKeyDown={e => e.key === "Enter" && handleCreateAlias(group.id)}
+                    />
+                    <button onClick={() => handleCreateAlias(group.id)}>Add</button>
+                  </div>
+                </div>
+              ))}
+              <div className="inline">
+                <input
+                  className="grow"
+                  placeholder="New group ID (e.g. @team)"
+                  value={newGroupId}
+                  onChange={e => setNewGroupId(e.target.value)}
+                  onKeyDown={e => e.key === "Enter" && handleCreateGroup()}
+                />
+                <button onClick={handleCreateGroup}>Create group</button>
+              </div>
+              {manageStatus && <div className="muted">{manageStatus}</div>}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="section-title">Snapshots</h3>
+            <p className="muted" style={{ lineHeight: "1.6" }}>
+              Save the mailbox to rerun a workflow from the same starting point later.
+            </p>
+            <div className="stack">
+              {snapshots.map(snapshot => (
+                <div key={snapshot.name} className="inline">
+                  <span className="grow">
+                    {snapshot.name}{" "}
+                    <span className="muted">
+                      {snapshot.groupId ?? "all groups"} · {new Date(snapshot.createdAt).toLocaleString()}
+                    </span>
+                  </span>
+                  <button className="chip" onClick={() => handleRestoreSnapshot(snapshot)}>Restore</button>
+                  <button className="chip" onClick={() => handleDeleteSnapshot(snapshot.name)}>Delete</button>
+                </div>
+              ))}
+              <div className="inline">
+                <input
+                  className="grow"
+                  placeholder="Snapshot name"
+                  value={newSnapshot.name}
+                  onChange={e => setNewSnapshot(current => ({ ...current, name: e.target.value }))}
+                  onKeyDown={e => e.key === "Enter" && handleCreateSnapshot()}
+                />
+                <select
+                  value={newSnapshot.groupId}
+                  onChange={e => setNewSnapshot(current => ({ ...current, groupId: e.target.value }))}
+                >
+                  <option value="">All groups</option>
+                  {groups.map(group => (
+                    <option key={group.id} value={group.id}>{group.id}</option>
+                  ))}
+                </select>
+                <button onClick={handleCreateSnapshot}>Save</button>
+              </div>
+              {snapshotStatus && <div className="muted">{snapshotStatus}</div>}
+            </div>
+          </div>
+
           <div style={{
             background: "#fff5f5",
             border: "2px solid #fed7d7",
@@ -63,26 +344,35 @@ export default function Settings({ onBack }: SettingsProps) {
               ⚠️ Danger Zone
             </h3>
             <p className="muted" style={{ marginBottom: "16px", lineHeight: "1.6", color: "#742a2a" }}>
-              <strong>Reset Database:</strong> This will permanently delete all groups, threads, and messages.
-              You will need to restart the server to run the initialization wizard again.
+              <strong>Reset Database:</strong> Delete all mail and keep your agents, start over from the configuration
+              saved by the setup wizard, or delete everything. The server keeps running.
             </p>
-            <button
-              onClick={handleReset}
-              disabled={isResetting}
-              style={{
-                background: "#e53e3e",
-                color: "white",
-                width: "100%",
-                padding: "12px",
-                fontWeight: "600",
-                border: "none",
-                borderRadius: "6px",
-                cursor: isResetting ? "not-allowed" : "pointer",
-                opacity: isResetting ? 0.6 : 1
-              }}
-            >
-              {isResetting ? "Resetting..." : "Reset Database"}
-            </button>
+            <div className="stack">
+              {([
+                ["mail", "Delete All Mail"],
+                ["config", "Reset to Saved Configuration"],
+                ["all", "Reset Everything"]
+              ] as const).map(([kind, label]) => (
+                <button
+                  key={kind}
+                  onClick={() => handleReset(kind)}
+                  disabled={isResetting}
+                  style={{
+                    background: "#e53e3e",
+                    color: "white",
+                    width: "100%",
+                    padding: "12px",
+                    fontWeight: "600",
+                    border: "none",
+                    borderRadius: "6px",
+                    cursor: isResetting ? "not-allowed" : "pointer",
+                    opacity: isResetting ? 0.6 : 1
+                  }}
+                >
+                  {isResetting ? "Resetting..." : label}
+                </button>
+              ))}
+            </div>
             {status && (
               <div
                 style={{
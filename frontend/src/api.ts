@@ -1,16 +1,59 @@
-import { ApiResponse, Group, Message, ThreadWithMessages } from "./types";
+import {
+  Alias,
+  ApiResponse,
+  Draft,
+  DraftKind,
+  Group,
+  LabelSummary,
+  MailEventPayload,
+  MailEventType,
+  Message,
+  Page,
+  SearchResult,
+  Snapshot,
+  ThreadSummary,
+  ThreadWithMessages,
+  WhoAmI
+} from "./types";
 
 const API_BASE = import.meta.env.VITE_API_BASE || "/api";
+const ADMIN_TOKEN_KEY = "ses.adminToken";
 
-async function getJson<T>(path: string, init?: RequestInit): Promise<T> {
+// Thrown when the server has auth on and the stored admin token is missing or no longer valid
+export class AuthRequiredError extends Error {}
+
+export function getAdminToken(): string | null {
+  return localStorage.getItem(ADMIN_TOKEN_KEY);
+}
+
+export function setAdminToken(token: string | null) {
+  if (token) {
+    localStorage.setItem(ADMIN_TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(ADMIN_TOKEN_KEY);
+  }
+}
+
+// EventSource cannot send headers, so the event stream carries the token in the URL
+function withToken(url: string) {
+  const token = getAdminToken();
+  return token ? `${url}${url.includes("?") ? "&" : "?"}token=${encodeURIComponent(token)}` : url;
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<ApiResponse<T>> {
+  const token = getAdminToken();
   const res = await fetch(`${API_BASE}${path}`, {
     ...init,
     headers: {
       "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
       ...(init?.headers || {})
     }
   });
   const json = (await res.json()) as ApiResponse<T>;
+  if (res.status === 401) {
+    throw new AuthRequiredError(json.message || "Authentication required");
+  }
   if (!res.ok || json.success === false) {
     const msg = json.message || `Request failed with status ${res.status}`;
     throw new Error(msg);
@@ -18,20 +61,96 @@ async function getJson<T>(path: string, init?: RequestInit): Promise<T> {
   if (json.data === undefined) {
     throw new Error("Malformed response");
   }
-  return json.data;
+  return json;
+}
+
+async function getJson<T>(path: string, init?: RequestInit): Promise<T> {
+  return (await request<T>(path, init)).data as T;
+}
+
+async function getPage<T>(path: string): Promise<Page<T>> {
+  const json = await request<T[]>(path);
+  return {
+    items: json.data as T[],
+    nextCursor: json.nextCursor ?? null,
+    prevCursor: json.prevCursor ?? null
+  };
+}
+
+function cursorParam(cursor?: string | null) {
+  return cursor ? `&cursor=${encodeURIComponent(cursor)}` : "";
+}
+
+// Fetched with the token in a header rather than linked to, which would put the token in the URL
+export async function downloadAttachment(downloadUrl: string, filename: string) {
+  const token = getAdminToken();
+  const res = await fetch(`${API_BASE}${downloadUrl}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {}
+  });
+  if (res.status === 401) {
+    throw new AuthRequiredError("Authentication required");
+  }
+  if (!res.ok) {
+    throw new Error(`Download failed with status ${res.status}`);
+  }
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function subscribeToEvents(
+  groupId: string,
+  onEvent: (type: MailEventType, data: MailEventPayload) => void
+): () => void {
+  const source = new EventSource(withToken(`${API_BASE}/events?groupId=${encodeURIComponent(groupId)}`));
+  const types: MailEventType[] = [
+    "thread.created",
+    "message.created",
+    "message.read",
+    "message.unread",
+    "message.deleted",
+    "mailbox.restored"
+  ];
+  types.forEach(type =>
+    source.addEventListener(type, evt => onEvent(type, JSON.parse((evt as MessageEvent).data)))
+  );
+  return () => source.close();
 }
 
 export const api = {
+  // Checks a token before it is stored; the token is sent explicitly since it is not saved yet
+  whoAmI: (token: string) =>
+    getJson<WhoAmI>("/auth/me", { headers: { Authorization: `Bearer ${token}` } }),
   listGroups: () => getJson<Group[]>("/groups"),
-  inboxByAgent: (groupId: string, agent: string, limit = 100) =>
-    getJson<Message[]>(`/inbox?groupId=${encodeURIComponent(groupId)}&agentAddress=${encodeURIComponent(agent)}&limit=${limit}`),
-  inboxGroup: (groupId: string, limit = 100) =>
-    getJson<Message[]>(`/inbox?groupId=${encodeURIComponent(groupId)}&limit=${limit}`),
-  thread: (threadId: string) => getJson<ThreadWithMessages>(`/threads/${encodeURIComponent(threadId)}`),
+  inboxByAgent: (groupId: string, agent: string, label?: string | null, cursor?: string | null, limit = 50) =>
+    getPage<Message>(
+      `/inbox?groupId=${encodeURIComponent(groupId)}&agentAddress=${encodeURIComponent(agent)}&limit=${limit}` +
+        `${label ? `&label=${encodeURIComponent(label)}` : ""}${cursorParam(cursor)}`
+    ),
+  inboxGroup: (groupId: string, cursor?: string | null, limit = 50) =>
+    getPage<Message>(`/inbox?groupId=${encodeURIComponent(groupId)}&limit=${limit}${cursorParam(cursor)}`),
+  search: (groupId: string, q: string, limit = 50) =>
+    getJson<SearchResult[]>(`/search?groupId=${encodeURIComponent(groupId)}&q=${encodeURIComponent(q)}&limit=${limit}`),
+  threads: (groupId: string, filters: { participant?: string; agentAddress?: string } = {}) => {
+    const params = new URLSearchParams({ groupId });
+    if (filters.participant) params.set("participant", filters.participant);
+    if (filters.agentAddress) params.set("agentAddress", filters.agentAddress);
+    return getJson<ThreadSummary[]>(`/threads?${params}`);
+  },
+  // Messages the agent deleted are included so they can be restored from the thread view
+  thread: (threadId: string, agent?: string) =>
+    getJson<ThreadWithMessages>(
+      `/threads/${encodeURIComponent(threadId)}${agent ? `?agentAddress=${encodeURIComponent(agent)}&includeTrashed=true` : ""}`
+    ),
   writeEmail: (payload: {
     groupId: string;
     from: string;
     to: string[];
+    cc?: string[];
+    bcc?: string[];
     subject: string;
     body: string;
   }) =>
@@ -49,8 +168,117 @@ export const api = {
       method: "POST",
       body: JSON.stringify(payload)
     }),
-  resetDatabase: () =>
-    getJson<{ message: string }>("/admin/reset", {
+  createGroup: (groupId: string, agents: string[] = []) =>
+    getJson<Group>("/groups", {
+      method: "POST",
+      body: JSON.stringify({ groupId, agents })
+    }),
+  renameGroup: (groupId: string, newGroupId: string) =>
+    getJson<Group>(`/groups/${encodeURIComponent(groupId)}`, {
+      method: "PATCH",
+      body: JSON.stringify({ newGroupId })
+    }),
+  deleteGroup: (groupId: string) =>
+    getJson<{ groupId: string }>(`/groups/${encodeURIComponent(groupId)}`, {
+      method: "DELETE"
+    }),
+  addAgent: (groupId: string, agentAddress: string) =>
+    getJson<Group>(`/groups/${encodeURIComponent(groupId)}/agents`, {
+      method: "POST",
+      body: JSON.stringify({ agentAddress })
+    }),
+  renameAgent: (groupId: string, agentAddress: string, newAgentAddress: string) =>
+    getJson<Group>(`/groups/${encodeURIComponent(groupId)}/agents/${encodeURIComponent(agentAddress)}`, {
+      method: "PATCH",
+      body: JSON.stringify({ newAgentAddress })
+    }),
+  removeAgent: (groupId: string, agentAddress: string) =>
+    getJson<Group>(`/groups/${encodeURIComponent(groupId)}/agents/${encodeURIComponent(agentAddress)}`, {
+      method: "DELETE"
+    }),
+  listAliases: (groupId: string) => getJson<Alias[]>(`/groups/${encodeURIComponent(groupId)}/aliases`),
+  createAlias: (groupId: string, name: string, members: string[]) =>
+    getJson<Alias>(`/groups/${encodeURIComponent(groupId)}/aliases`, {
+      method: "POST",
+      body: JSON.stringify({ name, members })
+    }),
+  updateAlias: (groupId: string, name: string, members: string[]) =>
+    getJson<Alias>(`/groups/${encodeURIComponent(groupId)}/aliases/${encodeURIComponent(name)}`, {
+      method: "PUT",
+      body: JSON.stringify({ members })
+    }),
+  deleteAlias: (groupId: string, name: string) =>
+    getJson<{ groupId: string; name: string }>(
+      `/groups/${encodeURIComponent(groupId)}/aliases/${encodeURIComponent(name)}`,
+      { method: "DELETE" }
+    ),
+  forwardEmail: (payload: { threadId: string; messageId: string; from: string; to: string[]; note?: string }) =>
+    getJson<{ messageId: string; threadId: string; newThreadCreated: boolean }>("/emails/forward", {
+      method: "POST",
+      body: JSON.stringify(payload)
+    }),
+  listLabels: (groupId: string, agent: string) =>
+    getJson<LabelSummary[]>(`/groups/${encodeURIComponent(groupId)}/agents/${encodeURIComponent(agent)}/labels`),
+  updateLabels: (payload: { threadId: string; messageId: string; agentAddress: string; add?: string[]; remove?: string[] }) =>
+    getJson<{ threadId: string; messages: { messageId: string; labels: string[] }[] }>(
+      `/messages/${encodeURIComponent(payload.messageId)}/labels`,
+      {
+        method: "POST",
+        body: JSON.stringify(payload)
+      }
+    ),
+  listDrafts: (groupId: string, agent: string) =>
+    getJson<Draft[]>(`/drafts?groupId=${encodeURIComponent(groupId)}&agentAddress=${encodeURIComponent(agent)}`),
+  createDraft: (payload: {
+    groupId: string;
+    from: string;
+    kind?: DraftKind;
+    threadId?: string;
+    to?: string[];
+    cc?: string[];
+    bcc?: string[];
+    subject?: string;
+    body: string;
+  }) =>
+    getJson<Draft>("/drafts", {
+      method: "POST",
+      body: JSON.stringify(payload)
+    }),
+  updateDraft: (draftId: string, update: { to?: string[]; cc?: string[]; bcc?: string[]; subject?: string; body?: string }) =>
+    getJson<Draft>(`/drafts/${encodeURIComponent(draftId)}`, {
+      method: "PATCH",
+      body: JSON.stringify(update)
+    }),
+  sendDraft: (draftId: string) =>
+    getJson<{ draftId: string; messageId: string; threadId: string; newThreadCreated: boolean }>(
+      `/drafts/${encodeURIComponent(draftId)}/send`,
+      { method: "POST" }
+    ),
+  deleteDraft: (draftId: string) =>
+    getJson<{ draftId: string }>(`/drafts/${encodeURIComponent(draftId)}`, {
+      method: "DELETE"
+    }),
+  listSnapshots: () => getJson<Snapshot[]>("/snapshots"),
+  createSnapshot: (name: string, groupId?: string) =>
+    getJson<Snapshot>("/snapshots", {
+      method: "POST",
+      body: JSON.stringify({ name, groupId })
+    }),
+  restoreSnapshot: (name: string) =>
+    getJson<Snapshot>(`/snapshots/${encodeURIComponent(name)}/restore`, {
+      method: "POST"
+    }),
+  deleteSnapshot: (name: string) =>
+    getJson<unknown>(`/snapshots/${encodeURIComponent(name)}`, {
+      method: "DELETE"
+    }),
+  resetGroup: (groupId: string) =>
+    getJson<Group>(`/groups/${encodeURIComponent(groupId)}/reset`, {
       method: "POST"
+    }),
+  resetDatabase: (options: { keepAgents?: boolean; useConfigFile?: boolean } = {}) =>
+    getJson<{ keepAgents: boolean; groups: Group[] }>("/admin/reset", {
+      method: "POST",
+      body: JSON.stringify(options)
     })
 };
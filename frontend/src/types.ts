@@ -3,11 +3,34 @@ export type AgentAddress = string;
 export type ThreadId = string;
 export type MessageId = string;
 
+export interface AgentProfile {
+  agentAddress: AgentAddress;
+  groupId: GroupId;
+  displayName: string | null;
+  role: string | null;
+  description: string | null;
+  capabilities: string[];
+  owner: string | null;
+  metadata: Record<string, unknown>;
+  updatedAt: string;
+}
+
 export interface Group {
   id: GroupId;
   createdAt: string;
   agents: AgentAddress[];
   threads: ThreadId[];
+  profiles: AgentProfile[];
+}
+
+export interface Attachment {
+  attachmentId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  sha256: string;
+  createdAt: string;
+  downloadUrl: string;
 }
 
 export interface Message {
@@ -16,9 +39,61 @@ export interface Message {
   groupId: GroupId;
   from: AgentAddress;
   to: AgentAddress[];
+  cc: AgentAddress[];
+  bcc: AgentAddress[];
   subject: string;
   body: string;
   createdAt: string;
+  readBy: AgentAddress[];
+  attachments: Attachment[];
+  aliases: AliasExpansion[];
+  forwardedFrom: { threadId: ThreadId; messageId: MessageId } | null;
+  read?: boolean;
+  labels?: string[];
+}
+
+export interface AliasExpansion {
+  alias: string;
+  field: "to" | "cc" | "bcc";
+  members: AgentAddress[];
+}
+
+export interface Alias {
+  name: string;
+  groupId: GroupId;
+  members: AgentAddress[];
+  createdAt: string;
+}
+
+export interface LabelSummary {
+  name: string;
+  builtIn: boolean;
+  messageCount: number;
+  unreadCount: number;
+}
+
+export type DraftKind = "new" | "reply" | "reply-all";
+
+export interface Draft {
+  draftId: string;
+  groupId: GroupId;
+  from: AgentAddress;
+  kind: DraftKind;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  subject: string | null;
+  body: string;
+  threadId: ThreadId | null;
+  replyToMessageId: MessageId | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SearchResult extends Message {
+  subjectHighlight: string;
+  snippet: string;
+  score: number;
 }
 
 export interface Thread {
@@ -36,8 +111,70 @@ export interface ThreadWithMessages {
   messages: Message[];
 }
 
+export type MailEventType =
+  | "thread.created"
+  | "message.created"
+  | "message.read"
+  | "message.unread"
+  | "message.deleted"
+  | "mailbox.restored";
+
+export interface MailEventPayload {
+  id: number;
+  type: MailEventType;
+  groupId: GroupId;
+  emittedAt: string;
+  message?: Message;
+  thread?: Thread;
+  threadId?: ThreadId;
+  messageIds?: MessageId[];
+  agentAddress?: AgentAddress;
+  threadDeleted?: boolean;
+}
+
+export interface ThreadSummary {
+  threadId: ThreadId;
+  groupId: GroupId;
+  subject: string;
+  createdBy: AgentAddress;
+  createdAt: string;
+  participants: AgentAddress[];
+  messageCount: number;
+  lastActivityAt: string;
+  lastMessage: {
+    messageId: MessageId;
+    from: AgentAddress;
+    bodyPreview: string;
+    createdAt: string;
+    read?: boolean;
+  };
+  unreadCount?: number;
+}
+
+export interface WhoAmI {
+  role: "admin" | "agent";
+  authEnabled: boolean;
+  groupId?: string;
+  agentAddress?: string;
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   message?: string;
   data?: T;
+  nextCursor?: string | null;
+  prevCursor?: string | null;
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+export interface Snapshot {
+  name: string;
+  groupId: GroupId | null;
+  size: number;
+  createdAt: string;
 }
@@ -1,21 +1,69 @@
-import { FastMCP } from "fastmcp";
+import { IncomingMessage } from "http";
+import { parseArgs } from "util";
+import { setTimeout as delay } from "timers/promises";
+import { FastMCP, FastMCPSession, Tool, ToolParameters } from "fastmcp";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import {
+  isInitializeRequest,
+  JSONRPCMessage,
+  MessageExtraInfo,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 
-type HttpMethod = "GET" | "POST";
+type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
 type QueryParams = Record<string, string | number | undefined>;
 
 function normalizeBaseUrl(raw: string): string {
   return raw.endsWith("/") ? raw : `${raw}/`;
 }
 
+// --stdio (or MCP_TRANSPORT=stdio) serves one client over stdin and stdout instead of HTTP, for desktop
+// clients that launch the server themselves. --embedded (or MCP_EMBEDDED=true) opens the mailbox at DB_PATH in
+// this process and answers the tools from DatabaseService directly, so no API server is needed and nothing listens
+// but the MCP transport itself (see src/embedded.ts).
+const { values: flags } = parseArgs({
+  options: {
+    stdio: { type: "boolean", default: false },
+    embedded: { type: "boolean", default: false }
+  }
+});
+const STDIO = flags.stdio || process.env.MCP_TRANSPORT === "stdio";
+const EMBEDDED = flags.embedded || process.env.MCP_EMBEDDED === "true";
+
+if (STDIO) {
+  // stdout carries the protocol, so logging goes to stderr
+  console.log = console.error;
+}
+
+const embedded = EMBEDDED ? (await import("../src/embedded.js")).startEmbeddedMode() : null;
+
 const API_BASE_URL = normalizeBaseUrl(
   process.env.API_BASE_URL ?? "http://localhost:3000"
 );
 
+// Sent as a bearer token when the API has auth on: an agent token confines every tool to that agent's mail
+const API_TOKEN = process.env.API_TOKEN || embedded?.token || undefined;
+
 // HTTP MCP server config (for the MCP transport itself)
 const MCP_PORT = Number(process.env.MCP_PORT ?? "8080");
 const MCP_HOST = process.env.MCP_HOST ?? "0.0.0.0"; // or "127.0.0.1" if you only want local
 
+// Tools that act on the whole sandbox rather than on mail, e.g. snapshots; off unless MCP_ADMIN_TOOLS=true
+const MCP_ADMIN_TOOLS = process.env.MCP_ADMIN_TOOLS === "true";
+
+// "observer" (the default) lets every tool act for any agent. "agent" pins each connection to one agent:
+// tools stop asking who the caller is, and the API refuses anything outside that agent's own mail.
+const MCP_MODE = process.env.MCP_MODE === "agent" ? "agent" : "observer";
+const AGENT_MODE = MCP_MODE === "agent";
+
+// The agent a stdio connection acts as in agent mode, since there is no request to name it
+const MCP_GROUP = process.env.MCP_GROUP || undefined;
+const MCP_AGENT = process.env.MCP_AGENT || undefined;
+
 const groupIdSchema = z
   .string()
   .min(1, "Provide a group ID (e.g. @team).");
@@ -25,77 +73,316 @@ const senderSchema = z
     1,
     "Provide the sending agent address. IMPORTANT: Must be a valid agent in the group. Use list_agents to see valid agents."
   );
+const agentAddressSchema = z
+  .string()
+  .min(
+    1,
+    "Agent address is required. Use list_agents to see valid agents."
+  );
 const bodySchema = z.string().min(1, "Body cannot be empty.");
 const limitSchema = z
   .number()
   .int()
   .positive()
   .describe("Defaults to 10 if omitted.");
+const cursorSchema = z
+  .string()
+  .describe("Opaque cursor from a previous call's nextCursor (older mail) or prevCursor (newer mail).");
 const recipientsSchema = z
   .union([
     z.string().min(1, "Recipient cannot be empty."),
     z.array(z.string().min(1)).nonempty("Provide at least one recipient.")
   ])
   .describe(
-    "Recipient agent address(es). IMPORTANT: Must be valid agents in the group. Use list_agents to see valid agents."
+    "Recipient agent address(es) or alias names. IMPORTANT: Must be valid agents or aliases in the group. Use list_agents and list_aliases to see them."
   );
 
-async function callApi<T>(
-  path: string,
-  method: HttpMethod,
-  options: { body?: unknown; query?: QueryParams } = {}
-): Promise<T> {
-  const url = new URL(path, API_BASE_URL);
+const sendAtSchema = z
+  .string()
+  .describe(
+    "ISO 8601 time to deliver at (e.g. 2030-01-01T09:00:00Z). The message is validated now but only reaches inboxes then. Omit to send immediately."
+  );
 
-  if (options.query) {
-    for (const [key, value] of Object.entries(options.query)) {
-      if (value !== undefined) {
-        url.searchParams.set(key, String(value));
-      }
+const attachmentsSchema = z
+  .array(
+    z.object({
+      filename: z.string().min(1, "Provide a filename."),
+      content: z
+        .string()
+        .describe("File content. Plain text, or base64 when encoding is 'base64'."),
+      encoding: z
+        .enum(["text", "base64"])
+        .optional()
+        .describe("Defaults to 'text'. Use 'base64' for binary files."),
+      mimeType: z
+        .string()
+        .optional()
+        .describe("e.g. text/csv. Defaults to text/plain or application/octet-stream.")
+    })
+  )
+  .describe("Files to attach to the message.");
+
+// Who an agent-mode connection acts as, fixed when it connects
+type AgentSession = {
+  groupId: string;
+  agentAddress: string;
+  token: string | null;                // The API token the client connected with; API_TOKEN is used otherwise
+};
+
+function apiUrl(path: string, query: QueryParams = {}): URL {
+  const url = new URL(path, API_BASE_URL);
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) {
+      url.searchParams.set(key, String(value));
     }
   }
+  return url;
+}
+
+// Calls made for an agent session carry its identity, so the API scopes them to that agent's mail exactly as
+// it would for one of the agent's own tokens
+function apiCredentials(session: Partial<AgentSession> | undefined): { token: string | null; groupId?: string; agentAddress?: string } {
+  const token = session?.token ?? API_TOKEN ?? null;
+  return session?.groupId && session.agentAddress
+    ? { token, groupId: session.groupId, agentAddress: session.agentAddress }
+    : { token };
+}
+
+// The credentials as an HTTP request sends them: a bearer token, and the identity in X-SES-Group and X-SES-Agent
+function apiHeaders(session: Partial<AgentSession> | undefined): Record<string, string> {
+  const { token, groupId, agentAddress } = apiCredentials(session);
+  return {
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    ...(groupId && agentAddress ? { "X-SES-Group": groupId, "X-SES-Agent": agentAddress } : {})
+  };
+}
+
+// The API's response envelope. `data` is whatever the route returns; callers say what they expect.
+type ApiPayload = {
+  success?: boolean;
+  message?: string;
+  data?: unknown;
+  nextCursor?: string | null;
+  prevCursor?: string | null;
+};
+
+function isApiPayload(value: unknown): value is ApiPayload {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+type ApiResponse = { ok: boolean; status: number; statusText: string; payload: ApiPayload | null };
+
+// Sends one request to the API server, or hands it to the embedded backend, which answers as the server would
+async function sendApiRequest(
+  session: Partial<AgentSession> | undefined,
+  path: string,
+  method: HttpMethod,
+  options: { body?: unknown; query?: QueryParams }
+): Promise<ApiResponse> {
+  if (embedded) {
+    const { status, body } = await embedded.api.request(method, path, {
+      ...apiCredentials(session),
+      query: options.query,
+      body: options.body
+    });
+    return { ok: status >= 200 && status < 300, status, statusText: "", payload: body };
+  }
 
-  const response = await fetch(url, {
+  const response = await fetch(apiUrl(path, options.query), {
     method,
     headers: {
       Accept: "application/json",
+      ...apiHeaders(session),
       ...(options.body ? { "Content-Type": "application/json" } : {})
     },
     body: options.body ? JSON.stringify(options.body) : undefined
   });
 
-  let payload: any;
+  let payload: ApiPayload | null;
   try {
-    payload = await response.json();
+    const json: unknown = await response.json();
+    payload = isApiPayload(json) ? json : { data: json };
   } catch {
     payload = null;
   }
+  return { ok: response.ok, status: response.status, statusText: response.statusText, payload };
+}
+
+async function requestApi(
+  session: Partial<AgentSession> | undefined,
+  path: string,
+  method: HttpMethod,
+  options: { body?: unknown; query?: QueryParams } = {}
+): Promise<ApiPayload> {
+  const response = await sendApiRequest(session, path, method, options);
+  const { payload } = response;
 
   if (!response.ok) {
     const message = payload?.message ?? response.statusText;
     throw new Error(`Request failed (${response.status}): ${message}`);
   }
 
-  if (payload?.success === false) {
+  if (!payload) {
+    throw new Error("Request returned no JSON");
+  }
+
+  if (payload.success === false) {
     throw new Error(payload.message ?? "Request reported failure");
   }
 
-  return (payload?.data ?? payload) as T;
+  return payload;
+}
+
+async function callApi<T>(
+  session: Partial<AgentSession> | undefined,
+  path: string,
+  method: HttpMethod,
+  options: { body?: unknown; query?: QueryParams } = {}
+): Promise<T> {
+  const payload = await requestApi(session, path, method, options);
+  return (payload.data ?? payload) as T;
+}
+
+type Paged<T> = { data: T; nextCursor: string | null; prevCursor: string | null };
+
+// Like callApi, but keeps the cursors that paged listings return next to their data
+async function callPagedApi<T = unknown>(
+  session: Partial<AgentSession> | undefined,
+  path: string,
+  method: HttpMethod,
+  options: { body?: unknown; query?: QueryParams } = {}
+): Promise<Paged<T>> {
+  const payload = await requestApi(session, path, method, options);
+  return {
+    data: (payload.data ?? payload) as T,
+    nextCursor: payload.nextCursor ?? null,
+    prevCursor: payload.prevCursor ?? null
+  };
+}
+
+// Whether the API turns away requests without a token. Asked without API_TOKEN, which would otherwise be sent.
+async function apiRequiresToken(): Promise<boolean> {
+  if (embedded) {
+    return (await embedded.api.request("GET", "auth/me", { token: null })).status === 401;
+  }
+  const response = await fetch(apiUrl("auth/me"), { headers: { Accept: "application/json" } });
+  return response.status === 401;
+}
+
+// Agent mode names the agent with an agent token (Authorization: Bearer), or with an admin token and X-SES-Group
+// and X-SES-Agent headers. When the API has auth off, the headers, or ?group=&agent= on the MCP URL for clients
+// that cannot set headers, are enough on their own. Under stdio there is no request, and API_TOKEN or MCP_GROUP
+// and MCP_AGENT name it instead.
+async function authenticateAgent(request: IncomingMessage | undefined): Promise<AgentSession> {
+  const url = new URL(request?.url ?? "/", "http://localhost");
+  const header = (name: string) => {
+    const value = request?.headers[name];
+    return typeof value === "string" && value !== "" ? value : undefined;
+  };
+  const token = request
+    ? /^Bearer\s+(\S+)$/i.exec(header("authorization") ?? "")?.[1] ?? null
+    : API_TOKEN ?? null;
+  let groupId = request ? header("x-ses-group") : MCP_GROUP;
+  let agentAddress = request ? header("x-ses-agent") : MCP_AGENT;
+
+  if (token) {
+    const me = await callApi<{ role: string; groupId?: string; agentAddress?: string }>({ token }, "auth/me", "GET");
+    if (me.role === "agent") {
+      groupId = me.groupId;
+      agentAddress = me.agentAddress;
+    }
+  } else if (request) {
+    // Otherwise anyone could name any agent, and act as it with this server's own API_TOKEN
+    if (await apiRequiresToken()) {
+      throw new Error(
+        "Unauthorized: the API requires tokens. Connect with an agent token, or an admin token with X-SES-Group and X-SES-Agent headers."
+      );
+    }
+    groupId ??= url.searchParams.get("group") ?? undefined;
+    agentAddress ??= url.searchParams.get("agent") ?? undefined;
+  }
+  if (!groupId || !agentAddress) {
+    throw new Error(
+      request
+        ? token
+          ? "Unauthorized: this MCP server runs in agent mode. Connect with an agent token, or send X-SES-Group and X-SES-Agent headers with an admin token."
+          : "Unauthorized: this MCP server runs in agent mode. Connect with an agent token, X-SES-Group and X-SES-Agent headers, or ?group=@team&agent=alice."
+        : "Unauthorized: agent mode over stdio needs MCP_GROUP and MCP_AGENT, or an agent token in API_TOKEN."
+    );
+  }
+
+  const group = await callApi<{ agents: string[] }>({ token }, groupPath(groupId), "GET");
+  if (!group.agents.includes(agentAddress)) {
+    throw new Error(`Unauthorized: ${agentAddress} is not an agent in ${groupId}`);
+  }
+  return { groupId, agentAddress, token };
+}
+
+// Who each agent-mode HTTP session acts as, by MCP session ID, for the handlers FastMCP does not pass it to. It is
+// pinned by the initialize request that creates the session, and later requests naming another group or agent
+// are refused. A stdio server has the one identity it checked at startup.
+const sessionAgents = new Map<string, AgentSession>();
+let stdioAgent: AgentSession | undefined;
+
+// The transport hands a request's `auth` to the session as authInfo, which is how the initialize request's
+// agent reaches the session it creates
+const requestAgents = new WeakMap<AuthInfo, AgentSession>();
+
+async function authenticateRequest(request: IncomingMessage | undefined): Promise<AgentSession> {
+  const agent = await authenticateAgent(request);
+  const sessionId = request?.headers["mcp-session-id"];
+  const pinned = typeof sessionId === "string" ? sessionAgents.get(sessionId) : undefined;
+  if (pinned && (pinned.groupId !== agent.groupId || pinned.agentAddress !== agent.agentAddress)) {
+    throw new Error(
+      `Unauthorized: this session acts as ${pinned.agentAddress} in ${pinned.groupId}. Start a new session to act as another agent.`
+    );
+  }
+  if (request) {
+    const auth: AuthInfo = { token: agent.token ?? "", clientId: agent.agentAddress, scopes: [] };
+    requestAgents.set(auth, agent);
+    (request as IncomingMessage & { auth?: AuthInfo }).auth = auth;
+  }
+  return agent;
 }
 
-const server = new FastMCP({
+const server = new FastMCP<AgentSession>({
   name: "Simple Email Sandbox MCP",
   version: "0.1.0",
-  instructions: `Interact with the Simple Email Sandbox REST API at ${API_BASE_URL}`
+  instructions: embedded
+    ? "Interact with the Simple Email Sandbox mailbox this server holds"
+    : `Interact with the Simple Email Sandbox REST API at ${API_BASE_URL}`,
+  ...(AGENT_MODE ? { authenticate: authenticateRequest } : {})
 });
 
+// Tools that manage the sandbox rather than an agent's own mail are only offered in observer mode
+function addObserverTool<Params extends ToolParameters>(tool: Tool<AgentSession, Params>) {
+  if (!AGENT_MODE) {
+    server.addTool(tool);
+  }
+}
+
+// In agent mode these parameters are left out of a tool's schema and the API fills them in from the session.
+// They are typed as optional either way, since observer mode still requires them.
+function callerParams<K extends string>(fields: Record<K, z.ZodTypeAny>) {
+  return (AGENT_MODE ? {} : fields) as Record<K, z.ZodOptional<z.ZodString>>;
+}
+
+// The agent a tool acts for: the session's in agent mode, the argument in observer mode
+function callerAgent(session: AgentSession | undefined, agentAddress?: string): string {
+  const agent = session?.agentAddress ?? agentAddress;
+  if (!agent) {
+    throw new Error("Provide agentAddress.");
+  }
+  return agent;
+}
+
 server.addTool({
   name: "list_groups",
   description:
-    "List all groups and agents configured in the Simple Email Sandbox.",
+    "List all groups and agents configured in the Simple Email Sandbox, with each agent's profile (role, description, capabilities) where one is set.",
   annotations: { readOnlyHint: true, idempotentHint: true },
-  execute: async () => {
-    const result = await callApi("groups", "GET");
+  execute: async (_args, { session }) => {
+    const result = await callApi(session, "groups", "GET");
     return {
       content: [
         {
@@ -107,31 +394,33 @@ server.addTool({
   }
 });
 
+// Mirrors resolveGroupId in the API: a lone group is used when none is named
+async function resolveGroupId(session: AgentSession | undefined, groupId?: string): Promise<string> {
+  if (groupId) return groupId;
+  if (session) return session.groupId;
+  const groups = await callApi<{ id: string }[]>(session, "groups", "GET");
+  if (groups.length === 1) return groups[0]!.id;
+  if (groups.length === 0) {
+    throw new Error("No groups found. Create a group first.");
+  }
+  throw new Error(
+    `Multiple groups exist (${groups.map(g => g.id).join(", ")}). Provide groupId.`
+  );
+}
+
 server.addTool({
-  name: "send_email",
+  name: "list_agents",
   description:
-    "Send a new email and create a thread. IMPORTANT: Use list_agents first to get valid agent addresses for 'from' and 'to' fields. Only valid agents in the group can send/receive emails.",
-  annotations: { destructiveHint: false, idempotentHint: false },
+    "List the agents in a group with their role, profile, unread message count and last activity time. Call this first to find valid agent addresses for every other tool, and use the profiles to decide whom to email.",
+  annotations: { readOnlyHint: true, idempotentHint: true },
   parameters: z.object({
-    groupId: groupIdSchema,
-    from: senderSchema,
-    to: recipientsSchema,
-    subject: z
-      .string()
+    groupId: groupIdSchema
       .optional()
-      .describe("Defaults to 'No subject' on the API if omitted."),
-    body: bodySchema
+      .describe("Group to list agents from. Required when multiple groups exist.")
   }),
-  execute: async args => {
-    const result = await callApi("emails/write", "POST", {
-      body: {
-        groupId: args.groupId,
-        from: args.from,
-        to: args.to,
-        subject: args.subject,
-        body: args.body
-      }
-    });
+  execute: async (args, { session }) => {
+    const groupId = await resolveGroupId(session, args.groupId);
+    const result = await callApi(session, groupPath(groupId, "agents"), "GET");
     return {
       content: [
         {
@@ -143,34 +432,30 @@ server.addTool({
   }
 });
 
-server.addTool({
-  name: "reply_email",
+const agentHandleSchema = z
+  .string()
+  .min(1, "Provide an agent handle.")
+  .describe("Letters, digits, '.', '_' or '-', starting with a letter or digit (e.g. pm, dev1).");
+
+function groupPath(groupId: string, ...rest: string[]): string {
+  return ["groups", groupId, ...rest].map(encodeURIComponent).join("/");
+}
+
+addObserverTool({
+  name: "create_group",
   description:
-    "Reply to a specific message sender within a thread. IMPORTANT: The 'from' field must be a valid agent in the group.",
-  annotations: { destructiveHint: false },
+    "Create a new group (a private email domain) with an optional initial list of agents.",
+  annotations: { destructiveHint: false, idempotentHint: false },
   parameters: z.object({
-    groupId: groupIdSchema
-      .optional()
-      .describe("Optional group ID to assert thread membership."),
-    threadId: z.string().min(1, "Provide a thread ID."),
-    replyToMessageId: z
-      .string()
+    groupId: groupIdSchema.describe("New group ID, starting with '@' (e.g. @team)."),
+    agents: z
+      .array(agentHandleSchema)
       .optional()
-      .describe(
-        "Message ID to reply to. Defaults to the latest message if omitted."
-      ),
-    from: senderSchema,
-    body: bodySchema
+      .describe("Initial agent handles.")
   }),
-  execute: async args => {
-    const result = await callApi("emails/reply", "POST", {
-      body: {
-        groupId: args.groupId,
-        threadId: args.threadId,
-        replyToMessageId: args.replyToMessageId,
-        from: args.from,
-        body: args.body
-      }
+  execute: async (args, { session }) => {
+    const result = await callApi(session, "groups", "POST", {
+      body: { groupId: args.groupId, agents: args.agents }
     });
     return {
       content: [
@@ -183,34 +468,17 @@ server.addTool({
   }
 });
 
-server.addTool({
-  name: "reply_all_email",
-  description:
-    "Reply-all to a message, sending to the sender and all recipients in the thread message. IMPORTANT: The 'from' field must be a valid agent in the group.",
-  annotations: { destructiveHint: false },
+addObserverTool({
+  name: "rename_group",
+  description: "Rename a group. Its threads and messages move with it.",
+  annotations: { destructiveHint: false, idempotentHint: true },
   parameters: z.object({
-    groupId: groupIdSchema
-      .optional()
-      .describe("Optional group ID to assert thread membership."),
-    threadId: z.string().min(1, "Provide a thread ID."),
-    replyToMessageId: z
-      .string()
-      .optional()
-      .describe(
-        "Message ID to reply to. Defaults to the latest message if omitted."
-      ),
-    from: senderSchema,
-    body: bodySchema
+    groupId: groupIdSchema,
+    newGroupId: groupIdSchema.describe("New group ID, starting with '@'.")
   }),
-  execute: async args => {
-    const result = await callApi("emails/reply-all", "POST", {
-      body: {
-        groupId: args.groupId,
-        threadId: args.threadId,
-        replyToMessageId: args.replyToMessageId,
-        from: args.from,
-        body: args.body
-      }
+  execute: async (args, { session }) => {
+    const result = await callApi(session, groupPath(args.groupId), "PATCH", {
+      body: { newGroupId: args.newGroupId }
     });
     return {
       content: [
@@ -223,32 +491,38 @@ server.addTool({
   }
 });
 
-server.addTool({
-  name: "get_inbox_short",
+addObserverTool({
+  name: "delete_group",
   description:
-    "Retrieve the most recent messages for a specific agent with 500 character previews. Use list_agents to get valid agent addresses.",
-  annotations: { readOnlyHint: true, idempotentHint: true },
+    "Permanently delete a group with all of its threads and messages. This cannot be undone.",
+  annotations: { destructiveHint: true, idempotentHint: false },
   parameters: z.object({
-    agentAddress: z
-      .string()
-      .min(
-        1,
-        "Agent address is required. Use list_agents to see valid agents."
-      ),
     groupId: groupIdSchema
-      .optional()
-      .describe(
-        "Group to pull messages from. Required when multiple groups exist."
-      ),
-    limit: limitSchema.optional()
   }),
-  execute: async args => {
-    const result = await callApi("inbox/short", "GET", {
-      query: {
-        groupId: args.groupId,
-        agentAddress: args.agentAddress,
-        limit: args.limit
-      }
+  execute: async (args, { session }) => {
+    const result = await callApi(session, groupPath(args.groupId), "DELETE");
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+});
+
+addObserverTool({
+  name: "add_agent",
+  description: "Add an agent to a group so it can send and receive email.",
+  annotations: { destructiveHint: false, idempotentHint: false },
+  parameters: z.object({
+    groupId: groupIdSchema,
+    agentAddress: agentHandleSchema
+  }),
+  execute: async (args, { session }) => {
+    const result = await callApi(session, groupPath(args.groupId, "agents"), "POST", {
+      body: { agentAddress: args.agentAddress }
     });
     return {
       content: [
@@ -262,31 +536,27 @@ server.addTool({
 });
 
 server.addTool({
-  name: "get_inbox",
+  name: "update_agent_profile",
   description:
-    "Retrieve the most recent messages for a specific agent with full bodies. Use list_agents to get valid agent addresses.",
-  annotations: { readOnlyHint: true, idempotentHint: true },
+    "Update an agent's profile so other agents know what it does. Only the fields provided are changed; pass null to clear a text field.",
+  annotations: { destructiveHint: false, idempotentHint: true },
   parameters: z.object({
-    agentAddress: z
-      .string()
-      .min(
-        1,
-        "Agent address is required. Use list_agents to see valid agents."
-      ),
-    groupId: groupIdSchema
+    ...callerParams({ groupId: groupIdSchema, agentAddress: z.string().min(1, "Provide the agent handle.") }),
+    displayName: z.string().nullable().optional(),
+    role: z.string().nullable().optional().describe("Short role, e.g. 'Frontend developer'."),
+    description: z.string().nullable().optional().describe("What the agent does and when to email it."),
+    capabilities: z.array(z.string()).optional().describe("Replaces the existing list."),
+    owner: z.string().nullable().optional().describe("Person or system responsible for the agent."),
+    metadata: z
+      .record(z.unknown())
       .optional()
-      .describe(
-        "Group to pull messages from. Required when multiple groups exist."
-      ),
-    limit: limitSchema.optional()
+      .describe("Free-form JSON, e.g. a system prompt. Replaces the existing metadata.")
   }),
-  execute: async args => {
-    const result = await callApi("inbox", "GET", {
-      query: {
-        groupId: args.groupId,
-        agentAddress: args.agentAddress,
-        limit: args.limit
-      }
+  execute: async (args, { session }) => {
+    const { groupId, agentAddress, ...profile } = args;
+    const path = groupPath(await resolveGroupId(session, groupId), "agents", callerAgent(session, agentAddress), "profile");
+    const result = await callApi(session, path, "PATCH", {
+      body: profile
     });
     return {
       content: [
@@ -299,24 +569,19 @@ server.addTool({
   }
 });
 
-server.addTool({
-  name: "get_message",
-  description: "Fetch a specific message by ID.",
-  annotations: { readOnlyHint: true, idempotentHint: true },
+addObserverTool({
+  name: "rename_agent",
+  description:
+    "Rename an agent. Its existing messages, read state and webhooks are updated to the new handle.",
+  annotations: { destructiveHint: false, idempotentHint: true },
   parameters: z.object({
-    messageId: z.string().min(1, "Message ID is required."),
-    threadId: z
-      .string()
-      .optional()
-      .describe("Thread ID to disambiguate when duplicates exist."),
-    groupId: groupIdSchema
-      .optional()
-      .describe("Optional group to narrow the search.")
+    groupId: groupIdSchema,
+    agentAddress: z.string().min(1, "Provide the current agent handle."),
+    newAgentAddress: agentHandleSchema
   }),
-  execute: async args => {
-    const path = `messages/${encodeURIComponent(args.messageId)}`;
-    const result = await callApi(path, "GET", {
-      query: { threadId: args.threadId, groupId: args.groupId }
+  execute: async (args, { session }) => {
+    const result = await callApi(session, groupPath(args.groupId, "agents", args.agentAddress), "PATCH", {
+      body: { newAgentAddress: args.newAgentAddress }
     });
     return {
       content: [
@@ -329,16 +594,41 @@ server.addTool({
   }
 });
 
+addObserverTool({
+  name: "remove_agent",
+  description:
+    "Remove an agent from a group. Its existing mail is kept, but it can no longer send or receive email.",
+  annotations: { destructiveHint: true, idempotentHint: false },
+  parameters: z.object({
+    groupId: groupIdSchema,
+    agentAddress: z.string().min(1, "Provide the agent handle to remove.")
+  }),
+  execute: async (args, { session }) => {
+    const result = await callApi(session, groupPath(args.groupId, "agents", args.agentAddress), "DELETE");
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+});
+
 server.addTool({
-  name: "get_thread",
-  description: "Fetch a full thread and its messages.",
+  name: "list_aliases",
+  description:
+    "List a group's aliases (distribution lists such as 'eng') and their members. An alias can be used anywhere a recipient is expected.",
   annotations: { readOnlyHint: true, idempotentHint: true },
   parameters: z.object({
-    threadId: z.string().min(1, "Thread ID is required.")
+    groupId: groupIdSchema
+      .optional()
+      .describe("Group to list aliases from. Required when multiple groups exist.")
   }),
-  execute: async args => {
-    const path = `threads/${encodeURIComponent(args.threadId)}`;
-    const result = await callApi(path, "GET");
+  execute: async (args, { session }) => {
+    const groupId = await resolveGroupId(session, args.groupId);
+    const result = await callApi(session, groupPath(groupId, "aliases"), "GET");
     return {
       content: [
         {
@@ -350,14 +640,1447 @@ server.addTool({
   }
 });
 
-// 🚀 Start MCP server over HTTP streaming
-await server.start({
-  transportType: "httpStream",
-  httpStream: {
-    port: MCP_PORT,
-    host: MCP_HOST
-    // endpoint: "/mcp",      // default
-    // stateless: true,       // optional: enable stateless mode
-    // jsonResponse: true,    // if you want JSON-only responses (no SSE)
+addObserverTool({
+  name: "create_alias",
+  description:
+    "Create an alias that expands to the given agents when used as a recipient. Alias names cannot match an agent handle.",
+  annotations: { destructiveHint: false, idempotentHint: false },
+  parameters: z.object({
+    groupId: groupIdSchema,
+    name: agentHandleSchema.describe("Alias name, e.g. eng or reviewers."),
+    members: z.array(z.string().min(1)).nonempty("Provide at least one member.").describe("Agent handles in the alias.")
+  }),
+  execute: async (args, { session }) => {
+    const result = await callApi(session, groupPath(args.groupId, "aliases"), "POST", {
+      body: { name: args.name, members: args.members }
+    });
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
   }
 });
+
+addObserverTool({
+  name: "update_alias",
+  description:
+    "Replace the members of an existing alias.",
+  annotations: { destructiveHint: false, idempotentHint: true },
+  parameters: z.object({
+    groupId: groupIdSchema,
+    name: z.string().min(1, "Provide the alias name."),
+    members: z.array(z.string().min(1)).nonempty("Provide at least one member.").describe("The alias's new member list.")
+  }),
+  execute: async (args, { session }) => {
+    const result = await callApi(session, groupPath(args.groupId, "aliases", args.name), "PUT", {
+      body: { members: args.members }
+    });
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+});
+
+addObserverTool({
+  name: "delete_alias",
+  description:
+    "Delete an alias. Messages already sent to it keep their recipients.",
+  annotations: { destructiveHint: true, idempotentHint: false },
+  parameters: z.object({
+    groupId: groupIdSchema,
+    name: z.string().min(1, "Provide the alias name.")
+  }),
+  execute: async (args, { session }) => {
+    const result = await callApi(session, groupPath(args.groupId, "aliases", args.name), "DELETE");
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+});
+
+server.addTool({
+  name: "send_email",
+  description:
+    "Send a new email and create a thread. IMPORTANT: Use list_agents first to get valid agent addresses for 'from' and 'to' fields. Only valid agents in the group can send/receive emails. Aliases from list_aliases expand to their members.",
+  annotations: { destructiveHint: false, idempotentHint: false },
+  parameters: z.object({
+    ...callerParams({ groupId: groupIdSchema, from: senderSchema }),
+    to: recipientsSchema,
+    cc: recipientsSchema
+      .optional()
+      .describe(
+        "Agents to copy on the email. Visible to all recipients. Must be valid agents in the group."
+      ),
+    bcc: recipientsSchema
+      .optional()
+      .describe(
+        "Agents to blind-copy. Hidden from every other recipient. Must be valid agents in the group."
+      ),
+    subject: z
+      .string()
+      .optional()
+      .describe("Defaults to 'No subject' on the API if omitted."),
+    body: bodySchema,
+    attachments: attachmentsSchema.optional(),
+    sendAt: sendAtSchema.optional()
+  }),
+  execute: async (args, { session }) => {
+    const result = await callApi(session, "emails/write", "POST", {
+      body: {
+        groupId: args.groupId,
+        from: args.from,
+        to: args.to,
+        cc: args.cc,
+        bcc: args.bcc,
+        subject: args.subject,
+        body: args.body,
+        attachments: args.attachments,
+        sendAt: args.sendAt
+      }
+    });
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+});
+
+server.addTool({
+  name: "reply_email",
+  description:
+    "Reply to a specific message sender within a thread. IMPORTANT: The 'from' field must be a valid agent in the group.",
+  annotations: { destructiveHint: false },
+  parameters: z.object({
+    groupId: groupIdSchema
+      .optional()
+      .describe("Optional group ID to assert thread membership."),
+    threadId: z.string().min(1, "Provide a thread ID."),
+    replyToMessageId: z
+      .string()
+      .optional()
+      .describe(
+        "Message ID to reply to. Defaults to the latest message if omitted."
+      ),
+    ...callerParams({ from: senderSchema }),
+    body: bodySchema,
+    attachments: attachmentsSchema.optional(),
+    sendAt: sendAtSchema.optional()
+  }),
+  execute: async (args, { session }) => {
+    const result = await callApi(session, "emails/reply", "POST", {
+      body: {
+        groupId: args.groupId,
+        threadId: args.threadId,
+        replyToMessageId: args.replyToMessageId,
+        from: args.from,
+        body: args.body,
+        attachments: args.attachments,
+        sendAt: args.sendAt
+      }
+    });
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+});
+
+server.addTool({
+  name: "reply_all_email",
+  description:
+    "Reply-all to a message, sending to the sender and all recipients in the thread message. CC recipients stay on CC; BCC recipients are never included. IMPORTANT: The 'from' field must be a valid agent in the group.",
+  annotations: { destructiveHint: false },
+  parameters: z.object({
+    groupId: groupIdSchema
+      .optional()
+      .describe("Optional group ID to assert thread membership."),
+    threadId: z.string().min(1, "Provide a thread ID."),
+    replyToMessageId: z
+      .string()
+      .optional()
+      .describe(
+        "Message ID to reply to. Defaults to the latest message if omitted."
+      ),
+    ...callerParams({ from: senderSchema }),
+    body: bodySchema,
+    attachments: attachmentsSchema.optional(),
+    sendAt: sendAtSchema.optional()
+  }),
+  execute: async (args, { session }) => {
+    const result = await callApi(session, "emails/reply-all", "POST", {
+      body: {
+        groupId: args.groupId,
+        threadId: args.threadId,
+        replyToMessageId: args.replyToMessageId,
+        from: args.from,
+        body: args.body,
+        attachments: args.attachments,
+        sendAt: args.sendAt
+      }
+    });
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+});
+
+server.addTool({
+  name: "forward_email",
+  description:
+    "Forward a message to other agents in a new thread. The original is quoted below an optional note, its attachments are copied, and the new message links back to it. The 'from' agent must have sent or received the original.",
+  annotations: { destructiveHint: false, idempotentHint: false },
+  parameters: z.object({
+    groupId: groupIdSchema
+      .optional()
+      .describe("Optional group ID to assert thread membership."),
+    threadId: z.string().min(1, "Provide the thread ID of the message to forward."),
+    messageId: z.string().min(1, "Provide the message ID to forward."),
+    ...callerParams({ from: senderSchema }),
+    to: recipientsSchema,
+    cc: recipientsSchema.optional(),
+    bcc: recipientsSchema.optional(),
+    note: z.string().optional().describe("Text to put above the forwarded message."),
+    sendAt: sendAtSchema.optional()
+  }),
+  execute: async (args, { session }) => {
+    const result = await callApi(session, "emails/forward", "POST", {
+      body: {
+        groupId: args.groupId,
+        threadId: args.threadId,
+        messageId: args.messageId,
+        from: args.from,
+        to: args.to,
+        cc: args.cc,
+        bcc: args.bcc,
+        note: args.note,
+        sendAt: args.sendAt
+      }
+    });
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+});
+
+server.addTool({
+  name: "list_scheduled",
+  description:
+    "List messages sent with a future sendAt, soonest first, with their status: pending (not delivered yet), sent, or failed (with the reason).",
+  annotations: { readOnlyHint: true, idempotentHint: true },
+  parameters: z.object({
+    groupId: groupIdSchema
+      .optional()
+      .describe("Group to list from. Required when multiple groups exist."),
+    ...callerParams({ from: z.string().optional().describe("Only messages from this agent.") }),
+    status: z.enum(["pending", "sent", "failed"]).optional()
+  }),
+  execute: async (args, { session }) => {
+    const groupId = await resolveGroupId(session, args.groupId);
+    const result = await callApi(session, "scheduled", "GET", {
+      query: { groupId, from: args.from, status: args.status }
+    });
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+});
+
+server.addTool({
+  name: "cancel_scheduled",
+  description: "Cancel a scheduled message that has not been delivered yet.",
+  annotations: { destructiveHint: true, idempotentHint: false },
+  parameters: z.object({
+    scheduledId: z.string().min(1, "Provide the scheduledId returned when the message was scheduled.")
+  }),
+  execute: async (args, { session }) => {
+    const result = await callApi(session, `scheduled/${encodeURIComponent(args.scheduledId)}`, "DELETE");
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+});
+
+server.addTool({
+  name: "create_draft",
+  description:
+    "Save a message to finish and send later with send_draft. Give a threadId to draft a reply (kind 'reply' or 'reply-all'); replies take their recipients and subject from the thread. Nothing is validated until the draft is sent.",
+  annotations: { destructiveHint: false, idempotentHint: false },
+  parameters: z.object({
+    groupId: groupIdSchema
+      .optional()
+      .describe("Group for a new-message draft. Required when multiple groups exist and no threadId is given."),
+    ...callerParams({ from: senderSchema }),
+    threadId: z.string().min(1).optional().describe("Thread to reply to. Makes this a reply draft."),
+    kind: z
+      .enum(["new", "reply", "reply-all"])
+      .optional()
+      .describe("Defaults to 'reply' when threadId is given, otherwise 'new'."),
+    replyToMessageId: z
+      .string()
+      .optional()
+      .describe("Reply drafts only. Defaults to the latest message in the thread when sent."),
+    to: recipientsSchema.optional(),
+    cc: recipientsSchema.optional(),
+    bcc: recipientsSchema.optional(),
+    subject: z.string().optional(),
+    body: z.string().optional().describe("Can be left empty and filled in with update_draft.")
+  }),
+  execute: async (args, { session }) => {
+    const groupId = args.threadId ? args.groupId : await resolveGroupId(session, args.groupId);
+    const result = await callApi(session, "drafts", "POST", {
+      body: {
+        groupId,
+        from: args.from,
+        threadId: args.threadId,
+        kind: args.kind,
+        replyToMessageId: args.replyToMessageId,
+        to: args.to,
+        cc: args.cc,
+        bcc: args.bcc,
+        subject: args.subject,
+        body: args.body ?? ""
+      }
+    });
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+});
+
+server.addTool({
+  name: "update_draft",
+  description:
+    "Edit a saved draft. Only the fields you pass change. Recipients and subject can only be set on new-message drafts.",
+  annotations: { destructiveHint: false, idempotentHint: true },
+  parameters: z.object({
+    draftId: z.string().min(1, "Provide the draft ID."),
+    to: recipientsSchema.optional(),
+    cc: recipientsSchema.optional(),
+    bcc: recipientsSchema.optional(),
+    subject: z.string().optional(),
+    body: z.string().optional(),
+    replyToMessageId: z.string().optional()
+  }),
+  execute: async (args, { session }) => {
+    const { draftId, ...update } = args;
+    const result = await callApi(session, `drafts/${encodeURIComponent(draftId)}`, "PATCH", { body: update });
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+});
+
+server.addTool({
+  name: "list_drafts",
+  description: "List an agent's unsent drafts, most recently edited first.",
+  annotations: { readOnlyHint: true, idempotentHint: true },
+  parameters: z.object({
+    groupId: groupIdSchema
+      .optional()
+      .describe("Group to list drafts from. Required when multiple groups exist."),
+    ...callerParams({ agentAddress: z.string().min(1, "Provide the agent whose drafts to list.") })
+  }),
+  execute: async (args, { session }) => {
+    const groupId = await resolveGroupId(session, args.groupId);
+    const result = await callApi(session, "drafts", "GET", {
+      query: { groupId, agentAddress: args.agentAddress }
+    });
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+});
+
+server.addTool({
+  name: "send_draft",
+  description:
+    "Send a draft. The sender and recipients are checked now, exactly as send_email and reply_email would; if they are invalid the draft is kept so it can be fixed.",
+  annotations: { destructiveHint: false, idempotentHint: false },
+  parameters: z.object({
+    draftId: z.string().min(1, "Provide the draft ID."),
+    attachments: attachmentsSchema.optional()
+  }),
+  execute: async (args, { session }) => {
+    const result = await callApi(session, `drafts/${encodeURIComponent(args.draftId)}/send`, "POST", {
+      body: { attachments: args.attachments }
+    });
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+});
+
+server.addTool({
+  name: "delete_draft",
+  description: "Discard a draft without sending it.",
+  annotations: { destructiveHint: true, idempotentHint: true },
+  parameters: z.object({
+    draftId: z.string().min(1, "Provide the draft ID.")
+  }),
+  execute: async (args, { session }) => {
+    const result = await callApi(session, `drafts/${encodeURIComponent(args.draftId)}`, "DELETE");
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+});
+
+server.addTool({
+  name: "get_inbox_short",
+  description:
+    "Retrieve the most recent messages for a specific agent with 500 character previews. Pass the returned nextCursor to page back through older mail. Use list_agents to get valid agent addresses.",
+  annotations: { readOnlyHint: true, idempotentHint: true },
+  parameters: z.object({
+    ...callerParams({ agentAddress: agentAddressSchema }),
+    groupId: groupIdSchema
+      .optional()
+      .describe(
+        "Group to pull messages from. Required when multiple groups exist."
+      ),
+    limit: limitSchema.optional(),
+    cursor: cursorSchema.optional()
+  }),
+  execute: async (args, { session }) => {
+    const result = await callPagedApi(session, "inbox/short", "GET", {
+      query: {
+        groupId: args.groupId,
+        agentAddress: args.agentAddress,
+        limit: args.limit,
+        cursor: args.cursor
+      }
+    });
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+});
+
+server.addTool({
+  name: "get_inbox",
+  description:
+    "Retrieve the most recent messages for a specific agent with full bodies, including the agent's labels on each. Pass label to read one folder, e.g. 'Inbox' to skip archived mail. Pass the returned nextCursor to page back through older mail. Use list_agents to get valid agent addresses.",
+  annotations: { readOnlyHint: true, idempotentHint: true },
+  parameters: z.object({
+    ...callerParams({ agentAddress: agentAddressSchema }),
+    groupId: groupIdSchema
+      .optional()
+      .describe(
+        "Group to pull messages from. Required when multiple groups exist."
+      ),
+    label: z
+      .string()
+      .optional()
+      .describe("Only return messages with this label: Inbox, Archive, Starred, Trash or one of the agent's own labels."),
+    limit: limitSchema.optional(),
+    cursor: cursorSchema.optional()
+  }),
+  execute: async (args, { session }) => {
+    const result = await callPagedApi(session, "inbox", "GET", {
+      query: {
+        groupId: args.groupId,
+        agentAddress: args.agentAddress,
+        label: args.label,
+        limit: args.limit,
+        cursor: args.cursor
+      }
+    });
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+});
+
+server.addTool({
+  name: "get_unread",
+  description:
+    "Retrieve only the messages a specific agent has not read yet, with full bodies. Call mark_read after processing them so they are not returned again. Use list_agents to get valid agent addresses.",
+  annotations: { readOnlyHint: true, idempotentHint: true },
+  parameters: z.object({
+    ...callerParams({ agentAddress: agentAddressSchema }),
+    groupId: groupIdSchema
+      .optional()
+      .describe(
+        "Group to pull messages from. Required when multiple groups exist."
+      ),
+    limit: limitSchema.optional(),
+    cursor: cursorSchema.optional()
+  }),
+  execute: async (args, { session }) => {
+    const result = await callPagedApi(session, "inbox", "GET", {
+      query: {
+        groupId: args.groupId,
+        agentAddress: args.agentAddress,
+        limit: args.limit,
+        cursor: args.cursor,
+        unreadOnly: "true"
+      }
+    });
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+});
+
+server.addTool({
+  name: "mark_read",
+  description:
+    "Mark a message, or every message in a thread, as read for an agent. Omit messageId to mark the whole thread. Set unread to true to mark as unread instead.",
+  annotations: { destructiveHint: false, idempotentHint: true },
+  parameters: z.object({
+    ...callerParams({ agentAddress: agentAddressSchema }),
+    threadId: z.string().min(1, "Provide a thread ID."),
+    messageId: z
+      .string()
+      .optional()
+      .describe("Message ID within the thread. Marks the whole thread if omitted."),
+    unread: z
+      .boolean()
+      .optional()
+      .describe("Mark as unread instead of read. Defaults to false.")
+  }),
+  execute: async (args, { session }) => {
+    const action = args.unread ? "unread" : "read";
+    const path = args.messageId
+      ? `messages/${encodeURIComponent(args.messageId)}/${action}`
+      : `threads/${encodeURIComponent(args.threadId)}/${action}`;
+    const result = await callApi(session, path, "POST", {
+      body: {
+        threadId: args.threadId,
+        agentAddress: args.agentAddress
+      }
+    });
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+});
+
+const labelListSchema = z
+  .array(z.string().min(1).max(64))
+  .optional();
+
+server.addTool({
+  name: "list_labels",
+  description:
+    "List an agent's folders: the built-in Inbox, Archive, Starred and Trash, then its own labels, each with message and unread counts.",
+  annotations: { readOnlyHint: true, idempotentHint: true },
+  parameters: z.object({
+    ...callerParams({ agentAddress: agentAddressSchema }),
+    groupId: groupIdSchema
+      .optional()
+      .describe("Group the agent belongs to. Required when multiple groups exist.")
+  }),
+  execute: async (args, { session }) => {
+    const groupId = await resolveGroupId(session, args.groupId);
+    const result = await callApi(session, groupPath(groupId, "agents", callerAgent(session, args.agentAddress), "labels"), "GET");
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+});
+
+server.addTool({
+  name: "label_email",
+  description:
+    "Add or remove labels on a message, or on every message in a thread the agent sent or received. Omit messageId to label the whole thread. Labels that do not exist yet are created. Inbox, Archive and Trash are locations: adding one moves the message out of the others.",
+  annotations: { destructiveHint: false, idempotentHint: true },
+  parameters: z.object({
+    ...callerParams({ agentAddress: agentAddressSchema }),
+    threadId: z.string().min(1, "Provide a thread ID."),
+    messageId: z
+      .string()
+      .optional()
+      .describe("Message ID within the thread. Labels the whole thread if omitted."),
+    add: labelListSchema.describe("Labels to apply."),
+    remove: labelListSchema.describe("Labels to take off.")
+  }),
+  execute: async (args, { session }) => {
+    const path = args.messageId
+      ? `messages/${encodeURIComponent(args.messageId)}/labels`
+      : `threads/${encodeURIComponent(args.threadId)}/labels`;
+    const result = await callApi(session, path, "POST", {
+      body: {
+        threadId: args.threadId,
+        agentAddress: args.agentAddress,
+        add: args.add,
+        remove: args.remove
+      }
+    });
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+});
+
+server.addTool({
+  name: "archive_email",
+  description:
+    "Move a message, or a whole thread, out of an agent's Inbox into Archive. Omit messageId to archive the whole thread. Set unarchive to true to move it back to the Inbox.",
+  annotations: { destructiveHint: false, idempotentHint: true },
+  parameters: z.object({
+    ...callerParams({ agentAddress: agentAddressSchema }),
+    threadId: z.string().min(1, "Provide a thread ID."),
+    messageId: z
+      .string()
+      .optional()
+      .describe("Message ID within the thread. Archives the whole thread if omitted."),
+    unarchive: z
+      .boolean()
+      .optional()
+      .describe("Move back to the Inbox instead. Defaults to false.")
+  }),
+  execute: async (args, { session }) => {
+    const path = args.messageId
+      ? `messages/${encodeURIComponent(args.messageId)}/labels`
+      : `threads/${encodeURIComponent(args.threadId)}/labels`;
+    const result = await callApi(session, path, "POST", {
+      body: {
+        threadId: args.threadId,
+        agentAddress: args.agentAddress,
+        add: [args.unarchive ? "Inbox" : "Archive"]
+      }
+    });
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+});
+
+server.addTool({
+  name: "delete_email",
+  description:
+    "Move a message, or a whole thread, to an agent's Trash. Only that agent's view changes; other participants keep their copies. Omit messageId to delete the whole thread. Set restore to true to take it back out of Trash.",
+  annotations: { destructiveHint: false, idempotentHint: true },
+  parameters: z.object({
+    ...callerParams({ agentAddress: agentAddressSchema }),
+    threadId: z.string().min(1, "Provide a thread ID."),
+    messageId: z
+      .string()
+      .optional()
+      .describe("Message ID within the thread. Deletes the whole thread if omitted."),
+    restore: z
+      .boolean()
+      .optional()
+      .describe("Restore from Trash instead. Defaults to false.")
+  }),
+  execute: async (args, { session }) => {
+    const action = args.restore ? "restore" : "delete";
+    const path = args.messageId
+      ? `messages/${encodeURIComponent(args.messageId)}/${action}`
+      : `threads/${encodeURIComponent(args.threadId)}/${action}`;
+    const result = await callApi(session, path, "POST", {
+      body: {
+        threadId: args.threadId,
+        agentAddress: args.agentAddress
+      }
+    });
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+});
+
+server.addTool({
+  name: "search_emails",
+  description:
+    "Full-text search over message subjects and bodies. Results are ranked by relevance and include highlighted snippets. Use this to find earlier decisions or context instead of paging through inboxes.",
+  annotations: { readOnlyHint: true, idempotentHint: true },
+  parameters: z.object({
+    query: z.string().min(1, "Provide search terms."),
+    groupId: groupIdSchema
+      .optional()
+      .describe(
+        "Group to search. Required when multiple groups exist."
+      ),
+    from: z.string().optional().describe("Only messages sent by this agent."),
+    to: z.string().optional().describe("Only messages received by this agent."),
+    threadId: z.string().optional().describe("Only messages in this thread."),
+    since: z
+      .string()
+      .optional()
+      .describe("ISO 8601 date. Only messages created at or after this time."),
+    until: z
+      .string()
+      .optional()
+      .describe("ISO 8601 date. Only messages created at or before this time."),
+    limit: limitSchema.optional()
+  }),
+  execute: async (args, { session }) => {
+    const result = await callApi(session, "search", "GET", {
+      query: {
+        q: args.query,
+        groupId: args.groupId,
+        from: args.from,
+        to: args.to,
+        threadId: args.threadId,
+        since: args.since,
+        until: args.until,
+        limit: args.limit
+      }
+    });
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+});
+
+server.addTool({
+  name: "get_message",
+  description: "Fetch a specific message by ID.",
+  annotations: { readOnlyHint: true, idempotentHint: true },
+  parameters: z.object({
+    messageId: z.string().min(1, "Message ID is required."),
+    threadId: z
+      .string()
+      .optional()
+      .describe("Thread ID to disambiguate when duplicates exist."),
+    groupId: groupIdSchema
+      .optional()
+      .describe("Optional group to narrow the search."),
+    ...callerParams({
+      agentAddress: z
+        .string()
+        .optional()
+        .describe("Agent viewing the message. BCC recipients are only shown to the sender.")
+    })
+  }),
+  execute: async (args, { session }) => {
+    const path = `messages/${encodeURIComponent(args.messageId)}`;
+    const result = await callApi(session, path, "GET", {
+      query: { threadId: args.threadId, groupId: args.groupId, agentAddress: args.agentAddress }
+    });
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+});
+
+server.addTool({
+  name: "list_threads",
+  description:
+    "List conversation threads in a group, most recently active first, with subject, creator, participants, message count, last message preview and last activity time. Pass agentAddress to include that agent's unread count per thread.",
+  annotations: { readOnlyHint: true, idempotentHint: true },
+  parameters: z.object({
+    groupId: groupIdSchema
+      .optional()
+      .describe("Group to list threads from. Required when multiple groups exist."),
+    ...callerParams({
+      participant: z
+        .string()
+        .optional()
+        .describe("Only threads this agent sent or received a message in.")
+    }),
+    since: z
+      .string()
+      .optional()
+      .describe("ISO 8601 date. Only threads with activity at or after this time."),
+    ...callerParams({
+      agentAddress: z
+        .string()
+        .optional()
+        .describe("Agent viewing the list. Adds unread counts for this agent.")
+    }),
+    limit: z.number().int().positive().optional().describe("Maximum number of threads. Returns all if omitted.")
+  }),
+  execute: async (args, { session }) => {
+    const result = await callApi(session, "threads", "GET", {
+      query: {
+        groupId: args.groupId,
+        participant: args.participant,
+        since: args.since,
+        agentAddress: args.agentAddress,
+        limit: args.limit
+      }
+    });
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+});
+
+server.addTool({
+  name: "get_thread",
+  description:
+    "Fetch a thread and its messages, oldest first. Returns the whole thread unless limit or cursor is given.",
+  annotations: { readOnlyHint: true, idempotentHint: true },
+  parameters: z.object({
+    threadId: z.string().min(1, "Thread ID is required."),
+    ...callerParams({
+      agentAddress: z
+        .string()
+        .optional()
+        .describe("Agent viewing the thread. BCC recipients are only shown to the sender.")
+    }),
+    limit: z.number().int().positive().optional().describe("Page size. Omit to fetch the whole thread."),
+    cursor: z
+      .string()
+      .optional()
+      .describe("Opaque cursor from a previous call's nextCursor (later messages) or prevCursor (earlier messages).")
+  }),
+  execute: async (args, { session }) => {
+    const path = `threads/${encodeURIComponent(args.threadId)}`;
+    const result = await callPagedApi(session, path, "GET", {
+      query: { agentAddress: args.agentAddress, limit: args.limit, cursor: args.cursor }
+    });
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+});
+
+server.addTool({
+  name: "get_attachment",
+  description:
+    "Download a message attachment by ID. Attachment IDs are listed in each message's 'attachments' field. Text files are returned as text; other files as base64.",
+  annotations: { readOnlyHint: true, idempotentHint: true },
+  parameters: z.object({
+    attachmentId: z.string().min(1, "Attachment ID is required.")
+  }),
+  execute: async (args, { session }) => {
+    const path = `attachments/${encodeURIComponent(args.attachmentId)}`;
+    const result = await callApi<{
+      filename: string;
+      mimeType: string;
+      size: number;
+      contentBase64: string;
+    }>(session, path, "GET", { query: { format: "base64" } });
+
+    if (result.mimeType.startsWith("image/")) {
+      return {
+        content: [
+          {
+            type: "image" as const,
+            data: result.contentBase64,
+            mimeType: result.mimeType
+          }
+        ]
+      };
+    }
+
+    const isText = /^text\/|[/+](json|xml|csv|yaml|javascript)$/.test(result.mimeType);
+    const { contentBase64, ...metadata } = result;
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(
+            isText
+              ? { ...metadata, encoding: "text", content: Buffer.from(contentBase64, "base64").toString("utf8") }
+              : { ...metadata, encoding: "base64", content: contentBase64 },
+            null,
+            2
+          )
+        }
+      ]
+    };
+  }
+});
+
+if (MCP_ADMIN_TOOLS) {
+  const snapshotNameSchema = z
+    .string()
+    .min(1, "Provide a snapshot name.")
+    .describe("Letters, digits, '.', '_' or '-'.");
+
+  addObserverTool({
+    name: "list_snapshots",
+    description: "List saved snapshots of the mailbox, newest first.",
+    annotations: { readOnlyHint: true },
+    parameters: z.object({}),
+    execute: async (_args, { session }) => {
+      const result = await callApi(session, "snapshots", "GET");
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(result, null, 2)
+          }
+        ]
+      };
+    }
+  });
+
+  addObserverTool({
+    name: "create_snapshot",
+    description:
+      "Save the current mailbox under a name so it can be restored later, e.g. before rerunning a workflow. Omit groupId to save every group.",
+    parameters: z.object({
+      name: snapshotNameSchema,
+      groupId: groupIdSchema.optional()
+    }),
+    execute: async (args, { session }) => {
+      const result = await callApi(session, "snapshots", "POST", { body: args });
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(result, null, 2)
+          }
+        ]
+      };
+    }
+  });
+
+  addObserverTool({
+    name: "restore_snapshot",
+    description:
+      "Replace the snapshot's group, or every group for a full snapshot, with its saved state. Mail sent since the snapshot is lost.",
+    annotations: { destructiveHint: true, idempotentHint: true },
+    parameters: z.object({
+      name: snapshotNameSchema
+    }),
+    execute: async (args, { session }) => {
+      const result = await callApi(session, `snapshots/${encodeURIComponent(args.name)}/restore`, "POST");
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(result, null, 2)
+          }
+        ]
+      };
+    }
+  });
+
+  addObserverTool({
+    name: "delete_snapshot",
+    description: "Delete a saved snapshot. The mailbox itself is not changed.",
+    annotations: { destructiveHint: true, idempotentHint: false },
+    parameters: z.object({
+      name: snapshotNameSchema
+    }),
+    execute: async (args, { session }) => {
+      const result = await callApi(session, `snapshots/${encodeURIComponent(args.name)}`, "DELETE");
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(result, null, 2)
+          }
+        ]
+      };
+    }
+  });
+}
+
+// Mailboxes as MCP resources, read through the same endpoints as get_inbox, get_thread and list_agents
+type MailResource =
+  | { kind: "inbox"; groupId: string; agentAddress: string }
+  | { kind: "thread"; threadId: string }
+  | { kind: "agents"; groupId: string };
+
+function parseResourceUri(uri: string): MailResource | null {
+  if (!uri.startsWith("ses://")) return null;
+  let parts: string[];
+  try {
+    parts = uri.slice("ses://".length).split("/").map(decodeURIComponent);
+  } catch {
+    return null;
+  }
+  if (parts.length === 2 && parts[0] === "thread") return { kind: "thread", threadId: parts[1]! };
+  if (parts.length === 2 && parts[1] === "agents") return { kind: "agents", groupId: parts[0]! };
+  if (parts.length === 3 && parts[2] === "inbox") return { kind: "inbox", groupId: parts[0]!, agentAddress: parts[1]! };
+  return null;
+}
+
+type ThreadContents = { thread: { threadId: string; groupId: string }; messages: unknown[] };
+
+function isThreadContents(data: unknown): data is ThreadContents {
+  if (typeof data !== "object" || data === null || !("thread" in data) || !("messages" in data)) return false;
+  const { thread, messages } = data;
+  return (
+    typeof thread === "object" && thread !== null &&
+    "threadId" in thread && typeof thread.threadId === "string" &&
+    "groupId" in thread && typeof thread.groupId === "string" &&
+    Array.isArray(messages)
+  );
+}
+
+// A resource with what reading it returned, as far as subscriptions look into it
+type MailResourceContents =
+  | (Extract<MailResource, { kind: "inbox" }> & { page: Paged<unknown[]> })
+  | (Extract<MailResource, { kind: "thread" }> & { page: Paged<ThreadContents> })
+  | (Extract<MailResource, { kind: "agents" }> & { agents: unknown[] });
+
+async function readMailResource(session: AgentSession | undefined, resource: MailResource): Promise<MailResourceContents> {
+  switch (resource.kind) {
+    case "inbox":
+      return {
+        ...resource,
+        page: await callPagedApi<unknown[]>(session, "inbox", "GET", {
+          query: { groupId: resource.groupId, agentAddress: resource.agentAddress }
+        })
+      };
+    case "thread": {
+      const page = await callPagedApi(session, `threads/${encodeURIComponent(resource.threadId)}`, "GET");
+      if (!isThreadContents(page.data)) {
+        throw new Error(`Unexpected response for thread ${resource.threadId}`);
+      }
+      return { ...resource, page: { ...page, data: page.data } };
+    }
+    case "agents":
+      return { ...resource, agents: await callApi<unknown[]>(session, groupPath(resource.groupId, "agents"), "GET") };
+  }
+}
+
+async function loadMailResource(session: AgentSession | undefined, resource: MailResource) {
+  const contents = await readMailResource(session, resource);
+  return { text: JSON.stringify(contents.kind === "agents" ? contents.agents : contents.page, null, 2) };
+}
+
+server.addResourceTemplate({
+  uriTemplate: "ses://{groupId}/{agentAddress}/inbox",
+  name: "Inbox",
+  description: "An agent's most recent messages with full bodies and labels, as get_inbox returns them. Subscribe to hear when its mail changes.",
+  mimeType: "application/json",
+  arguments: [
+    { name: "groupId", description: "Group ID, e.g. @team", required: true },
+    { name: "agentAddress", description: "Agent whose inbox to read", required: true }
+  ],
+  load: async ({ groupId, agentAddress }, session) => loadMailResource(session, { kind: "inbox", groupId, agentAddress })
+});
+
+server.addResourceTemplate({
+  uriTemplate: "ses://thread/{threadId}",
+  name: "Thread",
+  description: "A thread and its messages, oldest first, as get_thread returns them. Subscribe to hear about new replies and read-state changes.",
+  mimeType: "application/json",
+  arguments: [{ name: "threadId", description: "Thread ID", required: true }],
+  load: async ({ threadId }, session) => loadMailResource(session, { kind: "thread", threadId })
+});
+
+server.addResourceTemplate({
+  uriTemplate: "ses://{groupId}/agents",
+  name: "Agents",
+  description: "The agents in a group with their profiles, unread counts and last activity, as list_agents returns them.",
+  mimeType: "application/json",
+  arguments: [{ name: "groupId", description: "Group ID, e.g. @team", required: true }],
+  load: async ({ groupId }, session) => loadMailResource(session, { kind: "agents", groupId })
+});
+
+// An event from the API's /events stream, as much of it as subscriptions look at
+type MailEventPayload = {
+  type: string;
+  groupId: string;
+  threadId?: string;
+  message?: { threadId: string };
+  thread?: { threadId: string };
+};
+
+const EVENTS_RETRY_MS = 3000;
+
+// Follows /events until aborted, reconnecting whenever the stream drops. onOpen is called each time the
+// stream is connected: the API starts listening before it sends the response headers, so nothing that
+// happens afterwards is missed. The embedded backend is listened to directly and never drops.
+async function followEvents(
+  session: AgentSession | undefined,
+  query: QueryParams,
+  signal: AbortSignal,
+  onEvent: (event: MailEventPayload) => void,
+  onOpen: () => void,
+  onError: (error: unknown) => void
+): Promise<void> {
+  if (embedded) {
+    if (signal.aborted) return;
+    const followed = embedded.api.subscribe({ ...apiCredentials(session), query }, event => onEvent(event as MailEventPayload));
+    if (followed.error) {
+      onError(new Error(`Request failed (${followed.error.status}): ${String(followed.error.body.message)}`));
+      return;
+    }
+    signal.addEventListener("abort", followed.unsubscribe, { once: true });
+    onOpen();
+    return;
+  }
+
+  while (!signal.aborted) {
+    try {
+      const response = await fetch(apiUrl("events", query), {
+        headers: { Accept: "text/event-stream", ...apiHeaders(session) },
+        signal
+      });
+      if (!response.ok || !response.body) {
+        throw new Error(`Request failed (${response.status}): ${response.statusText}`);
+      }
+      onOpen();
+      let buffer = "";
+      for await (const chunk of response.body.pipeThrough(new TextDecoderStream())) {
+        buffer += chunk;
+        let end: number;
+        while ((end = buffer.indexOf("\n\n")) !== -1) {
+          const data = buffer
+            .slice(0, end)
+            .split("\n")
+            .filter(line => line.startsWith("data: "))
+            .map(line => line.slice("data: ".length))
+            .join("\n");
+          buffer = buffer.slice(end + 2);
+          if (data) {
+            onEvent(JSON.parse(data));
+          }
+        }
+      }
+    } catch (error) {
+      if (signal.aborted) return;
+      onError(error);
+    }
+    await delay(EVENTS_RETRY_MS, undefined, { signal }).catch(() => undefined);
+  }
+}
+
+// What one MCP session has subscribed to. Each subscription listens on an /events stream filtered to the
+// mailbox view it shows, and streams are shared by the subscriptions that need the same view.
+type ResourceSubscription = { clientUri: string; stream: string; changedBy: (event: MailEventPayload) => boolean };
+
+// A new thread always comes with its first message, and scheduled mail changes nothing until it is delivered
+const changesMail = (event: MailEventPayload) => event.type !== "thread.created" && event.type !== "message.scheduled";
+
+class ResourceSubscriptions {
+  private subscriptions = new Map<string, ResourceSubscription>();
+  private streams = new Map<string, { controller: AbortController; opened: Promise<void> }>();
+
+  constructor(private mcp: Server, private session: AgentSession | undefined) {}
+
+  async subscribe(uri: string): Promise<void> {
+    const resource = parseResourceUri(uri);
+    if (!resource) {
+      throw new Error(`Unknown resource ${uri}. Use ses://{groupId}/{agentAddress}/inbox, ses://thread/{threadId} or ses://{groupId}/agents.`);
+    }
+    // Reading it first refuses anything the session may not see, e.g. another agent's inbox in agent mode
+    const current = await readMailResource(this.session, resource);
+
+    let subscription: ResourceSubscription;
+    switch (current.kind) {
+      case "inbox":
+        subscription = {
+          clientUri: uri,
+          stream: JSON.stringify([current.groupId, current.agentAddress]),
+          changedBy: changesMail
+        };
+        break;
+      case "thread": {
+        const { threadId } = current;
+        subscription = {
+          clientUri: uri,
+          stream: JSON.stringify([current.page.data.thread.groupId]),
+          changedBy: event =>
+            event.type === "mailbox.restored" ||
+            (event.threadId ?? event.message?.threadId ?? event.thread?.threadId) === threadId
+        };
+        break;
+      }
+      case "agents":
+        // Unread counts and last activity move with the group's mail
+        subscription = {
+          clientUri: uri,
+          stream: JSON.stringify([current.groupId]),
+          changedBy: changesMail
+        };
+        break;
+    }
+    this.subscriptions.set(uri, subscription);
+    // Only acknowledged once the stream is listening, so that mail sent right after the reply is announced
+    try {
+      await this.openStream(subscription.stream);
+    } catch (error) {
+      this.unsubscribe(uri);
+      throw error;
+    }
+  }
+
+  unsubscribe(uri: string): void {
+    const subscription = this.subscriptions.get(uri);
+    this.subscriptions.delete(uri);
+    if (subscription && ![...this.subscriptions.values()].some(other => other.stream === subscription.stream)) {
+      this.streams.get(subscription.stream)?.controller.abort();
+      this.streams.delete(subscription.stream);
+    }
+  }
+
+  close(): void {
+    for (const { controller } of this.streams.values()) {
+      controller.abort();
+    }
+    this.streams.clear();
+    this.subscriptions.clear();
+  }
+
+  // Resolves once the stream first connects, and rejects if that first attempt fails. Later drops are retried.
+  private openStream(stream: string): Promise<void> {
+    const existing = this.streams.get(stream);
+    if (existing) return existing.opened;
+
+    const [groupId, agentAddress] = JSON.parse(stream) as [string, string?];
+    const controller = new AbortController();
+    let settle: { resolve: () => void; reject: (error: unknown) => void } | null = null;
+    const opened = new Promise<void>((resolve, reject) => {
+      settle = { resolve, reject };
+    });
+    this.streams.set(stream, { controller, opened });
+
+    void followEvents(
+      this.session,
+      { groupId, agentAddress },
+      controller.signal,
+      event => {
+        for (const subscription of this.subscriptions.values()) {
+          if (subscription.stream === stream && subscription.changedBy(event)) {
+            this.mcp.sendResourceUpdated({ uri: subscription.clientUri }).catch(() => undefined);
+          }
+        }
+      },
+      () => {
+        settle?.resolve();
+        settle = null;
+      },
+      error => {
+        if (settle) {
+          controller.abort();
+          settle.reject(error);
+          settle = null;
+        } else {
+          console.error("Resource updates stream failed:", error instanceof Error ? error.message : error);
+        }
+      }
+    );
+    return opened;
+  }
+}
+
+const resourceSubscriptions = new WeakMap<FastMCPSession<AgentSession>, ResourceSubscriptions>();
+
+// FastMCP declares the resources.subscribe capability for servers with resources, but only records which URIs a
+// session subscribed to. These handlers replace its own, so a subscription is checked against what the session
+// may read and follows the mail that changes it.
+function addSubscriptionHandlers(session: FastMCPSession<AgentSession>): void {
+  const mcp = session.server;
+  mcp.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    let subscriptions = resourceSubscriptions.get(session);
+    if (!subscriptions) {
+      const agent = AGENT_MODE ? (extra.sessionId ? sessionAgents.get(extra.sessionId) : stdioAgent) : undefined;
+      if (AGENT_MODE && !agent) {
+        throw new Error("Unauthorized: this session is not pinned to an agent");
+      }
+      subscriptions = new ResourceSubscriptions(mcp, agent);
+      resourceSubscriptions.set(session, subscriptions);
+    }
+    await subscriptions.subscribe(request.params.uri);
+    return {};
+  });
+  mcp.setRequestHandler(UnsubscribeRequestSchema, async request => {
+    resourceSubscriptions.get(session)?.unsubscribe(request.params.uri);
+    return {};
+  });
+}
+
+// FastMCP reports a session before handing it its initialize request, so its subscription handlers are in place
+// before a client can subscribe. An HTTP session gets its ID while that request is handled, so that is also where
+// its agent is pinned.
+server.on("connect", ({ session }) => {
+  addSubscriptionHandlers(session);
+  const transport = session.server.transport;
+  if (!AGENT_MODE || !transport) return;
+  const onmessage = transport.onmessage;
+  transport.onmessage = (message: JSONRPCMessage, extra?: MessageExtraInfo) => {
+    const agent = extra?.authInfo && requestAgents.get(extra.authInfo);
+    if (agent && transport.sessionId && isInitializeRequest(message)) {
+      sessionAgents.set(transport.sessionId, agent);
+    }
+    onmessage?.(message, extra);
+  };
+});
+
+server.on("disconnect", ({ session }) => {
+  resourceSubscriptions.get(session)?.close();
+  const sessionId = session.server.transport?.sessionId;
+  if (sessionId) {
+    sessionAgents.delete(sessionId);
+  }
+});
+
+// FastMCP reports a stdio session, so it gets its subscription handlers, only once the client has initialized.
+// A subscription request that arrives before then waits for them rather than reach FastMCP's own, and so does
+// everything sent after it, to keep the client's order.
+class StdioTransport extends StdioServerTransport {
+  private held: JSONRPCMessage[] | null = [];
+  private deliver: (message: JSONRPCMessage) => void = () => undefined;
+
+  async start(): Promise<void> {
+    const onmessage = this.onmessage;
+    this.deliver = message => onmessage?.(message);
+    this.onmessage = message => {
+      const subscription = "method" in message && (message.method === "resources/subscribe" || message.method === "resources/unsubscribe");
+      if (this.held && (this.held.length > 0 || subscription)) {
+        this.held.push(message);
+      } else {
+        this.deliver(message);
+      }
+    };
+    await super.start();
+  }
+
+  subscriptionHandlersAdded(): void {
+    const held = this.held ?? [];
+    this.held = null;
+    held.forEach(this.deliver);
+  }
+}
+
+// 🚀 Start MCP server over stdio or HTTP streaming
+if (STDIO) {
+  if (AGENT_MODE) {
+    // FastMCP only logs a failed stdio authentication and carries on without a session, so check it up front
+    try {
+      stdioAgent = await authenticateAgent(undefined);
+    } catch (error) {
+      console.error((error as Error).message);
+      process.exit(1);
+    }
+  }
+  // The client closing stdin ends the session; the embedded mode's background jobs would otherwise keep the
+  // process alive
+  process.stdin.once("end", () => {
+    embedded?.close();
+    process.exit(0);
+  });
+  const transport = new StdioTransport();
+  await server.connect(transport, stdioAgent);
+  transport.subscriptionHandlersAdded();
+} else {
+  await server.start({
+    transportType: "httpStream",
+    httpStream: {
+      port: MCP_PORT,
+      host: MCP_HOST
+      // endpoint: "/mcp",      // default
+      // stateless: true,       // optional: enable stateless mode
+      // jsonResponse: true,    // if you want JSON-only responses (no SSE)
+    }
+  });
+}
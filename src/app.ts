@@ -1,139 +1,233 @@
 import express from "express";
 import * as schema from "./schema.js";
 import { DatabaseService } from "./db/service.js";
-import fs from "fs";
-import path from "path";
-
-const DEFAULT_LIMIT = 10;
-const BODY_PREVIEW_LENGTH = 500;
-const DEFAULT_SUBJECT = "No subject";
-
-function parseLimit(raw: unknown, fallback = DEFAULT_LIMIT): number {
-  const parsed = Number(raw);
-  if (Number.isInteger(parsed) && parsed > 0) {
-    return parsed;
-  }
-  return fallback;
-}
+import {
+  pageCursors,
+  serializeAgentProfile,
+  serializeAgentToken,
+  serializeAlias,
+  serializeAttachment,
+  serializeDraft,
+  serializeEvent,
+  serializeLabel,
+  serializeMessage,
+  serializeScheduledMessage,
+  serializeSearchResult,
+  serializeShortMessage,
+  serializeThreadSummary,
+  serializeWebhook,
+  serializeWebhookDelivery
+} from "./serialize.js";
+import {
+  DEFAULT_SUBJECT,
+  DRAFT_KINDS,
+  applyDraftUpdate,
+  buildScheduledMessage,
+  composeForward,
+  composeNewMessage,
+  composeOutgoing,
+  composeReply,
+  deliverMessage,
+  draftUpdateError,
+  normalizeRecipients,
+  parseAttachments
+} from "./compose.js";
+import {
+  DEFAULT_LIMIT,
+  SCHEDULED_STATUSES,
+  agentHandleError,
+  aliasMembersError,
+  applyProfileUpdate,
+  findDuplicates,
+  groupIdError,
+  lookupGroupId,
+  parseBoolean,
+  parseCursor,
+  parseDateParam,
+  parseLimit,
+  profileUpdateError
+} from "./validation.js";
+import {
+  LabelChanges,
+  applyLabelChanges,
+  canonicalLabel,
+  isBuiltInLabel,
+  labelChangesError,
+  labelNameError
+} from "./labels.js";
+import { randomBytes } from "crypto";
+import { Clock, systemClock } from "./scheduler/clock.js";
+import { SNAPSHOT_NAME_PATTERN, SnapshotStore } from "./snapshots/store.js";
+import {
+  IMPORT_CONFLICT_MODES,
+  ImportConflictMode,
+  exportMailbox,
+  importMailbox,
+  parseMailboxExport
+} from "./transfer/mailbox.js";
+import { SEED_FILE, applySeed, parseSeed, readSeedFile } from "./config/seed.js";
+import { GROUP_CONFIG_PATH, applyGroupConfigs, parseGroupConfigs, readGroupConfigFile } from "./config/groupConfig.js";
+import { generateToken, hashToken } from "./auth/tokens.js";
+import { AgentScope, Principal, agentScopeError, authenticate } from "./auth/principal.js";
+
+const JSON_BODY_LIMIT = "25mb";        // Base64 attachments inflate request bodies by a third
+const SSE_HEARTBEAT_MS = 25_000;
+const DEFAULT_DELIVERY_LIMIT = 50;
 
 function resolveGroupId(
   req: express.Request,
   res: express.Response,
   dbService: DatabaseService
 ): schema.GroupId | null {
-  const groupId = typeof req.query.groupId === "string" ? req.query.groupId : undefined;
-  if (groupId) {
-    const group = dbService.getGroup(groupId);
-    if (!group) {
-      res.status(404).json({
-        success: false,
-        message: `Group ${groupId} not found`
-      });
-      return null;
-    }
-    return groupId;
-  }
-
-  const groups = dbService.listGroups();
-  if (groups.length === 0) {
-    res.status(404).json({
+  const resolved = lookupGroupId(dbService, typeof req.query.groupId === "string" ? req.query.groupId : undefined);
+  if (resolved.error) {
+    res.status(resolved.error.status).json({
       success: false,
-      message: "No groups found. Create a group first."
+      message: resolved.error.message
     });
     return null;
   }
-
-  if (groups.length === 1) {
-    return groups[0]!.id;
-  }
-
-  res.status(400).json({
-    success: false,
-    message: "Multiple groups exist. Provide groupId as a query parameter."
-  });
-  return null;
-}
-
-function serializeMessage(message: schema.Message) {
-  return {
-    messageId: message.messageid,
-    threadId: message.threadId,
-    groupId: message.groupId,
-    from: message.from,
-    to: message.to,
-    subject: message.subject,
-    body: message.body,
-    createdAt: message.createdAt
-  };
-}
-
-function serializeShortMessage(message: schema.Message) {
-  return {
-    messageId: message.messageid,
-    threadId: message.threadId,
-    groupId: message.groupId,
-    from: message.from,
-    subject: message.subject,
-    bodyPreview: message.body.slice(0, BODY_PREVIEW_LENGTH),
-    createdAt: message.createdAt
-  };
+  return resolved.groupId;
 }
 
-function normalizeRecipients(raw: unknown): string[] {
-  if (Array.isArray(raw)) {
-    return raw
-      .filter((val): val is string => typeof val === "string" && val.trim() !== "")
-      .map(v => v.trim());
-  }
-  if (typeof raw === "string" && raw.trim() !== "") {
-    return [raw.trim()];
+function isHttpUrl(raw: unknown): raw is string {
+  if (typeof raw !== "string") return false;
+  try {
+    const url = new URL(raw);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
   }
-  return [];
 }
 
-function nextMessageId(thread: schema.Thread): string {
-  const next = Number.parseInt(thread.lastIndex, 10) + 1;
-  return Number.isNaN(next) ? "0" : String(next);
+function principalOf(res: express.Response): Principal {
+  return res.locals.principal as Principal;
 }
 
-function replySubject(subject: string): string {
-  if (!subject || subject.trim() === "") {
-    return `Re: ${DEFAULT_SUBJECT}`;
-  }
-  const trimmed = subject.trim();
-  return /^re:/i.test(trimmed) ? trimmed : `Re: ${trimmed}`;
+// EventSource cannot set headers, so /events also takes the token as ?token=. No other route does, since
+// URLs end up in access logs, proxy logs and browser history.
+function requestToken(req: express.Request): string | null {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.get("authorization") ?? "");
+  if (match) return match[1]!;
+  if (req.path !== "/events") return null;
+  return typeof req.query.token === "string" && req.query.token !== "" ? req.query.token : null;
 }
 
-function ensureGroup(dbService: DatabaseService, groupId: string): schema.Group {
-  let group = dbService.getGroup(groupId);
-  if (!group) {
-    group = new schema.Group(groupId, []);
-    dbService.createGroup(group);
-  }
-  return group;
+// Express 5 parses req.query afresh on every access, so defaults are added by replacing it with a copy
+function setQueryDefaults(req: express.Request, defaults: Record<string, string>): void {
+  const query = { ...defaults, ...req.query };
+  Object.defineProperty(req, "query", { value: query, configurable: true, enumerable: true, writable: true });
 }
 
-function validateAgents(agents: string[], group: schema.Group): { valid: boolean; invalidAgents: string[] } {
-  const validAgents = new Set(group.agents);
-  const invalidAgents = agents.filter(agent => !validAgents.has(agent));
-  return {
-    valid: invalidAgents.length === 0,
-    invalidAgents
-  };
+export interface AppOptions {
+  clock?: Clock;                       // Decides whether a sendAt is in the future; share it with the DeliveryScheduler
+  snapshotDir?: string;                // Where /snapshots keeps its files; snapshots are disabled without it
+  adminTokens?: string[];              // Turns on token auth; without any, every request is treated as an admin
 }
 
-export function createApp(dbService: DatabaseService): express.Express {
+export function createApp(dbService: DatabaseService, options: AppOptions = {}): express.Express {
   const app = express();
+  const clock = options.clock ?? systemClock;
+  const snapshots = options.snapshotDir ? new SnapshotStore(dbService, options.snapshotDir) : null;
 
-  app.use(express.json());
+  app.use(express.json({ limit: JSON_BODY_LIMIT }));
 
   app.get("/", (_req: express.Request, res: express.Response) => {
     res.json({ message: "API is live" });
   });
 
+  // Every route below needs a token once an admin token is configured. An admin can act as one agent by
+  // naming it in the X-SES-Group and X-SES-Agent headers, which scopes the request exactly as that agent's
+  // token would; the MCP server uses this to pin each connection to an agent.
+  const adminTokenHashes = new Set((options.adminTokens ?? []).map(hashToken));
+  app.use((req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const authenticated = authenticate(dbService, adminTokenHashes, requestToken(req), {
+      groupId: req.get("x-ses-group"),
+      agent: req.get("x-ses-agent")
+    });
+    if (authenticated.error) {
+      res.status(401).set("WWW-Authenticate", "Bearer").json({
+        success: false,
+        message: authenticated.error
+      });
+      return;
+    }
+    res.locals.principal = authenticated.principal;
+    next();
+  });
+
+  const adminOnly = (_req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (principalOf(res).role !== "admin") {
+      res.status(403).json({
+        success: false,
+        message: "This endpoint requires an admin token"
+      });
+      return;
+    }
+    next();
+  };
+
+  // Lets agents through only for their own group, identity and mail. Whatever the request leaves out
+  // (groupId, agentAddress, from) is filled in from the principal, so the route answers for that agent alone.
+  const asAgent = (scope: AgentScope = {}) =>
+    (req: express.Request, res: express.Response, next: express.NextFunction) => {
+      const principal = principalOf(res);
+      if (principal.role === "admin") {
+        next();
+        return;
+      }
+
+      const error = agentScopeError(req, dbService, principal, scope);
+      if (error) {
+        res.status(error.status).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+
+      setQueryDefaults(req, {
+        groupId: principal.groupId,
+        ...Object.fromEntries((scope.query ?? ["agentAddress"]).map(name => [name, principal.agent]))
+      });
+      if (req.method === "POST") {
+        req.body = { groupId: principal.groupId, from: principal.agent, agentAddress: principal.agent, ...req.body };
+      }
+      next();
+    };
+
+  for (const prefix of ["/webhooks", "/admin", "/snapshots", "/export", "/import"]) {
+    app.use(prefix, adminOnly);
+  }
+
+  app.get("/auth/me", (_req: express.Request, res: express.Response) => {
+    const principal = principalOf(res);
+    const authEnabled = adminTokenHashes.size > 0;
+    res.json({
+      success: true,
+      data: principal.role === "admin"
+        ? { role: "admin", authEnabled }
+        : {
+          role: "agent",
+          authEnabled,
+          groupId: principal.groupId,
+          agentAddress: principal.agent,
+          tokenId: principal.tokenId
+        }
+    });
+  });
+
+  const withProfiles = (group: schema.Group) => ({
+    ...group,
+    profiles: dbService.listAgentProfiles(group.id).map(serializeAgentProfile)
+  });
+
   app.get("/groups", (_req: express.Request, res: express.Response) => {
     try {
-      const groups = dbService.listGroups();
+      const principal = principalOf(res);
+      const groups = dbService.listGroups()
+        .filter(group => principal.role === "admin" || group.id === principal.groupId)
+        .map(group => withProfiles(group));
       res.json({
         success: true,
         data: groups
@@ -148,72 +242,73 @@ export function createApp(dbService: DatabaseService): express.Express {
     }
   });
 
-  app.post("/emails/write", (req: express.Request, res: express.Response) => {
-    const { groupId, from, to, subject, body } = req.body;
+  app.post("/groups", adminOnly, (req: express.Request, res: express.Response) => {
+    const { groupId } = req.body;
+    const agents = normalizeRecipients(req.body.agents);
 
-    if (!groupId || !from || !to || !body) {
+    const formatError = groupIdError(groupId) ?? agents.map(agentHandleError).find(e => e !== null) ?? null;
+    if (formatError) {
       res.status(400).json({
         success: false,
-        message: "Missing required fields: groupId, from, to, body"
+        message: formatError
       });
       return;
     }
 
-    const recipients = normalizeRecipients(to);
-    if (recipients.length === 0) {
+    const duplicates = findDuplicates(agents);
+    if (duplicates.length > 0) {
       res.status(400).json({
         success: false,
-        message: "Recipient list cannot be empty"
+        message: `Duplicate agent handle(s): ${duplicates.join(", ")}`
       });
       return;
     }
 
     try {
-      const group = ensureGroup(dbService, groupId);
-
-      // Validate 'from' is a valid agent
-      if (!group.agents.includes(from)) {
-        res.status(400).json({
+      if (dbService.getGroup(groupId)) {
+        res.status(409).json({
           success: false,
-          message: `Invalid sender: '${from}' is not a valid agent in group ${groupId}. Valid agents: ${group.agents.join(", ")}`
+          message: `Group ${groupId} already exists`
         });
         return;
       }
 
-      // Validate all recipients are valid agents
-      const recipientValidation = validateAgents(recipients, group);
-      if (!recipientValidation.valid) {
-        res.status(400).json({
-          success: false,
-          message: `Invalid recipient(s): ${recipientValidation.invalidAgents.join(", ")} are not valid agents in group ${groupId}. Valid agents: ${group.agents.join(", ")}`
-        });
-        return;
-      }
+      const group = new schema.Group(groupId, agents);
+      dbService.createGroup(group);
 
-      const message = new schema.Message(groupId, from, recipients, body, undefined, subject ?? DEFAULT_SUBJECT);
+      res.status(201).json({
+        success: true,
+        message: "Group created",
+        data: group
+      });
+    } catch (error) {
+      console.error("Error creating group:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
 
-      if (!message.spawnedThread) {
-        res.status(500).json({
+  app.get("/groups/:groupId", asAgent(), (req: express.Request, res: express.Response) => {
+    const { groupId } = req.params;
+    try {
+      const group = dbService.getGroup(groupId);
+      if (!group) {
+        res.status(404).json({
           success: false,
-          message: "Failed to create thread"
+          message: `Group ${groupId} not found`
         });
         return;
       }
 
-      dbService.createThread(message.spawnedThread);
-      dbService.createMessage(message);
-
-      res.status(201).json({
+      res.json({
         success: true,
-        message: "Email sent",
-        data: {
-          messageId: message.messageid,
-          threadId: message.threadId,
-          newThreadCreated: true
-        }
+        data: withProfiles(group)
       });
     } catch (error) {
-      console.error("Error sending email:", error);
+      console.error("Error reading group:", error);
       res.status(500).json({
         success: false,
         message: "Internal server error",
@@ -222,83 +317,141 @@ export function createApp(dbService: DatabaseService): express.Express {
     }
   });
 
-  app.post("/emails/reply", (req: express.Request, res: express.Response) => {
-    const { groupId, threadId, replyToMessageId, from, body } = req.body;
+  app.patch("/groups/:groupId", adminOnly, (req: express.Request, res: express.Response) => {
+    const { groupId } = req.params;
+    const { newGroupId } = req.body;
 
-    if (!from || !threadId || !body) {
+    const formatError = groupIdError(newGroupId);
+    if (formatError) {
       res.status(400).json({
         success: false,
-        message: "Missing required fields: threadId, from, body"
+        message: formatError
       });
       return;
     }
 
     try {
-      const thread = dbService.getThread(threadId);
-      if (!thread) {
+      if (!dbService.getGroup(groupId)) {
         res.status(404).json({
           success: false,
-          message: `Thread ${threadId} not found`
+          message: `Group ${groupId} not found`
         });
         return;
       }
 
-      if (groupId && groupId !== thread.groupId) {
-        res.status(400).json({
+      if (newGroupId !== groupId && dbService.getGroup(newGroupId)) {
+        res.status(409).json({
           success: false,
-          message: `Thread ${threadId} does not belong to group ${groupId}`
+          message: `Group ${newGroupId} already exists`
         });
         return;
       }
 
-      const group = ensureGroup(dbService, thread.groupId);
+      dbService.renameGroup(groupId, newGroupId);
 
-      // Validate 'from' is a valid agent
-      if (!group.agents.includes(from)) {
-        res.status(400).json({
+      res.json({
+        success: true,
+        message: "Group renamed",
+        data: dbService.getGroup(newGroupId)
+      });
+    } catch (error) {
+      console.error("Error renaming group:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.delete("/groups/:groupId", adminOnly, (req: express.Request, res: express.Response) => {
+    const { groupId } = req.params;
+    try {
+      if (!dbService.deleteGroup(groupId)) {
+        res.status(404).json({
           success: false,
-          message: `Invalid sender: '${from}' is not a valid agent in group ${thread.groupId}. Valid agents: ${group.agents.join(", ")}`
+          message: `Group ${groupId} not found`
         });
         return;
       }
 
-      const targetMessage = replyToMessageId
-        ? dbService.getMessage(threadId, replyToMessageId)
-        : dbService.listMessagesByThread(threadId).at(-1) ?? null;
+      res.json({
+        success: true,
+        message: "Group deleted",
+        data: { groupId }
+      });
+    } catch (error) {
+      console.error("Error deleting group:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
 
-      if (!targetMessage) {
+  // Deletes the group's mail but keeps the group, its agents and their settings
+  app.post("/groups/:groupId/reset", adminOnly, (req: express.Request, res: express.Response) => {
+    const { groupId } = req.params;
+    try {
+      const group = dbService.getGroup(groupId);
+      if (!group) {
         res.status(404).json({
           success: false,
-          message: "Message to reply to was not found"
+          message: `Group ${groupId} not found`
         });
         return;
       }
 
-      const recipients = [targetMessage.from].filter(addr => addr !== from);
-      if (recipients.length === 0) {
-        res.status(400).json({
+      dbService.deleteAllMail(groupId);
+
+      res.json({
+        success: true,
+        message: "Group mail deleted",
+        data: dbService.getGroup(groupId)
+      });
+    } catch (error) {
+      console.error("Error resetting group:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.get("/groups/:groupId/agents", asAgent(), (req: express.Request, res: express.Response) => {
+    const { groupId } = req.params;
+    try {
+      const group = dbService.getGroup(groupId);
+      if (!group) {
+        res.status(404).json({
           success: false,
-          message: "No valid recipients found for reply"
+          message: `Group ${groupId} not found`
         });
         return;
       }
 
-      const subject = replySubject(thread.subject);
-      const message = new schema.Message(thread.groupId, from, recipients, body, threadId, subject);
-      message.messageid = nextMessageId(thread);
-      dbService.createMessage(message);
+      const agents = group.agents.map(agent => {
+        const profile = dbService.getAgentProfile(groupId, agent);
+        return {
+          agentAddress: agent,
+          role: profile?.role ?? null,
+          profile: profile ? serializeAgentProfile(profile) : null,
+          unreadCount: dbService.countUnreadForAgent(agent, groupId),
+          lastActivityAt: dbService.getLastActivityForAgent(agent, groupId)
+        };
+      });
 
-      res.status(201).json({
+      res.json({
         success: true,
-        message: "Reply sent",
         data: {
-          messageId: message.messageid,
-          threadId: message.threadId,
-          newThreadCreated: false
+          groupId,
+          agents
         }
       });
     } catch (error) {
-      console.error("Error sending reply:", error);
+      console.error("Error listing agents:", error);
       res.status(500).json({
         success: false,
         message: "Internal server error",
@@ -307,88 +460,62 @@ export function createApp(dbService: DatabaseService): express.Express {
     }
   });
 
-  app.post("/emails/reply-all", (req: express.Request, res: express.Response) => {
-    const { groupId, threadId, replyToMessageId, from, body } = req.body;
+  app.post("/groups/:groupId/agents", adminOnly, (req: express.Request, res: express.Response) => {
+    const { groupId } = req.params;
+    const { agentAddress, profile } = req.body;
 
-    if (!from || !threadId || !body) {
+    const formatError = agentHandleError(agentAddress) ?? (profile !== undefined ? profileUpdateError(profile) : null);
+    if (formatError) {
       res.status(400).json({
         success: false,
-        message: "Missing required fields: threadId, from, body"
+        message: formatError
       });
       return;
     }
 
     try {
-      const thread = dbService.getThread(threadId);
-      if (!thread) {
+      const group = dbService.getGroup(groupId);
+      if (!group) {
         res.status(404).json({
           success: false,
-          message: `Thread ${threadId} not found`
-        });
-        return;
-      }
-
-      if (groupId && groupId !== thread.groupId) {
-        res.status(400).json({
-          success: false,
-          message: `Thread ${threadId} does not belong to group ${groupId}`
+          message: `Group ${groupId} not found`
         });
         return;
       }
 
-      const group = ensureGroup(dbService, thread.groupId);
-
-      // Validate 'from' is a valid agent
-      if (!group.agents.includes(from)) {
-        res.status(400).json({
-          success: false,
-          message: `Invalid sender: '${from}' is not a valid agent in group ${thread.groupId}. Valid agents: ${group.agents.join(", ")}`
-        });
-        return;
-      }
-
-      const targetMessage = replyToMessageId
-        ? dbService.getMessage(threadId, replyToMessageId)
-        : dbService.listMessagesByThread(threadId).at(-1) ?? null;
-
-      if (!targetMessage) {
-        res.status(404).json({
+      if (group.agents.includes(agentAddress)) {
+        res.status(409).json({
           success: false,
-          message: "Message to reply to was not found"
+          message: `Agent '${agentAddress}' already exists in group ${groupId}`
         });
         return;
       }
 
-      const recipientSet = new Set<string>();
-      recipientSet.add(targetMessage.from);
-      targetMessage.to.forEach(addr => recipientSet.add(addr));
-      recipientSet.delete(from);
-      const recipients = Array.from(recipientSet);
-
-      if (recipients.length === 0) {
-        res.status(400).json({
+      if (dbService.getAlias(groupId, agentAddress)) {
+        res.status(409).json({
           success: false,
-          message: "No valid recipients found for reply-all"
+          message: `'${agentAddress}' is already an alias in group ${groupId}`
         });
         return;
       }
 
-      const subject = replySubject(thread.subject);
-      const message = new schema.Message(thread.groupId, from, recipients, body, threadId, subject);
-      message.messageid = nextMessageId(thread);
-      dbService.createMessage(message);
+      group.addAgent(agentAddress);
+      dbService.transaction(() => {
+        dbService.updateGroup(group);
+        if (profile !== undefined) {
+          const agentProfile = new schema.AgentProfile(groupId, agentAddress);
+          applyProfileUpdate(agentProfile, profile);
+          dbService.saveAgentProfile(agentProfile);
+        }
+      });
 
       res.status(201).json({
         success: true,
-        message: "Reply-all sent",
-        data: {
-          messageId: message.messageid,
-          threadId: message.threadId,
-          newThreadCreated: false
-        }
+        message: "Agent added",
+        data: group
       });
     } catch (error) {
-      console.error("Error sending reply-all:", error);
+      console.error("Error adding agent:", error);
       res.status(500).json({
         success: false,
         message: "Internal server error",
@@ -397,22 +524,27 @@ export function createApp(dbService: DatabaseService): express.Express {
     }
   });
 
-  app.get("/inbox/short", (req: express.Request, res: express.Response) => {
-    const limit = parseLimit(req.query.numOfRecentEmails ?? req.query.limit, DEFAULT_LIMIT);
-    const agentAddress = typeof req.query.agentAddress === "string" ? req.query.agentAddress : undefined;
-    const groupId = resolveGroupId(req, res, dbService);
-    if (!groupId) return;
-
+  app.get("/groups/:groupId/agents/:agentAddress/profile", asAgent({ ownProfileOnly: false }), (req: express.Request, res: express.Response) => {
+    const { groupId, agentAddress } = req.params;
     try {
-      const messages = agentAddress
-        ? dbService.listMessagesForAgent(agentAddress, groupId, limit).map(serializeShortMessage)
-        : dbService.listMessagesByGroup(groupId, limit).map(serializeShortMessage);
+      const group = dbService.getGroup(groupId);
+      if (!group || !group.agents.includes(agentAddress)) {
+        res.status(404).json({
+          success: false,
+          message: group ? `Agent '${agentAddress}' not found in group ${groupId}` : `Group ${groupId} not found`
+        });
+        return;
+      }
+
+      // Agents without a stored profile get an empty one
+      const profile = dbService.getAgentProfile(groupId, agentAddress) ?? new schema.AgentProfile(groupId, agentAddress);
+
       res.json({
         success: true,
-        data: messages
+        data: serializeAgentProfile(profile)
       });
     } catch (error) {
-      console.error("Error reading short inbox:", error);
+      console.error("Error reading agent profile:", error);
       res.status(500).json({
         success: false,
         message: "Internal server error",
@@ -421,25 +553,39 @@ export function createApp(dbService: DatabaseService): express.Express {
     }
   });
 
-  app.get("/inbox", (req: express.Request, res: express.Response) => {
-    const limit = parseLimit(req.query.numOfRecentEmails ?? req.query.limit, DEFAULT_LIMIT);
-    const agentAddress = typeof req.query.agentAddress === "string" ? req.query.agentAddress : undefined;
-    const groupId = resolveGroupId(req, res, dbService);
-    if (!groupId) return;
+  app.patch("/groups/:groupId/agents/:agentAddress/profile", asAgent(), (req: express.Request, res: express.Response) => {
+    const { groupId, agentAddress } = req.params;
 
-    //console.log("[/inbox] agentAddress:", agentAddress, "groupId:", groupId, "limit:", limit);
+    const formatError = profileUpdateError(req.body);
+    if (formatError) {
+      res.status(400).json({
+        success: false,
+        message: formatError
+      });
+      return;
+    }
 
     try {
-      const messages = agentAddress
-        ? dbService.listMessagesForAgent(agentAddress, groupId, limit).map(serializeMessage)
-        : dbService.listMessagesByGroup(groupId, limit).map(serializeMessage);
-      console.log("[/inbox] Returning", messages.length, "messages");
+      const group = dbService.getGroup(groupId);
+      if (!group || !group.agents.includes(agentAddress)) {
+        res.status(404).json({
+          success: false,
+          message: group ? `Agent '${agentAddress}' not found in group ${groupId}` : `Group ${groupId} not found`
+        });
+        return;
+      }
+
+      const profile = dbService.getAgentProfile(groupId, agentAddress) ?? new schema.AgentProfile(groupId, agentAddress);
+      applyProfileUpdate(profile, req.body);
+      dbService.saveAgentProfile(profile);
+
       res.json({
         success: true,
-        data: messages
+        message: "Profile updated",
+        data: serializeAgentProfile(profile)
       });
     } catch (error) {
-      console.error("Error reading inbox:", error);
+      console.error("Error updating agent profile:", error);
       res.status(500).json({
         success: false,
         message: "Internal server error",
@@ -448,61 +594,1538 @@ export function createApp(dbService: DatabaseService): express.Express {
     }
   });
 
-  app.get("/messages/:messageId", (req: express.Request, res: express.Response) => {
-    const { messageId } = req.params;
-    const threadId = typeof req.query.threadId === "string" ? req.query.threadId : undefined;
-    const groupId = typeof req.query.groupId === "string" ? req.query.groupId : undefined;
+  app.patch("/groups/:groupId/agents/:agentAddress", adminOnly, (req: express.Request, res: express.Response) => {
+    const { groupId, agentAddress } = req.params;
+    const { newAgentAddress } = req.body;
+
+    const formatError = agentHandleError(newAgentAddress);
+    if (formatError) {
+      res.status(400).json({
+        success: false,
+        message: formatError
+      });
+      return;
+    }
 
     try {
-      if (groupId) {
-        const group = dbService.getGroup(groupId);
-        if (!group) {
-          res.status(404).json({
-            success: false,
-            message: `Group ${groupId} not found`
-          });
-          return;
-        }
+      const group = dbService.getGroup(groupId);
+      if (!group) {
+        res.status(404).json({
+          success: false,
+          message: `Group ${groupId} not found`
+        });
+        return;
       }
 
-      if (threadId) {
-        const message = dbService.getMessage(threadId, messageId);
-        if (!message) {
-          res.status(404).json({
-            success: false,
-            message: `Message ${messageId} not found in thread ${threadId}`
-          });
-          return;
-        }
-
-        res.json({
-          success: true,
-          data: serializeMessage(message)
+      if (!group.agents.includes(agentAddress)) {
+        res.status(404).json({
+          success: false,
+          message: `Agent '${agentAddress}' not found in group ${groupId}`
         });
         return;
       }
 
-      const matches = dbService.findMessagesById(messageId, groupId);
-      if (matches.length === 0) {
-        res.status(404).json({
+      if (newAgentAddress !== agentAddress && group.agents.includes(newAgentAddress)) {
+        res.status(409).json({
           success: false,
-          message: `Message ${messageId} not found`
+          message: `Agent '${newAgentAddress}' already exists in group ${groupId}`
         });
         return;
       }
 
-      if (matches.length > 1) {
-        res.status(400).json({
+      if (dbService.getAlias(groupId, newAgentAddress)) {
+        res.status(409).json({
           success: false,
-          message: "Multiple messages found with that messageId. Provide threadId to disambiguate.",
-          data: matches.map(m => ({ threadId: m.threadId, groupId: m.groupId }))
+          message: `'${newAgentAddress}' is already an alias in group ${groupId}`
         });
         return;
       }
 
+      dbService.renameAgent(groupId, agentAddress, newAgentAddress);
+
       res.json({
         success: true,
-        data: serializeMessage(matches[0]!)
+        message: "Agent renamed",
+        data: dbService.getGroup(groupId)
+      });
+    } catch (error) {
+      console.error("Error renaming agent:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.delete("/groups/:groupId/agents/:agentAddress", adminOnly, (req: express.Request, res: express.Response) => {
+    const { groupId, agentAddress } = req.params;
+    try {
+      const group = dbService.getGroup(groupId);
+      if (!group) {
+        res.status(404).json({
+          success: false,
+          message: `Group ${groupId} not found`
+        });
+        return;
+      }
+
+      if (!group.agents.includes(agentAddress)) {
+        res.status(404).json({
+          success: false,
+          message: `Agent '${agentAddress}' not found in group ${groupId}`
+        });
+        return;
+      }
+
+      dbService.removeAgent(groupId, agentAddress);
+
+      res.json({
+        success: true,
+        message: "Agent removed",
+        data: dbService.getGroup(groupId)
+      });
+    } catch (error) {
+      console.error("Error removing agent:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.get("/groups/:groupId/agents/:agentAddress/labels", asAgent(), (req: express.Request, res: express.Response) => {
+    const { groupId, agentAddress } = req.params;
+    try {
+      const group = dbService.getGroup(groupId);
+      if (!group || !group.agents.includes(agentAddress)) {
+        res.status(404).json({
+          success: false,
+          message: group ? `Agent '${agentAddress}' not found in group ${groupId}` : `Group ${groupId} not found`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: dbService.listLabelSummaries(groupId, agentAddress)
+      });
+    } catch (error) {
+      console.error("Error listing labels:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.post("/groups/:groupId/agents/:agentAddress/labels", asAgent(), (req: express.Request, res: express.Response) => {
+    const { groupId, agentAddress } = req.params;
+    const nameError = labelNameError(req.body.name);
+    if (nameError) {
+      res.status(400).json({
+        success: false,
+        message: nameError
+      });
+      return;
+    }
+    const name = canonicalLabel(req.body.name);
+
+    try {
+      const group = dbService.getGroup(groupId);
+      if (!group || !group.agents.includes(agentAddress)) {
+        res.status(404).json({
+          success: false,
+          message: group ? `Agent '${agentAddress}' not found in group ${groupId}` : `Group ${groupId} not found`
+        });
+        return;
+      }
+
+      if (isBuiltInLabel(name) || dbService.getLabel(groupId, agentAddress, name)) {
+        res.status(409).json({
+          success: false,
+          message: `Label '${name}' already exists for ${agentAddress}`
+        });
+        return;
+      }
+
+      const label = new schema.Label(groupId, agentAddress, name);
+      dbService.createLabel(label);
+
+      res.status(201).json({
+        success: true,
+        message: "Label created",
+        data: serializeLabel(label)
+      });
+    } catch (error) {
+      console.error("Error creating label:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.delete("/groups/:groupId/agents/:agentAddress/labels/:name", asAgent(), (req: express.Request, res: express.Response) => {
+    const { groupId, agentAddress } = req.params;
+    const name = canonicalLabel(req.params.name);
+    if (isBuiltInLabel(name)) {
+      res.status(400).json({
+        success: false,
+        message: `Built-in label '${name}' cannot be deleted`
+      });
+      return;
+    }
+
+    try {
+      if (!dbService.deleteLabel(groupId, agentAddress, name)) {
+        res.status(404).json({
+          success: false,
+          message: `Label '${name}' not found for ${agentAddress} in group ${groupId}`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: "Label deleted",
+        data: { groupId, agentAddress, name }
+      });
+    } catch (error) {
+      console.error("Error deleting label:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // The token is only shown in this response; the server keeps a hash
+  app.post("/groups/:groupId/agents/:agentAddress/tokens", adminOnly, (req: express.Request, res: express.Response) => {
+    const { groupId, agentAddress } = req.params;
+    const name: unknown = req.body?.name;
+    if (name !== undefined && name !== null && typeof name !== "string") {
+      res.status(400).json({
+        success: false,
+        message: "name must be a string"
+      });
+      return;
+    }
+
+    try {
+      const group = dbService.getGroup(groupId);
+      if (!group || !group.agents.includes(agentAddress)) {
+        res.status(404).json({
+          success: false,
+          message: group ? `Agent '${agentAddress}' not found in group ${groupId}` : `Group ${groupId} not found`
+        });
+        return;
+      }
+
+      const token = generateToken();
+      const agentToken = new schema.AgentToken(groupId, agentAddress, hashToken(token), name?.trim() || null);
+      dbService.createAgentToken(agentToken);
+
+      res.status(201).json({
+        success: true,
+        message: "Token created. Store it now; it cannot be shown again.",
+        data: serializeAgentToken(agentToken, token)
+      });
+    } catch (error) {
+      console.error("Error creating agent token:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.get("/groups/:groupId/agents/:agentAddress/tokens", adminOnly, (req: express.Request, res: express.Response) => {
+    const { groupId, agentAddress } = req.params;
+    try {
+      const group = dbService.getGroup(groupId);
+      if (!group || !group.agents.includes(agentAddress)) {
+        res.status(404).json({
+          success: false,
+          message: group ? `Agent '${agentAddress}' not found in group ${groupId}` : `Group ${groupId} not found`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: dbService.listAgentTokens(groupId, agentAddress).map(token => serializeAgentToken(token))
+      });
+    } catch (error) {
+      console.error("Error listing agent tokens:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.delete("/groups/:groupId/agents/:agentAddress/tokens/:tokenId", adminOnly, (req: express.Request, res: express.Response) => {
+    const { groupId, agentAddress, tokenId } = req.params;
+    try {
+      if (!dbService.deleteAgentToken(groupId, agentAddress, tokenId)) {
+        res.status(404).json({
+          success: false,
+          message: `Token ${tokenId} not found for ${agentAddress} in group ${groupId}`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: "Token revoked",
+        data: { tokenId }
+      });
+    } catch (error) {
+      console.error("Error revoking agent token:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.get("/groups/:groupId/aliases", asAgent(), (req: express.Request, res: express.Response) => {
+    const { groupId } = req.params;
+    try {
+      if (!dbService.getGroup(groupId)) {
+        res.status(404).json({
+          success: false,
+          message: `Group ${groupId} not found`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: dbService.listAliases(groupId).map(serializeAlias)
+      });
+    } catch (error) {
+      console.error("Error listing aliases:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.post("/groups/:groupId/aliases", adminOnly, (req: express.Request, res: express.Response) => {
+    const { groupId } = req.params;
+    const { name, members } = req.body;
+
+    if (typeof name !== "string" || !schema.AGENT_HANDLE_PATTERN.test(name)) {
+      res.status(400).json({
+        success: false,
+        message: `Invalid alias name '${String(name)}'. Alias names follow the same rules as agent handles`
+      });
+      return;
+    }
+
+    try {
+      const group = dbService.getGroup(groupId);
+      if (!group) {
+        res.status(404).json({
+          success: false,
+          message: `Group ${groupId} not found`
+        });
+        return;
+      }
+
+      const membersError = aliasMembersError(members, group);
+      if (membersError) {
+        res.status(400).json({
+          success: false,
+          message: membersError
+        });
+        return;
+      }
+
+      if (group.agents.includes(name) || dbService.getAlias(groupId, name)) {
+        res.status(409).json({
+          success: false,
+          message: `'${name}' is already an agent or alias in group ${groupId}`
+        });
+        return;
+      }
+
+      const alias = new schema.Alias(groupId, name, members);
+      dbService.createAlias(alias);
+
+      res.status(201).json({
+        success: true,
+        message: "Alias created",
+        data: serializeAlias(alias)
+      });
+    } catch (error) {
+      console.error("Error creating alias:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.put("/groups/:groupId/aliases/:name", adminOnly, (req: express.Request, res: express.Response) => {
+    const { groupId, name } = req.params;
+    const { members } = req.body;
+    try {
+      const group = dbService.getGroup(groupId);
+      if (!group) {
+        res.status(404).json({
+          success: false,
+          message: `Group ${groupId} not found`
+        });
+        return;
+      }
+
+      const membersError = aliasMembersError(members, group);
+      if (membersError) {
+        res.status(400).json({
+          success: false,
+          message: membersError
+        });
+        return;
+      }
+
+      if (!dbService.updateAliasMembers(groupId, name, members)) {
+        res.status(404).json({
+          success: false,
+          message: `Alias '${name}' not found in group ${groupId}`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: "Alias updated",
+        data: serializeAlias(dbService.getAlias(groupId, name)!)
+      });
+    } catch (error) {
+      console.error("Error updating alias:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.delete("/groups/:groupId/aliases/:name", adminOnly, (req: express.Request, res: express.Response) => {
+    const { groupId, name } = req.params;
+    try {
+      if (!dbService.deleteAlias(groupId, name)) {
+        res.status(404).json({
+          success: false,
+          message: `Alias '${name}' not found in group ${groupId}`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: "Alias deleted",
+        data: { groupId, name }
+      });
+    } catch (error) {
+      console.error("Error deleting alias:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.post("/emails/write", asAgent(), (req: express.Request, res: express.Response) => {
+    const { groupId, from, to, cc, bcc, subject, body } = req.body;
+
+    if (!groupId || !from || !to || !body) {
+      res.status(400).json({
+        success: false,
+        message: "Missing required fields: groupId, from, to, body"
+      });
+      return;
+    }
+
+    const recipients = normalizeRecipients(to);
+    if (recipients.length === 0) {
+      res.status(400).json({
+        success: false,
+        message: "Recipient list cannot be empty"
+      });
+      return;
+    }
+
+    const parsedAttachments = parseAttachments(req.body.attachments);
+    if (parsedAttachments.error) {
+      res.status(400).json({
+        success: false,
+        message: parsedAttachments.error
+      });
+      return;
+    }
+
+    const sendAt = parseDateParam(req.body.sendAt);
+    if (sendAt === null) {
+      res.status(400).json({
+        success: false,
+        message: "sendAt must be an ISO 8601 date"
+      });
+      return;
+    }
+
+    try {
+      const fields = {
+        groupId,
+        from,
+        to: recipients,
+        cc: normalizeRecipients(cc),
+        bcc: normalizeRecipients(bcc),
+        subject: subject ?? DEFAULT_SUBJECT,
+        body
+      };
+      const composed = composeNewMessage(dbService, fields);
+      if (composed.error) {
+        res.status(composed.error.status).json({
+          success: false,
+          message: composed.error.message
+        });
+        return;
+      }
+
+      if (sendAt && Date.parse(sendAt) > clock.now()) {
+        const scheduled = buildScheduledMessage(
+          { ...fields, kind: "new", threadId: null, replyToMessageId: null },
+          sendAt,
+          parsedAttachments.attachments
+        );
+        dbService.createScheduledMessage(scheduled);
+        res.status(202).json({
+          success: true,
+          message: "Email scheduled",
+          data: serializeScheduledMessage(scheduled)
+        });
+        return;
+      }
+
+      const message = composed.message;
+      const attachments = deliverMessage(dbService, message, parsedAttachments.attachments);
+
+      res.status(201).json({
+        success: true,
+        message: "Email sent",
+        data: {
+          messageId: message.messageid,
+          threadId: message.threadId,
+          newThreadCreated: true,
+          attachments: attachments.map(serializeAttachment)
+        }
+      });
+    } catch (error) {
+      console.error("Error sending email:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.post("/emails/reply", asAgent(), (req: express.Request, res: express.Response) => {
+    const { groupId, threadId, replyToMessageId, from, body } = req.body;
+
+    if (!from || !threadId || !body) {
+      res.status(400).json({
+        success: false,
+        message: "Missing required fields: threadId, from, body"
+      });
+      return;
+    }
+
+    const parsedAttachments = parseAttachments(req.body.attachments);
+    if (parsedAttachments.error) {
+      res.status(400).json({
+        success: false,
+        message: parsedAttachments.error
+      });
+      return;
+    }
+
+    const sendAt = parseDateParam(req.body.sendAt);
+    if (sendAt === null) {
+      res.status(400).json({
+        success: false,
+        message: "sendAt must be an ISO 8601 date"
+      });
+      return;
+    }
+
+    try {
+      const composed = composeReply(dbService, { groupId, threadId, replyToMessageId, from, body, replyAll: false });
+      if (composed.error) {
+        res.status(composed.error.status).json({
+          success: false,
+          message: composed.error.message
+        });
+        return;
+      }
+
+      const message = composed.message;
+      if (sendAt && Date.parse(sendAt) > clock.now()) {
+        const scheduled = buildScheduledMessage(
+          {
+            groupId: message.groupId,
+            from,
+            kind: "reply",
+            to: [],
+            cc: [],
+            bcc: [],
+            subject: null,
+            body,
+            threadId,
+            replyToMessageId: replyToMessageId ?? null
+          },
+          sendAt,
+          parsedAttachments.attachments
+        );
+        dbService.createScheduledMessage(scheduled);
+        res.status(202).json({
+          success: true,
+          message: "Reply scheduled",
+          data: serializeScheduledMessage(scheduled)
+        });
+        return;
+      }
+
+      const attachments = deliverMessage(dbService, message, parsedAttachments.attachments);
+
+      res.status(201).json({
+        success: true,
+        message: "Reply sent",
+        data: {
+          messageId: message.messageid,
+          threadId: message.threadId,
+          newThreadCreated: false,
+          attachments: attachments.map(serializeAttachment)
+        }
+      });
+    } catch (error) {
+      console.error("Error sending reply:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.post("/emails/reply-all", asAgent(), (req: express.Request, res: express.Response) => {
+    const { groupId, threadId, replyToMessageId, from, body } = req.body;
+
+    if (!from || !threadId || !body) {
+      res.status(400).json({
+        success: false,
+        message: "Missing required fields: threadId, from, body"
+      });
+      return;
+    }
+
+    const parsedAttachments = parseAttachments(req.body.attachments);
+    if (parsedAttachments.error) {
+      res.status(400).json({
+        success: false,
+        message: parsedAttachments.error
+      });
+      return;
+    }
+
+    const sendAt = parseDateParam(req.body.sendAt);
+    if (sendAt === null) {
+      res.status(400).json({
+        success: false,
+        message: "sendAt must be an ISO 8601 date"
+      });
+      return;
+    }
+
+    try {
+      const composed = composeReply(dbService, { groupId, threadId, replyToMessageId, from, body, replyAll: true });
+      if (composed.error) {
+        res.status(composed.error.status).json({
+          success: false,
+          message: composed.error.message
+        });
+        return;
+      }
+
+      const message = composed.message;
+      if (sendAt && Date.parse(sendAt) > clock.now()) {
+        const scheduled = buildScheduledMessage(
+          {
+            groupId: message.groupId,
+            from,
+            kind: "reply-all",
+            to: [],
+            cc: [],
+            bcc: [],
+            subject: null,
+            body,
+            threadId,
+            replyToMessageId: replyToMessageId ?? null
+          },
+          sendAt,
+          parsedAttachments.attachments
+        );
+        dbService.createScheduledMessage(scheduled);
+        res.status(202).json({
+          success: true,
+          message: "Reply-all scheduled",
+          data: serializeScheduledMessage(scheduled)
+        });
+        return;
+      }
+
+      const attachments = deliverMessage(dbService, message, parsedAttachments.attachments);
+
+      res.status(201).json({
+        success: true,
+        message: "Reply-all sent",
+        data: {
+          messageId: message.messageid,
+          threadId: message.threadId,
+          newThreadCreated: false,
+          attachments: attachments.map(serializeAttachment)
+        }
+      });
+    } catch (error) {
+      console.error("Error sending reply-all:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.post("/emails/forward", asAgent(), (req: express.Request, res: express.Response) => {
+    const { groupId, threadId, messageId, from, to, cc, bcc, note } = req.body;
+
+    if (!threadId || messageId === undefined || !from || !to) {
+      res.status(400).json({
+        success: false,
+        message: "Missing required fields: threadId, messageId, from, to"
+      });
+      return;
+    }
+
+    if (note !== undefined && typeof note !== "string") {
+      res.status(400).json({
+        success: false,
+        message: "note must be a string"
+      });
+      return;
+    }
+
+    const recipients = normalizeRecipients(to);
+    if (recipients.length === 0) {
+      res.status(400).json({
+        success: false,
+        message: "Recipient list cannot be empty"
+      });
+      return;
+    }
+
+    const sendAt = parseDateParam(req.body.sendAt);
+    if (sendAt === null) {
+      res.status(400).json({
+        success: false,
+        message: "sendAt must be an ISO 8601 date"
+      });
+      return;
+    }
+
+    try {
+      const addressing = { from, to: recipients, cc: normalizeRecipients(cc), bcc: normalizeRecipients(bcc) };
+      const composed = composeForward(dbService, {
+        ...addressing,
+        groupId,
+        threadId,
+        messageId: String(messageId),
+        note: note?.trim()
+      });
+      if (composed.error) {
+        res.status(composed.error.status).json({
+          success: false,
+          message: composed.error.message
+        });
+        return;
+      }
+
+      const message = composed.message;
+      if (sendAt && Date.parse(sendAt) > clock.now()) {
+        const scheduled = buildScheduledMessage(
+          {
+            ...addressing,
+            groupId: message.groupId,
+            kind: "new",
+            subject: message.subject ?? null,
+            body: message.body,
+            threadId: null,
+            replyToMessageId: null,
+            forwardedFrom: message.forwardedFrom
+          },
+          sendAt,
+          composed.attachments
+        );
+        dbService.createScheduledMessage(scheduled);
+        res.status(202).json({
+          success: true,
+          message: "Forward scheduled",
+          data: serializeScheduledMessage(scheduled)
+        });
+        return;
+      }
+
+      const attachments = deliverMessage(dbService, message, composed.attachments);
+
+      res.status(201).json({
+        success: true,
+        message: "Email forwarded",
+        data: {
+          messageId: message.messageid,
+          threadId: message.threadId,
+          newThreadCreated: true,
+          forwardedFrom: message.forwardedFrom,
+          attachments: attachments.map(serializeAttachment)
+        }
+      });
+    } catch (error) {
+      console.error("Error forwarding email:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.get("/scheduled", asAgent({ query: ["from"] }), (req: express.Request, res: express.Response) => {
+    const from = typeof req.query.from === "string" && req.query.from !== "" ? req.query.from : undefined;
+    const status = typeof req.query.status === "string" && req.query.status !== "" ? req.query.status : undefined;
+
+    if (status !== undefined && !SCHEDULED_STATUSES.includes(status as schema.ScheduledMessageStatus)) {
+      res.status(400).json({
+        success: false,
+        message: `status must be one of: ${SCHEDULED_STATUSES.join(", ")}`
+      });
+      return;
+    }
+
+    try {
+      const groupId = resolveGroupId(req, res, dbService);
+      if (!groupId) return;
+
+      const scheduled = dbService.listScheduledMessages(groupId, {
+        from,
+        status: status as schema.ScheduledMessageStatus | undefined
+      });
+      res.json({
+        success: true,
+        data: scheduled.map(serializeScheduledMessage)
+      });
+    } catch (error) {
+      console.error("Error listing scheduled messages:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.get("/scheduled/:scheduledId", asAgent(), (req: express.Request, res: express.Response) => {
+    const { scheduledId } = req.params;
+    try {
+      const scheduled = dbService.getScheduledMessage(scheduledId);
+      if (!scheduled) {
+        res.status(404).json({
+          success: false,
+          message: `Scheduled message ${scheduledId} not found`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: serializeScheduledMessage(scheduled)
+      });
+    } catch (error) {
+      console.error("Error reading scheduled message:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // Cancels a message that has not been delivered yet
+  app.delete("/scheduled/:scheduledId", asAgent(), (req: express.Request, res: express.Response) => {
+    const { scheduledId } = req.params;
+    try {
+      const scheduled = dbService.getScheduledMessage(scheduledId);
+      if (!scheduled) {
+        res.status(404).json({
+          success: false,
+          message: `Scheduled message ${scheduledId} not found`
+        });
+        return;
+      }
+
+      if (scheduled.status !== "pending") {
+        res.status(409).json({
+          success: false,
+          message: `Scheduled message ${scheduledId} has status '${scheduled.status}' and can no longer be cancelled`
+        });
+        return;
+      }
+
+      dbService.deleteScheduledMessage(scheduledId);
+      res.json({
+        success: true,
+        message: "Scheduled message cancelled",
+        data: { scheduledId }
+      });
+    } catch (error) {
+      console.error("Error cancelling scheduled message:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.get("/drafts", asAgent(), (req: express.Request, res: express.Response) => {
+    const agentAddress = typeof req.query.agentAddress === "string" ? req.query.agentAddress : undefined;
+    if (!agentAddress) {
+      res.status(400).json({
+        success: false,
+        message: "agentAddress query parameter is required"
+      });
+      return;
+    }
+
+    try {
+      const groupId = resolveGroupId(req, res, dbService);
+      if (!groupId) return;
+
+      res.json({
+        success: true,
+        data: dbService.listDrafts(groupId, agentAddress).map(serializeDraft)
+      });
+    } catch (error) {
+      console.error("Error listing drafts:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.post("/drafts", asAgent(), (req: express.Request, res: express.Response) => {
+    const { groupId, from, threadId } = req.body;
+    const kind: unknown = req.body.kind ?? (threadId ? "reply" : "new");
+
+    if (!from || typeof from !== "string" || (!groupId && !threadId)) {
+      res.status(400).json({
+        success: false,
+        message: "Missing required fields: from, and groupId or threadId"
+      });
+      return;
+    }
+
+    if (!DRAFT_KINDS.includes(kind as schema.DraftKind)) {
+      res.status(400).json({
+        success: false,
+        message: `kind must be one of: ${DRAFT_KINDS.join(", ")}`
+      });
+      return;
+    }
+    const draftKind = kind as schema.DraftKind;
+
+    if (draftKind === "new" ? threadId !== undefined : !threadId) {
+      res.status(400).json({
+        success: false,
+        message: draftKind === "new" ? "threadId is only allowed on reply drafts" : "Reply drafts require threadId"
+      });
+      return;
+    }
+
+    const fieldError = draftUpdateError(req.body, draftKind);
+    if (fieldError) {
+      res.status(400).json({
+        success: false,
+        message: fieldError
+      });
+      return;
+    }
+
+    try {
+      let draftGroupId: schema.GroupId = groupId;
+      if (threadId) {
+        const thread = dbService.getThread(threadId);
+        if (!thread) {
+          res.status(404).json({
+            success: false,
+            message: `Thread ${threadId} not found`
+          });
+          return;
+        }
+        if (groupId && groupId !== thread.groupId) {
+          res.status(400).json({
+            success: false,
+            message: `Thread ${threadId} does not belong to group ${groupId}`
+          });
+          return;
+        }
+        draftGroupId = thread.groupId;
+      } else if (!dbService.getGroup(groupId)) {
+        res.status(404).json({
+          success: false,
+          message: `Group ${groupId} not found`
+        });
+        return;
+      }
+
+      const draft = new schema.Draft(draftGroupId, from, draftKind, threadId ?? null);
+      applyDraftUpdate(draft, req.body);
+      draft.updatedAt = draft.createdAt;
+      dbService.saveDraft(draft);
+
+      res.status(201).json({
+        success: true,
+        message: "Draft saved",
+        data: serializeDraft(draft)
+      });
+    } catch (error) {
+      console.error("Error creating draft:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.get("/drafts/:draftId", asAgent(), (req: express.Request, res: express.Response) => {
+    const { draftId } = req.params;
+    try {
+      const draft = dbService.getDraft(draftId);
+      if (!draft) {
+        res.status(404).json({
+          success: false,
+          message: `Draft ${draftId} not found`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: serializeDraft(draft)
+      });
+    } catch (error) {
+      console.error("Error reading draft:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.patch("/drafts/:draftId", asAgent(), (req: express.Request, res: express.Response) => {
+    const { draftId } = req.params;
+    try {
+      const draft = dbService.getDraft(draftId);
+      if (!draft) {
+        res.status(404).json({
+          success: false,
+          message: `Draft ${draftId} not found`
+        });
+        return;
+      }
+
+      const update = (req.body ?? {}) as Record<string, unknown>;
+      if (["from", "groupId", "threadId", "kind"].some(field => update[field] !== undefined)) {
+        res.status(400).json({
+          success: false,
+          message: "from, groupId, threadId and kind cannot be changed; create a new draft instead"
+        });
+        return;
+      }
+
+      const fieldError = draftUpdateError(update, draft.kind);
+      if (fieldError) {
+        res.status(400).json({
+          success: false,
+          message: fieldError
+        });
+        return;
+      }
+
+      applyDraftUpdate(draft, update);
+      dbService.saveDraft(draft);
+
+      res.json({
+        success: true,
+        message: "Draft updated",
+        data: serializeDraft(draft)
+      });
+    } catch (error) {
+      console.error("Error updating draft:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.delete("/drafts/:draftId", asAgent(), (req: express.Request, res: express.Response) => {
+    const { draftId } = req.params;
+    try {
+      if (!dbService.deleteDraft(draftId)) {
+        res.status(404).json({
+          success: false,
+          message: `Draft ${draftId} not found`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: "Draft deleted",
+        data: { draftId }
+      });
+    } catch (error) {
+      console.error("Error deleting draft:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // Sends through the same checks as /emails/write and /emails/reply; the draft is kept if they fail
+  app.post("/drafts/:draftId/send", asAgent(), (req: express.Request, res: express.Response) => {
+    const { draftId } = req.params;
+
+    const parsedAttachments = parseAttachments(req.body?.attachments);
+    if (parsedAttachments.error) {
+      res.status(400).json({
+        success: false,
+        message: parsedAttachments.error
+      });
+      return;
+    }
+
+    try {
+      const draft = dbService.getDraft(draftId);
+      if (!draft) {
+        res.status(404).json({
+          success: false,
+          message: `Draft ${draftId} not found`
+        });
+        return;
+      }
+
+      const composed = composeOutgoing(dbService, draft);
+      if (composed.error) {
+        res.status(composed.error.status).json({
+          success: false,
+          message: composed.error.message
+        });
+        return;
+      }
+
+      const message = composed.message;
+      const attachments = dbService.transaction(() => {
+        dbService.deleteDraft(draft.id);
+        return deliverMessage(dbService, message, parsedAttachments.attachments);
+      });
+
+      res.status(201).json({
+        success: true,
+        message: "Draft sent",
+        data: {
+          draftId: draft.id,
+          messageId: message.messageid,
+          threadId: message.threadId,
+          newThreadCreated: draft.kind === "new",
+          attachments: attachments.map(serializeAttachment)
+        }
+      });
+    } catch (error) {
+      console.error("Error sending draft:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.get("/inbox/short", asAgent(), (req: express.Request, res: express.Response) => {
+    const limit = parseLimit(req.query.numOfRecentEmails ?? req.query.limit, DEFAULT_LIMIT);
+    const agentAddress = typeof req.query.agentAddress === "string" ? req.query.agentAddress : undefined;
+    const unreadOnly = parseBoolean(req.query.unreadOnly);
+    if (unreadOnly && !agentAddress) {
+      res.status(400).json({
+        success: false,
+        message: "unreadOnly requires agentAddress"
+      });
+      return;
+    }
+    const label = typeof req.query.label === "string" ? canonicalLabel(req.query.label) : undefined;
+    if (label && !agentAddress) {
+      res.status(400).json({
+        success: false,
+        message: "label requires agentAddress"
+      });
+      return;
+    }
+    const cursor = parseCursor(req.query.cursor);
+    if (cursor === null) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid cursor"
+      });
+      return;
+    }
+    const groupId = resolveGroupId(req, res, dbService);
+    if (!groupId) return;
+
+    try {
+      const page = agentAddress
+        ? dbService.pageMessagesForAgent(agentAddress, groupId, { limit, cursor, unreadOnly, label })
+        : dbService.pageMessagesByGroup(groupId, { limit, cursor });
+      const messages = page.messages.map(message => serializeShortMessage(message, agentAddress));
+      res.json({
+        success: true,
+        data: messages,
+        ...pageCursors(page)
+      });
+    } catch (error) {
+      console.error("Error reading short inbox:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.get("/inbox", asAgent(), (req: express.Request, res: express.Response) => {
+    const limit = parseLimit(req.query.numOfRecentEmails ?? req.query.limit, DEFAULT_LIMIT);
+    const agentAddress = typeof req.query.agentAddress === "string" ? req.query.agentAddress : undefined;
+    const unreadOnly = parseBoolean(req.query.unreadOnly);
+    if (unreadOnly && !agentAddress) {
+      res.status(400).json({
+        success: false,
+        message: "unreadOnly requires agentAddress"
+      });
+      return;
+    }
+    const label = typeof req.query.label === "string" ? canonicalLabel(req.query.label) : undefined;
+    if (label && !agentAddress) {
+      res.status(400).json({
+        success: false,
+        message: "label requires agentAddress"
+      });
+      return;
+    }
+    const cursor = parseCursor(req.query.cursor);
+    if (cursor === null) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid cursor"
+      });
+      return;
+    }
+    const groupId = resolveGroupId(req, res, dbService);
+    if (!groupId) return;
+
+    //console.log("[/inbox] agentAddress:", agentAddress, "groupId:", groupId, "limit:", limit);
+
+    try {
+      const page = agentAddress
+        ? dbService.pageMessagesForAgent(agentAddress, groupId, { limit, cursor, unreadOnly, label })
+        : dbService.pageMessagesByGroup(groupId, { limit, cursor });
+      const messages = page.messages.map(message => serializeMessage(
+        message,
+        agentAddress,
+        agentAddress ? dbService.getMessageLabels(message.threadId!, message.messageid, agentAddress) : undefined
+      ));
+      console.log("[/inbox] Returning", messages.length, "messages");
+      res.json({
+        success: true,
+        data: messages,
+        ...pageCursors(page)
+      });
+    } catch (error) {
+      console.error("Error reading inbox:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.get("/inbox/unread-counts", asAgent(), (req: express.Request, res: express.Response) => {
+    const agentAddress = typeof req.query.agentAddress === "string" ? req.query.agentAddress : undefined;
+    const groupId = resolveGroupId(req, res, dbService);
+    if (!groupId) return;
+
+    const group = dbService.getGroup(groupId)!;
+    if (agentAddress && !group.agents.includes(agentAddress)) {
+      res.status(404).json({
+        success: false,
+        message: `Agent '${agentAddress}' not found in group ${groupId}`
+      });
+      return;
+    }
+
+    try {
+      const agents = agentAddress ? [agentAddress] : group.agents;
+      const counts: Record<string, number> = {};
+      for (const agent of agents) {
+        counts[agent] = dbService.countUnreadForAgent(agent, groupId);
+      }
+
+      res.json({
+        success: true,
+        data: {
+          groupId,
+          counts
+        }
+      });
+    } catch (error) {
+      console.error("Error counting unread messages:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.get("/events", asAgent(), (req: express.Request, res: express.Response) => {
+    const groupId = typeof req.query.groupId === "string" ? req.query.groupId : undefined;
+    const agentAddress = typeof req.query.agentAddress === "string" ? req.query.agentAddress : undefined;
+
+    if (groupId && !dbService.getGroup(groupId)) {
+      res.status(404).json({
+        success: false,
+        message: `Group ${groupId} not found`
+      });
+      return;
+    }
+
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no"
+    });
+    res.flushHeaders();
+    res.write("retry: 3000\n\n");
+
+    const unsubscribe = dbService.events.subscribe(event => {
+      if (groupId && event.groupId !== groupId) return;
+      try {
+        const payload = serializeEvent(event, dbService, agentAddress);
+        if (!payload) return;
+        res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(payload)}\n\n`);
+      } catch (error) {
+        console.error("Error streaming event:", error);
+      }
+    });
+
+    // Comment lines keep proxies from closing an idle stream
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), SSE_HEARTBEAT_MS);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  app.get("/attachments/:attachmentId", asAgent(), (req: express.Request, res: express.Response) => {
+    const { attachmentId } = req.params;
+    const format = typeof req.query.format === "string" ? req.query.format : undefined;
+
+    try {
+      const attachment = dbService.getAttachment(attachmentId);
+      const content = attachment ? dbService.getAttachmentContent(attachmentId) : null;
+      if (!attachment || !content) {
+        res.status(404).json({
+          success: false,
+          message: `Attachment ${attachmentId} not found`
+        });
+        return;
+      }
+
+      // JSON form for clients that cannot handle raw downloads (e.g. the MCP server)
+      if (format === "base64") {
+        res.json({
+          success: true,
+          data: {
+            ...serializeAttachment(attachment),
+            contentBase64: content.toString("base64")
+          }
+        });
+        return;
+      }
+
+      res.attachment(attachment.filename);
+      res.type(attachment.mimeType);
+      res.send(content);
+    } catch (error) {
+      console.error("Error reading attachment:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.get("/search", asAgent(), (req: express.Request, res: express.Response) => {
+    const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+    if (!q) {
+      res.status(400).json({
+        success: false,
+        message: "Missing required query parameter: q"
+      });
+      return;
+    }
+
+    const since = parseDateParam(req.query.since);
+    const until = parseDateParam(req.query.until);
+    if (since === null || until === null) {
+      res.status(400).json({
+        success: false,
+        message: "since and until must be valid ISO 8601 dates"
+      });
+      return;
+    }
+
+    const groupId = resolveGroupId(req, res, dbService);
+    if (!groupId) return;
+
+    // Limits results to the agent's own mail and hides bcc lists it should not see
+    const agentAddress = typeof req.query.agentAddress === "string" ? req.query.agentAddress : undefined;
+
+    try {
+      const results = dbService.searchMessages(q, {
+        groupId,
+        from: typeof req.query.from === "string" ? req.query.from : undefined,
+        to: typeof req.query.to === "string" ? req.query.to : undefined,
+        participant: agentAddress,
+        threadId: typeof req.query.threadId === "string" ? req.query.threadId : undefined,
+        since,
+        until,
+        limit: parseLimit(req.query.limit, DEFAULT_LIMIT)
+      });
+
+      res.json({
+        success: true,
+        data: results.map(result => serializeSearchResult(result, agentAddress))
+      });
+    } catch (error) {
+      console.error("Error searching messages:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.get("/messages/:messageId", asAgent(), (req: express.Request, res: express.Response) => {
+    const { messageId } = req.params;
+    const threadId = typeof req.query.threadId === "string" ? req.query.threadId : undefined;
+    const groupId = typeof req.query.groupId === "string" ? req.query.groupId : undefined;
+    const agentAddress = typeof req.query.agentAddress === "string" ? req.query.agentAddress : undefined;
+
+    try {
+      if (groupId) {
+        const group = dbService.getGroup(groupId);
+        if (!group) {
+          res.status(404).json({
+            success: false,
+            message: `Group ${groupId} not found`
+          });
+          return;
+        }
+      }
+
+      if (threadId) {
+        const message = dbService.getMessage(threadId, messageId);
+        if (!message) {
+          res.status(404).json({
+            success: false,
+            message: `Message ${messageId} not found in thread ${threadId}`
+          });
+          return;
+        }
+
+        res.json({
+          success: true,
+          data: serializeMessage(message, agentAddress)
+        });
+        return;
+      }
+
+      const matches = dbService.findMessagesById(messageId, groupId);
+      if (matches.length === 0) {
+        res.status(404).json({
+          success: false,
+          message: `Message ${messageId} not found`
+        });
+        return;
+      }
+
+      if (matches.length > 1) {
+        res.status(400).json({
+          success: false,
+          message: "Multiple messages found with that messageId. Provide threadId to disambiguate.",
+          data: matches.map(m => ({ threadId: m.threadId, groupId: m.groupId }))
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: serializeMessage(matches[0]!, agentAddress)
       });
     } catch (error) {
       console.error("Error reading email:", error);
@@ -514,11 +2137,540 @@ export function createApp(dbService: DatabaseService): express.Express {
     }
   });
 
-  app.get("/threads/:threadId", (req: express.Request, res: express.Response) => {
+  app.get("/threads", asAgent({ query: ["agentAddress", "participant"] }), (req: express.Request, res: express.Response) => {
+    const since = parseDateParam(req.query.since);
+    if (since === null) {
+      res.status(400).json({
+        success: false,
+        message: "since must be a valid ISO 8601 date"
+      });
+      return;
+    }
+    const participant = typeof req.query.participant === "string" ? req.query.participant : undefined;
+    const agentAddress = typeof req.query.agentAddress === "string" ? req.query.agentAddress : undefined;
+    const groupId = resolveGroupId(req, res, dbService);
+    if (!groupId) return;
+    const principal = principalOf(res);
+
+    try {
+      const summaries = dbService.listThreadSummaries(groupId, {
+        participant,
+        since,
+        agent: agentAddress,
+        // Agents only learn about the messages they were part of, even in threads they share
+        visibleTo: principal.role === "agent" ? principal.agent : undefined,
+        limit: req.query.limit !== undefined ? parseLimit(req.query.limit) : undefined
+      });
+
+      res.json({
+        success: true,
+        data: summaries.map(summary => serializeThreadSummary(summary, agentAddress))
+      });
+    } catch (error) {
+      console.error("Error listing threads:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.get("/threads/:threadId", asAgent(), (req: express.Request, res: express.Response) => {
+    const { threadId } = req.params;
+    const agentAddress = typeof req.query.agentAddress === "string" ? req.query.agentAddress : undefined;
+    const cursor = parseCursor(req.query.cursor);
+    if (cursor === null) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid cursor"
+      });
+      return;
+    }
+    // Threads are returned whole unless the client asks for a page
+    const limit = req.query.limit !== undefined || cursor ? parseLimit(req.query.limit) : undefined;
+    const hideTrashedFor = agentAddress && !parseBoolean(req.query.includeTrashed) ? agentAddress : undefined;
+    try {
+      const thread = dbService.getThread(threadId);
+      if (!thread) {
+        res.status(404).json({
+          success: false,
+          message: `Thread ${threadId} not found`
+        });
+        return;
+      }
+
+      const principal = principalOf(res);
+      const visibleTo = principal.role === "agent" ? principal.agent : undefined;
+      const page = dbService.pageMessagesByThread(threadId, { limit, cursor, hideTrashedFor, visibleTo });
+      const messages = page.messages.map(message => serializeMessage(
+        message,
+        agentAddress,
+        agentAddress ? dbService.getMessageLabels(threadId, message.messageid, agentAddress) : undefined
+      ));
+
+      res.json({
+        success: true,
+        data: {
+          thread: visibleTo
+            ? { ...thread, messages: dbService.listThreadMessageIdsForParticipant(threadId, visibleTo) }
+            : thread,
+          messages
+        },
+        ...pageCursors(page)
+      });
+    } catch (error) {
+      console.error("Error reading thread:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  const setMessageReadState = (read: boolean) => (req: express.Request, res: express.Response) => {
+    const { messageId } = req.params;
+    const { threadId, agentAddress } = req.body;
+
+    if (!threadId || !agentAddress) {
+      res.status(400).json({
+        success: false,
+        message: "Missing required fields: threadId, agentAddress"
+      });
+      return;
+    }
+
+    try {
+      const message = dbService.getMessage(threadId, messageId);
+      if (!message) {
+        res.status(404).json({
+          success: false,
+          message: `Message ${messageId} not found in thread ${threadId}`
+        });
+        return;
+      }
+
+      if (!message.recipients().includes(agentAddress)) {
+        res.status(400).json({
+          success: false,
+          message: `Agent '${agentAddress}' is not a recipient of message ${messageId}`
+        });
+        return;
+      }
+
+      if (read) {
+        dbService.markMessageRead(threadId, messageId, agentAddress);
+      } else {
+        dbService.markMessageUnread(threadId, messageId, agentAddress);
+      }
+
+      res.json({
+        success: true,
+        message: read ? "Message marked as read" : "Message marked as unread",
+        data: {
+          threadId,
+          messageIds: [messageId],
+          agentAddress,
+          read
+        }
+      });
+    } catch (error) {
+      console.error("Error updating read state:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  const setThreadReadState = (read: boolean) => (req: express.Request, res: express.Response) => {
+    const { threadId } = req.params;
+    const { agentAddress } = req.body;
+
+    if (!agentAddress) {
+      res.status(400).json({
+        success: false,
+        message: "Missing required field: agentAddress"
+      });
+      return;
+    }
+
+    try {
+      const thread = dbService.getThread(threadId);
+      if (!thread) {
+        res.status(404).json({
+          success: false,
+          message: `Thread ${threadId} not found`
+        });
+        return;
+      }
+
+      const group = dbService.getGroup(thread.groupId);
+      if (!group || !group.agents.includes(agentAddress)) {
+        res.status(400).json({
+          success: false,
+          message: `Invalid agent: '${agentAddress}' is not a valid agent in group ${thread.groupId}`
+        });
+        return;
+      }
+
+      const messageIds = read
+        ? dbService.markThreadRead(threadId, agentAddress)
+        : dbService.markThreadUnread(threadId, agentAddress);
+
+      res.json({
+        success: true,
+        message: read ? "Thread marked as read" : "Thread marked as unread",
+        data: {
+          threadId,
+          messageIds,
+          agentAddress,
+          read
+        }
+      });
+    } catch (error) {
+      console.error("Error updating thread read state:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  // The label, delete and restore routes differ only in the changes they apply
+  const updateMessageLabels = (getChanges: (body: Record<string, unknown>) => LabelChanges, done: string) => (req: express.Request, res: express.Response) => {
+    const { messageId } = req.params;
+    const { threadId, agentAddress } = req.body;
+    const { add, remove } = getChanges(req.body);
+
+    if (!threadId || !agentAddress) {
+      res.status(400).json({
+        success: false,
+        message: "Missing required fields: threadId, agentAddress"
+      });
+      return;
+    }
+    const changesError = labelChangesError(add, remove);
+    if (changesError) {
+      res.status(400).json({
+        success: false,
+        message: changesError
+      });
+      return;
+    }
+
+    try {
+      const thread = dbService.getThread(threadId);
+      const message = thread ? dbService.getMessage(threadId, messageId) : null;
+      if (!thread || !message) {
+        res.status(404).json({
+          success: false,
+          message: `Message ${messageId} not found in thread ${threadId}`
+        });
+        return;
+      }
+
+      if (message.from !== agentAddress && !message.recipients().includes(agentAddress)) {
+        res.status(400).json({
+          success: false,
+          message: `Agent '${agentAddress}' did not send or receive message ${messageId}`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: done,
+        data: applyLabelChanges(dbService, thread, [messageId], agentAddress, add as string[], remove as string[])
+      });
+    } catch (error) {
+      console.error("Error updating labels:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  // Applies to every message in the thread the agent sent or received
+  const updateThreadLabels = (getChanges: (body: Record<string, unknown>) => LabelChanges, done: string) => (req: express.Request, res: express.Response) => {
+    const { threadId } = req.params;
+    const { agentAddress } = req.body;
+    const { add, remove } = getChanges(req.body);
+
+    if (!agentAddress) {
+      res.status(400).json({
+        success: false,
+        message: "Missing required field: agentAddress"
+      });
+      return;
+    }
+    const changesError = labelChangesError(add, remove);
+    if (changesError) {
+      res.status(400).json({
+        success: false,
+        message: changesError
+      });
+      return;
+    }
+
+    try {
+      const thread = dbService.getThread(threadId);
+      if (!thread) {
+        res.status(404).json({
+          success: false,
+          message: `Thread ${threadId} not found`
+        });
+        return;
+      }
+
+      const group = dbService.getGroup(thread.groupId);
+      if (!group || !group.agents.includes(agentAddress)) {
+        res.status(400).json({
+          success: false,
+          message: `Invalid agent: '${agentAddress}' is not a valid agent in group ${thread.groupId}`
+        });
+        return;
+      }
+
+      const messageIds = dbService.listThreadMessageIdsForParticipant(threadId, agentAddress);
+      res.json({
+        success: true,
+        message: done,
+        data: applyLabelChanges(dbService, thread, messageIds, agentAddress, add as string[], remove as string[])
+      });
+    } catch (error) {
+      console.error("Error updating thread labels:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  const requestedLabels = (body: Record<string, unknown>): LabelChanges => ({ add: body.add, remove: body.remove });
+
+  app.post("/messages/:messageId/labels", asAgent(), updateMessageLabels(requestedLabels, "Labels updated"));
+  app.post("/threads/:threadId/labels", asAgent(), updateThreadLabels(requestedLabels, "Labels updated"));
+  // Deleting only moves mail to the agent's Trash; nobody else's view changes
+  app.post("/messages/:messageId/delete", asAgent(), updateMessageLabels(() => ({ add: ["Trash"] }), "Message moved to Trash"));
+  app.post("/messages/:messageId/restore", asAgent(), updateMessageLabels(() => ({ remove: ["Trash"] }), "Message restored"));
+  app.post("/threads/:threadId/delete", asAgent(), updateThreadLabels(() => ({ add: ["Trash"] }), "Thread moved to Trash"));
+  app.post("/threads/:threadId/restore", asAgent(), updateThreadLabels(() => ({ remove: ["Trash"] }), "Thread restored"));
+
+  app.post("/messages/:messageId/read", asAgent(), setMessageReadState(true));
+  app.post("/messages/:messageId/unread", asAgent(), setMessageReadState(false));
+  app.post("/threads/:threadId/read", asAgent(), setThreadReadState(true));
+  app.post("/threads/:threadId/unread", asAgent(), setThreadReadState(false));
+
+  app.post("/webhooks", (req: express.Request, res: express.Response) => {
+    const { groupId, agentAddress, url, secret } = req.body;
+
+    if (!groupId || !url) {
+      res.status(400).json({
+        success: false,
+        message: "Missing required fields: groupId, url"
+      });
+      return;
+    }
+
+    if (!isHttpUrl(url)) {
+      res.status(400).json({
+        success: false,
+        message: "url must be an absolute http(s) URL"
+      });
+      return;
+    }
+
+    if (secret !== undefined && (typeof secret !== "string" || secret === "")) {
+      res.status(400).json({
+        success: false,
+        message: "secret must be a non-empty string"
+      });
+      return;
+    }
+
+    try {
+      const group = dbService.getGroup(groupId);
+      if (!group) {
+        res.status(404).json({
+          success: false,
+          message: `Group ${groupId} not found`
+        });
+        return;
+      }
+
+      if (agentAddress && !group.agents.includes(agentAddress)) {
+        res.status(400).json({
+          success: false,
+          message: `Invalid agent: '${agentAddress}' is not a valid agent in group ${groupId}. Valid agents: ${group.agents.join(", ")}`
+        });
+        return;
+      }
+
+      const webhook = new schema.Webhook(groupId, url, secret ?? randomBytes(32).toString("hex"), agentAddress || null);
+      dbService.createWebhook(webhook);
+
+      res.status(201).json({
+        success: true,
+        message: "Webhook registered",
+        data: serializeWebhook(webhook, true)
+      });
+    } catch (error) {
+      console.error("Error registering webhook:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.get("/webhooks", (req: express.Request, res: express.Response) => {
+    const groupId = typeof req.query.groupId === "string" ? req.query.groupId : undefined;
+    try {
+      res.json({
+        success: true,
+        data: dbService.listWebhooks(groupId).map(webhook => serializeWebhook(webhook))
+      });
+    } catch (error) {
+      console.error("Error listing webhooks:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.get("/webhooks/:webhookId", (req: express.Request, res: express.Response) => {
+    const { webhookId } = req.params;
+    try {
+      const webhook = dbService.getWebhook(webhookId);
+      if (!webhook) {
+        res.status(404).json({
+          success: false,
+          message: `Webhook ${webhookId} not found`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: serializeWebhook(webhook)
+      });
+    } catch (error) {
+      console.error("Error reading webhook:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.delete("/webhooks/:webhookId", (req: express.Request, res: express.Response) => {
+    const { webhookId } = req.params;
+    try {
+      if (!dbService.deleteWebhook(webhookId)) {
+        res.status(404).json({
+          success: false,
+          message: `Webhook ${webhookId} not found`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: "Webhook deleted",
+        data: { webhookId }
+      });
+    } catch (error) {
+      console.error("Error deleting webhook:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.get("/webhooks/:webhookId/deliveries", (req: express.Request, res: express.Response) => {
+    const { webhookId } = req.params;
+    const limit = parseLimit(req.query.limit, DEFAULT_DELIVERY_LIMIT);
+    try {
+      if (!dbService.getWebhook(webhookId)) {
+        res.status(404).json({
+          success: false,
+          message: `Webhook ${webhookId} not found`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: dbService.listWebhookDeliveries(webhookId, limit).map(serializeWebhookDelivery)
+      });
+    } catch (error) {
+      console.error("Error listing webhook deliveries:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.delete("/admin/messages/:messageId", (req: express.Request, res: express.Response) => {
+    const { messageId } = req.params;
+    const threadId = typeof req.query.threadId === "string" ? req.query.threadId : undefined;
+    if (!threadId) {
+      res.status(400).json({
+        success: false,
+        message: "Missing required query parameter: threadId"
+      });
+      return;
+    }
+
+    try {
+      const thread = dbService.getThread(threadId);
+      if (!thread || !dbService.deleteMessage(threadId, messageId)) {
+        res.status(404).json({
+          success: false,
+          message: `Message ${messageId} not found in thread ${threadId}`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: "Message deleted",
+        data: {
+          threadId,
+          messageId,
+          threadDeleted: thread.messages.length === 1
+        }
+      });
+    } catch (error) {
+      console.error("Error deleting message:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.delete("/admin/threads/:threadId", (req: express.Request, res: express.Response) => {
     const { threadId } = req.params;
     try {
       const thread = dbService.getThread(threadId);
-      if (!thread) {
+      if (!thread || !dbService.deleteThread(threadId)) {
         res.status(404).json({
           success: false,
           message: `Thread ${threadId} not found`
@@ -526,17 +2678,16 @@ export function createApp(dbService: DatabaseService): express.Express {
         return;
       }
 
-      const messages = dbService.listMessagesByThread(threadId).map(serializeMessage);
-
       res.json({
         success: true,
+        message: "Thread deleted",
         data: {
-          thread,
-          messages
+          threadId,
+          messageIds: thread.messages
         }
       });
     } catch (error) {
-      console.error("Error reading thread:", error);
+      console.error("Error deleting thread:", error);
       res.status(500).json({
         success: false,
         message: "Internal server error",
@@ -545,53 +2696,326 @@ export function createApp(dbService: DatabaseService): express.Express {
     }
   });
 
-  app.post("/admin/reset", (_req: express.Request, res: express.Response) => {
+  // Clears the database in place. Without keepAgents everything goes, then the groups in config (or in the
+  // config the setup wizard saved, with useConfigFile) are created; with keepAgents only mail is removed.
+  app.post("/admin/reset", (req: express.Request, res: express.Response) => {
+    const { keepAgents = false, config, useConfigFile = false } = req.body ?? {};
+
+    if (typeof keepAgents !== "boolean" || typeof useConfigFile !== "boolean") {
+      res.status(400).json({
+        success: false,
+        message: "keepAgents and useConfigFile must be booleans"
+      });
+      return;
+    }
+    if (keepAgents && (config !== undefined || useConfigFile)) {
+      res.status(400).json({
+        success: false,
+        message: "keepAgents cannot be combined with a config"
+      });
+      return;
+    }
+    if (config !== undefined && useConfigFile) {
+      res.status(400).json({
+        success: false,
+        message: "Provide either config or useConfigFile, not both"
+      });
+      return;
+    }
+
     try {
-      // Delete all data from database tables
-      dbService.deleteAllMessages();
-      dbService.deleteAllThreads();
-      dbService.deleteAllGroups();
+      let rawConfig: unknown = config;
+      if (useConfigFile) {
+        rawConfig = readGroupConfigFile();
+        if (rawConfig === null) {
+          res.status(404).json({
+            success: false,
+            message: `No saved configuration found at ${GROUP_CONFIG_PATH}`
+          });
+          return;
+        }
+      }
+      const { configs, error } = rawConfig === undefined ? { configs: [] } : parseGroupConfigs(rawConfig);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: error
+        });
+        return;
+      }
+
+      dbService.transaction(() => {
+        if (keepAgents) {
+          dbService.deleteAllMail();
+        } else {
+          dbService.deleteAllMessages();
+          dbService.deleteAllThreads();
+          dbService.deleteAllGroups();
+          applyGroupConfigs(dbService, configs);
+        }
+      });
 
-      // Close database connection
-      dbService.close();
+      res.json({
+        success: true,
+        message: keepAgents ? "All mail deleted" : "Database reset successfully",
+        data: {
+          keepAgents,
+          groups: dbService.listGroups()
+        }
+      });
+    } catch (error) {
+      console.error("Error resetting database:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
 
-      // Delete the physical database and config files
-      const dbPath = process.env.DB_PATH || path.join(process.cwd(), "data", "email.db");
-      const configPath = process.env.GROUP_CONFIG_PATH || path.join(process.cwd(), "data", "config.json");
+  // Replaces everything with the scenario in the body, or in SEED_FILE when the body has none
+  app.post("/admin/seed", (req: express.Request, res: express.Response) => {
+    const body = req.body ?? {};
+    const fromFile = body.seed === undefined;
 
-      if (fs.existsSync(dbPath)) {
-        fs.unlinkSync(dbPath);
+    try {
+      let raw: unknown = body.seed;
+      if (fromFile) {
+        raw = SEED_FILE ? readSeedFile(SEED_FILE) : null;
+        if (raw === null) {
+          res.status(404).json({
+            success: false,
+            message: SEED_FILE ? `No seed file found at ${SEED_FILE}` : "Provide a seed, or set SEED_FILE on the server"
+          });
+          return;
+        }
       }
 
-      if (fs.existsSync(configPath)) {
-        fs.unlinkSync(configPath);
+      const { seed, error } = parseSeed(raw);
+      if (!seed) {
+        res.status(400).json({
+          success: false,
+          message: error
+        });
+        return;
       }
 
-      // Also delete SQLite temp files if they exist
-      const dbShmPath = `${dbPath}-shm`;
-      const dbWalPath = `${dbPath}-wal`;
-      if (fs.existsSync(dbShmPath)) {
-        fs.unlinkSync(dbShmPath);
-      }
-      if (fs.existsSync(dbWalPath)) {
-        fs.unlinkSync(dbWalPath);
-      }
+      const groups = dbService.transaction(() => {
+        dbService.deleteAllMessages();
+        dbService.deleteAllThreads();
+        dbService.deleteAllGroups();
+        return applySeed(dbService, seed);
+      });
 
       res.json({
         success: true,
-        message: "Database reset successfully",
+        message: "Database seeded",
         data: {
-          message: "Database and config files deleted successfully. Please restart the server to run the wizard again."
+          groups: groups.map(withProfiles)
         }
       });
+    } catch (error) {
+      console.error("Error seeding database:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.use("/snapshots", (_req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (!snapshots) {
+      res.status(503).json({
+        success: false,
+        message: "Snapshots are not enabled on this server"
+      });
+      return;
+    }
+    next();
+  });
+
+  app.post("/snapshots", async (req: express.Request, res: express.Response) => {
+    const { name, groupId = null } = req.body ?? {};
+
+    if (typeof name !== "string" || !SNAPSHOT_NAME_PATTERN.test(name)) {
+      res.status(400).json({
+        success: false,
+        message: "name must start with a letter or digit and contain only letters, digits, '.', '_' or '-'"
+      });
+      return;
+    }
+    if (groupId !== null && typeof groupId !== "string") {
+      res.status(400).json({
+        success: false,
+        message: "groupId must be a string"
+      });
+      return;
+    }
+
+    try {
+      if (groupId && !dbService.getGroup(groupId)) {
+        res.status(404).json({
+          success: false,
+          message: `Group ${groupId} not found`
+        });
+        return;
+      }
+      if (snapshots!.get(name)) {
+        res.status(409).json({
+          success: false,
+          message: `Snapshot ${name} already exists`
+        });
+        return;
+      }
 
-      // Exit the process after a short delay to ensure response is sent
-      setTimeout(() => {
-        console.log("Database reset complete. Exiting to allow restart...");
-        process.exit(0);
-      }, 500);
+      const snapshot = await snapshots!.create(name, groupId);
+
+      res.status(201).json({
+        success: true,
+        message: "Snapshot created",
+        data: snapshot
+      });
     } catch (error) {
-      console.error("Error resetting database:", error);
+      console.error("Error creating snapshot:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.get("/snapshots", (_req: express.Request, res: express.Response) => {
+    try {
+      res.json({
+        success: true,
+        data: snapshots!.list()
+      });
+    } catch (error) {
+      console.error("Error listing snapshots:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // Atomic, so agents that keep working during a restore see the old mailbox or the restored one, never a mix
+  app.post("/snapshots/:name/restore", (req: express.Request, res: express.Response) => {
+    const { name } = req.params;
+    try {
+      const snapshot = snapshots!.restore(name);
+      if (!snapshot) {
+        res.status(404).json({
+          success: false,
+          message: `Snapshot ${name} not found`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: "Snapshot restored",
+        data: snapshot
+      });
+    } catch (error) {
+      console.error("Error restoring snapshot:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.delete("/snapshots/:name", (req: express.Request, res: express.Response) => {
+    const { name } = req.params;
+    try {
+      if (!snapshots!.delete(name)) {
+        res.status(404).json({
+          success: false,
+          message: `Snapshot ${name} not found`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: "Snapshot deleted"
+      });
+    } catch (error) {
+      console.error("Error deleting snapshot:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // The document itself rather than the usual envelope, so it can be saved and posted to /import as is
+  app.get("/export", (req: express.Request, res: express.Response) => {
+    const groupId = typeof req.query.groupId === "string" ? req.query.groupId : undefined;
+    try {
+      if (groupId && !dbService.getGroup(groupId)) {
+        res.status(404).json({
+          success: false,
+          message: `Group ${groupId} not found`
+        });
+        return;
+      }
+
+      res.json(exportMailbox(dbService, groupId));
+    } catch (error) {
+      console.error("Error exporting mailbox:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.post("/import", (req: express.Request, res: express.Response) => {
+    const onConflict = typeof req.query.onConflict === "string" ? req.query.onConflict : "skip";
+
+    if (!IMPORT_CONFLICT_MODES.includes(onConflict as ImportConflictMode)) {
+      res.status(400).json({
+        success: false,
+        message: `onConflict must be one of: ${IMPORT_CONFLICT_MODES.join(", ")}`
+      });
+      return;
+    }
+
+    const { document, error } = parseMailboxExport(dbService, req.body);
+    if (!document) {
+      res.status(400).json({
+        success: false,
+        message: error
+      });
+      return;
+    }
+
+    try {
+      const result = importMailbox(dbService, document, onConflict as ImportConflictMode);
+      if (result.conflicts.length > 0) {
+        res.status(409).json({
+          success: false,
+          message: `${result.conflicts.length} thread(s) already exist; nothing was imported`,
+          data: result
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: "Import complete",
+        data: result
+      });
+    } catch (error) {
+      console.error("Error importing mailbox:", error);
       res.status(500).json({
         success: false,
         message: "Internal server error",
@@ -0,0 +1,121 @@
+// Who a request acts as, and what an agent may reach. Shared by the REST routes and the MCP server's embedded
+// mode, so an agent sees the same mail through either.
+import * as schema from "../schema.js";
+import { DatabaseService } from "../db/service.js";
+import { hashToken } from "./tokens.js";
+
+// Who a request acts for. With no admin tokens configured, auth is off and every request acts as an admin.
+// tokenId is null when an admin is acting as the agent rather than holding one of its tokens.
+export type AgentPrincipal = { role: "agent"; groupId: schema.GroupId; agent: schema.AgentAddress; tokenId: schema.AgentTokenId | null };
+export type Principal = { role: "admin" } | AgentPrincipal;
+
+export const ADMIN: Principal = { role: "admin" };
+
+// The principal a request with this bearer token acts as, or the reason it is refused. The group and agent
+// named in X-SES-Group and X-SES-Agent only apply to an admin, who then acts as that agent.
+export function authenticate(
+  dbService: DatabaseService,
+  adminTokenHashes: Set<string>,
+  token: string | null,
+  actAs: { groupId?: string; agent?: string }
+): { principal: Principal; error?: undefined } | { principal?: undefined; error: string } {
+  const { groupId, agent } = actAs;
+  const asAdmin = (): Principal => (groupId && agent ? { role: "agent", groupId, agent, tokenId: null } : ADMIN);
+
+  if (adminTokenHashes.size === 0) {
+    return { principal: asAdmin() };
+  }
+
+  const hash = token ? hashToken(token) : null;
+  const agentToken = hash && !adminTokenHashes.has(hash) ? dbService.findAgentTokenByHash(hash) : null;
+  if (!hash || (!adminTokenHashes.has(hash) && !agentToken)) {
+    return { error: token ? "Invalid token" : "Authentication required. Send a token as 'Authorization: Bearer <token>'" };
+  }
+  return {
+    principal: agentToken
+      ? { role: "agent", groupId: agentToken.groupId, agent: agentToken.agent, tokenId: agentToken.id }
+      : asAdmin()
+  };
+}
+
+// The parts of a request agentScopeError looks at: path parameters, query string and JSON body
+export type ScopedRequest = {
+  params: Record<string, string | undefined>;
+  query: Record<string, unknown>;
+  body?: unknown;
+};
+
+export interface AgentScope {
+  query?: string[];                    // Query parameters naming the acting agent; they default to the token's agent
+  ownProfileOnly?: boolean;            // Whether an :agentAddress in the path must be the token's agent
+}
+
+// Why an agent token may not make this request, or null when it may. Mail the agent did not send or
+// receive is reported as not found rather than forbidden, so tokens cannot probe for other agents' threads.
+export function agentScopeError(
+  req: ScopedRequest,
+  dbService: DatabaseService,
+  principal: AgentPrincipal,
+  scope: AgentScope
+): { status: number; message: string } | null {
+  const body = req.body && typeof req.body === "object" ? req.body as Record<string, unknown> : {};
+  const { params } = req;
+
+  const groupIds = [params.groupId, req.query.groupId, body.groupId].filter(value => value !== undefined);
+  if (groupIds.some(groupId => groupId !== principal.groupId)) {
+    return { status: 403, message: `Access is limited to group ${principal.groupId}` };
+  }
+
+  const agents = [
+    scope.ownProfileOnly === false ? undefined : params.agentAddress,
+    ...(scope.query ?? ["agentAddress"]).map(name => req.query[name]),
+    body.from,
+    body.agentAddress
+  ].filter(value => value !== undefined);
+  if (agents.some(agent => agent !== principal.agent)) {
+    return { status: 403, message: `Access is limited to acting as ${principal.agent}` };
+  }
+
+  const canSee = (threadId: schema.ThreadId, messageId?: schema.MessageId) => {
+    const thread = dbService.getThread(threadId);
+    if (!thread) return true;          // Left to the route's own not-found handling
+    const visible = thread.groupId === principal.groupId
+      ? dbService.listThreadMessageIdsForParticipant(threadId, principal.agent)
+      : [];
+    return messageId === undefined ? visible.length > 0 : visible.includes(messageId);
+  };
+
+  const threadId = params.threadId ?? req.query.threadId ?? body.threadId;
+  const messageId = params.messageId ?? body.messageId;
+  if (messageId !== undefined && typeof threadId !== "string") {
+    return { status: 400, message: "threadId is required when acting as an agent" };
+  }
+  if (typeof threadId === "string") {
+    if (!canSee(threadId)) {
+      return { status: 404, message: `Thread ${threadId} not found` };
+    }
+    if (messageId !== undefined && !canSee(threadId, String(messageId))) {
+      return { status: 404, message: `Message ${String(messageId)} not found in thread ${threadId}` };
+    }
+  }
+
+  if (params.draftId) {
+    const draft = dbService.getDraft(params.draftId);
+    if (draft && (draft.groupId !== principal.groupId || draft.from !== principal.agent)) {
+      return { status: 404, message: `Draft ${params.draftId} not found` };
+    }
+  }
+  if (params.scheduledId) {
+    const scheduled = dbService.getScheduledMessage(params.scheduledId);
+    if (scheduled && (scheduled.groupId !== principal.groupId || scheduled.from !== principal.agent)) {
+      return { status: 404, message: `Scheduled message ${params.scheduledId} not found` };
+    }
+  }
+  if (params.attachmentId) {
+    const attachment = dbService.getAttachment(params.attachmentId);
+    if (attachment && !canSee(attachment.threadId, attachment.messageId)) {
+      return { status: 404, message: `Attachment ${params.attachmentId} not found` };
+    }
+  }
+  return null;
+}
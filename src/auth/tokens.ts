@@ -0,0 +1,22 @@
+// Bearer tokens for the API. Admin tokens come from the environment; agent tokens are issued through the API
+// and stored as hashes, so a leaked database does not leak working credentials.
+
+import { createHash, randomBytes } from "crypto";
+
+const TOKEN_PREFIX = "ses_";
+
+// ADMIN_TOKENS is a comma-separated list, so a token can be rotated without downtime; ADMIN_TOKEN sets one
+export function readAdminTokens(env: NodeJS.ProcessEnv = process.env): string[] {
+  return [env.ADMIN_TOKENS, env.ADMIN_TOKEN]
+    .flatMap(value => (value ?? "").split(","))
+    .map(token => token.trim())
+    .filter(Boolean);
+}
+
+export function generateToken(): string {
+  return `${TOKEN_PREFIX}${randomBytes(24).toString("base64url")}`;
+}
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
@@ -0,0 +1,80 @@
+// Offline export and import against the same database the server uses (DB_PATH, ATTACHMENT_DIR).
+// Stop the server first, or its clients will not hear about imported mail.
+//
+//   npm run cli -- export <file> [--group @team]
+//   npm run cli -- import <file> [--on-conflict skip|replace|error]
+
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import { initDatabase } from "./db/init.js";
+import { DatabaseService } from "./db/service.js";
+import {
+  IMPORT_CONFLICT_MODES,
+  ImportConflictMode,
+  exportMailbox,
+  importMailbox,
+  parseMailboxExport
+} from "./transfer/mailbox.js";
+
+const USAGE = `Usage:
+  cli export <file> [--group <groupId>]
+  cli import <file> [--on-conflict ${IMPORT_CONFLICT_MODES.join("|")}]`;
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    group: { type: "string" },
+    "on-conflict": { type: "string", default: "skip" }
+  }
+});
+const [command, file] = positionals;
+if (!file || (command !== "export" && command !== "import")) {
+  fail(USAGE);
+}
+
+const onConflict = values["on-conflict"] as ImportConflictMode;
+if (!IMPORT_CONFLICT_MODES.includes(onConflict)) {
+  fail(`--on-conflict must be one of: ${IMPORT_CONFLICT_MODES.join(", ")}`);
+}
+
+const dbPath = process.env.DB_PATH || path.join(process.cwd(), "data", "email.db");
+const dbService = new DatabaseService(initDatabase(dbPath), { attachmentDir: process.env.ATTACHMENT_DIR || undefined });
+
+try {
+  if (command === "export") {
+    if (values.group && !dbService.getGroup(values.group)) {
+      fail(`Group ${values.group} not found`);
+    }
+    const document = exportMailbox(dbService, values.group);
+    fs.writeFileSync(file, `${JSON.stringify(document, null, 2)}\n`);
+    const threads = document.groups.reduce((count, group) => count + group.threads.length, 0);
+    console.log(`Exported ${document.groups.length} group(s) and ${threads} thread(s) to ${file}`);
+  } else {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(file, "utf8"));
+    } catch (error) {
+      fail(`Cannot read ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const { document, error } = parseMailboxExport(dbService, raw);
+    if (!document) {
+      fail(error!);
+    }
+    const result = importMailbox(dbService, document, onConflict);
+    if (result.conflicts.length > 0) {
+      fail(`${result.conflicts.length} thread(s) already exist; nothing was imported:\n  ${result.conflicts.join("\n  ")}`);
+    }
+    console.log(
+      `Imported ${result.imported.length} thread(s) and ${result.messages} message(s); ` +
+      `replaced ${result.replaced.length}, skipped ${result.skipped.length}, created ${result.groupsCreated.length} group(s)`
+    );
+  }
+} finally {
+  dbService.close();
+}
@@ -0,0 +1,515 @@
+// Builds outgoing messages with the checks every send path shares: alias expansion,
+// sender and recipient validation, reply addressing and message numbering
+import { createHash } from "crypto";
+import path from "path";
+import * as schema from "./schema.js";
+import { DatabaseService } from "./db/service.js";
+
+export const DEFAULT_SUBJECT = "No subject";
+
+export type AttachmentInput = {
+  filename: string;
+  mimeType: string;
+  content: Buffer;
+};
+
+export function storeAttachments(
+  dbService: DatabaseService,
+  message: schema.Message,
+  inputs: AttachmentInput[]
+): schema.Attachment[] {
+  return inputs.map(input => {
+    const sha256 = createHash("sha256").update(input.content).digest("hex");
+    const attachment = new schema.Attachment(
+      message.threadId!,
+      message.messageid,
+      input.filename,
+      input.mimeType,
+      input.content.length,
+      sha256
+    );
+    dbService.createAttachment(attachment, input.content);
+    return attachment;
+  });
+}
+
+export function nextMessageId(thread: schema.Thread): string {
+  const next = Number.parseInt(thread.lastIndex, 10) + 1;
+  return Number.isNaN(next) ? "0" : String(next);
+}
+
+export function replySubject(subject: string): string {
+  if (!subject || subject.trim() === "") {
+    return `Re: ${DEFAULT_SUBJECT}`;
+  }
+  const trimmed = subject.trim();
+  return /^re:/i.test(trimmed) ? trimmed : `Re: ${trimmed}`;
+}
+
+export function validateAgents(agents: string[], group: schema.Group): { valid: boolean; invalidAgents: string[] } {
+  const validAgents = new Set(group.agents);
+  const invalidAgents = agents.filter(agent => !validAgents.has(agent));
+  return {
+    valid: invalidAgents.length === 0,
+    invalidAgents
+  };
+}
+
+// Replaces alias names in one recipient field with their members, leaving the sender out
+function expandAliases(
+  names: string[],
+  field: schema.RecipientField,
+  aliases: Map<string, schema.Alias>,
+  sender: schema.AgentAddress
+): { recipients: string[]; expansions: schema.AliasExpansion[] } {
+  const recipients: string[] = [];
+  const expansions: schema.AliasExpansion[] = [];
+  for (const name of names) {
+    const alias = aliases.get(name);
+    if (!alias) {
+      recipients.push(name);
+      continue;
+    }
+    const members = alias.members.filter(member => member !== sender);
+    expansions.push({ alias: alias.name, field, members });
+    recipients.push(...members);
+  }
+  return { recipients: Array.from(new Set(recipients)), expansions };
+}
+
+export type ResolvedRecipients = {
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  aliasExpansions: schema.AliasExpansion[];
+};
+
+// Expands aliases in each field; an agent only receives one copy: to wins over cc, and cc wins over bcc
+export function resolveRecipients(
+  fields: { to: string[]; cc: string[]; bcc: string[] },
+  aliases: Map<string, schema.Alias>,
+  sender: schema.AgentAddress
+): ResolvedRecipients {
+  const toExpanded = expandAliases(fields.to, "to", aliases, sender);
+  const ccExpanded = expandAliases(fields.cc, "cc", aliases, sender);
+  const bccExpanded = expandAliases(fields.bcc, "bcc", aliases, sender);
+
+  const to = toExpanded.recipients;
+  const cc = ccExpanded.recipients.filter(addr => !to.includes(addr));
+  const bcc = bccExpanded.recipients.filter(addr => !to.includes(addr) && !cc.includes(addr));
+  return {
+    to,
+    cc,
+    bcc,
+    aliasExpansions: [...toExpanded.expansions, ...ccExpanded.expansions, ...bccExpanded.expansions]
+  };
+}
+
+export function forwardSubject(subject: string): string {
+  const trimmed = subject.trim() || DEFAULT_SUBJECT;
+  return /^fwd?:/i.test(trimmed) ? trimmed : `Fwd: ${trimmed}`;
+}
+
+// The note comes first, then the original's headers and its body quoted line by line. BCC is never included.
+export function forwardBody(source: schema.Message, note?: string): string {
+  const headers = [
+    "---------- Forwarded message ----------",
+    `From: ${source.from}`,
+    `Date: ${source.createdAt}`,
+    `Subject: ${source.subject || DEFAULT_SUBJECT}`,
+    `To: ${source.to.join(", ")}`,
+    ...(source.cc.length > 0 ? [`Cc: ${source.cc.join(", ")}`] : [])
+  ];
+  const quoted = source.body.split("\n").map(line => `> ${line}`);
+  return [...(note ? [note, ""] : []), ...headers, "", ...quoted].join("\n");
+}
+
+type ComposeError = { status: number; message: string };
+
+// A message ready to be stored, or the HTTP error explaining why it cannot be sent
+export type ComposeResult =
+  | { message: schema.Message; error?: undefined }
+  | { message?: undefined; error: ComposeError };
+
+function composeError(status: number, message: string): { error: ComposeError } {
+  return { error: { status, message } };
+}
+
+// Starts a new thread, expanding aliases and validating the sender and every recipient
+export function composeNewMessage(
+  dbService: DatabaseService,
+  fields: {
+    groupId: schema.GroupId;
+    from: schema.AgentAddress;
+    to: string[];
+    cc: string[];
+    bcc: string[];
+    subject: string;
+    body: string;
+  }
+): ComposeResult {
+  const { groupId, from } = fields;
+  const group = dbService.getGroup(groupId);
+  if (!group) {
+    return composeError(404, `Group ${groupId} not found. Create it with POST /groups first.`);
+  }
+
+  const aliases = new Map(dbService.listAliases(groupId).map(alias => [alias.name, alias]));
+  const resolved = resolveRecipients(fields, aliases, from);
+
+  if (resolved.to.length === 0) {
+    return composeError(400, "Recipient list cannot be empty after expanding aliases");
+  }
+
+  // Validate 'from' is a valid agent
+  if (!group.agents.includes(from)) {
+    return composeError(
+      400,
+      `Invalid sender: '${from}' is not a valid agent in group ${groupId}. Valid agents: ${group.agents.join(", ")}`
+    );
+  }
+
+  // Validate all recipients are valid agents
+  const recipientValidation = validateAgents([...resolved.to, ...resolved.cc, ...resolved.bcc], group);
+  if (!recipientValidation.valid) {
+    return composeError(
+      400,
+      `Invalid recipient(s): ${recipientValidation.invalidAgents.join(", ")} are not valid agents in group ${groupId}. Valid agents: ${group.agents.join(", ")}${aliases.size > 0 ? `. Aliases: ${[...aliases.keys()].join(", ")}` : ""}`
+    );
+  }
+
+  const message = new schema.Message(
+    groupId,
+    from,
+    resolved.to,
+    fields.body,
+    undefined,
+    fields.subject,
+    resolved.cc,
+    resolved.bcc
+  );
+  message.aliasExpansions = resolved.aliasExpansions;
+
+  if (!message.spawnedThread) {
+    return composeError(500, "Failed to create thread");
+  }
+  return { message };
+}
+
+// Replies to one message (its sender) or, with replyAll, to its sender, to and cc recipients
+export function composeReply(
+  dbService: DatabaseService,
+  fields: {
+    groupId?: schema.GroupId;
+    threadId: schema.ThreadId;
+    replyToMessageId?: schema.MessageId;
+    from: schema.AgentAddress;
+    body: string;
+    replyAll: boolean;
+  }
+): ComposeResult {
+  const { groupId, threadId, replyToMessageId, from } = fields;
+  const thread = dbService.getThread(threadId);
+  if (!thread) {
+    return composeError(404, `Thread ${threadId} not found`);
+  }
+
+  if (groupId && groupId !== thread.groupId) {
+    return composeError(400, `Thread ${threadId} does not belong to group ${groupId}`);
+  }
+
+  const group = dbService.getGroup(thread.groupId)!;
+
+  // Validate 'from' is a valid agent
+  if (!group.agents.includes(from)) {
+    return composeError(
+      400,
+      `Invalid sender: '${from}' is not a valid agent in group ${thread.groupId}. Valid agents: ${group.agents.join(", ")}`
+    );
+  }
+
+  const targetMessage = replyToMessageId
+    ? dbService.getMessage(threadId, replyToMessageId)
+    : dbService.listMessagesByThread(threadId).at(-1) ?? null;
+
+  if (!targetMessage) {
+    return composeError(404, "Message to reply to was not found");
+  }
+
+  let recipients: string[];
+  let ccRecipients: string[] = [];
+  if (fields.replyAll) {
+    const recipientSet = new Set<string>();
+    recipientSet.add(targetMessage.from);
+    targetMessage.to.forEach(addr => recipientSet.add(addr));
+    recipientSet.delete(from);
+    recipients = Array.from(recipientSet);
+
+    // CC is carried over; BCC recipients are never copied onto a reply-all
+    ccRecipients = targetMessage.cc.filter(addr => addr !== from && !recipientSet.has(addr));
+  } else {
+    recipients = [targetMessage.from].filter(addr => addr !== from);
+  }
+
+  if (recipients.length === 0) {
+    return composeError(400, `No valid recipients found for ${fields.replyAll ? "reply-all" : "reply"}`);
+  }
+
+  const subject = replySubject(thread.subject);
+  const message = new schema.Message(thread.groupId, from, recipients, fields.body, threadId, subject, ccRecipients);
+  message.messageid = nextMessageId(thread);
+  return { message };
+}
+
+// A forward also carries copies of the original's attachments
+export type ForwardResult =
+  | { message: schema.Message; attachments: AttachmentInput[]; error?: undefined }
+  | { message?: undefined; attachments?: undefined; error: ComposeError };
+
+// Forwards one message as a new thread: the sender must have sent or received it, and the
+// recipients are expanded and validated like any new message
+export function composeForward(
+  dbService: DatabaseService,
+  fields: {
+    groupId?: schema.GroupId;
+    threadId: schema.ThreadId;
+    messageId: schema.MessageId;
+    from: schema.AgentAddress;
+    to: string[];
+    cc: string[];
+    bcc: string[];
+    note?: string;
+  }
+): ForwardResult {
+  const { groupId, threadId, messageId, from } = fields;
+  const source = dbService.getMessage(threadId, messageId);
+  if (!source) {
+    return composeError(404, `Message ${messageId} not found in thread ${threadId}`);
+  }
+
+  if (groupId && groupId !== source.groupId) {
+    return composeError(400, `Thread ${threadId} does not belong to group ${groupId}`);
+  }
+
+  const group = dbService.getGroup(source.groupId)!;
+  if (group.agents.includes(from) && from !== source.from && !source.recipients().includes(from)) {
+    return composeError(403, `'${from}' can only forward messages it sent or received`);
+  }
+
+  const composed = composeNewMessage(dbService, {
+    groupId: source.groupId,
+    from,
+    to: fields.to,
+    cc: fields.cc,
+    bcc: fields.bcc,
+    subject: forwardSubject(source.subject ?? ""),
+    body: forwardBody(source, fields.note)
+  });
+  if (composed.error) {
+    return composed;
+  }
+
+  const message = composed.message;
+  message.forwardedFrom = { threadId: source.threadId!, messageId: source.messageid };
+
+  // Attachments are copied onto the new message; disk storage is content-addressed so files are not duplicated
+  const attachments: AttachmentInput[] = [];
+  for (const attachment of source.attachments) {
+    const content = dbService.getAttachmentContent(attachment.id);
+    if (content) {
+      attachments.push({ filename: attachment.filename, mimeType: attachment.mimeType, content });
+    }
+  }
+  return { message, attachments };
+}
+
+// Fields shared by drafts and scheduled messages, which are composed only when they are sent
+export type OutgoingMessage = Pick<
+  schema.Draft,
+  "groupId" | "from" | "kind" | "to" | "cc" | "bcc" | "subject" | "body" | "threadId" | "replyToMessageId"
+> & { forwardedFrom?: schema.MessageRef | null };
+
+// Sender and recipients are only checked here, so a draft can be saved before they exist
+export function composeOutgoing(dbService: DatabaseService, outgoing: OutgoingMessage): ComposeResult {
+  if (outgoing.body.trim() === "") {
+    return composeError(400, "Message body cannot be empty");
+  }
+  if (outgoing.kind === "new") {
+    if (outgoing.to.length === 0) {
+      return composeError(400, "Recipient list cannot be empty");
+    }
+    const composed = composeNewMessage(dbService, {
+      groupId: outgoing.groupId,
+      from: outgoing.from,
+      to: outgoing.to,
+      cc: outgoing.cc,
+      bcc: outgoing.bcc,
+      subject: outgoing.subject ?? DEFAULT_SUBJECT,
+      body: outgoing.body
+    });
+    // A scheduled forward was quoted when it was scheduled; only the link to the original is restored here
+    if (composed.message && outgoing.forwardedFrom) {
+      composed.message.forwardedFrom = outgoing.forwardedFrom;
+    }
+    return composed;
+  }
+  return composeReply(dbService, {
+    groupId: outgoing.groupId,
+    threadId: outgoing.threadId!,
+    replyToMessageId: outgoing.replyToMessageId ?? undefined,
+    from: outgoing.from,
+    body: outgoing.body,
+    replyAll: outgoing.kind === "reply-all"
+  });
+}
+
+// Stores a composed message, the thread it starts (if any) and its attachments in one transaction
+export function deliverMessage(
+  dbService: DatabaseService,
+  message: schema.Message,
+  attachments: AttachmentInput[]
+): schema.Attachment[] {
+  return dbService.transaction(() => {
+    if (message.spawnedThread) {
+      dbService.createThread(message.spawnedThread);
+    }
+    dbService.createMessage(message);
+    return storeAttachments(dbService, message, attachments);
+  });
+}
+
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+export function normalizeRecipients(raw: unknown): string[] {
+  if (Array.isArray(raw)) {
+    return raw
+      .filter((val): val is string => typeof val === "string" && val.trim() !== "")
+      .map(v => v.trim());
+  }
+  if (typeof raw === "string" && raw.trim() !== "") {
+    return [raw.trim()];
+  }
+  return [];
+}
+
+// Accepts [{ filename, content, encoding?: "text" | "base64", mimeType? }]
+export function parseAttachments(raw: unknown): { attachments: AttachmentInput[]; error?: string } {
+  if (raw === undefined || raw === null) {
+    return { attachments: [] };
+  }
+  if (!Array.isArray(raw)) {
+    return { attachments: [], error: "attachments must be an array" };
+  }
+
+  const attachments: AttachmentInput[] = [];
+  for (const [index, item] of raw.entries()) {
+    const { filename, content, encoding = "text", mimeType } = (item ?? {}) as Record<string, unknown>;
+
+    if (typeof filename !== "string" || path.basename(filename).trim() === "") {
+      return { attachments: [], error: `Attachment ${index} is missing a filename` };
+    }
+    if (typeof content !== "string") {
+      return { attachments: [], error: `Attachment ${index} is missing content` };
+    }
+    if (encoding !== "text" && encoding !== "base64") {
+      return { attachments: [], error: `Attachment ${index} has unsupported encoding '${String(encoding)}'. Use 'text' or 'base64'` };
+    }
+    if (encoding === "base64" && !/^[A-Za-z0-9+/]*={0,2}$/.test(content.replace(/\s/g, ""))) {
+      return { attachments: [], error: `Attachment ${index} content is not valid base64` };
+    }
+
+    const buffer = Buffer.from(content, encoding === "base64" ? "base64" : "utf8");
+    if (buffer.length > MAX_ATTACHMENT_BYTES) {
+      return { attachments: [], error: `Attachment ${index} exceeds the ${MAX_ATTACHMENT_BYTES} byte limit` };
+    }
+
+    attachments.push({
+      filename: path.basename(filename).trim(),
+      mimeType: typeof mimeType === "string" && mimeType.trim() !== ""
+        ? mimeType.trim()
+        : encoding === "text" ? "text/plain" : "application/octet-stream",
+      content: buffer
+    });
+  }
+  return { attachments };
+}
+
+export const DRAFT_KINDS: readonly schema.DraftKind[] = ["new", "reply", "reply-all"];
+const DRAFT_RECIPIENT_FIELDS = ["to", "cc", "bcc"] as const;
+
+function isRecipientList(raw: unknown): boolean {
+  return typeof raw === "string" || (Array.isArray(raw) && raw.every(r => typeof r === "string"));
+}
+
+// Checks field types only; sender and recipients are validated when the draft is sent
+export function draftUpdateError(update: Record<string, unknown>, kind: schema.DraftKind): string | null {
+  if (kind === "new") {
+    for (const field of DRAFT_RECIPIENT_FIELDS) {
+      if (update[field] !== undefined && !isRecipientList(update[field])) {
+        return `${field} must be a string or an array of strings`;
+      }
+    }
+    if (update.subject !== undefined && update.subject !== null && typeof update.subject !== "string") {
+      return "subject must be a string or null";
+    }
+    if (update.replyToMessageId !== undefined) {
+      return "replyToMessageId is only allowed on reply drafts";
+    }
+  } else {
+    if ([...DRAFT_RECIPIENT_FIELDS, "subject"].some(field => update[field] !== undefined)) {
+      return "Reply drafts take their recipients and subject from the thread";
+    }
+    if (
+      update.replyToMessageId !== undefined &&
+      update.replyToMessageId !== null &&
+      typeof update.replyToMessageId !== "string"
+    ) {
+      return "replyToMessageId must be a string or null";
+    }
+  }
+  if (update.body !== undefined && typeof update.body !== "string") {
+    return "body must be a string";
+  }
+  return null;
+}
+
+export function applyDraftUpdate(draft: schema.Draft, update: Record<string, unknown>): void {
+  for (const field of DRAFT_RECIPIENT_FIELDS) {
+    if (update[field] !== undefined) {
+      draft[field] = normalizeRecipients(update[field]);
+    }
+  }
+  if (update.subject !== undefined) {
+    draft.subject = update.subject as string | null;
+  }
+  if (update.body !== undefined) {
+    draft.body = update.body as string;
+  }
+  if (update.replyToMessageId !== undefined) {
+    draft.replyToMessageId = update.replyToMessageId as string | null;
+  }
+  draft.updatedAt = new Date().toISOString();
+}
+
+// Holds an already-validated message for the scheduler; aliases stay unexpanded until delivery
+export function buildScheduledMessage(
+  outgoing: OutgoingMessage,
+  sendAt: string,
+  attachments: AttachmentInput[]
+): schema.ScheduledMessage {
+  const scheduled = new schema.ScheduledMessage(outgoing.groupId, outgoing.from, outgoing.kind, sendAt);
+  scheduled.to = outgoing.to;
+  scheduled.cc = outgoing.cc;
+  scheduled.bcc = outgoing.bcc;
+  scheduled.subject = outgoing.subject;
+  scheduled.body = outgoing.body;
+  scheduled.threadId = outgoing.threadId;
+  scheduled.replyToMessageId = outgoing.replyToMessageId;
+  scheduled.forwardedFrom = outgoing.forwardedFrom ?? null;
+  scheduled.attachments = attachments.map(attachment => ({
+    filename: attachment.filename,
+    mimeType: attachment.mimeType,
+    content: attachment.content.toString("base64")
+  }));
+  return scheduled;
+}
@@ -0,0 +1,119 @@
+// The group configuration saved by the setup wizard, which POST /admin/reset can also seed from
+
+import fs from "node:fs";
+import path from "node:path";
+import { AgentAddress, AgentProfile, Group, GroupId, GROUP_ID_PATTERN, AGENT_HANDLE_PATTERN } from "../schema.js";
+import { DatabaseService } from "../db/service.js";
+
+export const GROUP_CONFIG_PATH = process.env.GROUP_CONFIG_PATH ?? path.join(process.cwd(), "data", "config.json");
+
+const PROFILE_TEXT_FIELDS = ["displayName", "role", "description", "owner"] as const;
+
+export interface AgentProfileConfig {
+  agent: AgentAddress;
+  displayName?: string | null;
+  role?: string | null;
+  description?: string | null;
+  capabilities?: string[];
+  owner?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface GroupConfig {
+  id: GroupId;
+  agents: AgentAddress[];
+  profiles?: AgentProfileConfig[];
+}
+
+function isObject(raw: unknown): raw is Record<string, unknown> {
+  return typeof raw === "object" && raw !== null && !Array.isArray(raw);
+}
+
+function profileConfigError(raw: unknown, agents: AgentAddress[], groupId: GroupId): string | null {
+  if (!isObject(raw)) {
+    return `Profiles in ${groupId} must be objects`;
+  }
+  if (typeof raw.agent !== "string" || !agents.includes(raw.agent)) {
+    return `Profile for '${String(raw.agent)}' does not match an agent in ${groupId}`;
+  }
+  for (const field of PROFILE_TEXT_FIELDS) {
+    if (raw[field] !== undefined && raw[field] !== null && typeof raw[field] !== "string") {
+      return `${field} in the profile for ${raw.agent} must be a string or null`;
+    }
+  }
+  if (raw.capabilities !== undefined && !(Array.isArray(raw.capabilities) && raw.capabilities.every(c => typeof c === "string"))) {
+    return `capabilities in the profile for ${raw.agent} must be an array of strings`;
+  }
+  if (raw.metadata !== undefined && !isObject(raw.metadata)) {
+    return `metadata in the profile for ${raw.agent} must be an object`;
+  }
+  return null;
+}
+
+function groupConfigError(raw: unknown): string | null {
+  if (!isObject(raw)) {
+    return "Each group in the config must be an object";
+  }
+  if (typeof raw.id !== "string" || !GROUP_ID_PATTERN.test(raw.id)) {
+    return `Invalid group ID '${String(raw.id)}' in config`;
+  }
+  const agents = raw.agents ?? [];
+  if (!Array.isArray(agents) || !agents.every(a => typeof a === "string" && AGENT_HANDLE_PATTERN.test(a))) {
+    return `agents in ${raw.id} must be an array of valid agent handles`;
+  }
+  if (new Set(agents).size !== agents.length) {
+    return `agents in ${raw.id} contains duplicates`;
+  }
+  if (raw.profiles !== undefined) {
+    if (!Array.isArray(raw.profiles)) {
+      return `profiles in ${raw.id} must be an array`;
+    }
+    for (const profile of raw.profiles) {
+      const error = profileConfigError(profile, agents, raw.id);
+      if (error) return error;
+    }
+  }
+  return null;
+}
+
+// Accepts one group, as the wizard saves it, or an array of groups
+export function parseGroupConfigs(raw: unknown): { configs: GroupConfig[]; error?: string } {
+  const entries = Array.isArray(raw) ? raw : [raw];
+  for (const entry of entries) {
+    const error = groupConfigError(entry);
+    if (error) return { configs: [], error };
+  }
+  const configs = entries as GroupConfig[];
+  const ids = configs.map(config => config.id);
+  const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (duplicate) {
+    return { configs: [], error: `Group ${duplicate} appears more than once in the config` };
+  }
+  return { configs };
+}
+
+// Returns null when no config has been saved
+export function readGroupConfigFile(configPath = GROUP_CONFIG_PATH): unknown {
+  if (!fs.existsSync(configPath)) return null;
+  return JSON.parse(fs.readFileSync(configPath, "utf8"));
+}
+
+// Creates each group with its agents and profiles; the groups must not exist yet
+export function applyGroupConfigs(dbService: DatabaseService, configs: GroupConfig[]): Group[] {
+  return dbService.transaction(() =>
+    configs.map(config => {
+      const group = new Group(config.id, [...(config.agents ?? [])]);
+      dbService.createGroup(group);
+      for (const entry of config.profiles ?? []) {
+        const profile = new AgentProfile(config.id, entry.agent);
+        for (const field of PROFILE_TEXT_FIELDS) {
+          profile[field] = entry[field] ?? null;
+        }
+        profile.capabilities = entry.capabilities ?? [];
+        profile.metadata = entry.metadata ?? {};
+        dbService.saveAgentProfile(profile);
+      }
+      return group;
+    })
+  );
+}
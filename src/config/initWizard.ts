@@ -4,10 +4,9 @@ import fs from "node:fs";
 import { promises as fsp } from "node:fs";
 import path from "node:path";
 import readline from "node:readline";
-import { Group, GroupId, AgentAddress } from "../schema.js";
+import { Group, GroupId, AgentAddress, AgentProfile, GROUP_ID_PATTERN, AGENT_HANDLE_PATTERN } from "../schema.js";
 import { DatabaseService } from "../db/service.js";
-
-const DEFAULT_CONFIG_PATH = process.env.GROUP_CONFIG_PATH ?? path.join(process.cwd(), "data", "config.json");
+import { GROUP_CONFIG_PATH as DEFAULT_CONFIG_PATH } from "./groupConfig.js";
 const ANSI = {
   reset: "\u001b[0m",
   bold: "\u001b[1m",
@@ -83,25 +82,52 @@ async function runWizard(dbService: DatabaseService) {
     console.log(`${strong("Welcome!")} Let's set up your initial group configuration.\n`);
     console.log(muted("Tip: keep names short and memorable. Agents share a single group namespace.\n"));
 
-    const groupIdSuffix = await ask(rl, "Enter a Group ID. Think of this like a private Domain. (e.g. @Team, @Workflow, @MyAgents): @");
-    const groupId: GroupId = `@${groupIdSuffix}`;
+    let groupId: GroupId;
+    while (true) {
+        const groupIdSuffix = await ask(rl, "Enter a Group ID. Think of this like a private Domain. (e.g. @Team, @Workflow, @MyAgents): @");
+        groupId = `@${groupIdSuffix}`;
+        if (GROUP_ID_PATTERN.test(groupId)) break;
+        console.log(muted("Use letters, digits, '.', '_' or '-' only.\n"));
+    }
     const agents: AgentAddress[] = [];
+    const profiles: AgentProfile[] = [];
     while (true) {
         const agent = await ask(rl, "Add an agent handle (e.g. CEO, PM, FrontendDeveloper). Leave blank to finish: ");
         if (agent === "") break;
+        if (!AGENT_HANDLE_PATTERN.test(agent)) {
+            console.log(muted("Use letters, digits, '.', '_' or '-' only, starting with a letter or digit."));
+            continue;
+        }
+        if (agents.includes(agent)) {
+            console.log(muted(`${agent} is already in the group.`));
+            continue;
+        }
         agents.push(agent);
+
+        // Profiles tell other agents what this one does; both answers are optional
+        const role = await ask(rl, `  Role for ${agent} (optional): `);
+        const description = await ask(rl, `  What does ${agent} do? (optional): `);
+        if (role !== "" || description !== "") {
+            const profile = new AgentProfile(groupId, agent);
+            profile.role = role || null;
+            profile.description = description || null;
+            profiles.push(profile);
+        }
     }
 
     const groupConfig = new Group(groupId, agents);
 
     // Save group to database
-    dbService.createGroup(groupConfig);
+    dbService.transaction(() => {
+        dbService.createGroup(groupConfig);
+        profiles.forEach(profile => dbService.saveAgentProfile(profile));
+    });
     console.log(`\n${strong("Saved")} ${groupId} with agents: ${agents.length > 0 ? agents.join(", ") : muted("none")}`);
 
     // Also save config file as backup/reference
     const configDir = path.dirname(DEFAULT_CONFIG_PATH);
     await fsp.mkdir(configDir, { recursive: true });
-    await fsp.writeFile(DEFAULT_CONFIG_PATH, JSON.stringify(groupConfig, null, 2));
+    await fsp.writeFile(DEFAULT_CONFIG_PATH, JSON.stringify({ ...groupConfig, profiles }, null, 2));
     console.log(`${accent("✔")} Configuration saved to ${DEFAULT_CONFIG_PATH}\n`);
 
     console.log(muted("Ready. Launching SES with your new crew..."));
@@ -0,0 +1,217 @@
+// A scenario to start the sandbox from: groups, agents with profiles, aliases and existing mail. Read from
+// SEED_FILE (YAML or JSON) at startup, or posted to /admin/seed. Message times are relative to when the seed
+// is applied, so a scenario looks the same whenever it is loaded.
+
+import fs from "node:fs";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { DatabaseService } from "../db/service.js";
+import { AGENT_HANDLE_PATTERN, Alias, GROUP_ID_PATTERN, Group, Message, Thread } from "../schema.js";
+import { replySubject, resolveRecipients, validateAgents } from "../compose.js";
+import { AgentProfileConfig, applyGroupConfigs } from "./groupConfig.js";
+
+export const SEED_FILE = process.env.SEED_FILE || null;
+
+// Gap between messages that do not say when they were sent
+const DEFAULT_MESSAGE_SPACING_MS = 60 * 1000;
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  d: 24 * 60 * 60 * 1000,
+  h: 60 * 60 * 1000,
+  m: 60 * 1000,
+  s: 1000
+};
+
+// "now", an offset such as "-2d", "-1h30m" or "+10m", or an ISO 8601 timestamp; null if unparseable
+export function parseSeedTime(value: string, now: number): number | null {
+  const trimmed = value.trim();
+  if (trimmed === "now") return now;
+
+  const offset = /^([+-])((?:\d+[dhms])+)$/.exec(trimmed);
+  if (offset) {
+    let ms = 0;
+    for (const [, amount, unit] of offset[2].matchAll(/(\d+)([dhms])/g)) {
+      ms += Number(amount) * DURATION_UNITS_MS[unit];
+    }
+    return offset[1] === "-" ? now - ms : now + ms;
+  }
+
+  const absolute = Date.parse(trimmed);
+  return Number.isNaN(absolute) ? null : absolute;
+}
+
+const handleSchema = z.string().regex(AGENT_HANDLE_PATTERN, "is not a valid agent handle");
+
+const agentSchema = z.union([
+  handleSchema,
+  z.object({
+    handle: handleSchema,
+    displayName: z.string().nullable().optional(),
+    role: z.string().nullable().optional(),
+    description: z.string().nullable().optional(),
+    capabilities: z.array(z.string()).optional(),
+    owner: z.string().nullable().optional(),
+    metadata: z.record(z.unknown()).optional()
+  })
+]);
+
+const messageSchema = z.object({
+  from: handleSchema,
+  to: z.array(z.string().min(1)).min(1).optional(), // Replies default to the previous message's sender
+  cc: z.array(z.string().min(1)).default([]),
+  bcc: z.array(z.string().min(1)).default([]),
+  subject: z.string().optional(),
+  body: z.string().min(1),
+  at: z
+    .string()
+    .refine(value => parseSeedTime(value, 0) !== null, "must be 'now', an offset like -2d or -1h30m, or an ISO 8601 time")
+    .optional(),
+  readBy: z.array(handleSchema).default([])
+});
+
+const threadSchema = z.object({
+  subject: z.string(),
+  messages: z.array(messageSchema).min(1, "a thread needs at least one message")
+});
+
+const groupSchema = z
+  .object({
+    id: z.string().regex(GROUP_ID_PATTERN, "is not a valid group ID"),
+    agents: z.array(agentSchema).default([]),
+    aliases: z.record(z.array(handleSchema)).default({}),
+    threads: z.array(threadSchema).default([])
+  })
+  .superRefine((group, ctx) => {
+    const agents = group.agents.map(agent => (typeof agent === "string" ? agent : agent.handle));
+    const known = new Group(group.id, agents);
+    const issue = (path: (string | number)[], message: string) =>
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message });
+
+    if (new Set(agents).size !== agents.length) {
+      issue(["agents"], "contains duplicates");
+    }
+    for (const [name, members] of Object.entries(group.aliases)) {
+      if (agents.includes(name)) {
+        issue(["aliases", name], "has the same name as an agent");
+      }
+      const { invalidAgents } = validateAgents(members, known);
+      if (invalidAgents.length > 0) {
+        issue(["aliases", name], `${invalidAgents.join(", ")} are not agents in ${group.id}`);
+      }
+    }
+
+    const aliases = new Map(Object.entries(group.aliases).map(([name, members]) => [name, new Alias(group.id, name, members)]));
+    group.threads.forEach((thread, t) => {
+      if (thread.messages[0].to === undefined) {
+        issue(["threads", t, "messages", 0, "to"], "is required on the first message of a thread");
+      }
+      thread.messages.forEach((message, m) => {
+        const path = ["threads", t, "messages", m];
+        const to = message.to ?? (m > 0 ? [thread.messages[m - 1].from] : []);
+        const resolved = resolveRecipients({ to, cc: message.cc, bcc: message.bcc }, aliases, message.from);
+        const { invalidAgents } = validateAgents(
+          [message.from, ...resolved.to, ...resolved.cc, ...resolved.bcc, ...message.readBy],
+          known
+        );
+        if (invalidAgents.length > 0) {
+          issue(path, `${invalidAgents.join(", ")} are not agents or aliases in ${group.id}`);
+        } else if (to.length > 0 && resolved.to.length === 0) {
+          issue([...path, "to"], "is empty after expanding aliases");
+        }
+      });
+    });
+  });
+
+const seedSchema = z
+  .object({
+    groups: z.array(groupSchema).min(1, "a seed needs at least one group")
+  })
+  .superRefine((seed, ctx) => {
+    const ids = seed.groups.map(group => group.id);
+    const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+    if (duplicate) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["groups"], message: `${duplicate} appears more than once` });
+    }
+  });
+
+export type Seed = z.infer<typeof seedSchema>;
+
+export function parseSeed(raw: unknown): { seed: Seed | null; error?: string } {
+  const parsed = seedSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const location = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+    return { seed: null, error: `Invalid seed: ${location}${issue.message}` };
+  }
+  return { seed: parsed.data };
+}
+
+// YAML is a superset of JSON, so one parser reads both. Returns null when there is no such file.
+export function readSeedFile(seedPath: string): unknown {
+  if (!fs.existsSync(seedPath)) return null;
+  return parseYaml(fs.readFileSync(seedPath, "utf8"));
+}
+
+// Seeds an empty database from a seed file at startup and returns the groups created; a database that
+// already has groups is left alone. Throws if the file is missing or invalid.
+export function seedEmptyDatabase(dbService: DatabaseService, seedPath: string): Group[] {
+  if (dbService.listGroups().length > 0) return [];
+  const raw = readSeedFile(seedPath);
+  const { seed, error } = raw === null ? { seed: null, error: "file not found" } : parseSeed(raw);
+  if (!seed) {
+    throw new Error(`Could not seed from ${seedPath}: ${error}`);
+  }
+  return applySeed(dbService, seed);
+}
+
+// Creates everything in the seed; its groups must not exist yet
+export function applySeed(dbService: DatabaseService, seed: Seed, now = Date.now()): Group[] {
+  return dbService.transaction(() => {
+    const groups = applyGroupConfigs(
+      dbService,
+      seed.groups.map(group => ({
+        id: group.id,
+        agents: group.agents.map(agent => (typeof agent === "string" ? agent : agent.handle)),
+        profiles: group.agents
+          .filter(agent => typeof agent !== "string")
+          .map(({ handle, ...profile }): AgentProfileConfig => ({ agent: handle, ...profile }))
+      }))
+    );
+
+    for (const entry of seed.groups) {
+      const aliases = new Map<string, Alias>();
+      for (const [name, members] of Object.entries(entry.aliases)) {
+        const alias = new Alias(entry.id, name, members);
+        dbService.createAlias(alias);
+        aliases.set(name, alias);
+      }
+
+      for (const threadEntry of entry.threads) {
+        let sentAt = now;
+        const thread = new Thread(entry.id, threadEntry.subject, threadEntry.messages[0].from);
+        const messages = threadEntry.messages.map((item, index) => {
+          sentAt = item.at !== undefined
+            ? parseSeedTime(item.at, now)!
+            : index === 0 ? now : sentAt + DEFAULT_MESSAGE_SPACING_MS;
+          const to = item.to ?? [threadEntry.messages[index - 1].from];
+          const resolved = resolveRecipients({ to, cc: item.cc, bcc: item.bcc }, aliases, item.from);
+          const subject = item.subject ?? (index === 0 ? threadEntry.subject : replySubject(threadEntry.subject));
+
+          const message = new Message(entry.id, item.from, resolved.to, item.body, thread.threadId, subject, resolved.cc, resolved.bcc);
+          message.messageid = String(index);
+          message.createdAt = new Date(sentAt).toISOString();
+          message.aliasExpansions = resolved.aliasExpansions;
+          message.readBy = item.readBy;
+          return message;
+        });
+
+        thread.createdAt = messages[0].createdAt;
+        thread.messages = messages.map(message => message.messageid);
+        thread.lastIndex = messages[messages.length - 1].messageid;
+        dbService.importThread(thread, messages, new Map());
+      }
+    }
+
+    return groups.map(group => dbService.getGroup(group.id)!);
+  });
+}
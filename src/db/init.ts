@@ -2,6 +2,14 @@ import Database from "better-sqlite3";
 import path from "path";
 import fs from "fs";
 
+// Adds a column to an existing table when a database predates it
+function ensureColumn(db: Database.Database, table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
 export function initDatabase(dbPath?: string): Database.Database {
   const finalPath = dbPath || path.join(process.cwd(), "data", "email.db");
 
@@ -52,6 +60,11 @@ export function initDatabase(dbPath?: string): Database.Database {
       group_id TEXT NOT NULL,
       from_agent TEXT NOT NULL,
       to_agents TEXT NOT NULL,
+      cc_agents TEXT NOT NULL DEFAULT '[]',
+      bcc_agents TEXT NOT NULL DEFAULT '[]',
+      alias_expansions TEXT NOT NULL DEFAULT '[]',
+      forwarded_thread_id TEXT,
+      forwarded_message_id TEXT,
       subject TEXT,
       body TEXT NOT NULL,
       created_at TEXT NOT NULL,
@@ -61,6 +74,12 @@ export function initDatabase(dbPath?: string): Database.Database {
     )
   `);
 
+  ensureColumn(db, "messages", "cc_agents", "TEXT NOT NULL DEFAULT '[]'");
+  ensureColumn(db, "messages", "bcc_agents", "TEXT NOT NULL DEFAULT '[]'");
+  ensureColumn(db, "messages", "alias_expansions", "TEXT NOT NULL DEFAULT '[]'");
+  ensureColumn(db, "messages", "forwarded_thread_id", "TEXT");
+  ensureColumn(db, "messages", "forwarded_message_id", "TEXT");
+
   // Create indices for faster lookups
   db.exec(`
     CREATE INDEX IF NOT EXISTS idx_messages_thread_id ON messages(thread_id)
@@ -70,6 +89,263 @@ export function initDatabase(dbPath?: string): Database.Database {
     CREATE INDEX IF NOT EXISTS idx_messages_group_id ON messages(group_id)
   `);
 
+  // Create message_reads table (per-recipient read state)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS message_reads (
+      thread_id TEXT NOT NULL,
+      message_id TEXT NOT NULL,
+      agent TEXT NOT NULL,
+      read_at TEXT NOT NULL,
+      PRIMARY KEY (thread_id, message_id, agent),
+      FOREIGN KEY (thread_id, message_id) REFERENCES messages(thread_id, message_id) ON DELETE CASCADE
+    )
+  `);
+
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_message_reads_agent ON message_reads(agent)
+  `);
+
+  // Create labels table (custom labels only; built-in folders are implicit)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS labels (
+      group_id TEXT NOT NULL,
+      agent TEXT NOT NULL,
+      name TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      PRIMARY KEY (group_id, agent, name),
+      FOREIGN KEY (group_id) REFERENCES groups(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Create message_labels table (per-agent; Inbox is never stored, it is the absence of Archive and Trash)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS message_labels (
+      thread_id TEXT NOT NULL,
+      message_id TEXT NOT NULL,
+      agent TEXT NOT NULL,
+      label TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      PRIMARY KEY (thread_id, message_id, agent, label),
+      FOREIGN KEY (thread_id, message_id) REFERENCES messages(thread_id, message_id) ON DELETE CASCADE
+    )
+  `);
+
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_message_labels_agent ON message_labels(agent, label)
+  `);
+
+  // Create attachments table (content is a BLOB, or a path when stored on disk)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS attachments (
+      id TEXT PRIMARY KEY,
+      thread_id TEXT NOT NULL,
+      message_id TEXT NOT NULL,
+      filename TEXT NOT NULL,
+      mime_type TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      sha256 TEXT NOT NULL,
+      storage TEXT NOT NULL CHECK (storage IN ('blob', 'disk')),
+      content BLOB,
+      file_path TEXT,
+      created_at TEXT NOT NULL,
+      FOREIGN KEY (thread_id, message_id) REFERENCES messages(thread_id, message_id) ON DELETE CASCADE
+    )
+  `);
+
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_attachments_message ON attachments(thread_id, message_id)
+  `);
+
+  // Create aliases table (group-scoped distribution lists)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS aliases (
+      group_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      members TEXT NOT NULL DEFAULT '[]',
+      created_at TEXT NOT NULL,
+      PRIMARY KEY (group_id, name),
+      FOREIGN KEY (group_id) REFERENCES groups(id) ON DELETE CASCADE
+    )
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS agent_profiles (
+      group_id TEXT NOT NULL,
+      agent TEXT NOT NULL,
+      display_name TEXT,
+      role TEXT,
+      description TEXT,
+      capabilities TEXT NOT NULL DEFAULT '[]',
+      owner TEXT,
+      metadata TEXT NOT NULL DEFAULT '{}',
+      updated_at TEXT NOT NULL,
+      PRIMARY KEY (group_id, agent),
+      FOREIGN KEY (group_id) REFERENCES groups(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Create drafts table (thread_id is not a foreign key: a stale reply draft fails when sent)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS drafts (
+      id TEXT PRIMARY KEY,
+      group_id TEXT NOT NULL,
+      from_agent TEXT NOT NULL,
+      kind TEXT NOT NULL CHECK (kind IN ('new', 'reply', 'reply-all')),
+      to_agents TEXT NOT NULL DEFAULT '[]',
+      cc_agents TEXT NOT NULL DEFAULT '[]',
+      bcc_agents TEXT NOT NULL DEFAULT '[]',
+      subject TEXT,
+      body TEXT NOT NULL DEFAULT '',
+      thread_id TEXT,
+      reply_to_message_id TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      FOREIGN KEY (group_id) REFERENCES groups(id) ON DELETE CASCADE
+    )
+  `);
+
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_drafts_owner ON drafts(group_id, from_agent)
+  `);
+
+  // Create scheduled_messages table (mail held until send_at, then delivered by the scheduler)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS scheduled_messages (
+      id TEXT PRIMARY KEY,
+      group_id TEXT NOT NULL,
+      from_agent TEXT NOT NULL,
+      kind TEXT NOT NULL CHECK (kind IN ('new', 'reply', 'reply-all')),
+      to_agents TEXT NOT NULL DEFAULT '[]',
+      cc_agents TEXT NOT NULL DEFAULT '[]',
+      bcc_agents TEXT NOT NULL DEFAULT '[]',
+      subject TEXT,
+      body TEXT NOT NULL,
+      thread_id TEXT,
+      reply_to_message_id TEXT,
+      forwarded_thread_id TEXT,
+      forwarded_message_id TEXT,
+      attachments TEXT NOT NULL DEFAULT '[]',
+      send_at TEXT NOT NULL,
+      status TEXT NOT NULL CHECK (status IN ('pending', 'sent', 'failed')),
+      sent_thread_id TEXT,
+      sent_message_id TEXT,
+      error TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      FOREIGN KEY (group_id) REFERENCES groups(id) ON DELETE CASCADE
+    )
+  `);
+
+  ensureColumn(db, "scheduled_messages", "forwarded_thread_id", "TEXT");
+  ensureColumn(db, "scheduled_messages", "forwarded_message_id", "TEXT");
+
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_scheduled_messages_due ON scheduled_messages(status, send_at)
+  `);
+
+  // Create webhooks table (agent NULL = all recipients in the group)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS webhooks (
+      id TEXT PRIMARY KEY,
+      group_id TEXT NOT NULL,
+      agent TEXT,
+      url TEXT NOT NULL,
+      secret TEXT NOT NULL,
+      active INTEGER NOT NULL DEFAULT 1,
+      created_at TEXT NOT NULL,
+      FOREIGN KEY (group_id) REFERENCES groups(id) ON DELETE CASCADE
+    )
+  `);
+
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_webhooks_group_id ON webhooks(group_id)
+  `);
+
+  // Create webhook_deliveries table (delivery log and retry queue)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id TEXT PRIMARY KEY,
+      webhook_id TEXT NOT NULL,
+      thread_id TEXT NOT NULL,
+      message_id TEXT NOT NULL,
+      agent TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      status TEXT NOT NULL CHECK (status IN ('pending', 'succeeded', 'failed')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_status_code INTEGER,
+      last_error TEXT,
+      next_attempt_at TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      FOREIGN KEY (webhook_id) REFERENCES webhooks(id) ON DELETE CASCADE
+    )
+  `);
+
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_id ON webhook_deliveries(webhook_id)
+  `);
+
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status ON webhook_deliveries(status)
+  `);
+
+  // Create agent_tokens table (only hashes of the tokens are stored)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS agent_tokens (
+      id TEXT PRIMARY KEY,
+      group_id TEXT NOT NULL,
+      agent TEXT NOT NULL,
+      name TEXT,
+      token_hash TEXT NOT NULL UNIQUE,
+      created_at TEXT NOT NULL,
+      FOREIGN KEY (group_id) REFERENCES groups(id) ON DELETE CASCADE
+    )
+  `);
+
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_agent_tokens_group_agent ON agent_tokens(group_id, agent)
+  `);
+
+  // Create full-text index over message subjects and bodies (external content table)
+  const hasSearchIndex = db
+    .prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'messages_fts'`)
+    .get();
+
+  db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+      subject,
+      body,
+      content='messages',
+      content_rowid='id',
+      tokenize='porter unicode61'
+    )
+  `);
+
+  // Keep the index in sync with the messages table
+  db.exec(`
+    CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages BEGIN
+      INSERT INTO messages_fts(rowid, subject, body) VALUES (new.id, new.subject, new.body);
+    END
+  `);
+
+  db.exec(`
+    CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+      INSERT INTO messages_fts(messages_fts, rowid, subject, body) VALUES ('delete', old.id, old.subject, old.body);
+    END
+  `);
+
+  db.exec(`
+    CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE OF subject, body ON messages BEGIN
+      INSERT INTO messages_fts(messages_fts, rowid, subject, body) VALUES ('delete', old.id, old.subject, old.body);
+      INSERT INTO messages_fts(rowid, subject, body) VALUES (new.id, new.subject, new.body);
+    END
+  `);
+
+  // Index messages written before the search index existed
+  if (!hasSearchIndex) {
+    db.exec(`INSERT INTO messages_fts(messages_fts) VALUES ('rebuild')`);
+  }
+
   console.log(`SQLite database initialized at: ${finalPath}`);
 
   return db;
@@ -1,11 +1,395 @@
 import Database from "better-sqlite3";
-import { Group, Thread, Message, GroupId, ThreadId, AgentAddress, MessageId } from "../schema.js";
+import fs from "fs";
+import path from "path";
+import {
+  Group,
+  Thread,
+  Message,
+  MessageRef,
+  Attachment,
+  AgentProfile,
+  Alias,
+  Label,
+  BUILT_IN_LABELS,
+  LOCATION_LABELS,
+  Draft,
+  DraftKind,
+  ScheduledMessage,
+  ScheduledMessageStatus,
+  AliasExpansion,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  AgentToken,
+  GroupId,
+  ThreadId,
+  AgentAddress,
+  MessageId,
+  AttachmentId,
+  WebhookId,
+  DraftId,
+  ScheduledMessageId,
+  AgentTokenId
+} from "../schema.js";
+import { MailEvent, MailEventBus } from "../events/bus.js";
+
+export interface DatabaseServiceOptions {
+  attachmentDir?: string;              // Store attachment content on disk here instead of in the database
+  events?: MailEventBus;               // Defaults to a private bus, exposed as DatabaseService.events
+}
+
+export interface MessageSearchFilters {
+  groupId?: GroupId;
+  from?: AgentAddress;
+  to?: AgentAddress;
+  participant?: AgentAddress;          // Sent or received the message, including as bcc
+  threadId?: ThreadId;
+  since?: string;                      // ISO 8601, inclusive
+  until?: string;                      // ISO 8601, inclusive
+  limit?: number;
+}
+
+export interface MessageSearchResult {
+  message: Message;
+  subjectHighlight: string;
+  snippet: string;
+  score: number;                       // bm25 rank; lower is more relevant
+}
+
+// Position in a message listing, keyed on the messages.id autoincrement.
+// "before" pages towards older messages, "after" towards newer ones.
+export interface MessageCursor {
+  direction: "before" | "after";
+  id: number;
+}
+
+export interface MessagePageOptions {
+  limit?: number;
+  cursor?: MessageCursor;
+}
+
+export interface MessagePage {
+  messages: Message[];
+  nextCursor: MessageCursor | null;    // Continues in the listing's display order
+  prevCursor: MessageCursor | null;    // Goes back towards the start of the listing
+}
+
+export interface ThreadSummaryFilters {
+  participant?: AgentAddress;          // Sent, or was a to/cc recipient of, a message in the thread
+  since?: string;                      // ISO 8601; last activity at or after
+  agent?: AgentAddress;                // Viewing agent: adds unread counts and its own BCC participation
+  visibleTo?: AgentAddress;            // Only counts and shows messages this agent sent or received
+  limit?: number;
+}
+
+export interface ThreadSummary {
+  thread: Thread;
+  messageCount: number;
+  participants: AgentAddress[];        // In order of first appearance; BCC recipients only for the viewing agent
+  lastMessage: Message;
+  lastActivityAt: string;
+  unreadCount: number | null;          // Null unless an agent was given
+}
+
+export interface ScheduledMessageFilters {
+  from?: AgentAddress;
+  status?: ScheduledMessageStatus;
+}
+
+export interface LabelSummary {
+  name: string;
+  builtIn: boolean;
+  messageCount: number;
+  unreadCount: number;                 // Only counts mail the agent received
+}
+
+export const SEARCH_HIGHLIGHT_OPEN = "<mark>";
+export const SEARCH_HIGHLIGHT_CLOSE = "</mark>";
+
+// Quote every term so user input is never parsed as FTS5 query syntax
+function toFtsQuery(raw: string): string {
+  return raw
+    .split(/\s+/)
+    .filter(term => term !== "")
+    .map(term => `"${term.replace(/"/g, '""')}"`)
+    .join(" ");
+}
+
+// Matches messages where the bound agent is a to, cc or bcc recipient of m
+const RECIPIENT_MATCH = `? IN (
+  SELECT value FROM json_each(m.to_agents)
+  UNION ALL SELECT value FROM json_each(m.cc_agents)
+  UNION ALL SELECT value FROM json_each(m.bcc_agents)
+)`;
+
+// As RECIPIENT_MATCH, but ignoring bcc, for questions asked about someone other than the viewer
+const VISIBLE_RECIPIENT_MATCH = `? IN (
+  SELECT value FROM json_each(m.to_agents)
+  UNION ALL SELECT value FROM json_each(m.cc_agents)
+)`;
+
+// Matches messages carrying the bound agent's (first ?) label (second ?) on alias m
+const HAS_LABEL = `EXISTS (
+  SELECT 1 FROM message_labels l
+  WHERE l.thread_id = m.thread_id AND l.message_id = m.message_id AND l.agent = ? AND l.label = ?
+)`;
+
+// Inbox is not stored: it is mail the bound agent received and has not archived or trashed. Bind the agent twice.
+const IN_INBOX = `${RECIPIENT_MATCH} AND NOT EXISTS (
+  SELECT 1 FROM message_labels l
+  WHERE l.thread_id = m.thread_id AND l.message_id = m.message_id AND l.agent = ? AND l.label IN ('Archive', 'Trash')
+)`;
+
+// Matches messages the bound agent has not moved to Trash
+const NOT_TRASHED = `NOT EXISTS (
+  SELECT 1 FROM message_labels l
+  WHERE l.thread_id = m.thread_id AND l.message_id = m.message_id AND l.agent = ? AND l.label = 'Trash'
+)`;
+
+// Trashed mail only appears under Trash itself
+function labelCondition(agent: AgentAddress, label: string): { sql: string; params: string[] } {
+  if (label === "Inbox") return { sql: IN_INBOX, params: [agent, agent] };
+  if (label === "Trash") return { sql: HAS_LABEL, params: [agent, label] };
+  return { sql: `${HAS_LABEL} AND ${NOT_TRASHED}`, params: [agent, label, agent] };
+}
+
+type AttachmentRow = {
+  id: string;
+  thread_id: string;
+  message_id: string;
+  filename: string;
+  mime_type: string;
+  size: number;
+  sha256: string;
+  created_at: string;
+};
+
+type WebhookRow = {
+  id: string;
+  group_id: string;
+  agent: string | null;
+  url: string;
+  secret: string;
+  active: number;
+  created_at: string;
+};
+
+// Left as they are by a snapshot restore
+const UNRESTORED_TABLES = ["agent_tokens"];
+
+type AgentTokenRow = {
+  id: string;
+  group_id: string;
+  agent: string;
+  name: string | null;
+  token_hash: string;
+  created_at: string;
+};
+
+type WebhookDeliveryRow = {
+  id: string;
+  webhook_id: string;
+  thread_id: string;
+  message_id: string;
+  agent: string;
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  last_status_code: number | null;
+  last_error: string | null;
+  next_attempt_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type AliasRow = {
+  group_id: string;
+  name: string;
+  members: string;
+  created_at: string;
+};
+
+function aliasFromRow(row: AliasRow): Alias {
+  const alias = new Alias(row.group_id, row.name, JSON.parse(row.members));
+  alias.createdAt = row.created_at;
+  return alias;
+}
+
+type AgentProfileRow = {
+  group_id: string;
+  agent: string;
+  display_name: string | null;
+  role: string | null;
+  description: string | null;
+  capabilities: string;
+  owner: string | null;
+  metadata: string;
+  updated_at: string;
+};
+
+function agentProfileFromRow(row: AgentProfileRow): AgentProfile {
+  const profile = new AgentProfile(row.group_id, row.agent);
+  profile.displayName = row.display_name;
+  profile.role = row.role;
+  profile.description = row.description;
+  profile.capabilities = JSON.parse(row.capabilities);
+  profile.owner = row.owner;
+  profile.metadata = JSON.parse(row.metadata);
+  profile.updatedAt = row.updated_at;
+  return profile;
+}
+
+type DraftRow = {
+  id: string;
+  group_id: string;
+  from_agent: string;
+  kind: DraftKind;
+  to_agents: string;
+  cc_agents: string;
+  bcc_agents: string;
+  subject: string | null;
+  body: string;
+  thread_id: string | null;
+  reply_to_message_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+function draftFromRow(row: DraftRow): Draft {
+  const draft = new Draft(row.group_id, row.from_agent, row.kind, row.thread_id);
+  draft.id = row.id;
+  draft.to = JSON.parse(row.to_agents);
+  draft.cc = JSON.parse(row.cc_agents);
+  draft.bcc = JSON.parse(row.bcc_agents);
+  draft.subject = row.subject;
+  draft.body = row.body;
+  draft.replyToMessageId = row.reply_to_message_id;
+  draft.createdAt = row.created_at;
+  draft.updatedAt = row.updated_at;
+  return draft;
+}
+
+type ScheduledMessageRow = {
+  id: string;
+  group_id: string;
+  from_agent: string;
+  kind: DraftKind;
+  to_agents: string;
+  cc_agents: string;
+  bcc_agents: string;
+  subject: string | null;
+  body: string;
+  thread_id: string | null;
+  reply_to_message_id: string | null;
+  forwarded_thread_id: string | null;
+  forwarded_message_id: string | null;
+  attachments: string;
+  send_at: string;
+  status: ScheduledMessageStatus;
+  sent_thread_id: string | null;
+  sent_message_id: string | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+function scheduledMessageFromRow(row: ScheduledMessageRow): ScheduledMessage {
+  const scheduled = new ScheduledMessage(row.group_id, row.from_agent, row.kind, row.send_at);
+  scheduled.id = row.id;
+  scheduled.to = JSON.parse(row.to_agents);
+  scheduled.cc = JSON.parse(row.cc_agents);
+  scheduled.bcc = JSON.parse(row.bcc_agents);
+  scheduled.subject = row.subject;
+  scheduled.body = row.body;
+  scheduled.threadId = row.thread_id;
+  scheduled.replyToMessageId = row.reply_to_message_id;
+  if (row.forwarded_thread_id && row.forwarded_message_id) {
+    scheduled.forwardedFrom = { threadId: row.forwarded_thread_id, messageId: row.forwarded_message_id };
+  }
+  scheduled.attachments = JSON.parse(row.attachments);
+  scheduled.status = row.status;
+  if (row.sent_thread_id && row.sent_message_id) {
+    scheduled.sentMessage = { threadId: row.sent_thread_id, messageId: row.sent_message_id };
+  }
+  scheduled.error = row.error;
+  scheduled.createdAt = row.created_at;
+  scheduled.updatedAt = row.updated_at;
+  return scheduled;
+}
+
+function webhookFromRow(row: WebhookRow): Webhook {
+  const webhook = new Webhook(row.group_id, row.url, row.secret, row.agent);
+  webhook.id = row.id;
+  webhook.active = row.active === 1;
+  webhook.createdAt = row.created_at;
+  return webhook;
+}
+
+function agentTokenFromRow(row: AgentTokenRow): AgentToken {
+  const token = new AgentToken(row.group_id, row.agent, row.token_hash, row.name);
+  token.id = row.id;
+  token.createdAt = row.created_at;
+  return token;
+}
+
+function webhookDeliveryFromRow(row: WebhookDeliveryRow): WebhookDelivery {
+  const delivery = new WebhookDelivery(row.webhook_id, row.thread_id, row.message_id, row.agent, row.payload);
+  delivery.id = row.id;
+  delivery.status = row.status;
+  delivery.attempts = row.attempts;
+  delivery.lastStatusCode = row.last_status_code;
+  delivery.lastError = row.last_error;
+  delivery.nextAttemptAt = row.next_attempt_at;
+  delivery.createdAt = row.created_at;
+  delivery.updatedAt = row.updated_at;
+  return delivery;
+}
+
+function attachmentFromRow(row: AttachmentRow): Attachment {
+  const attachment = new Attachment(row.thread_id, row.message_id, row.filename, row.mime_type, row.size, row.sha256);
+  attachment.id = row.id;
+  attachment.createdAt = row.created_at;
+  return attachment;
+}
 
 export class DatabaseService {
+  readonly events: MailEventBus;
   private db: Database.Database;
+  private attachmentDir?: string;
+  private pendingEvents: MailEvent[] | null = null;
 
-  constructor(db: Database.Database) {
+  constructor(db: Database.Database, options: DatabaseServiceOptions = {}) {
     this.db = db;
+    this.attachmentDir = options.attachmentDir;
+    this.events = options.events ?? new MailEventBus();
+  }
+
+  // Runs fn atomically; nested calls join the outer transaction.
+  // Events raised inside are only published once the transaction commits.
+  transaction<T>(fn: () => T): T {
+    if (this.db.inTransaction) {
+      return fn();
+    }
+
+    this.pendingEvents = [];
+    try {
+      const result = this.db.transaction(fn)();
+      const events = this.pendingEvents;
+      this.pendingEvents = null;
+      events.forEach(event => this.events.publish(event));
+      return result;
+    } catch (error) {
+      this.pendingEvents = null;
+      throw error;
+    }
+  }
+
+  private emit(event: MailEvent): void {
+    if (this.pendingEvents) {
+      this.pendingEvents.push(event);
+    } else {
+      this.events.publish(event);
+    }
   }
 
   // ===== GROUP OPERATIONS =====
@@ -46,15 +430,576 @@ export class DatabaseService {
     stmt.run(JSON.stringify(group.agents), group.id);
   }
 
+  deleteGroup(groupId: GroupId): boolean {
+    const stmt = this.db.prepare(`DELETE FROM groups WHERE id = ?`);
+    return stmt.run(groupId).changes > 0;
+  }
+
+  // Moves the group and everything that references it to a new ID
+  renameGroup(groupId: GroupId, newGroupId: GroupId): void {
+    this.transaction(() => {
+      // Child rows are repointed after the parent, so check foreign keys at commit instead
+      this.db.pragma("defer_foreign_keys = ON");
+      this.db.prepare(`UPDATE groups SET id = ? WHERE id = ?`).run(newGroupId, groupId);
+      for (const table of ["threads", "messages", "aliases", "agent_profiles", "labels", "drafts", "scheduled_messages", "webhooks", "agent_tokens"]) {
+        this.db.prepare(`UPDATE ${table} SET group_id = ? WHERE group_id = ?`).run(newGroupId, groupId);
+      }
+    });
+  }
+
+  // Renames an agent in the group's roster, its profile, aliases, labels and tokens, and every message, draft, scheduled message, read receipt and webhook in the group
+  renameAgent(groupId: GroupId, agent: AgentAddress, newAgent: AgentAddress): void {
+    this.transaction(() => {
+      const group = this.getGroup(groupId);
+      if (!group) return;
+      group.agents = group.agents.map(a => (a === agent ? newAgent : a));
+      this.updateGroup(group);
+
+      this.db.prepare(`UPDATE threads SET created_by = ? WHERE group_id = ? AND created_by = ?`)
+        .run(newAgent, groupId, agent);
+      for (const table of ["messages", "drafts", "scheduled_messages"]) {
+        this.db.prepare(`UPDATE ${table} SET from_agent = ? WHERE group_id = ? AND from_agent = ?`)
+          .run(newAgent, groupId, agent);
+        for (const column of ["to_agents", "cc_agents", "bcc_agents"]) {
+          this.db.prepare(`
+            UPDATE ${table}
+            SET ${column} = (
+              SELECT json_group_array(CASE WHEN value = ? THEN ? ELSE value END) FROM json_each(${column})
+            )
+            WHERE group_id = ? AND EXISTS (SELECT 1 FROM json_each(${column}) WHERE value = ?)
+          `).run(agent, newAgent, groupId, agent);
+        }
+      }
+      this.db.prepare(`
+        UPDATE message_reads SET agent = ?
+        WHERE agent = ? AND thread_id IN (SELECT thread_id FROM threads WHERE group_id = ?)
+      `).run(newAgent, agent, groupId);
+      this.db.prepare(`UPDATE agent_profiles SET agent = ? WHERE group_id = ? AND agent = ?`)
+        .run(newAgent, groupId, agent);
+      this.db.prepare(`UPDATE labels SET agent = ? WHERE group_id = ? AND agent = ?`)
+        .run(newAgent, groupId, agent);
+      this.db.prepare(`
+        UPDATE message_labels SET agent = ?
+        WHERE agent = ? AND thread_id IN (SELECT thread_id FROM threads WHERE group_id = ?)
+      `).run(newAgent, agent, groupId);
+      this.db.prepare(`
+        UPDATE aliases
+        SET members = (SELECT json_group_array(CASE WHEN value = ? THEN ? ELSE value END) FROM json_each(members))
+        WHERE group_id = ? AND EXISTS (SELECT 1 FROM json_each(members) WHERE value = ?)
+      `).run(agent, newAgent, groupId, agent);
+      this.renameAgentInAliasExpansions(groupId, agent, newAgent);
+      this.db.prepare(`UPDATE webhooks SET agent = ? WHERE group_id = ? AND agent = ?`)
+        .run(newAgent, groupId, agent);
+      this.db.prepare(`
+        UPDATE webhook_deliveries SET agent = ?
+        WHERE agent = ? AND webhook_id IN (SELECT id FROM webhooks WHERE group_id = ?)
+      `).run(newAgent, agent, groupId);
+      this.db.prepare(`UPDATE agent_tokens SET agent = ? WHERE group_id = ? AND agent = ?`)
+        .run(newAgent, groupId, agent);
+    });
+  }
+
+  // Removes the agent from the roster and its aliases; its existing mail is kept but its profile, labels, drafts, pending scheduled mail, webhooks and tokens are dropped
+  removeAgent(groupId: GroupId, agent: AgentAddress): void {
+    this.transaction(() => {
+      const group = this.getGroup(groupId);
+      if (!group) return;
+      group.agents = group.agents.filter(a => a !== agent);
+      this.updateGroup(group);
+      this.db.prepare(`DELETE FROM agent_profiles WHERE group_id = ? AND agent = ?`).run(groupId, agent);
+      this.db.prepare(`DELETE FROM labels WHERE group_id = ? AND agent = ?`).run(groupId, agent);
+      this.db.prepare(`
+        DELETE FROM message_labels
+        WHERE agent = ? AND thread_id IN (SELECT thread_id FROM threads WHERE group_id = ?)
+      `).run(agent, groupId);
+      this.db.prepare(`
+        UPDATE aliases
+        SET members = (SELECT json_group_array(value) FROM json_each(members) WHERE value != ?)
+        WHERE group_id = ? AND EXISTS (SELECT 1 FROM json_each(members) WHERE value = ?)
+      `).run(agent, groupId, agent);
+      this.db.prepare(`DELETE FROM drafts WHERE group_id = ? AND from_agent = ?`).run(groupId, agent);
+      this.db.prepare(`DELETE FROM scheduled_messages WHERE group_id = ? AND from_agent = ? AND status = 'pending'`)
+        .run(groupId, agent);
+      this.db.prepare(`DELETE FROM webhooks WHERE group_id = ? AND agent = ?`).run(groupId, agent);
+      this.db.prepare(`DELETE FROM agent_tokens WHERE group_id = ? AND agent = ?`).run(groupId, agent);
+    });
+  }
+
+  private renameAgentInAliasExpansions(groupId: GroupId, agent: AgentAddress, newAgent: AgentAddress): void {
+    const rows = this.db.prepare(`
+      SELECT id, alias_expansions FROM messages WHERE group_id = ? AND alias_expansions != '[]'
+    `).all(groupId) as { id: number; alias_expansions: string }[];
+    const update = this.db.prepare(`UPDATE messages SET alias_expansions = ? WHERE id = ?`);
+    for (const row of rows) {
+      const expansions = JSON.parse(row.alias_expansions) as AliasExpansion[];
+      if (!expansions.some(e => e.members.includes(agent))) continue;
+      const renamed = expansions.map(e => ({ ...e, members: e.members.map(m => (m === agent ? newAgent : m)) }));
+      update.run(JSON.stringify(renamed), row.id);
+    }
+  }
+
   listGroups(): Group[] {
     const stmt = this.db.prepare(`SELECT id FROM groups`);
     const rows = stmt.all() as { id: string }[];
     return rows.map(row => this.getGroup(row.id)).filter(g => g !== null) as Group[];
   }
 
+  // ===== ALIAS OPERATIONS =====
+
+  createAlias(alias: Alias): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO aliases (group_id, name, members, created_at)
+      VALUES (?, ?, ?, ?)
+    `);
+    stmt.run(alias.groupId, alias.name, JSON.stringify(alias.members), alias.createdAt);
+  }
+
+  getAlias(groupId: GroupId, name: string): Alias | null {
+    const stmt = this.db.prepare(`SELECT * FROM aliases WHERE group_id = ? AND name = ?`);
+    const row = stmt.get(groupId, name) as AliasRow | undefined;
+    return row ? aliasFromRow(row) : null;
+  }
+
+  listAliases(groupId: GroupId): Alias[] {
+    const stmt = this.db.prepare(`SELECT * FROM aliases WHERE group_id = ? ORDER BY name ASC`);
+    return (stmt.all(groupId) as AliasRow[]).map(aliasFromRow);
+  }
+
+  updateAliasMembers(groupId: GroupId, name: string, members: AgentAddress[]): boolean {
+    const stmt = this.db.prepare(`UPDATE aliases SET members = ? WHERE group_id = ? AND name = ?`);
+    return stmt.run(JSON.stringify(members), groupId, name).changes > 0;
+  }
+
+  deleteAlias(groupId: GroupId, name: string): boolean {
+    const stmt = this.db.prepare(`DELETE FROM aliases WHERE group_id = ? AND name = ?`);
+    return stmt.run(groupId, name).changes > 0;
+  }
+
+  // ===== AGENT PROFILE OPERATIONS =====
+
+  saveAgentProfile(profile: AgentProfile): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO agent_profiles (group_id, agent, display_name, role, description, capabilities, owner, metadata, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (group_id, agent) DO UPDATE SET
+        display_name = excluded.display_name,
+        role = excluded.role,
+        description = excluded.description,
+        capabilities = excluded.capabilities,
+        owner = excluded.owner,
+        metadata = excluded.metadata,
+        updated_at = excluded.updated_at
+    `);
+    stmt.run(
+      profile.groupId,
+      profile.agent,
+      profile.displayName,
+      profile.role,
+      profile.description,
+      JSON.stringify(profile.capabilities),
+      profile.owner,
+      JSON.stringify(profile.metadata),
+      profile.updatedAt
+    );
+  }
+
+  getAgentProfile(groupId: GroupId, agent: AgentAddress): AgentProfile | null {
+    const stmt = this.db.prepare(`SELECT * FROM agent_profiles WHERE group_id = ? AND agent = ?`);
+    const row = stmt.get(groupId, agent) as AgentProfileRow | undefined;
+    return row ? agentProfileFromRow(row) : null;
+  }
+
+  listAgentProfiles(groupId: GroupId): AgentProfile[] {
+    const stmt = this.db.prepare(`SELECT * FROM agent_profiles WHERE group_id = ? ORDER BY agent ASC`);
+    return (stmt.all(groupId) as AgentProfileRow[]).map(agentProfileFromRow);
+  }
+
+  // ===== LABEL OPERATIONS =====
+
+  createLabel(label: Label): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO labels (group_id, agent, name, created_at)
+      VALUES (?, ?, ?, ?)
+    `);
+    stmt.run(label.groupId, label.agent, label.name, label.createdAt);
+  }
+
+  getLabel(groupId: GroupId, agent: AgentAddress, name: string): Label | null {
+    const row = this.db.prepare(`SELECT * FROM labels WHERE group_id = ? AND agent = ? AND name = ?`)
+      .get(groupId, agent, name) as { group_id: string; agent: string; name: string; created_at: string } | undefined;
+    if (!row) return null;
+    const label = new Label(row.group_id, row.agent, row.name);
+    label.createdAt = row.created_at;
+    return label;
+  }
+
+  // Removes a custom label and takes it off every message it was applied to
+  deleteLabel(groupId: GroupId, agent: AgentAddress, name: string): boolean {
+    return this.transaction(() => {
+      this.db.prepare(`
+        DELETE FROM message_labels
+        WHERE agent = ? AND label = ? AND thread_id IN (SELECT thread_id FROM threads WHERE group_id = ?)
+      `).run(agent, name, groupId);
+      const stmt = this.db.prepare(`DELETE FROM labels WHERE group_id = ? AND agent = ? AND name = ?`);
+      return stmt.run(groupId, agent, name).changes > 0;
+    });
+  }
+
+  // Built-in folders first, then the agent's own labels by name, each with message and unread counts
+  listLabelSummaries(groupId: GroupId, agent: AgentAddress): LabelSummary[] {
+    const custom = this.db.prepare(`SELECT name FROM labels WHERE group_id = ? AND agent = ? ORDER BY name ASC`)
+      .all(groupId, agent) as { name: string }[];
+    const names = [
+      ...BUILT_IN_LABELS.map(name => ({ name: name as string, builtIn: true })),
+      ...custom.map(row => ({ name: row.name, builtIn: false }))
+    ];
+    return names.map(({ name, builtIn }) => {
+      const condition = labelCondition(agent, name);
+      const row = this.db.prepare(`
+        SELECT
+          COUNT(*) AS message_count,
+          SUM(CASE WHEN ${RECIPIENT_MATCH} AND NOT EXISTS (
+            SELECT 1 FROM message_reads r
+            WHERE r.thread_id = m.thread_id AND r.message_id = m.message_id AND r.agent = ?
+          ) THEN 1 ELSE 0 END) AS unread_count
+        FROM messages m
+        WHERE m.group_id = ? AND ${condition.sql}
+      `).get(agent, agent, groupId, ...condition.params) as { message_count: number; unread_count: number | null };
+      return { name, builtIn, messageCount: row.message_count, unreadCount: row.unread_count ?? 0 };
+    });
+  }
+
+  // The agent's labels on one message, including Inbox when it is there
+  getMessageLabels(threadId: ThreadId, messageId: MessageId, agent: AgentAddress): string[] {
+    const rows = this.db.prepare(`
+      SELECT label FROM message_labels
+      WHERE thread_id = ? AND message_id = ? AND agent = ?
+      ORDER BY created_at ASC, label ASC
+    `).all(threadId, messageId, agent) as { label: string }[];
+    const labels = rows.map(row => row.label);
+    const inInbox = this.db.prepare(`
+      SELECT 1 FROM messages m WHERE m.thread_id = ? AND m.message_id = ? AND ${IN_INBOX}
+    `).get(threadId, messageId, agent, agent);
+    return inInbox ? ["Inbox", ...labels] : labels;
+  }
+
+  // Location labels replace one another: adding Archive moves a message out of Inbox or Trash, removing Inbox
+  // archives it, and removing Archive or Trash returns it to Inbox. Other labels are added and removed as given.
+  updateMessageLabels(
+    threadId: ThreadId,
+    messageIds: MessageId[],
+    agent: AgentAddress,
+    changes: { add?: string[]; remove?: string[] }
+  ): void {
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO message_labels (thread_id, message_id, agent, label, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    const drop = this.db.prepare(`
+      DELETE FROM message_labels WHERE thread_id = ? AND message_id = ? AND agent = ? AND label = ?
+    `);
+    const now = new Date().toISOString();
+
+    this.transaction(() => {
+      for (const messageId of messageIds) {
+        for (const label of changes.remove ?? []) {
+          if (label === "Inbox") {
+            insert.run(threadId, messageId, agent, "Archive", now);
+          } else {
+            drop.run(threadId, messageId, agent, label);
+          }
+        }
+        for (const label of changes.add ?? []) {
+          if ((LOCATION_LABELS as readonly string[]).includes(label)) {
+            drop.run(threadId, messageId, agent, "Archive");
+            drop.run(threadId, messageId, agent, "Trash");
+            if (label === "Inbox") continue;
+          }
+          insert.run(threadId, messageId, agent, label, now);
+        }
+      }
+    });
+  }
+
+  // Messages in the thread the agent sent or received, oldest first
+  listThreadMessageIdsForParticipant(threadId: ThreadId, agent: AgentAddress): MessageId[] {
+    const stmt = this.db.prepare(`
+      SELECT m.message_id
+      FROM messages m
+      WHERE m.thread_id = ? AND (m.from_agent = ? OR ${RECIPIENT_MATCH})
+      ORDER BY m.id ASC
+    `);
+    const rows = stmt.all(threadId, agent, agent) as { message_id: string }[];
+    return rows.map(r => r.message_id);
+  }
+
+  // ===== DELETION =====
+
+  // Permanently removes a message with its read state, labels and attachments. The thread keeps its
+  // last_index, so later messages never reuse the deleted ID; a thread left with no messages is removed.
+  deleteMessage(threadId: ThreadId, messageId: MessageId): boolean {
+    return this.transaction(() => {
+      const thread = this.getThread(threadId);
+      if (!thread || !thread.messages.includes(messageId)) return false;
+
+      const participants = this.listMessageParticipants(threadId, [messageId]);
+      this.db.prepare(`DELETE FROM messages WHERE thread_id = ? AND message_id = ?`).run(threadId, messageId);
+      const threadDeleted = thread.messages.length === 1;
+      if (threadDeleted) {
+        this.db.prepare(`DELETE FROM threads WHERE thread_id = ?`).run(threadId);
+      }
+
+      this.emit({ type: "message.deleted", groupId: thread.groupId, threadId, messageIds: [messageId], participants, threadDeleted });
+      return true;
+    });
+  }
+
+  // Permanently removes a thread; its messages and everything attached to them cascade
+  deleteThread(threadId: ThreadId): boolean {
+    return this.transaction(() => {
+      const thread = this.getThread(threadId);
+      if (!thread) return false;
+
+      const participants = this.listMessageParticipants(threadId, thread.messages);
+      this.db.prepare(`DELETE FROM threads WHERE thread_id = ?`).run(threadId);
+
+      this.emit({
+        type: "message.deleted",
+        groupId: thread.groupId,
+        threadId,
+        messageIds: thread.messages,
+        participants,
+        threadDeleted: true
+      });
+      return true;
+    });
+  }
+
+  // Messages that every agent still in the group that sent or received them had moved to Trash by the cutoff
+  listPurgeableMessages(cutoff: string): MessageRef[] {
+    const rows = this.db.prepare(`
+      SELECT m.thread_id, m.message_id, m.group_id, m.from_agent, m.to_agents, m.cc_agents, m.bcc_agents
+      FROM messages m
+      WHERE EXISTS (
+        SELECT 1 FROM message_labels l
+        WHERE l.thread_id = m.thread_id AND l.message_id = m.message_id AND l.label = 'Trash' AND l.created_at <= ?
+      )
+      ORDER BY m.id ASC
+    `).all(cutoff) as {
+      thread_id: string;
+      message_id: string;
+      group_id: string;
+      from_agent: string;
+      to_agents: string;
+      cc_agents: string;
+      bcc_agents: string;
+    }[];
+    const trashedStmt = this.db.prepare(`
+      SELECT agent FROM message_labels
+      WHERE thread_id = ? AND message_id = ? AND label = 'Trash' AND created_at <= ?
+    `);
+
+    const rosters = new Map<GroupId, AgentAddress[]>();
+    return rows
+      .filter(row => {
+        if (!rosters.has(row.group_id)) {
+          rosters.set(row.group_id, this.getGroup(row.group_id)?.agents ?? []);
+        }
+        const roster = rosters.get(row.group_id)!;
+        const participants = [row.from_agent, ...JSON.parse(row.to_agents), ...JSON.parse(row.cc_agents), ...JSON.parse(row.bcc_agents)]
+          .filter(agent => roster.includes(agent));
+        const trashed = new Set(
+          (trashedStmt.all(row.thread_id, row.message_id, cutoff) as { agent: string }[]).map(r => r.agent)
+        );
+        return participants.every(agent => trashed.has(agent));
+      })
+      .map(row => ({ threadId: row.thread_id, messageId: row.message_id }));
+  }
+
+  private listMessageParticipants(threadId: ThreadId, messageIds: MessageId[]): AgentAddress[] {
+    const participants = new Set<AgentAddress>();
+    for (const messageId of messageIds) {
+      const message = this.getMessage(threadId, messageId);
+      if (!message) continue;
+      participants.add(message.from);
+      message.recipients().forEach(agent => participants.add(agent));
+    }
+    return [...participants];
+  }
+
+  // ===== DRAFT OPERATIONS =====
+
+  saveDraft(draft: Draft): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO drafts (id, group_id, from_agent, kind, to_agents, cc_agents, bcc_agents, subject, body, thread_id, reply_to_message_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET
+        to_agents = excluded.to_agents,
+        cc_agents = excluded.cc_agents,
+        bcc_agents = excluded.bcc_agents,
+        subject = excluded.subject,
+        body = excluded.body,
+        reply_to_message_id = excluded.reply_to_message_id,
+        updated_at = excluded.updated_at
+    `);
+    stmt.run(
+      draft.id,
+      draft.groupId,
+      draft.from,
+      draft.kind,
+      JSON.stringify(draft.to),
+      JSON.stringify(draft.cc),
+      JSON.stringify(draft.bcc),
+      draft.subject,
+      draft.body,
+      draft.threadId,
+      draft.replyToMessageId,
+      draft.createdAt,
+      draft.updatedAt
+    );
+  }
+
+  getDraft(draftId: DraftId): Draft | null {
+    const stmt = this.db.prepare(`SELECT * FROM drafts WHERE id = ?`);
+    const row = stmt.get(draftId) as DraftRow | undefined;
+    return row ? draftFromRow(row) : null;
+  }
+
+  // Most recently edited first
+  listDrafts(groupId: GroupId, agent: AgentAddress): Draft[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM drafts WHERE group_id = ? AND from_agent = ? ORDER BY updated_at DESC, rowid DESC
+    `);
+    return (stmt.all(groupId, agent) as DraftRow[]).map(draftFromRow);
+  }
+
+  deleteDraft(draftId: DraftId): boolean {
+    const stmt = this.db.prepare(`DELETE FROM drafts WHERE id = ?`);
+    return stmt.run(draftId).changes > 0;
+  }
+
+  // ===== SCHEDULED MESSAGE OPERATIONS =====
+
+  createScheduledMessage(scheduled: ScheduledMessage): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO scheduled_messages (
+        id, group_id, from_agent, kind, to_agents, cc_agents, bcc_agents, subject, body, thread_id,
+        reply_to_message_id, forwarded_thread_id, forwarded_message_id, attachments, send_at, status,
+        sent_thread_id, sent_message_id, error, created_at, updated_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      scheduled.id,
+      scheduled.groupId,
+      scheduled.from,
+      scheduled.kind,
+      JSON.stringify(scheduled.to),
+      JSON.stringify(scheduled.cc),
+      JSON.stringify(scheduled.bcc),
+      scheduled.subject,
+      scheduled.body,
+      scheduled.threadId,
+      scheduled.replyToMessageId,
+      scheduled.forwardedFrom?.threadId ?? null,
+      scheduled.forwardedFrom?.messageId ?? null,
+      JSON.stringify(scheduled.attachments),
+      scheduled.sendAt,
+      scheduled.status,
+      scheduled.sentMessage?.threadId ?? null,
+      scheduled.sentMessage?.messageId ?? null,
+      scheduled.error,
+      scheduled.createdAt,
+      scheduled.updatedAt
+    );
+    this.emit({ type: "message.scheduled", groupId: scheduled.groupId, scheduled });
+  }
+
+  getScheduledMessage(scheduledId: ScheduledMessageId): ScheduledMessage | null {
+    const stmt = this.db.prepare(`SELECT * FROM scheduled_messages WHERE id = ?`);
+    const row = stmt.get(scheduledId) as ScheduledMessageRow | undefined;
+    return row ? scheduledMessageFromRow(row) : null;
+  }
+
+  // Soonest first
+  listScheduledMessages(groupId: GroupId, filters: ScheduledMessageFilters = {}): ScheduledMessage[] {
+    const conditions = ["group_id = ?"];
+    const params: string[] = [groupId];
+    if (filters.from) {
+      conditions.push("from_agent = ?");
+      params.push(filters.from);
+    }
+    if (filters.status) {
+      conditions.push("status = ?");
+      params.push(filters.status);
+    }
+    const stmt = this.db.prepare(`
+      SELECT * FROM scheduled_messages WHERE ${conditions.join(" AND ")} ORDER BY send_at ASC, rowid ASC
+    `);
+    return (stmt.all(...params) as ScheduledMessageRow[]).map(scheduledMessageFromRow);
+  }
+
+  // Pending messages whose send time is at or before the given ISO 8601 timestamp, soonest first
+  listDueScheduledMessages(now: string): ScheduledMessage[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM scheduled_messages WHERE status = 'pending' AND send_at <= ? ORDER BY send_at ASC, rowid ASC
+    `);
+    return (stmt.all(now) as ScheduledMessageRow[]).map(scheduledMessageFromRow);
+  }
+
+  // Send time of the soonest pending message, or null when nothing is waiting
+  getNextScheduledSendAt(): string | null {
+    const row = this.db.prepare(`
+      SELECT MIN(send_at) AS send_at FROM scheduled_messages WHERE status = 'pending'
+    `).get() as { send_at: string | null };
+    return row.send_at;
+  }
+
+  // Records the outcome of a delivery attempt
+  updateScheduledMessageStatus(scheduled: ScheduledMessage): void {
+    const stmt = this.db.prepare(`
+      UPDATE scheduled_messages
+      SET status = ?, sent_thread_id = ?, sent_message_id = ?, error = ?, updated_at = ?
+      WHERE id = ?
+    `);
+    stmt.run(
+      scheduled.status,
+      scheduled.sentMessage?.threadId ?? null,
+      scheduled.sentMessage?.messageId ?? null,
+      scheduled.error,
+      scheduled.updatedAt,
+      scheduled.id
+    );
+  }
+
+  deleteScheduledMessage(scheduledId: ScheduledMessageId): boolean {
+    const stmt = this.db.prepare(`DELETE FROM scheduled_messages WHERE id = ?`);
+    return stmt.run(scheduledId).changes > 0;
+  }
+
   // ===== THREAD OPERATIONS =====
 
   createThread(thread: Thread): void {
+    this.insertThread(thread);
+    this.emit({ type: "thread.created", groupId: thread.groupId, thread });
+  }
+
+  // Writes a thread and its messages as they were exported: IDs, timestamps, read state and attachments
+  // are kept, and no events are raised, since this is existing mail rather than new mail being delivered
+  importThread(thread: Thread, messages: Message[], attachmentContent: Map<AttachmentId, Buffer>): void {
+    this.transaction(() => {
+      this.insertThread(thread);
+      for (const message of messages) {
+        this.insertMessage(message);
+        message.readBy.forEach(agent => this.insertRead(thread.threadId, message.messageid, agent));
+        for (const attachment of message.attachments) {
+          this.createAttachment(attachment, attachmentContent.get(attachment.id) ?? Buffer.alloc(0));
+        }
+      }
+    });
+  }
+
+  private insertThread(thread: Thread): void {
     const stmt = this.db.prepare(`
       INSERT INTO threads (thread_id, group_id, subject, created_at, created_by, last_index)
       VALUES (?, ?, ?, ?, ?, ?)
@@ -116,12 +1061,123 @@ export class DatabaseService {
     return rows.map(row => this.getThread(row.thread_id)).filter(t => t !== null) as Thread[];
   }
 
+  // Most recently active first
+  listThreadSummaries(groupId: GroupId, filters: ThreadSummaryFilters = {}): ThreadSummary[] {
+    const conditions = ["t.group_id = ?"];
+    const params: unknown[] = [groupId];
+
+    if (filters.participant) {
+      // An agent's own BCC copies count towards its participation, but nobody else's do
+      const recipientMatch = filters.participant === filters.agent ? RECIPIENT_MATCH : VISIBLE_RECIPIENT_MATCH;
+      conditions.push(`EXISTS (
+        SELECT 1 FROM messages m
+        WHERE m.thread_id = t.thread_id AND (m.from_agent = ? OR ${recipientMatch})
+      )`);
+      params.push(filters.participant, filters.participant);
+    }
+
+    if (filters.visibleTo) {
+      conditions.push(`(m.from_agent = ? OR ${RECIPIENT_MATCH})`);
+      params.push(filters.visibleTo, filters.visibleTo);
+    }
+
+    let query = `SELECT t.thread_id, COUNT(m.id) AS message_count, MAX(m.created_at) AS last_activity, MAX(m.id) AS last_id
+      FROM threads t
+      JOIN messages m ON m.thread_id = t.thread_id
+      WHERE ${conditions.join(" AND ")}
+      GROUP BY t.thread_id`;
+    if (filters.since) {
+      query += " HAVING MAX(m.created_at) >= ?";
+      params.push(filters.since);
+    }
+    query += " ORDER BY last_id DESC";
+    if (typeof filters.limit === "number" && filters.limit > 0) {
+      query += " LIMIT ?";
+      params.push(filters.limit);
+    }
+
+    const rows = this.db.prepare(query).all(...params) as {
+      thread_id: string;
+      message_count: number;
+      last_activity: string;
+      last_id: number;
+    }[];
+
+    const lastMessageStmt = this.db.prepare(`SELECT message_id FROM messages WHERE id = ?`);
+    const summaries: ThreadSummary[] = [];
+    for (const row of rows) {
+      const thread = this.getThread(row.thread_id);
+      const last = lastMessageStmt.get(row.last_id) as { message_id: string } | undefined;
+      const lastMessage = last ? this.getMessage(row.thread_id, last.message_id) : null;
+      if (!thread || !lastMessage) continue;
+
+      summaries.push({
+        thread,
+        messageCount: row.message_count,
+        participants: this.listThreadParticipants(row.thread_id, filters.agent, filters.visibleTo),
+        lastMessage,
+        lastActivityAt: row.last_activity,
+        unreadCount: filters.agent ? this.countUnreadInThread(row.thread_id, filters.agent) : null
+      });
+    }
+    return summaries;
+  }
+
+  private listThreadParticipants(threadId: ThreadId, viewer?: AgentAddress, visibleTo?: AgentAddress): AgentAddress[] {
+    const rows = (visibleTo
+      ? this.db.prepare(`
+        SELECT from_agent, to_agents, cc_agents, bcc_agents FROM messages m
+        WHERE thread_id = ? AND (m.from_agent = ? OR ${RECIPIENT_MATCH}) ORDER BY id ASC
+      `).all(threadId, visibleTo, visibleTo)
+      : this.db.prepare(`
+        SELECT from_agent, to_agents, cc_agents, bcc_agents FROM messages WHERE thread_id = ? ORDER BY id ASC
+      `).all(threadId)) as { from_agent: string; to_agents: string; cc_agents: string; bcc_agents: string }[];
+
+    const participants = new Set<AgentAddress>();
+    for (const row of rows) {
+      participants.add(row.from_agent);
+      for (const agent of [...JSON.parse(row.to_agents), ...JSON.parse(row.cc_agents)]) {
+        participants.add(agent);
+      }
+      if (viewer && JSON.parse(row.bcc_agents).includes(viewer)) {
+        participants.add(viewer);
+      }
+    }
+    return [...participants];
+  }
+
+  private countUnreadInThread(threadId: ThreadId, agent: AgentAddress): number {
+    const row = this.db.prepare(`
+      SELECT COUNT(*) AS count FROM messages m
+      WHERE m.thread_id = ? AND ${RECIPIENT_MATCH} AND ${NOT_TRASHED}
+        AND NOT EXISTS (
+          SELECT 1 FROM message_reads r
+          WHERE r.thread_id = m.thread_id AND r.message_id = m.message_id AND r.agent = ?
+        )
+    `).get(threadId, agent, agent, agent) as { count: number };
+    return row.count;
+  }
+
   // ===== MESSAGE OPERATIONS =====
 
   createMessage(message: Message): void {
+    this.insertMessage(message);
+
+    // Update thread's last_index
+    if (message.threadId) {
+      this.updateThreadLastIndex(message.threadId, message.messageid);
+    }
+
+    this.emit({ type: "message.created", groupId: message.groupId, message });
+  }
+
+  private insertMessage(message: Message): void {
     const stmt = this.db.prepare(`
-      INSERT INTO messages (message_id, thread_id, group_id, from_agent, to_agents, subject, body, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO messages (
+        message_id, thread_id, group_id, from_agent, to_agents, cc_agents, bcc_agents, alias_expansions,
+        forwarded_thread_id, forwarded_message_id, subject, body, created_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     stmt.run(
       message.messageid,
@@ -129,20 +1185,21 @@ export class DatabaseService {
       message.groupId,
       message.from,
       JSON.stringify(message.to),
+      JSON.stringify(message.cc),
+      JSON.stringify(message.bcc),
+      JSON.stringify(message.aliasExpansions),
+      message.forwardedFrom?.threadId ?? null,
+      message.forwardedFrom?.messageId ?? null,
       message.subject || "",
       message.body,
       message.createdAt
     );
-
-    // Update thread's last_index
-    if (message.threadId) {
-      this.updateThreadLastIndex(message.threadId, message.messageid);
-    }
   }
 
   getMessage(threadId: ThreadId, messageId: MessageId): Message | null {
     const stmt = this.db.prepare(`
-      SELECT message_id, thread_id, group_id, from_agent, to_agents, subject, body, created_at
+      SELECT message_id, thread_id, group_id, from_agent, to_agents, cc_agents, bcc_agents, alias_expansions,
+        forwarded_thread_id, forwarded_message_id, subject, body, created_at
       FROM messages
       WHERE thread_id = ? AND message_id = ?
     `);
@@ -152,6 +1209,11 @@ export class DatabaseService {
       group_id: string;
       from_agent: string;
       to_agents: string;
+      cc_agents: string;
+      bcc_agents: string;
+      alias_expansions: string;
+      forwarded_thread_id: string | null;
+      forwarded_message_id: string | null;
       subject: string;
       body: string;
       created_at: string;
@@ -165,10 +1227,23 @@ export class DatabaseService {
       JSON.parse(row.to_agents),
       row.body,
       row.thread_id,
-      row.subject || undefined
+      row.subject || undefined,
+      JSON.parse(row.cc_agents),
+      JSON.parse(row.bcc_agents)
     );
     message.messageid = row.message_id;
     message.createdAt = row.created_at;
+    message.aliasExpansions = JSON.parse(row.alias_expansions);
+    if (row.forwarded_thread_id && row.forwarded_message_id) {
+      message.forwardedFrom = { threadId: row.forwarded_thread_id, messageId: row.forwarded_message_id };
+    }
+
+    const readsStmt = this.db.prepare(`
+      SELECT agent FROM message_reads WHERE thread_id = ? AND message_id = ? ORDER BY read_at ASC
+    `);
+    const readRows = readsStmt.all(threadId, messageId) as { agent: string }[];
+    message.readBy = readRows.map(r => r.agent);
+    message.attachments = this.listAttachmentsForMessage(threadId, messageId);
 
     return message;
   }
@@ -182,18 +1257,31 @@ export class DatabaseService {
   }
 
   listMessagesByGroup(groupId: GroupId, limit?: number): Message[] {
-    const baseQuery = `
-      SELECT thread_id, message_id FROM messages WHERE group_id = ? ORDER BY id DESC
-    `;
-    const stmt = typeof limit === "number" && limit > 0
-      ? this.db.prepare(`${baseQuery} LIMIT ?`)
-      : this.db.prepare(baseQuery);
-    const rows = (typeof limit === "number" && limit > 0
-      ? stmt.all(groupId, limit)
-      : stmt.all(groupId)) as { thread_id: string; message_id: string }[];
-    return rows
-      .map(row => this.getMessage(row.thread_id, row.message_id))
-      .filter(m => m !== null) as Message[];
+    return this.pageMessagesByGroup(groupId, { limit }).messages;
+  }
+
+  // Newest first
+  pageMessagesByGroup(groupId: GroupId, page: MessagePageOptions = {}): MessagePage {
+    return this.pageMessages(["m.group_id = ?"], [groupId], "desc", page);
+  }
+
+  // Oldest first, in reading order. hideTrashedFor leaves out what that agent has deleted; visibleTo leaves
+  // out messages that agent neither sent nor received.
+  pageMessagesByThread(
+    threadId: ThreadId,
+    page: MessagePageOptions & { hideTrashedFor?: AgentAddress; visibleTo?: AgentAddress } = {}
+  ): MessagePage {
+    const conditions = ["m.thread_id = ?"];
+    const params: unknown[] = [threadId];
+    if (page.hideTrashedFor) {
+      conditions.push(NOT_TRASHED);
+      params.push(page.hideTrashedFor);
+    }
+    if (page.visibleTo) {
+      conditions.push(`(m.from_agent = ? OR ${RECIPIENT_MATCH})`);
+      params.push(page.visibleTo, page.visibleTo);
+    }
+    return this.pageMessages(conditions, params, "asc", page);
   }
 
   findMessagesById(messageId: MessageId, groupId?: GroupId): Message[] {
@@ -237,28 +1325,551 @@ export class DatabaseService {
       .filter(m => m !== null) as Message[];
   }
 
-  listMessagesForAgent(agent: AgentAddress, groupId?: GroupId, limit?: number): Message[] {
-    const hasLimit = typeof limit === "number" && limit > 0;
+  listMessagesForAgent(
+    agent: AgentAddress,
+    groupId?: GroupId,
+    limit?: number,
+    options: { unreadOnly?: boolean } = {}
+  ): Message[] {
+    return this.pageMessagesForAgent(agent, groupId, { ...options, limit }).messages;
+  }
 
-    // Use JSON_EACH to search within the to_agents JSON array
-    const query = groupId
-      ? `SELECT DISTINCT m.thread_id, m.message_id
-         FROM messages m, json_each(m.to_agents)
-         WHERE m.group_id = ? AND json_each.value = ?
-         ORDER BY m.id DESC${hasLimit ? " LIMIT ?" : ""}`
-      : `SELECT DISTINCT m.thread_id, m.message_id
-         FROM messages m, json_each(m.to_agents)
-         WHERE json_each.value = ?
-         ORDER BY m.id DESC${hasLimit ? " LIMIT ?" : ""}`;
+  // Newest first
+  pageMessagesForAgent(
+    agent: AgentAddress,
+    groupId?: GroupId,
+    page: MessagePageOptions & { unreadOnly?: boolean; label?: string } = {}
+  ): MessagePage {
+    // Without a label this is everything the agent received and has not deleted; a label can also hold mail it sent
+    const base = page.label
+      ? labelCondition(agent, page.label)
+      : { sql: `${RECIPIENT_MATCH} AND ${NOT_TRASHED}`, params: [agent, agent] };
+    const conditions = [base.sql];
+    const params: unknown[] = [...base.params];
 
-    const stmt = this.db.prepare(query);
-    const rows = (groupId
-      ? (hasLimit ? stmt.all(groupId, agent, limit) : stmt.all(groupId, agent))
-      : (hasLimit ? stmt.all(agent, limit) : stmt.all(agent))) as { thread_id: string; message_id: string }[];
+    if (groupId) {
+      conditions.push("m.group_id = ?");
+      params.push(groupId);
+    }
 
-    return rows
+    if (page.unreadOnly) {
+      conditions.push(`NOT EXISTS (
+        SELECT 1 FROM message_reads r
+        WHERE r.thread_id = m.thread_id AND r.message_id = m.message_id AND r.agent = ?
+      )`);
+      params.push(agent);
+    }
+
+    return this.pageMessages(conditions, params, "desc", page);
+  }
+
+  private pageMessages(
+    conditions: string[],
+    params: unknown[],
+    order: "asc" | "desc",
+    page: MessagePageOptions
+  ): MessagePage {
+    const where = [...conditions];
+    const args = [...params];
+    if (page.cursor) {
+      where.push(page.cursor.direction === "before" ? "m.id < ?" : "m.id > ?");
+      args.push(page.cursor.id);
+    }
+
+    // Walk away from the cursor so LIMIT keeps the rows nearest to it, then restore display order
+    const walk = page.cursor ? (page.cursor.direction === "before" ? "DESC" : "ASC") : order.toUpperCase();
+    let query = `SELECT m.id, m.thread_id, m.message_id
+      FROM messages m
+      WHERE ${where.join(" AND ")}
+      ORDER BY m.id ${walk}`;
+    if (typeof page.limit === "number" && page.limit > 0) {
+      query += " LIMIT ?";
+      args.push(page.limit);
+    }
+
+    const rows = this.db.prepare(query).all(...args) as { id: number; thread_id: string; message_id: string }[];
+    rows.sort((a, b) => (order === "asc" ? a.id - b.id : b.id - a.id));
+
+    const messages = rows
       .map(row => this.getMessage(row.thread_id, row.message_id))
       .filter(m => m !== null) as Message[];
+    if (rows.length === 0) {
+      return { messages, nextCursor: null, prevCursor: null };
+    }
+
+    const ids = rows.map(row => row.id);
+    const minId = Math.min(...ids);
+    const maxId = Math.max(...ids);
+    const hasRows = (comparison: string, id: number) =>
+      this.db
+        .prepare(`SELECT 1 FROM messages m WHERE ${conditions.join(" AND ")} AND m.id ${comparison} ? LIMIT 1`)
+        .get(...params, id) !== undefined;
+
+    const older: MessageCursor | null = hasRows("<", minId) ? { direction: "before", id: minId } : null;
+    const newer: MessageCursor | null = hasRows(">", maxId) ? { direction: "after", id: maxId } : null;
+    return order === "desc"
+      ? { messages, nextCursor: older, prevCursor: newer }
+      : { messages, nextCursor: newer, prevCursor: older };
+  }
+
+  searchMessages(query: string, filters: MessageSearchFilters = {}): MessageSearchResult[] {
+    const ftsQuery = toFtsQuery(query);
+    if (ftsQuery === "") return [];
+
+    const conditions = ["messages_fts MATCH ?"];
+    const params: unknown[] = [ftsQuery];
+
+    if (filters.groupId) {
+      conditions.push("m.group_id = ?");
+      params.push(filters.groupId);
+    }
+    if (filters.from) {
+      conditions.push("m.from_agent = ?");
+      params.push(filters.from);
+    }
+    if (filters.to) {
+      // Only the participant's own bcc copies match, so the filter cannot reveal who else was blind-copied
+      conditions.push(filters.to === filters.participant ? RECIPIENT_MATCH : VISIBLE_RECIPIENT_MATCH);
+      params.push(filters.to);
+    }
+    if (filters.participant) {
+      conditions.push(`(m.from_agent = ? OR ${RECIPIENT_MATCH})`);
+      params.push(filters.participant, filters.participant);
+    }
+    if (filters.threadId) {
+      conditions.push("m.thread_id = ?");
+      params.push(filters.threadId);
+    }
+    if (filters.since) {
+      conditions.push("m.created_at >= ?");
+      params.push(filters.since);
+    }
+    if (filters.until) {
+      conditions.push("m.created_at <= ?");
+      params.push(filters.until);
+    }
+
+    let sql = `SELECT m.thread_id, m.message_id,
+        highlight(messages_fts, 0, '${SEARCH_HIGHLIGHT_OPEN}', '${SEARCH_HIGHLIGHT_CLOSE}') AS subject_highlight,
+        snippet(messages_fts, 1, '${SEARCH_HIGHLIGHT_OPEN}', '${SEARCH_HIGHLIGHT_CLOSE}', '…', 24) AS snippet,
+        bm25(messages_fts) AS score
+      FROM messages_fts
+      JOIN messages m ON m.id = messages_fts.rowid
+      WHERE ${conditions.join(" AND ")}
+      ORDER BY score ASC, m.id DESC`;
+
+    if (typeof filters.limit === "number" && filters.limit > 0) {
+      sql += " LIMIT ?";
+      params.push(filters.limit);
+    }
+
+    const rows = this.db.prepare(sql).all(...params) as {
+      thread_id: string;
+      message_id: string;
+      subject_highlight: string | null;
+      snippet: string | null;
+      score: number;
+    }[];
+
+    const results: MessageSearchResult[] = [];
+    for (const row of rows) {
+      const message = this.getMessage(row.thread_id, row.message_id);
+      if (!message) continue;
+      results.push({
+        message,
+        subjectHighlight: row.subject_highlight ?? "",
+        snippet: row.snippet ?? "",
+        score: row.score
+      });
+    }
+    return results;
+  }
+
+  // ===== ATTACHMENT OPERATIONS =====
+
+  createAttachment(attachment: Attachment, content: Buffer): void {
+    let filePath: string | null = null;
+    if (this.attachmentDir) {
+      // Content-addressed, so identical files are only written once
+      fs.mkdirSync(this.attachmentDir, { recursive: true });
+      filePath = path.join(this.attachmentDir, attachment.sha256);
+      if (!fs.existsSync(filePath)) {
+        fs.writeFileSync(filePath, content);
+      }
+    }
+
+    const stmt = this.db.prepare(`
+      INSERT INTO attachments (id, thread_id, message_id, filename, mime_type, size, sha256, storage, content, file_path, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      attachment.id,
+      attachment.threadId,
+      attachment.messageId,
+      attachment.filename,
+      attachment.mimeType,
+      attachment.size,
+      attachment.sha256,
+      filePath ? "disk" : "blob",
+      filePath ? null : content,
+      filePath,
+      attachment.createdAt
+    );
+  }
+
+  getAttachment(attachmentId: AttachmentId): Attachment | null {
+    const stmt = this.db.prepare(`
+      SELECT id, thread_id, message_id, filename, mime_type, size, sha256, created_at
+      FROM attachments
+      WHERE id = ?
+    `);
+    const row = stmt.get(attachmentId) as AttachmentRow | undefined;
+    return row ? attachmentFromRow(row) : null;
+  }
+
+  getAttachmentContent(attachmentId: AttachmentId): Buffer | null {
+    const stmt = this.db.prepare(`
+      SELECT storage, content, file_path FROM attachments WHERE id = ?
+    `);
+    const row = stmt.get(attachmentId) as {
+      storage: "blob" | "disk";
+      content: Buffer | null;
+      file_path: string | null;
+    } | undefined;
+
+    if (!row) return null;
+    if (row.storage === "disk") {
+      return row.file_path && fs.existsSync(row.file_path) ? fs.readFileSync(row.file_path) : null;
+    }
+    return row.content;
+  }
+
+  listAttachmentsForMessage(threadId: ThreadId, messageId: MessageId): Attachment[] {
+    const stmt = this.db.prepare(`
+      SELECT id, thread_id, message_id, filename, mime_type, size, sha256, created_at
+      FROM attachments
+      WHERE thread_id = ? AND message_id = ?
+      ORDER BY created_at ASC, rowid ASC
+    `);
+    const rows = stmt.all(threadId, messageId) as AttachmentRow[];
+    return rows.map(attachmentFromRow);
+  }
+
+  // ===== WEBHOOK OPERATIONS =====
+
+  createWebhook(webhook: Webhook): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO webhooks (id, group_id, agent, url, secret, active, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      webhook.id,
+      webhook.groupId,
+      webhook.agent,
+      webhook.url,
+      webhook.secret,
+      webhook.active ? 1 : 0,
+      webhook.createdAt
+    );
+  }
+
+  getWebhook(webhookId: WebhookId): Webhook | null {
+    const stmt = this.db.prepare(`
+      SELECT id, group_id, agent, url, secret, active, created_at FROM webhooks WHERE id = ?
+    `);
+    const row = stmt.get(webhookId) as WebhookRow | undefined;
+    return row ? webhookFromRow(row) : null;
+  }
+
+  listWebhooks(groupId?: GroupId): Webhook[] {
+    const baseQuery = `SELECT id, group_id, agent, url, secret, active, created_at FROM webhooks`;
+    const stmt = groupId
+      ? this.db.prepare(`${baseQuery} WHERE group_id = ? ORDER BY created_at ASC`)
+      : this.db.prepare(`${baseQuery} ORDER BY created_at ASC`);
+    const rows = (groupId ? stmt.all(groupId) : stmt.all()) as WebhookRow[];
+    return rows.map(webhookFromRow);
+  }
+
+  // Active webhooks that should hear about mail delivered to this agent
+  listWebhooksForRecipient(groupId: GroupId, agent: AgentAddress): Webhook[] {
+    const stmt = this.db.prepare(`
+      SELECT id, group_id, agent, url, secret, active, created_at
+      FROM webhooks
+      WHERE group_id = ? AND active = 1 AND (agent IS NULL OR agent = ?)
+      ORDER BY created_at ASC
+    `);
+    const rows = stmt.all(groupId, agent) as WebhookRow[];
+    return rows.map(webhookFromRow);
+  }
+
+  deleteWebhook(webhookId: WebhookId): boolean {
+    const stmt = this.db.prepare(`DELETE FROM webhooks WHERE id = ?`);
+    return stmt.run(webhookId).changes > 0;
+  }
+
+  createWebhookDelivery(delivery: WebhookDelivery): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO webhook_deliveries (
+        id, webhook_id, thread_id, message_id, agent, payload, status, attempts,
+        last_status_code, last_error, next_attempt_at, created_at, updated_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      delivery.id,
+      delivery.webhookId,
+      delivery.threadId,
+      delivery.messageId,
+      delivery.agent,
+      delivery.payload,
+      delivery.status,
+      delivery.attempts,
+      delivery.lastStatusCode,
+      delivery.lastError,
+      delivery.nextAttemptAt,
+      delivery.createdAt,
+      delivery.updatedAt
+    );
+  }
+
+  getWebhookDelivery(deliveryId: string): WebhookDelivery | null {
+    const stmt = this.db.prepare(`SELECT * FROM webhook_deliveries WHERE id = ?`);
+    const row = stmt.get(deliveryId) as WebhookDeliveryRow | undefined;
+    return row ? webhookDeliveryFromRow(row) : null;
+  }
+
+  updateWebhookDelivery(delivery: WebhookDelivery): void {
+    const stmt = this.db.prepare(`
+      UPDATE webhook_deliveries
+      SET status = ?, attempts = ?, last_status_code = ?, last_error = ?, next_attempt_at = ?, updated_at = ?
+      WHERE id = ?
+    `);
+    stmt.run(
+      delivery.status,
+      delivery.attempts,
+      delivery.lastStatusCode,
+      delivery.lastError,
+      delivery.nextAttemptAt,
+      delivery.updatedAt,
+      delivery.id
+    );
+  }
+
+  listWebhookDeliveries(webhookId: WebhookId, limit?: number): WebhookDelivery[] {
+    const baseQuery = `SELECT * FROM webhook_deliveries WHERE webhook_id = ? ORDER BY created_at DESC, rowid DESC`;
+    const stmt = typeof limit === "number" && limit > 0
+      ? this.db.prepare(`${baseQuery} LIMIT ?`)
+      : this.db.prepare(baseQuery);
+    const rows = (typeof limit === "number" && limit > 0
+      ? stmt.all(webhookId, limit)
+      : stmt.all(webhookId)) as WebhookDeliveryRow[];
+    return rows.map(webhookDeliveryFromRow);
+  }
+
+  listPendingWebhookDeliveries(): WebhookDelivery[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM webhook_deliveries WHERE status = 'pending' ORDER BY next_attempt_at ASC
+    `);
+    const rows = stmt.all() as WebhookDeliveryRow[];
+    return rows.map(webhookDeliveryFromRow);
+  }
+
+  // ===== AGENT TOKEN OPERATIONS =====
+
+  createAgentToken(token: AgentToken): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO agent_tokens (id, group_id, agent, name, token_hash, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(token.id, token.groupId, token.agent, token.name, token.tokenHash, token.createdAt);
+  }
+
+  findAgentTokenByHash(tokenHash: string): AgentToken | null {
+    const stmt = this.db.prepare(`
+      SELECT id, group_id, agent, name, token_hash, created_at FROM agent_tokens WHERE token_hash = ?
+    `);
+    const row = stmt.get(tokenHash) as AgentTokenRow | undefined;
+    return row ? agentTokenFromRow(row) : null;
+  }
+
+  listAgentTokens(groupId: GroupId, agent: AgentAddress): AgentToken[] {
+    const stmt = this.db.prepare(`
+      SELECT id, group_id, agent, name, token_hash, created_at
+      FROM agent_tokens
+      WHERE group_id = ? AND agent = ?
+      ORDER BY created_at ASC
+    `);
+    const rows = stmt.all(groupId, agent) as AgentTokenRow[];
+    return rows.map(agentTokenFromRow);
+  }
+
+  deleteAgentToken(groupId: GroupId, agent: AgentAddress, tokenId: AgentTokenId): boolean {
+    const stmt = this.db.prepare(`DELETE FROM agent_tokens WHERE id = ? AND group_id = ? AND agent = ?`);
+    return stmt.run(tokenId, groupId, agent).changes > 0;
+  }
+
+  // ===== READ STATE OPERATIONS =====
+
+  markMessageRead(threadId: ThreadId, messageId: MessageId, agent: AgentAddress): void {
+    if (this.insertRead(threadId, messageId, agent)) {
+      this.emitReadState("message.read", threadId, [messageId], agent);
+    }
+  }
+
+  markMessageUnread(threadId: ThreadId, messageId: MessageId, agent: AgentAddress): void {
+    const stmt = this.db.prepare(`
+      DELETE FROM message_reads WHERE thread_id = ? AND message_id = ? AND agent = ?
+    `);
+    if (stmt.run(threadId, messageId, agent).changes > 0) {
+      this.emitReadState("message.unread", threadId, [messageId], agent);
+    }
+  }
+
+  // Marks every message in the thread addressed to the agent; returns the affected message IDs
+  markThreadRead(threadId: ThreadId, agent: AgentAddress): MessageId[] {
+    const messageIds = this.listThreadMessageIdsForAgent(threadId, agent);
+    const changed = this.transaction(() => messageIds.filter(id => this.insertRead(threadId, id, agent)));
+    if (changed.length > 0) {
+      this.emitReadState("message.read", threadId, changed, agent);
+    }
+    return messageIds;
+  }
+
+  markThreadUnread(threadId: ThreadId, agent: AgentAddress): MessageId[] {
+    const messageIds = this.listThreadMessageIdsForAgent(threadId, agent);
+    const stmt = this.db.prepare(`
+      DELETE FROM message_reads WHERE thread_id = ? AND agent = ? RETURNING message_id
+    `);
+    const changed = (stmt.all(threadId, agent) as { message_id: string }[]).map(r => r.message_id);
+    if (changed.length > 0) {
+      this.emitReadState("message.unread", threadId, changed, agent);
+    }
+    return messageIds;
+  }
+
+  private insertRead(threadId: ThreadId, messageId: MessageId, agent: AgentAddress): boolean {
+    const stmt = this.db.prepare(`
+      INSERT OR IGNORE INTO message_reads (thread_id, message_id, agent, read_at)
+      VALUES (?, ?, ?, ?)
+    `);
+    return stmt.run(threadId, messageId, agent, new Date().toISOString()).changes > 0;
+  }
+
+  private emitReadState(
+    type: "message.read" | "message.unread",
+    threadId: ThreadId,
+    messageIds: MessageId[],
+    agent: AgentAddress
+  ): void {
+    const row = this.db.prepare(`SELECT group_id FROM threads WHERE thread_id = ?`).get(threadId) as
+      { group_id: string } | undefined;
+    if (!row) return;
+    this.emit({ type, groupId: row.group_id, threadId, messageIds, agent });
+  }
+
+  countUnreadForAgent(agent: AgentAddress, groupId?: GroupId): number {
+    const query = `SELECT COUNT(*) AS count
+      FROM messages m
+      WHERE ${RECIPIENT_MATCH} AND ${NOT_TRASHED}${groupId ? " AND m.group_id = ?" : ""}
+        AND NOT EXISTS (
+          SELECT 1 FROM message_reads r
+          WHERE r.thread_id = m.thread_id AND r.message_id = m.message_id AND r.agent = ?
+        )`;
+    const stmt = this.db.prepare(query);
+    const row = (groupId ? stmt.get(agent, agent, groupId, agent) : stmt.get(agent, agent, agent)) as { count: number };
+    return row.count;
+  }
+
+  // Time of the newest message the agent sent or received, or null if it has none
+  getLastActivityForAgent(agent: AgentAddress, groupId: GroupId): string | null {
+    const row = this.db.prepare(`
+      SELECT MAX(m.created_at) AS last_activity
+      FROM messages m
+      WHERE m.group_id = ? AND (m.from_agent = ? OR ${RECIPIENT_MATCH})
+    `).get(groupId, agent, agent) as { last_activity: string | null };
+    return row.last_activity;
+  }
+
+  private listThreadMessageIdsForAgent(threadId: ThreadId, agent: AgentAddress): MessageId[] {
+    const stmt = this.db.prepare(`
+      SELECT m.message_id
+      FROM messages m
+      WHERE m.thread_id = ? AND ${RECIPIENT_MATCH}
+      ORDER BY m.id ASC
+    `);
+    const rows = stmt.all(threadId, agent) as { message_id: string }[];
+    return rows.map(r => r.message_id);
+  }
+
+  // ===== SNAPSHOT OPERATIONS =====
+
+  // Copies the database to filePath with SQLite's online backup, so requests keep being served meanwhile
+  async backupTo(filePath: string): Promise<void> {
+    await this.db.backup(filePath);
+  }
+
+  // Replaces every group, or only groupId, with the rows of another database file with this schema.
+  // One transaction, so readers see either the old mailbox or the restored one and never a mix.
+  // Agent tokens are credentials rather than mail, so they are kept as they are now: a restore neither
+  // revives a revoked token nor drops one issued since. Tokens of agents the restored groups lack are revoked.
+  restoreFrom(filePath: string, groupId: GroupId | null = null): void {
+    this.db.prepare(`ATTACH DATABASE ? AS snapshot`).run(filePath);
+    try {
+      const tables = this.listRestorableTables();
+      this.transaction(() => {
+        // Rows are copied table by table, so parents may arrive after their children
+        this.db.pragma("defer_foreign_keys = ON");
+
+        const groupIds = new Set(groupId ? [groupId] : this.listGroups().map(group => group.id));
+        const tokenRows = (groupId
+          ? this.db.prepare(`SELECT * FROM agent_tokens WHERE group_id = ?`).all(groupId)
+          : this.db.prepare(`SELECT * FROM agent_tokens`).all()) as AgentTokenRow[];
+        if (groupId) {
+          this.db.prepare(`DELETE FROM groups WHERE id = ?`).run(groupId);
+        } else {
+          this.db.prepare(`DELETE FROM groups`).run();
+        }
+
+        for (const { name, columns } of tables) {
+          const list = columns.map(column => `"${column}"`).join(", ");
+          this.db.prepare(`INSERT INTO main."${name}" (${list}) SELECT ${list} FROM snapshot."${name}"`).run();
+        }
+
+        for (const token of tokenRows.map(agentTokenFromRow)) {
+          if (this.getGroup(token.groupId)?.agents.includes(token.agent)) {
+            this.createAgentToken(token);
+          }
+        }
+
+        if (!groupId) {
+          this.listGroups().forEach(group => groupIds.add(group.id));
+        }
+        groupIds.forEach(id => this.emit({ type: "mailbox.restored", groupId: id }));
+      });
+    } finally {
+      this.db.exec(`DETACH DATABASE snapshot`);
+    }
+  }
+
+  // Tables and columns present in both databases. The search index is skipped, since triggers on messages
+  // rebuild it as rows are copied, and so is SQLite's own bookkeeping. So are agent tokens, which restoreFrom keeps.
+  private listRestorableTables(): { name: string; columns: string[] }[] {
+    const tableNames = (schema: "main" | "snapshot") =>
+      (this.db.prepare(`
+        SELECT name FROM ${schema}.sqlite_master
+        WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name NOT LIKE 'messages_fts%'
+      `).all() as { name: string }[]).map(row => row.name);
+    const columnNames = (schema: "main" | "snapshot", table: string) =>
+      (this.db.prepare(`SELECT name FROM pragma_table_info(?, ?)`).all(table, schema) as { name: string }[])
+        .map(row => row.name);
+
+    const snapshotTables = new Set(tableNames("snapshot"));
+    return tableNames("main")
+      .filter(name => snapshotTables.has(name) && !UNRESTORED_TABLES.includes(name))
+      .map(name => {
+        const snapshotColumns = new Set(columnNames("snapshot", name));
+        return { name, columns: columnNames("main", name).filter(column => snapshotColumns.has(column)) };
+      });
   }
 
   // ===== UTILITY OPERATIONS =====
@@ -279,8 +1890,34 @@ export class DatabaseService {
     stmt.run();
   }
 
+  // Removes the threads, messages, drafts and scheduled mail of one group, or of every group, along with the
+  // webhook deliveries that announced them. Groups, agents, profiles, aliases, labels and webhooks are kept.
+  // No per-message events are raised, so each group's clients are told to reload instead.
+  deleteAllMail(groupId?: GroupId): void {
+    this.transaction(() => {
+      const groupIds = groupId ? [groupId] : this.listGroups().map(group => group.id);
+      if (groupId) {
+        this.db.prepare(`
+          DELETE FROM webhook_deliveries WHERE webhook_id IN (SELECT id FROM webhooks WHERE group_id = ?)
+        `).run(groupId);
+        for (const table of ["threads", "drafts", "scheduled_messages"]) {
+          this.db.prepare(`DELETE FROM ${table} WHERE group_id = ?`).run(groupId);
+        }
+      } else {
+        for (const table of ["webhook_deliveries", "threads", "drafts", "scheduled_messages"]) {
+          this.db.prepare(`DELETE FROM ${table}`).run();
+        }
+      }
+      groupIds.forEach(id => this.emit({ type: "mailbox.restored", groupId: id }));
+    });
+  }
+
+  // Clients of every deleted group are told to reload, including those of a group a reset creates again
   deleteAllGroups(): void {
-    const stmt = this.db.prepare(`DELETE FROM groups`);
-    stmt.run();
+    this.transaction(() => {
+      const groupIds = this.listGroups().map(group => group.id);
+      this.db.prepare(`DELETE FROM groups`).run();
+      groupIds.forEach(id => this.emit({ type: "mailbox.restored", groupId: id }));
+    });
   }
 }
@@ -0,0 +1,1228 @@
+// The MCP server's embedded mode: the API answered inside the MCP process, straight from DatabaseService and
+// the compose, serialize, validation and principal functions the REST routes use, with nothing listening on a
+// port. The MCP tools still name an endpoint (method, path, query and body) as they would over HTTP, so one set
+// of tools serves both modes, and each answer has the status and body the REST route would send.
+
+import path from "path";
+import * as schema from "./schema.js";
+import { DatabaseService } from "./db/service.js";
+import { SEED_FILE, seedEmptyDatabase } from "./config/seed.js";
+import { initDatabase } from "./db/init.js";
+import { WebhookDispatcher } from "./webhooks/dispatcher.js";
+import { DeliveryScheduler } from "./scheduler/scheduler.js";
+import { TrashPurger } from "./scheduler/purger.js";
+import { Clock, systemClock } from "./scheduler/clock.js";
+import { SNAPSHOT_NAME_PATTERN, SnapshotStore } from "./snapshots/store.js";
+import { generateToken, hashToken, readAdminTokens } from "./auth/tokens.js";
+import { AgentScope, Principal, agentScopeError, authenticate } from "./auth/principal.js";
+import {
+  AttachmentInput,
+  DEFAULT_SUBJECT,
+  DRAFT_KINDS,
+  OutgoingMessage,
+  applyDraftUpdate,
+  buildScheduledMessage,
+  composeForward,
+  composeNewMessage,
+  composeOutgoing,
+  composeReply,
+  deliverMessage,
+  draftUpdateError,
+  normalizeRecipients,
+  parseAttachments
+} from "./compose.js";
+import {
+  pageCursors,
+  serializeAgentProfile,
+  serializeAlias,
+  serializeAttachment,
+  serializeDraft,
+  serializeEvent,
+  serializeMessage,
+  serializeScheduledMessage,
+  serializeSearchResult,
+  serializeShortMessage,
+  serializeThreadSummary
+} from "./serialize.js";
+import {
+  DEFAULT_LIMIT,
+  SCHEDULED_STATUSES,
+  agentHandleError,
+  aliasMembersError,
+  applyProfileUpdate,
+  findDuplicates,
+  groupIdError,
+  lookupGroupId,
+  parseBoolean,
+  parseCursor,
+  parseDateParam,
+  parseLimit,
+  profileUpdateError
+} from "./validation.js";
+import { LabelChanges, applyLabelChanges, canonicalLabel, labelChangesError } from "./labels.js";
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+// One call, with what an HTTP request would carry in its Authorization and X-SES-* headers
+export interface EmbeddedRequest {
+  token: string | null;
+  groupId?: string;
+  agentAddress?: string;
+  query?: Record<string, string | number | undefined>;
+  body?: unknown;
+}
+
+export interface EmbeddedResponse {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+export interface EmbeddedApiOptions {
+  clock?: Clock;                       // Decides whether a sendAt is in the future; share it with the DeliveryScheduler
+  snapshotDir?: string;                // Where snapshots are kept; they are disabled without it
+  adminTokens?: string[];              // Turns on token auth, as for the REST API
+}
+
+// A request as a route sees it: path parameters, query strings and a JSON body, after the principal's defaults
+type RouteCall = {
+  params: Record<string, string>;
+  query: Record<string, string>;
+  body: Record<string, unknown>;
+  principal: Principal;
+};
+
+type Route = {
+  method: HttpMethod;
+  path: string[];                      // Segments, with ":name" for a parameter
+  access: "anyone" | "admin" | AgentScope;
+  handle: (call: RouteCall) => EmbeddedResponse | Promise<EmbeddedResponse>;
+};
+
+function route(method: HttpMethod, pattern: string, access: Route["access"], handle: Route["handle"]): Route {
+  return { method, path: pattern.split("/"), access, handle };
+}
+
+function success(data: unknown, message?: string, status = 200): EmbeddedResponse {
+  return { status, body: { success: true, ...(message ? { message } : {}), ...(data !== undefined ? { data } : {}) } };
+}
+
+function failure(status: number, message: string): EmbeddedResponse {
+  return { status, body: { success: false, message } };
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+// Messages composed for sending, their attachments, and where to put them
+type Outgoing = {
+  message: schema.Message;
+  attachments: AttachmentInput[];
+  scheduleAs: OutgoingMessage;
+};
+
+export class EmbeddedApi {
+  private dbService: DatabaseService;
+  private clock: Clock;
+  private snapshots: SnapshotStore | null;
+  private adminTokenHashes: Set<string>;
+  private routes: Route[];
+
+  constructor(dbService: DatabaseService, options: EmbeddedApiOptions = {}) {
+    this.dbService = dbService;
+    this.clock = options.clock ?? systemClock;
+    this.snapshots = options.snapshotDir ? new SnapshotStore(dbService, options.snapshotDir) : null;
+    this.adminTokenHashes = new Set((options.adminTokens ?? []).map(hashToken));
+    this.routes = this.defineRoutes();
+  }
+
+  // Authenticates and scopes the call as the REST API's middleware would, then runs the matching route
+  async request(method: HttpMethod, apiPath: string, request: EmbeddedRequest): Promise<EmbeddedResponse> {
+    const authenticated = this.authenticate(request);
+    if (authenticated.error) {
+      return authenticated.error;
+    }
+
+    const segments = apiPath.split("/").filter(Boolean);
+    let matched: { route: Route; params: Record<string, string> } | null = null;
+    try {
+      matched = this.match(method, segments.map(decodeURIComponent));
+    } catch {
+      // A malformed escape matches nothing
+    }
+    if (!matched) {
+      return failure(404, `Cannot ${method} /${apiPath}`);
+    }
+
+    const { route: target, params } = matched;
+    const query = Object.fromEntries(
+      Object.entries(request.query ?? {})
+        .filter((entry): entry is [string, string | number] => entry[1] !== undefined)
+        .map(([name, value]) => [name, String(value)])
+    );
+    // Round-tripped so the route sees what it would have parsed from a request body
+    const body = request.body === undefined ? {} : JSON.parse(JSON.stringify(request.body));
+    const call: RouteCall = { params, query, body, principal: authenticated.principal };
+
+    const refused = this.accessError(target, call);
+    if (refused) {
+      return refused;
+    }
+
+    try {
+      const response = await target.handle(call);
+      return { status: response.status, body: JSON.parse(JSON.stringify(response.body)) };
+    } catch (error) {
+      console.error(`Error handling ${method} /${apiPath}:`, error);
+      return {
+        status: 500,
+        body: {
+          success: false,
+          message: "Internal server error",
+          error: error instanceof Error ? error.message : String(error)
+        }
+      };
+    }
+  }
+
+  // Calls onEvent with each mail event the caller may see, rendered as /events would send it
+  subscribe(
+    request: EmbeddedRequest,
+    onEvent: (event: Record<string, unknown>) => void
+  ): { unsubscribe: () => void; error?: undefined } | { unsubscribe?: undefined; error: EmbeddedResponse } {
+    const authenticated = this.authenticate(request);
+    if (authenticated.error) {
+      return { error: authenticated.error };
+    }
+    const call: RouteCall = {
+      params: {},
+      query: Object.fromEntries(
+        Object.entries(request.query ?? {})
+          .filter((entry): entry is [string, string | number] => entry[1] !== undefined)
+          .map(([name, value]) => [name, String(value)])
+      ),
+      body: {},
+      principal: authenticated.principal
+    };
+    const refused = this.accessError(route("GET", "events", {}, () => success(undefined)), call);
+    if (refused) {
+      return { error: refused };
+    }
+
+    const { groupId, agentAddress } = call.query;
+    if (groupId && !this.dbService.getGroup(groupId)) {
+      return { error: failure(404, `Group ${groupId} not found`) };
+    }
+
+    const unsubscribe = this.dbService.events.subscribe(event => {
+      if (groupId && event.groupId !== groupId) return;
+      try {
+        const payload = serializeEvent(event, this.dbService, agentAddress);
+        if (payload) {
+          onEvent(JSON.parse(JSON.stringify(payload)));
+        }
+      } catch (error) {
+        console.error("Error streaming event:", error);
+      }
+    });
+    return { unsubscribe };
+  }
+
+  private authenticate(
+    request: EmbeddedRequest
+  ): { principal: Principal; error?: undefined } | { principal?: undefined; error: EmbeddedResponse } {
+    const authenticated = authenticate(this.dbService, this.adminTokenHashes, request.token, {
+      groupId: request.groupId,
+      agent: request.agentAddress
+    });
+    if (authenticated.error !== undefined) {
+      return { error: failure(401, authenticated.error) };
+    }
+    return { principal: authenticated.principal };
+  }
+
+  private match(method: HttpMethod, segments: string[]): { route: Route; params: Record<string, string> } | null {
+    for (const candidate of this.routes) {
+      if (candidate.method !== method || candidate.path.length !== segments.length) continue;
+      const params: Record<string, string> = {};
+      const matches = candidate.path.every((part, index) => {
+        if (part.startsWith(":")) {
+          params[part.slice(1)] = segments[index]!;
+          return true;
+        }
+        return part === segments[index];
+      });
+      if (matches) {
+        return { route: candidate, params };
+      }
+    }
+    return null;
+  }
+
+  // The REST API's adminOnly and asAgent checks. Whatever an agent's call leaves out (groupId, agentAddress,
+  // from) is filled in from the principal, so the route answers for that agent alone.
+  private accessError(target: Route, call: RouteCall): EmbeddedResponse | null {
+    const { principal } = call;
+    if (target.access === "anyone" || principal.role === "admin") {
+      return null;
+    }
+    if (target.access === "admin") {
+      return failure(403, "This endpoint requires an admin token");
+    }
+
+    const error = agentScopeError(call, this.dbService, principal, target.access);
+    if (error) {
+      return failure(error.status, error.message);
+    }
+    call.query = {
+      groupId: principal.groupId,
+      ...Object.fromEntries((target.access.query ?? ["agentAddress"]).map(name => [name, principal.agent])),
+      ...call.query
+    };
+    if (target.method === "POST") {
+      call.body = { groupId: principal.groupId, from: principal.agent, agentAddress: principal.agent, ...call.body };
+    }
+    return null;
+  }
+
+  private groupAgentError(groupId: string, agentAddress: string): EmbeddedResponse | null {
+    const group = this.dbService.getGroup(groupId);
+    if (!group || !group.agents.includes(agentAddress)) {
+      return failure(404, group ? `Agent '${agentAddress}' not found in group ${groupId}` : `Group ${groupId} not found`);
+    }
+    return null;
+  }
+
+  private withProfiles(group: schema.Group) {
+    return { ...group, profiles: this.dbService.listAgentProfiles(group.id).map(serializeAgentProfile) };
+  }
+
+  // Schedules a composed message when sendAt is in the future, and delivers it otherwise
+  private send(
+    outgoing: Outgoing,
+    sendAt: string | undefined,
+    messages: { scheduled: string; sent: string },
+    sentData: (message: schema.Message, attachments: schema.Attachment[]) => Record<string, unknown>
+  ): EmbeddedResponse {
+    if (sendAt && Date.parse(sendAt) > this.clock.now()) {
+      const scheduled = buildScheduledMessage(outgoing.scheduleAs, sendAt, outgoing.attachments);
+      this.dbService.createScheduledMessage(scheduled);
+      return success(serializeScheduledMessage(scheduled), messages.scheduled, 202);
+    }
+    const attachments = deliverMessage(this.dbService, outgoing.message, outgoing.attachments);
+    return success(sentData(outgoing.message, attachments), messages.sent, 201);
+  }
+
+  private reply(call: RouteCall, replyAll: boolean): EmbeddedResponse {
+    const { groupId, threadId, replyToMessageId, from, body } = call.body;
+    if (typeof from !== "string" || !from || typeof threadId !== "string" || !threadId || typeof body !== "string" || !body) {
+      return failure(400, "Missing required fields: threadId, from, body");
+    }
+    const parsedAttachments = parseAttachments(call.body.attachments);
+    if (parsedAttachments.error) {
+      return failure(400, parsedAttachments.error);
+    }
+    const sendAt = parseDateParam(call.body.sendAt);
+    if (sendAt === null) {
+      return failure(400, "sendAt must be an ISO 8601 date");
+    }
+
+    const composed = composeReply(this.dbService, {
+      groupId: text(groupId),
+      threadId,
+      replyToMessageId: text(replyToMessageId),
+      from,
+      body,
+      replyAll
+    });
+    if (composed.error) {
+      return failure(composed.error.status, composed.error.message);
+    }
+    const outgoing: Outgoing = {
+      message: composed.message,
+      attachments: parsedAttachments.attachments,
+      scheduleAs: {
+        groupId: composed.message.groupId,
+        from,
+        kind: replyAll ? "reply-all" : "reply",
+        to: [],
+        cc: [],
+        bcc: [],
+        subject: null,
+        body,
+        threadId,
+        replyToMessageId: text(replyToMessageId) ?? null
+      }
+    };
+    const name = replyAll ? "Reply-all" : "Reply";
+    return this.send(outgoing, sendAt, { scheduled: `${name} scheduled`, sent: `${name} sent` }, (message, attachments) => ({
+      messageId: message.messageid,
+      threadId: message.threadId,
+      newThreadCreated: false,
+      attachments: attachments.map(serializeAttachment)
+    }));
+  }
+
+  private setMessageReadState(call: RouteCall, read: boolean): EmbeddedResponse {
+    const { messageId } = call.params;
+    const threadId = text(call.body.threadId);
+    const agentAddress = text(call.body.agentAddress);
+    if (!threadId || !agentAddress) {
+      return failure(400, "Missing required fields: threadId, agentAddress");
+    }
+
+    const message = this.dbService.getMessage(threadId, messageId!);
+    if (!message) {
+      return failure(404, `Message ${messageId} not found in thread ${threadId}`);
+    }
+    if (!message.recipients().includes(agentAddress)) {
+      return failure(400, `Agent '${agentAddress}' is not a recipient of message ${messageId}`);
+    }
+
+    if (read) {
+      this.dbService.markMessageRead(threadId, messageId!, agentAddress);
+    } else {
+      this.dbService.markMessageUnread(threadId, messageId!, agentAddress);
+    }
+    return success(
+      { threadId, messageIds: [messageId], agentAddress, read },
+      read ? "Message marked as read" : "Message marked as unread"
+    );
+  }
+
+  private setThreadReadState(call: RouteCall, read: boolean): EmbeddedResponse {
+    const { threadId } = call.params;
+    const agentAddress = text(call.body.agentAddress);
+    if (!agentAddress) {
+      return failure(400, "Missing required field: agentAddress");
+    }
+
+    const thread = this.dbService.getThread(threadId!);
+    if (!thread) {
+      return failure(404, `Thread ${threadId} not found`);
+    }
+    const group = this.dbService.getGroup(thread.groupId);
+    if (!group || !group.agents.includes(agentAddress)) {
+      return failure(400, `Invalid agent: '${agentAddress}' is not a valid agent in group ${thread.groupId}`);
+    }
+
+    const messageIds = read
+      ? this.dbService.markThreadRead(threadId!, agentAddress)
+      : this.dbService.markThreadUnread(threadId!, agentAddress);
+    return success(
+      { threadId, messageIds, agentAddress, read },
+      read ? "Thread marked as read" : "Thread marked as unread"
+    );
+  }
+
+  private updateMessageLabels(call: RouteCall, changes: LabelChanges, done: string): EmbeddedResponse {
+    const { messageId } = call.params;
+    const threadId = text(call.body.threadId);
+    const agentAddress = text(call.body.agentAddress);
+    if (!threadId || !agentAddress) {
+      return failure(400, "Missing required fields: threadId, agentAddress");
+    }
+    const changesError = labelChangesError(changes.add, changes.remove);
+    if (changesError) {
+      return failure(400, changesError);
+    }
+
+    const thread = this.dbService.getThread(threadId);
+    const message = thread ? this.dbService.getMessage(threadId, messageId!) : null;
+    if (!thread || !message) {
+      return failure(404, `Message ${messageId} not found in thread ${threadId}`);
+    }
+    if (message.from !== agentAddress && !message.recipients().includes(agentAddress)) {
+      return failure(400, `Agent '${agentAddress}' did not send or receive message ${messageId}`);
+    }
+    return success(
+      applyLabelChanges(this.dbService, thread, [messageId!], agentAddress, changes.add as string[], changes.remove as string[]),
+      done
+    );
+  }
+
+  private updateThreadLabels(call: RouteCall, changes: LabelChanges, done: string): EmbeddedResponse {
+    const { threadId } = call.params;
+    const agentAddress = text(call.body.agentAddress);
+    if (!agentAddress) {
+      return failure(400, "Missing required field: agentAddress");
+    }
+    const changesError = labelChangesError(changes.add, changes.remove);
+    if (changesError) {
+      return failure(400, changesError);
+    }
+
+    const thread = this.dbService.getThread(threadId!);
+    if (!thread) {
+      return failure(404, `Thread ${threadId} not found`);
+    }
+    const group = this.dbService.getGroup(thread.groupId);
+    if (!group || !group.agents.includes(agentAddress)) {
+      return failure(400, `Invalid agent: '${agentAddress}' is not a valid agent in group ${thread.groupId}`);
+    }
+
+    const messageIds = this.dbService.listThreadMessageIdsForParticipant(threadId!, agentAddress);
+    return success(
+      applyLabelChanges(this.dbService, thread, messageIds, agentAddress, changes.add as string[], changes.remove as string[]),
+      done
+    );
+  }
+
+  // The inbox and its short form differ only in how each message is rendered
+  private inbox(call: RouteCall, render: (message: schema.Message, agentAddress?: string) => unknown): EmbeddedResponse {
+    const { query } = call;
+    const limit = parseLimit(query.numOfRecentEmails ?? query.limit, DEFAULT_LIMIT);
+    const agentAddress = query.agentAddress;
+    const unreadOnly = parseBoolean(query.unreadOnly);
+    if (unreadOnly && !agentAddress) {
+      return failure(400, "unreadOnly requires agentAddress");
+    }
+    const label = query.label !== undefined ? canonicalLabel(query.label) : undefined;
+    if (label && !agentAddress) {
+      return failure(400, "label requires agentAddress");
+    }
+    const cursor = parseCursor(query.cursor);
+    if (cursor === null) {
+      return failure(400, "Invalid cursor");
+    }
+    const resolved = lookupGroupId(this.dbService, query.groupId);
+    if (resolved.error) {
+      return failure(resolved.error.status, resolved.error.message);
+    }
+
+    const page = agentAddress
+      ? this.dbService.pageMessagesForAgent(agentAddress, resolved.groupId, { limit, cursor, unreadOnly, label })
+      : this.dbService.pageMessagesByGroup(resolved.groupId, { limit, cursor });
+    return {
+      status: 200,
+      body: { success: true, data: page.messages.map(message => render(message, agentAddress)), ...pageCursors(page) }
+    };
+  }
+
+  private defineRoutes(): Route[] {
+    const db = this.dbService;
+    const requestedLabels = (call: RouteCall): LabelChanges => ({ add: call.body.add, remove: call.body.remove });
+
+    return [
+      route("GET", "auth/me", "anyone", ({ principal }) => {
+        const authEnabled = this.adminTokenHashes.size > 0;
+        return success(principal.role === "admin"
+          ? { role: "admin", authEnabled }
+          : {
+            role: "agent",
+            authEnabled,
+            groupId: principal.groupId,
+            agentAddress: principal.agent,
+            tokenId: principal.tokenId
+          });
+      }),
+
+      route("GET", "groups", "anyone", ({ principal }) => success(
+        db.listGroups()
+          .filter(group => principal.role === "admin" || group.id === principal.groupId)
+          .map(group => this.withProfiles(group))
+      )),
+
+      route("POST", "groups", "admin", ({ body }) => {
+        const { groupId } = body;
+        const agents = normalizeRecipients(body.agents);
+        const formatError = groupIdError(groupId) ?? agents.map(agentHandleError).find(e => e !== null) ?? null;
+        if (formatError) {
+          return failure(400, formatError);
+        }
+        const duplicates = findDuplicates(agents);
+        if (duplicates.length > 0) {
+          return failure(400, `Duplicate agent handle(s): ${duplicates.join(", ")}`);
+        }
+        if (db.getGroup(groupId as string)) {
+          return failure(409, `Group ${groupId} already exists`);
+        }
+
+        const group = new schema.Group(groupId as string, agents);
+        db.createGroup(group);
+        return success(group, "Group created", 201);
+      }),
+
+      route("GET", "groups/:groupId", {}, ({ params }) => {
+        const group = db.getGroup(params.groupId!);
+        return group ? success(this.withProfiles(group)) : failure(404, `Group ${params.groupId} not found`);
+      }),
+
+      route("PATCH", "groups/:groupId", "admin", ({ params, body }) => {
+        const { groupId } = params;
+        const { newGroupId } = body;
+        const formatError = groupIdError(newGroupId);
+        if (formatError) {
+          return failure(400, formatError);
+        }
+        if (!db.getGroup(groupId!)) {
+          return failure(404, `Group ${groupId} not found`);
+        }
+        if (newGroupId !== groupId && db.getGroup(newGroupId as string)) {
+          return failure(409, `Group ${newGroupId} already exists`);
+        }
+
+        db.renameGroup(groupId!, newGroupId as string);
+        return success(db.getGroup(newGroupId as string), "Group renamed");
+      }),
+
+      route("DELETE", "groups/:groupId", "admin", ({ params }) => {
+        const { groupId } = params;
+        if (!db.deleteGroup(groupId!)) {
+          return failure(404, `Group ${groupId} not found`);
+        }
+        return success({ groupId }, "Group deleted");
+      }),
+
+      route("GET", "groups/:groupId/agents", {}, ({ params }) => {
+        const { groupId } = params;
+        const group = db.getGroup(groupId!);
+        if (!group) {
+          return failure(404, `Group ${groupId} not found`);
+        }
+
+        const agents = group.agents.map(agent => {
+          const profile = db.getAgentProfile(groupId!, agent);
+          return {
+            agentAddress: agent,
+            role: profile?.role ?? null,
+            profile: profile ? serializeAgentProfile(profile) : null,
+            unreadCount: db.countUnreadForAgent(agent, groupId),
+            lastActivityAt: db.getLastActivityForAgent(agent, groupId!)
+          };
+        });
+        return success({ groupId, agents });
+      }),
+
+      route("POST", "groups/:groupId/agents", "admin", ({ params, body }) => {
+        const { groupId } = params;
+        const { agentAddress, profile } = body;
+        const formatError = agentHandleError(agentAddress) ?? (profile !== undefined ? profileUpdateError(profile) : null);
+        if (formatError) {
+          return failure(400, formatError);
+        }
+        const agent = agentAddress as string;
+
+        const group = db.getGroup(groupId!);
+        if (!group) {
+          return failure(404, `Group ${groupId} not found`);
+        }
+        if (group.agents.includes(agent)) {
+          return failure(409, `Agent '${agent}' already exists in group ${groupId}`);
+        }
+        if (db.getAlias(groupId!, agent)) {
+          return failure(409, `'${agent}' is already an alias in group ${groupId}`);
+        }
+
+        group.addAgent(agent);
+        db.transaction(() => {
+          db.updateGroup(group);
+          if (profile !== undefined) {
+            const agentProfile = new schema.AgentProfile(groupId!, agent);
+            applyProfileUpdate(agentProfile, profile as Record<string, unknown>);
+            db.saveAgentProfile(agentProfile);
+          }
+        });
+        return success(group, "Agent added", 201);
+      }),
+
+      route("PATCH", "groups/:groupId/agents/:agentAddress/profile", {}, ({ params, body }) => {
+        const { groupId, agentAddress } = params;
+        const formatError = profileUpdateError(body);
+        if (formatError) {
+          return failure(400, formatError);
+        }
+        const missing = this.groupAgentError(groupId!, agentAddress!);
+        if (missing) {
+          return missing;
+        }
+
+        const profile = db.getAgentProfile(groupId!, agentAddress!) ?? new schema.AgentProfile(groupId!, agentAddress!);
+        applyProfileUpdate(profile, body);
+        db.saveAgentProfile(profile);
+        return success(serializeAgentProfile(profile), "Profile updated");
+      }),
+
+      route("PATCH", "groups/:groupId/agents/:agentAddress", "admin", ({ params, body }) => {
+        const { groupId, agentAddress } = params;
+        const { newAgentAddress } = body;
+        const formatError = agentHandleError(newAgentAddress);
+        if (formatError) {
+          return failure(400, formatError);
+        }
+        const newAgent = newAgentAddress as string;
+
+        const group = db.getGroup(groupId!);
+        if (!group) {
+          return failure(404, `Group ${groupId} not found`);
+        }
+        if (!group.agents.includes(agentAddress!)) {
+          return failure(404, `Agent '${agentAddress}' not found in group ${groupId}`);
+        }
+        if (newAgent !== agentAddress && group.agents.includes(newAgent)) {
+          return failure(409, `Agent '${newAgent}' already exists in group ${groupId}`);
+        }
+        if (db.getAlias(groupId!, newAgent)) {
+          return failure(409, `'${newAgent}' is already an alias in group ${groupId}`);
+        }
+
+        db.renameAgent(groupId!, agentAddress!, newAgent);
+        return success(db.getGroup(groupId!), "Agent renamed");
+      }),
+
+      route("DELETE", "groups/:groupId/agents/:agentAddress", "admin", ({ params }) => {
+        const { groupId, agentAddress } = params;
+        const group = db.getGroup(groupId!);
+        if (!group) {
+          return failure(404, `Group ${groupId} not found`);
+        }
+        if (!group.agents.includes(agentAddress!)) {
+          return failure(404, `Agent '${agentAddress}' not found in group ${groupId}`);
+        }
+
+        db.removeAgent(groupId!, agentAddress!);
+        return success(db.getGroup(groupId!), "Agent removed");
+      }),
+
+      route("GET", "groups/:groupId/agents/:agentAddress/labels", {}, ({ params }) => {
+        const { groupId, agentAddress } = params;
+        return this.groupAgentError(groupId!, agentAddress!) ?? success(db.listLabelSummaries(groupId!, agentAddress!));
+      }),
+
+      route("GET", "groups/:groupId/aliases", {}, ({ params }) => {
+        const { groupId } = params;
+        if (!db.getGroup(groupId!)) {
+          return failure(404, `Group ${groupId} not found`);
+        }
+        return success(db.listAliases(groupId!).map(serializeAlias));
+      }),
+
+      route("POST", "groups/:groupId/aliases", "admin", ({ params, body }) => {
+        const { groupId } = params;
+        const { name, members } = body;
+        if (typeof name !== "string" || !schema.AGENT_HANDLE_PATTERN.test(name)) {
+          return failure(400, `Invalid alias name '${String(name)}'. Alias names follow the same rules as agent handles`);
+        }
+
+        const group = db.getGroup(groupId!);
+        if (!group) {
+          return failure(404, `Group ${groupId} not found`);
+        }
+        const membersError = aliasMembersError(members, group);
+        if (membersError) {
+          return failure(400, membersError);
+        }
+        if (group.agents.includes(name) || db.getAlias(groupId!, name)) {
+          return failure(409, `'${name}' is already an agent or alias in group ${groupId}`);
+        }
+
+        const alias = new schema.Alias(groupId!, name, members as string[]);
+        db.createAlias(alias);
+        return success(serializeAlias(alias), "Alias created", 201);
+      }),
+
+      route("PUT", "groups/:groupId/aliases/:name", "admin", ({ params, body }) => {
+        const { groupId, name } = params;
+        const group = db.getGroup(groupId!);
+        if (!group) {
+          return failure(404, `Group ${groupId} not found`);
+        }
+        const membersError = aliasMembersError(body.members, group);
+        if (membersError) {
+          return failure(400, membersError);
+        }
+        if (!db.updateAliasMembers(groupId!, name!, body.members as string[])) {
+          return failure(404, `Alias '${name}' not found in group ${groupId}`);
+        }
+        return success(serializeAlias(db.getAlias(groupId!, name!)!), "Alias updated");
+      }),
+
+      route("DELETE", "groups/:groupId/aliases/:name", "admin", ({ params }) => {
+        const { groupId, name } = params;
+        if (!db.deleteAlias(groupId!, name!)) {
+          return failure(404, `Alias '${name}' not found in group ${groupId}`);
+        }
+        return success({ groupId, name }, "Alias deleted");
+      }),
+
+      route("POST", "emails/write", {}, ({ body }) => {
+        const { groupId, from, to, cc, bcc, subject } = body;
+        if (typeof groupId !== "string" || !groupId || typeof from !== "string" || !from || !to || typeof body.body !== "string" || !body.body) {
+          return failure(400, "Missing required fields: groupId, from, to, body");
+        }
+        const recipients = normalizeRecipients(to);
+        if (recipients.length === 0) {
+          return failure(400, "Recipient list cannot be empty");
+        }
+        const parsedAttachments = parseAttachments(body.attachments);
+        if (parsedAttachments.error) {
+          return failure(400, parsedAttachments.error);
+        }
+        const sendAt = parseDateParam(body.sendAt);
+        if (sendAt === null) {
+          return failure(400, "sendAt must be an ISO 8601 date");
+        }
+
+        const fields = {
+          groupId,
+          from,
+          to: recipients,
+          cc: normalizeRecipients(cc),
+          bcc: normalizeRecipients(bcc),
+          subject: text(subject) ?? DEFAULT_SUBJECT,
+          body: body.body
+        };
+        const composed = composeNewMessage(db, fields);
+        if (composed.error) {
+          return failure(composed.error.status, composed.error.message);
+        }
+        const outgoing: Outgoing = {
+          message: composed.message,
+          attachments: parsedAttachments.attachments,
+          scheduleAs: { ...fields, kind: "new", threadId: null, replyToMessageId: null }
+        };
+        return this.send(outgoing, sendAt, { scheduled: "Email scheduled", sent: "Email sent" }, (message, attachments) => ({
+          messageId: message.messageid,
+          threadId: message.threadId,
+          newThreadCreated: true,
+          attachments: attachments.map(serializeAttachment)
+        }));
+      }),
+
+      route("POST", "emails/reply", {}, call => this.reply(call, false)),
+      route("POST", "emails/reply-all", {}, call => this.reply(call, true)),
+
+      route("POST", "emails/forward", {}, ({ body }) => {
+        const { groupId, threadId, messageId, from, to, cc, bcc, note } = body;
+        if (typeof threadId !== "string" || !threadId || messageId === undefined || typeof from !== "string" || !from || !to) {
+          return failure(400, "Missing required fields: threadId, messageId, from, to");
+        }
+        if (note !== undefined && typeof note !== "string") {
+          return failure(400, "note must be a string");
+        }
+        const recipients = normalizeRecipients(to);
+        if (recipients.length === 0) {
+          return failure(400, "Recipient list cannot be empty");
+        }
+        const sendAt = parseDateParam(body.sendAt);
+        if (sendAt === null) {
+          return failure(400, "sendAt must be an ISO 8601 date");
+        }
+
+        const addressing = { from, to: recipients, cc: normalizeRecipients(cc), bcc: normalizeRecipients(bcc) };
+        const composed = composeForward(db, {
+          ...addressing,
+          groupId: text(groupId),
+          threadId,
+          messageId: String(messageId),
+          note: note?.trim()
+        });
+        if (composed.error) {
+          return failure(composed.error.status, composed.error.message);
+        }
+        const { message } = composed;
+        const outgoing: Outgoing = {
+          message,
+          attachments: composed.attachments,
+          scheduleAs: {
+            ...addressing,
+            groupId: message.groupId,
+            kind: "new",
+            subject: message.subject ?? null,
+            body: message.body,
+            threadId: null,
+            replyToMessageId: null,
+            forwardedFrom: message.forwardedFrom
+          }
+        };
+        return this.send(outgoing, sendAt, { scheduled: "Forward scheduled", sent: "Email forwarded" }, (sent, attachments) => ({
+          messageId: sent.messageid,
+          threadId: sent.threadId,
+          newThreadCreated: true,
+          forwardedFrom: sent.forwardedFrom,
+          attachments: attachments.map(serializeAttachment)
+        }));
+      }),
+
+      route("GET", "scheduled", { query: ["from"] }, ({ query }) => {
+        const from = query.from || undefined;
+        const status = query.status || undefined;
+        if (status !== undefined && !SCHEDULED_STATUSES.includes(status as schema.ScheduledMessageStatus)) {
+          return failure(400, `status must be one of: ${SCHEDULED_STATUSES.join(", ")}`);
+        }
+        const resolved = lookupGroupId(db, query.groupId);
+        if (resolved.error) {
+          return failure(resolved.error.status, resolved.error.message);
+        }
+        const scheduled = db.listScheduledMessages(resolved.groupId, {
+          from,
+          status: status as schema.ScheduledMessageStatus | undefined
+        });
+        return success(scheduled.map(serializeScheduledMessage));
+      }),
+
+      // Cancels a message that has not been delivered yet
+      route("DELETE", "scheduled/:scheduledId", {}, ({ params }) => {
+        const { scheduledId } = params;
+        const scheduled = db.getScheduledMessage(scheduledId!);
+        if (!scheduled) {
+          return failure(404, `Scheduled message ${scheduledId} not found`);
+        }
+        if (scheduled.status !== "pending") {
+          return failure(409, `Scheduled message ${scheduledId} has status '${scheduled.status}' and can no longer be cancelled`);
+        }
+        db.deleteScheduledMessage(scheduledId!);
+        return success({ scheduledId }, "Scheduled message cancelled");
+      }),
+
+      route("GET", "drafts", {}, ({ query }) => {
+        if (!query.agentAddress) {
+          return failure(400, "agentAddress query parameter is required");
+        }
+        const resolved = lookupGroupId(db, query.groupId);
+        if (resolved.error) {
+          return failure(resolved.error.status, resolved.error.message);
+        }
+        return success(db.listDrafts(resolved.groupId, query.agentAddress).map(serializeDraft));
+      }),
+
+      route("POST", "drafts", {}, ({ body }) => {
+        const groupId = text(body.groupId);
+        const threadId = text(body.threadId);
+        const from = text(body.from);
+        const kind: unknown = body.kind ?? (threadId ? "reply" : "new");
+        if (!from || (!groupId && !threadId)) {
+          return failure(400, "Missing required fields: from, and groupId or threadId");
+        }
+        if (!DRAFT_KINDS.includes(kind as schema.DraftKind)) {
+          return failure(400, `kind must be one of: ${DRAFT_KINDS.join(", ")}`);
+        }
+        const draftKind = kind as schema.DraftKind;
+        if (draftKind === "new" ? body.threadId !== undefined : !threadId) {
+          return failure(400, draftKind === "new" ? "threadId is only allowed on reply drafts" : "Reply drafts require threadId");
+        }
+        const fieldError = draftUpdateError(body, draftKind);
+        if (fieldError) {
+          return failure(400, fieldError);
+        }
+
+        let draftGroupId = groupId;
+        if (threadId) {
+          const thread = db.getThread(threadId);
+          if (!thread) {
+            return failure(404, `Thread ${threadId} not found`);
+          }
+          if (groupId && groupId !== thread.groupId) {
+            return failure(400, `Thread ${threadId} does not belong to group ${groupId}`);
+          }
+          draftGroupId = thread.groupId;
+        } else if (!db.getGroup(groupId!)) {
+          return failure(404, `Group ${groupId} not found`);
+        }
+
+        const draft = new schema.Draft(draftGroupId!, from, draftKind, threadId ?? null);
+        applyDraftUpdate(draft, body);
+        draft.updatedAt = draft.createdAt;
+        db.saveDraft(draft);
+        return success(serializeDraft(draft), "Draft saved", 201);
+      }),
+
+      route("PATCH", "drafts/:draftId", {}, ({ params, body }) => {
+        const { draftId } = params;
+        const draft = db.getDraft(draftId!);
+        if (!draft) {
+          return failure(404, `Draft ${draftId} not found`);
+        }
+        if (["from", "groupId", "threadId", "kind"].some(field => body[field] !== undefined)) {
+          return failure(400, "from, groupId, threadId and kind cannot be changed; create a new draft instead");
+        }
+        const fieldError = draftUpdateError(body, draft.kind);
+        if (fieldError) {
+          return failure(400, fieldError);
+        }
+
+        applyDraftUpdate(draft, body);
+        db.saveDraft(draft);
+        return success(serializeDraft(draft), "Draft updated");
+      }),
+
+      route("DELETE", "drafts/:draftId", {}, ({ params }) => {
+        const { draftId } = params;
+        if (!db.deleteDraft(draftId!)) {
+          return failure(404, `Draft ${draftId} not found`);
+        }
+        return success({ draftId }, "Draft deleted");
+      }),
+
+      // Sends through the same checks as emails/write and emails/reply; the draft is kept if they fail
+      route("POST", "drafts/:draftId/send", {}, ({ params, body }) => {
+        const { draftId } = params;
+        const parsedAttachments = parseAttachments(body.attachments);
+        if (parsedAttachments.error) {
+          return failure(400, parsedAttachments.error);
+        }
+        const draft = db.getDraft(draftId!);
+        if (!draft) {
+          return failure(404, `Draft ${draftId} not found`);
+        }
+        const composed = composeOutgoing(db, draft);
+        if (composed.error) {
+          return failure(composed.error.status, composed.error.message);
+        }
+
+        const { message } = composed;
+        const attachments = db.transaction(() => {
+          db.deleteDraft(draft.id);
+          return deliverMessage(db, message, parsedAttachments.attachments);
+        });
+        return success({
+          draftId: draft.id,
+          messageId: message.messageid,
+          threadId: message.threadId,
+          newThreadCreated: draft.kind === "new",
+          attachments: attachments.map(serializeAttachment)
+        }, "Draft sent", 201);
+      }),
+
+      route("GET", "inbox/short", {}, call => this.inbox(call, serializeShortMessage)),
+
+      route("GET", "inbox", {}, call => this.inbox(call, (message, agentAddress) => serializeMessage(
+        message,
+        agentAddress,
+        agentAddress ? db.getMessageLabels(message.threadId!, message.messageid, agentAddress) : undefined
+      ))),
+
+      // Only the JSON form: there is no response stream to send a raw download on
+      route("GET", "attachments/:attachmentId", {}, ({ params }) => {
+        const { attachmentId } = params;
+        const attachment = db.getAttachment(attachmentId!);
+        const content = attachment ? db.getAttachmentContent(attachmentId!) : null;
+        if (!attachment || !content) {
+          return failure(404, `Attachment ${attachmentId} not found`);
+        }
+        return success({ ...serializeAttachment(attachment), contentBase64: content.toString("base64") });
+      }),
+
+      route("GET", "search", {}, ({ query }) => {
+        const q = query.q?.trim() ?? "";
+        if (!q) {
+          return failure(400, "Missing required query parameter: q");
+        }
+        const since = parseDateParam(query.since);
+        const until = parseDateParam(query.until);
+        if (since === null || until === null) {
+          return failure(400, "since and until must be valid ISO 8601 dates");
+        }
+        const resolved = lookupGroupId(db, query.groupId);
+        if (resolved.error) {
+          return failure(resolved.error.status, resolved.error.message);
+        }
+
+        // Limits results to the agent's own mail and hides bcc lists it should not see
+        const { agentAddress } = query;
+        const results = db.searchMessages(q, {
+          groupId: resolved.groupId,
+          from: query.from,
+          to: query.to,
+          participant: agentAddress,
+          threadId: query.threadId,
+          since,
+          until,
+          limit: parseLimit(query.limit, DEFAULT_LIMIT)
+        });
+        return success(results.map(result => serializeSearchResult(result, agentAddress)));
+      }),
+
+      route("GET", "messages/:messageId", {}, ({ params, query }) => {
+        const { messageId } = params;
+        const { threadId, groupId, agentAddress } = query;
+        if (groupId && !db.getGroup(groupId)) {
+          return failure(404, `Group ${groupId} not found`);
+        }
+
+        if (threadId) {
+          const message = db.getMessage(threadId, messageId!);
+          return message
+            ? success(serializeMessage(message, agentAddress))
+            : failure(404, `Message ${messageId} not found in thread ${threadId}`);
+        }
+
+        const matches = db.findMessagesById(messageId!, groupId);
+        if (matches.length === 0) {
+          return failure(404, `Message ${messageId} not found`);
+        }
+        if (matches.length > 1) {
+          return {
+            status: 400,
+            body: {
+              success: false,
+              message: "Multiple messages found with that messageId. Provide threadId to disambiguate.",
+              data: matches.map(m => ({ threadId: m.threadId, groupId: m.groupId }))
+            }
+          };
+        }
+        return success(serializeMessage(matches[0]!, agentAddress));
+      }),
+
+      route("GET", "threads", { query: ["agentAddress", "participant"] }, ({ query, principal }) => {
+        const since = parseDateParam(query.since);
+        if (since === null) {
+          return failure(400, "since must be a valid ISO 8601 date");
+        }
+        const resolved = lookupGroupId(db, query.groupId);
+        if (resolved.error) {
+          return failure(resolved.error.status, resolved.error.message);
+        }
+
+        const summaries = db.listThreadSummaries(resolved.groupId, {
+          participant: query.participant,
+          since,
+          agent: query.agentAddress,
+          // Agents only learn about the messages they were part of, even in threads they share
+          visibleTo: principal.role === "agent" ? principal.agent : undefined,
+          limit: query.limit !== undefined ? parseLimit(query.limit) : undefined
+        });
+        return success(summaries.map(summary => serializeThreadSummary(summary, query.agentAddress)));
+      }),
+
+      route("GET", "threads/:threadId", {}, ({ params, query, principal }) => {
+        const { threadId } = params;
+        const { agentAddress } = query;
+        const cursor = parseCursor(query.cursor);
+        if (cursor === null) {
+          return failure(400, "Invalid cursor");
+        }
+        // Threads are returned whole unless the caller asks for a page
+        const limit = query.limit !== undefined || cursor ? parseLimit(query.limit) : undefined;
+        const hideTrashedFor = agentAddress && !parseBoolean(query.includeTrashed) ? agentAddress : undefined;
+
+        const thread = db.getThread(threadId!);
+        if (!thread) {
+          return failure(404, `Thread ${threadId} not found`);
+        }
+        const visibleTo = principal.role === "agent" ? principal.agent : undefined;
+        const page = db.pageMessagesByThread(threadId!, { limit, cursor, hideTrashedFor, visibleTo });
+        const messages = page.messages.map(message => serializeMessage(
+          message,
+          agentAddress,
+          agentAddress ? db.getMessageLabels(threadId!, message.messageid, agentAddress) : undefined
+        ));
+        return {
+          status: 200,
+          body: {
+            success: true,
+            data: {
+              thread: visibleTo
+                ? { ...thread, messages: db.listThreadMessageIdsForParticipant(threadId!, visibleTo) }
+                : thread,
+              messages
+            },
+            ...pageCursors(page)
+          }
+        };
+      }),
+
+      route("POST", "messages/:messageId/labels", {}, call => this.updateMessageLabels(call, requestedLabels(call), "Labels updated")),
+      route("POST", "threads/:threadId/labels", {}, call => this.updateThreadLabels(call, requestedLabels(call), "Labels updated")),
+      // Deleting only moves mail to the agent's Trash; nobody else's view changes
+      route("POST", "messages/:messageId/delete", {}, call => this.updateMessageLabels(call, { add: ["Trash"] }, "Message moved to Trash")),
+      route("POST", "messages/:messageId/restore", {}, call => this.updateMessageLabels(call, { remove: ["Trash"] }, "Message restored")),
+      route("POST", "threads/:threadId/delete", {}, call => this.updateThreadLabels(call, { add: ["Trash"] }, "Thread moved to Trash")),
+      route("POST", "threads/:threadId/restore", {}, call => this.updateThreadLabels(call, { remove: ["Trash"] }, "Thread restored")),
+
+      route("POST", "messages/:messageId/read", {}, call => this.setMessageReadState(call, true)),
+      route("POST", "messages/:messageId/unread", {}, call => this.setMessageReadState(call, false)),
+      route("POST", "threads/:threadId/read", {}, call => this.setThreadReadState(call, true)),
+      route("POST", "threads/:threadId/unread", {}, call => this.setThreadReadState(call, false)),
+
+      route("GET", "snapshots", "admin", () => this.snapshots
+        ? success(this.snapshots.list())
+        : failure(503, "Snapshots are not enabled on this server")),
+
+      route("POST", "snapshots", "admin", async ({ body }) => {
+        const { name, groupId = null } = body;
+        if (!this.snapshots) {
+          return failure(503, "Snapshots are not enabled on this server");
+        }
+        if (typeof name !== "string" || !SNAPSHOT_NAME_PATTERN.test(name)) {
+          return failure(400, "name must start with a letter or digit and contain only letters, digits, '.', '_' or '-'");
+        }
+        if (groupId !== null && typeof groupId !== "string") {
+          return failure(400, "groupId must be a string");
+        }
+        if (groupId && !db.getGroup(groupId)) {
+          return failure(404, `Group ${groupId} not found`);
+        }
+        if (this.snapshots.get(name)) {
+          return failure(409, `Snapshot ${name} already exists`);
+        }
+        return success(await this.snapshots.create(name, groupId), "Snapshot created", 201);
+      }),
+
+      // Atomic, so agents that keep working during a restore see the old mailbox or the restored one, never a mix
+      route("POST", "snapshots/:name/restore", "admin", ({ params }) => {
+        if (!this.snapshots) {
+          return failure(503, "Snapshots are not enabled on this server");
+        }
+        const snapshot = this.snapshots.restore(params.name!);
+        return snapshot ? success(snapshot, "Snapshot restored") : failure(404, `Snapshot ${params.name} not found`);
+      }),
+
+      route("DELETE", "snapshots/:name", "admin", ({ params }) => {
+        if (!this.snapshots) {
+          return failure(503, "Snapshots are not enabled on this server");
+        }
+        return this.snapshots.delete(params.name!)
+          ? success(undefined, "Snapshot deleted")
+          : failure(404, `Snapshot ${params.name} not found`);
+      })
+    ];
+  }
+}
+
+export interface EmbeddedMode {
+  api: EmbeddedApi;
+  token?: string;                      // With auth on, an admin token only this process knows, for the calls it makes as itself
+  close(): void;
+}
+
+// Opens DB_PATH and starts the background jobs src/index.ts runs, reading ATTACHMENT_DIR, SNAPSHOT_DIR, SEED_FILE,
+// ADMIN_TOKEN(S) and TRASH_RETENTION_DAYS as it does. There is no setup wizard, since it would read the terminal;
+// SEED_FILE fills an empty database instead.
+export function startEmbeddedMode(): EmbeddedMode {
+  const dbPath = process.env.DB_PATH || path.join(process.cwd(), "data", "email.db");
+  const dbService = new DatabaseService(initDatabase(dbPath), { attachmentDir: process.env.ATTACHMENT_DIR || undefined });
+
+  if (SEED_FILE) {
+    const groups = seedEmptyDatabase(dbService, SEED_FILE);
+    if (groups.length > 0) {
+      console.log(`Seeded ${groups.map(group => group.id).join(", ")} from ${SEED_FILE}`);
+    }
+  }
+
+  const adminTokens = readAdminTokens();
+  const token = adminTokens.length > 0 ? generateToken() : undefined;
+  const snapshotDir = process.env.SNAPSHOT_DIR || path.join(path.dirname(dbPath), "snapshots");
+  const api = new EmbeddedApi(dbService, { snapshotDir, adminTokens: token ? [...adminTokens, token] : [] });
+
+  const webhookDispatcher = new WebhookDispatcher(dbService);
+  const deliveryScheduler = new DeliveryScheduler(dbService);
+  const trashRetentionDays = Number(process.env.TRASH_RETENTION_DAYS || 30);
+  const trashPurger = new TrashPurger(dbService, { retentionMs: trashRetentionDays * 24 * 60 * 60 * 1000 });
+  webhookDispatcher.start();
+  deliveryScheduler.start();
+  if (trashRetentionDays > 0) {
+    trashPurger.start();
+  }
+
+  return {
+    api,
+    token,
+    close: () => {
+      webhookDispatcher.stop();
+      deliveryScheduler.stop();
+      trashPurger.stop();
+      dbService.close();
+    }
+  };
+}
@@ -0,0 +1,59 @@
+import { EventEmitter } from "events";
+import { GroupId, ThreadId, MessageId, AgentAddress, Message, Thread, ScheduledMessage } from "../schema.js";
+
+export type MailEvent =
+  | { type: "thread.created"; groupId: GroupId; thread: Thread }
+  | { type: "message.created"; groupId: GroupId; message: Message }
+  | { type: "message.scheduled"; groupId: GroupId; scheduled: ScheduledMessage }
+  | {
+    type: "message.deleted";
+    groupId: GroupId;
+    threadId: ThreadId;
+    messageIds: MessageId[];
+    participants: AgentAddress[];        // Senders and recipients, including bcc, of the deleted messages
+    threadDeleted: boolean;
+  }
+  | { type: "mailbox.restored"; groupId: GroupId }   // The group's mail was restored, imported, reset or reseeded
+  | {
+    type: "message.read" | "message.unread";
+    groupId: GroupId;
+    threadId: ThreadId;
+    messageIds: MessageId[];
+    agent: AgentAddress;
+  };
+
+export type MailEventType = MailEvent["type"];
+
+// Events carry a monotonically increasing id so SSE clients can tell them apart
+export type PublishedMailEvent = MailEvent & { id: number; emittedAt: string };
+
+export type MailEventListener = (event: PublishedMailEvent) => void;
+
+// In-process pub/sub for mailbox changes. DatabaseService publishes; SSE streams subscribe.
+export class MailEventBus {
+  private emitter = new EventEmitter();
+  private sequence = 0;
+
+  constructor() {
+    // One listener per open SSE connection, so the default cap of 10 is too low
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: MailEvent): void {
+    this.sequence += 1;
+    const published: PublishedMailEvent = {
+      ...event,
+      id: this.sequence,
+      emittedAt: new Date().toISOString()
+    };
+    this.emitter.emit("event", published);
+  }
+
+  // Returns an unsubscribe function
+  subscribe(listener: MailEventListener): () => void {
+    this.emitter.on("event", listener);
+    return () => {
+      this.emitter.off("event", listener);
+    };
+  }
+}
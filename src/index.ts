@@ -1,27 +1,64 @@
 import { runWizardIfNeeded } from "./config/initWizard.js";
+import { SEED_FILE, seedEmptyDatabase } from "./config/seed.js";
 import { initDatabase } from "./db/init.js";
 import { DatabaseService } from "./db/service.js";
 import path from "path";
 import { createApp } from "./app.js";
+import { WebhookDispatcher } from "./webhooks/dispatcher.js";
+import { DeliveryScheduler } from "./scheduler/scheduler.js";
+import { TrashPurger } from "./scheduler/purger.js";
+import { readAdminTokens } from "./auth/tokens.js";
 
 // Set up SQLite db first
 const dbPath = process.env.DB_PATH || path.join(process.cwd(), "data", "email.db");
 const db = initDatabase(dbPath);
-const dbService = new DatabaseService(db);
+// Attachments are stored in the database unless ATTACHMENT_DIR points at a directory (e.g. /data/attachments)
+const dbService = new DatabaseService(db, { attachmentDir: process.env.ATTACHMENT_DIR || undefined });
+
+// Named copies of the database for POST /snapshots, kept next to it unless SNAPSHOT_DIR says otherwise
+const snapshotDir = process.env.SNAPSHOT_DIR || path.join(path.dirname(dbPath), "snapshots");
+
+// Setting ADMIN_TOKEN (or a comma-separated ADMIN_TOKENS) makes every request need an admin or agent token
+const app = createApp(dbService, { snapshotDir, adminTokens: readAdminTokens() });
+
+// Sends registered webhooks a signed POST for every delivered message
+const webhookDispatcher = new WebhookDispatcher(dbService);
+
+// Delivers mail sent with a future sendAt once it falls due
+const deliveryScheduler = new DeliveryScheduler(dbService);
+
+// Deletes mail every participant has kept in Trash for TRASH_RETENTION_DAYS (default 30; 0 keeps it forever)
+const trashRetentionDays = Number(process.env.TRASH_RETENTION_DAYS || 30);
+const trashPurger = new TrashPurger(dbService, { retentionMs: trashRetentionDays * 24 * 60 * 60 * 1000 });
 
-const app = createApp(dbService);
 const PORT = Number(process.env.PORT) || 3000;
 
-if (process.env.NODE_ENV !== "test" && process.env.SKIP_WIZARD !== "true") {
+if (process.env.NODE_ENV !== "test" && SEED_FILE) {
+  // A seed file replaces the wizard. It only fills an empty database; POST /admin/seed starts over from it.
+  try {
+    const groups = seedEmptyDatabase(dbService, SEED_FILE);
+    if (groups.length > 0) {
+      console.log(`Seeded ${groups.map(group => group.id).join(", ")} from ${SEED_FILE}`);
+    }
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+  }
+} else if (process.env.NODE_ENV !== "test" && process.env.SKIP_WIZARD !== "true") {
   // Run the initialization wizard if needed (will use dbService to save group)
   await runWizardIfNeeded(dbService);
 }
 
 if (process.env.NODE_ENV !== "test") {
+  webhookDispatcher.start();
+  deliveryScheduler.start();
+  if (trashRetentionDays > 0) {
+    trashPurger.start();
+  }
   app.listen(PORT, () => {
     console.log(`Server listening on http://localhost:${PORT}`);
   });
 }
 
 export default app;
-export { dbService };
+export { dbService, webhookDispatcher, deliveryScheduler, trashPurger };
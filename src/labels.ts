@@ -0,0 +1,78 @@
+// Label names and label changes, shared by the REST routes and the MCP server's embedded mode
+import * as schema from "./schema.js";
+import { DatabaseService } from "./db/service.js";
+
+const LABEL_NAME_MAX_LENGTH = 64;
+
+export function isBuiltInLabel(name: string): boolean {
+  return (schema.BUILT_IN_LABELS as readonly string[]).includes(name);
+}
+
+// Built-in names match case-insensitively, so "archive" means the Archive folder
+export function canonicalLabel(name: string): string {
+  const trimmed = name.trim();
+  return schema.BUILT_IN_LABELS.find(label => label.toLowerCase() === trimmed.toLowerCase()) ?? trimmed;
+}
+
+export function labelNameError(name: unknown): string | null {
+  if (typeof name !== "string" || name.trim() === "") {
+    return "Label name cannot be empty";
+  }
+  if (name.trim().length > LABEL_NAME_MAX_LENGTH) {
+    return `Label names are limited to ${LABEL_NAME_MAX_LENGTH} characters`;
+  }
+  return null;
+}
+
+// Label names to add and remove, as sent by the client
+export interface LabelChanges {
+  add?: unknown;
+  remove?: unknown;
+}
+
+export function labelChangesError(add: unknown, remove: unknown): string | null {
+  const names: unknown[] = [];
+  for (const [field, value] of [["add", add], ["remove", remove]] as const) {
+    if (value === undefined) continue;
+    if (!Array.isArray(value)) {
+      return `${field} must be an array of label names`;
+    }
+    names.push(...value);
+  }
+  if (names.length === 0) {
+    return "Provide at least one label to add or remove";
+  }
+  for (const name of names) {
+    const error = labelNameError(name);
+    if (error) return error;
+  }
+  return null;
+}
+
+// Removals are applied before additions, and custom labels are created the first time they are added
+export function applyLabelChanges(
+  dbService: DatabaseService,
+  thread: schema.Thread,
+  messageIds: schema.MessageId[],
+  agent: schema.AgentAddress,
+  add: string[] = [],
+  remove: string[] = []
+) {
+  const changes = { add: add.map(canonicalLabel), remove: remove.map(canonicalLabel) };
+  dbService.transaction(() => {
+    for (const name of changes.add) {
+      if (!isBuiltInLabel(name) && !dbService.getLabel(thread.groupId, agent, name)) {
+        dbService.createLabel(new schema.Label(thread.groupId, agent, name));
+      }
+    }
+    dbService.updateMessageLabels(thread.threadId, messageIds, agent, changes);
+  });
+  return {
+    threadId: thread.threadId,
+    agentAddress: agent,
+    messages: messageIds.map(messageId => ({
+      messageId,
+      labels: dbService.getMessageLabels(thread.threadId, messageId, agent)
+    }))
+  };
+}
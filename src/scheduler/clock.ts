@@ -0,0 +1,62 @@
+// Time source for scheduled delivery. The system clock is used in production;
+// ManualClock lets tests and simulations move time forward on demand.
+export type ClockTimer = unknown;
+
+export interface Clock {
+  now(): number;                       // Milliseconds since the epoch
+  setTimeout(callback: () => void, delayMs: number): ClockTimer;
+  clearTimeout(timer: ClockTimer): void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delayMs) => setTimeout(callback, delayMs),
+  clearTimeout: timer => clearTimeout(timer as NodeJS.Timeout)
+};
+
+// Time only moves when advance() or set() is called; timers that fall due fire synchronously, in order
+export class ManualClock implements Clock {
+  private current: number;
+  private timers = new Map<number, { at: number; callback: () => void }>();
+  private nextTimerId = 1;
+
+  constructor(start: Date | number = Date.now()) {
+    this.current = typeof start === "number" ? start : start.getTime();
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  setTimeout(callback: () => void, delayMs: number): ClockTimer {
+    const id = this.nextTimerId++;
+    this.timers.set(id, { at: this.current + Math.max(0, delayMs), callback });
+    return id;
+  }
+
+  clearTimeout(timer: ClockTimer): void {
+    this.timers.delete(timer as number);
+  }
+
+  advance(ms: number): void {
+    this.set(this.current + ms);
+  }
+
+  set(time: Date | number): void {
+    const target = typeof time === "number" ? time : time.getTime();
+    while (true) {
+      let nextId: number | null = null;
+      for (const [id, timer] of this.timers) {
+        if (timer.at <= target && (nextId === null || timer.at < this.timers.get(nextId)!.at)) {
+          nextId = id;
+        }
+      }
+      if (nextId === null) break;
+      const timer = this.timers.get(nextId)!;
+      this.timers.delete(nextId);
+      this.current = Math.max(this.current, timer.at);
+      timer.callback();
+    }
+    this.current = Math.max(this.current, target);
+  }
+}
@@ -0,0 +1,59 @@
+import { DatabaseService } from "../db/service.js";
+import { MessageRef } from "../schema.js";
+import { Clock, ClockTimer, systemClock } from "./clock.js";
+
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface TrashPurgerOptions {
+  retentionMs: number;                 // How long a message stays in Trash before it can be purged
+  intervalMs?: number;                 // Time between purges; defaults to an hour
+  clock?: Clock;
+}
+
+// Empties Trash. Moving a message to Trash only hides it from one agent, so a message is deleted for good
+// once every agent in the group that sent or received it has had it in Trash for the retention period.
+export class TrashPurger {
+  private dbService: DatabaseService;
+  private clock: Clock;
+  private retentionMs: number;
+  private intervalMs: number;
+  private timer: ClockTimer | null = null;
+
+  constructor(dbService: DatabaseService, options: TrashPurgerOptions) {
+    this.dbService = dbService;
+    this.clock = options.clock ?? systemClock;
+    this.retentionMs = options.retentionMs;
+    this.intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+  }
+
+  start(): void {
+    if (this.timer !== null) return;
+    this.run();
+  }
+
+  stop(): void {
+    if (this.timer !== null) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Deletes every message that is due to be purged now and returns them
+  purge(): MessageRef[] {
+    const cutoff = new Date(this.clock.now() - this.retentionMs).toISOString();
+    const purgeable = this.dbService.listPurgeableMessages(cutoff);
+    this.dbService.transaction(() => {
+      purgeable.forEach(ref => this.dbService.deleteMessage(ref.threadId, ref.messageId));
+    });
+    return purgeable;
+  }
+
+  private run(): void {
+    try {
+      this.purge();
+    } catch (error) {
+      console.error("Error purging trash:", error);
+    }
+    this.timer = this.clock.setTimeout(() => this.run(), this.intervalMs);
+  }
+}
@@ -0,0 +1,111 @@
+import { DatabaseService } from "../db/service.js";
+import { ScheduledMessage } from "../schema.js";
+import { composeOutgoing, deliverMessage } from "../compose.js";
+import { Clock, ClockTimer, systemClock } from "./clock.js";
+
+// Longest single wait; also keeps system timers well under Node's 2^31 ms limit
+const MAX_WAIT_MS = 60 * 60 * 1000;
+
+export interface DeliverySchedulerOptions {
+  clock?: Clock;                       // Defaults to the system clock; share it with createApp
+}
+
+// Delivers scheduled messages once their send time has passed on the scheduler's clock. It sleeps until the
+// soonest pending message is due and is woken by message.scheduled or mailbox.restored events when something sooner arrives.
+// Pending messages live in the database, so anything that fell due while the process was down is sent on start.
+export class DeliveryScheduler {
+  private dbService: DatabaseService;
+  private clock: Clock;
+  private timer: ClockTimer | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(dbService: DatabaseService, options: DeliverySchedulerOptions = {}) {
+    this.dbService = dbService;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  start(): void {
+    if (this.unsubscribe) return;
+    this.unsubscribe = this.dbService.events.subscribe(event => {
+      if (event.type === "message.scheduled" || event.type === "mailbox.restored") this.arm();
+    });
+    this.run();
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.disarm();
+  }
+
+  // Delivers every pending message that is due now and returns them with their outcome
+  deliverDue(): ScheduledMessage[] {
+    const now = new Date(this.clock.now()).toISOString();
+    const due = this.dbService.listDueScheduledMessages(now);
+    due.forEach(scheduled => this.deliver(scheduled, now));
+    return due;
+  }
+
+  private run(): void {
+    this.timer = null;
+    try {
+      this.deliverDue();
+    } catch (error) {
+      console.error("Error delivering scheduled messages:", error);
+    }
+    this.arm();
+  }
+
+  private arm(): void {
+    if (!this.unsubscribe) return;
+    this.disarm();
+    const next = this.dbService.getNextScheduledSendAt();
+    if (next === null) return;
+    const delayMs = Math.min(Math.max(0, Date.parse(next) - this.clock.now()), MAX_WAIT_MS);
+    this.timer = this.clock.setTimeout(() => this.run(), delayMs);
+  }
+
+  private disarm(): void {
+    if (this.timer !== null) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Sender and recipients are checked again, since they may have changed since the message was scheduled
+  private deliver(scheduled: ScheduledMessage, now: string): void {
+    try {
+      const composed = composeOutgoing(this.dbService, scheduled);
+      if (composed.error) {
+        scheduled.status = "failed";
+        scheduled.error = composed.error.message;
+      } else {
+        const message = composed.message;
+        message.createdAt = now;
+        if (message.spawnedThread) {
+          message.spawnedThread.createdAt = now;
+        }
+        const attachments = scheduled.attachments.map(attachment => ({
+          filename: attachment.filename,
+          mimeType: attachment.mimeType,
+          content: Buffer.from(attachment.content, "base64")
+        }));
+        this.dbService.transaction(() => {
+          deliverMessage(this.dbService, message, attachments);
+          scheduled.status = "sent";
+          scheduled.sentMessage = { threadId: message.threadId!, messageId: message.messageid };
+          scheduled.updatedAt = now;
+          this.dbService.updateScheduledMessageStatus(scheduled);
+        });
+        return;
+      }
+    } catch (error) {
+      console.error(`Error delivering scheduled message ${scheduled.id}:`, error);
+      scheduled.status = "failed";
+      scheduled.sentMessage = null;
+      scheduled.error = error instanceof Error ? error.message : String(error);
+    }
+    scheduled.updatedAt = now;
+    this.dbService.updateScheduledMessageStatus(scheduled);
+  }
+}
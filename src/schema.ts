@@ -4,6 +4,15 @@ export type GroupId = string;       // e.g. "@MacroHard", "@MyAgentWorkflow", "@
 export type AgentAddress = string;  // e.g. "pm", "dev1", "planner"
 export type ThreadId = string;      // UUID (string)
 export type MessageId = string;     // Iterator of the thread e.g. 0, 1, 2, 3, etc.
+export type AttachmentId = string;  // UUID (string)
+export type WebhookId = string;     // UUID (string)
+export type DraftId = string;       // UUID (string)
+export type ScheduledMessageId = string; // UUID (string)
+export type AgentTokenId = string;  // UUID (string)
+
+// Identifier formats accepted when groups and agents are created or renamed
+export const GROUP_ID_PATTERN = /^@[A-Za-z0-9][A-Za-z0-9_.-]{0,63}$/;
+export const AGENT_HANDLE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]{0,63}$/;
 
 // A group represents a collection of agents working together
 export class Group {
@@ -58,18 +67,47 @@ export class Thread {
   }
 }
 
+export type RecipientField = "to" | "cc" | "bcc";
+
+export interface MessageRef {
+  threadId: ThreadId;
+  messageId: MessageId;
+}
+
+// Records that an alias named in a recipient field was replaced by its members at send time
+export interface AliasExpansion {
+  alias: string;
+  field: RecipientField;
+  members: AgentAddress[];
+}
+
 export class Message {
   groupId: GroupId;
   threadId?: ThreadId;
   messageid: MessageId;                       // Index within this thread: 0, 1, 2, ...
   from: AgentAddress;
   to: AgentAddress[];                  //list of agents to recieve email
+  cc: AgentAddress[];                  //agents copied on the email, visible to everyone
+  bcc: AgentAddress[];                 //blind copies, visible only to the sender and each BCC'd agent
   subject?: string;                    // Optional override; usually same as Thread.subject
   body: string;
   createdAt: string;                   // ISO 8601
+  readBy: AgentAddress[];              // Recipients who have marked this message as read
+  attachments: Attachment[];           // Metadata only; content is fetched separately
+  aliasExpansions: AliasExpansion[];   // Aliases the sender addressed, already expanded into to/cc/bcc
+  forwardedFrom: MessageRef | null;    // The message this one forwards, if any
   spawnedThread?: Thread;              // The thread created with this message (if any)
 
-  constructor(groupId: GroupId, from: AgentAddress, to: AgentAddress[], body: string, threadId?: ThreadId, subject?: string) {
+  constructor(
+    groupId: GroupId,
+    from: AgentAddress,
+    to: AgentAddress[],
+    body: string,
+    threadId?: ThreadId,
+    subject?: string,
+    cc: AgentAddress[] = [],
+    bcc: AgentAddress[] = []
+  ) {
     this.groupId = groupId;
 
     if (!threadId) {
@@ -87,8 +125,268 @@ export class Message {
 
     this.from = from;
     this.to = to;
+    this.cc = cc;
+    this.bcc = bcc;
     this.subject = subject ?? "";
     this.body = body;
     this.createdAt = new Date().toISOString();
+    this.readBy = [];
+    this.attachments = [];
+    this.aliasExpansions = [];
+    this.forwardedFrom = null;
+  }
+
+  recipients(): AgentAddress[] {
+    return Array.from(new Set([...this.to, ...this.cc, ...this.bcc]));
+  }
+}
+
+export type DraftKind = "new" | "reply" | "reply-all";
+
+// An unsent message owned by its author. Nothing is validated until it is sent;
+// reply drafts take their recipients and subject from the thread at that point.
+export class Draft {
+  id: DraftId;
+  groupId: GroupId;
+  from: AgentAddress;
+  kind: DraftKind;
+  to: string[];                        // Agent handles or alias names, as typed
+  cc: string[];
+  bcc: string[];
+  subject: string | null;
+  body: string;
+  threadId: ThreadId | null;           // Set for reply and reply-all drafts
+  replyToMessageId: MessageId | null;  // null = the latest message in the thread when sent
+  createdAt: string;
+  updatedAt: string;
+
+  constructor(groupId: GroupId, from: AgentAddress, kind: DraftKind = "new", threadId: ThreadId | null = null) {
+    this.id = randomUUID();
+    this.groupId = groupId;
+    this.from = from;
+    this.kind = kind;
+    this.to = [];
+    this.cc = [];
+    this.bcc = [];
+    this.subject = null;
+    this.body = "";
+    this.threadId = threadId;
+    this.replyToMessageId = null;
+    this.createdAt = new Date().toISOString();
+    this.updatedAt = this.createdAt;
+  }
+}
+
+export type ScheduledMessageStatus = "pending" | "sent" | "failed";
+
+// Attachment content held until its scheduled message is delivered
+export interface PendingAttachment {
+  filename: string;
+  mimeType: string;
+  content: string;                     // base64
+}
+
+// A message accepted now and delivered at sendAt. It is checked when scheduled and again on delivery,
+// since agents and aliases may change in between; a message that no longer validates is marked failed.
+export class ScheduledMessage {
+  id: ScheduledMessageId;
+  groupId: GroupId;
+  from: AgentAddress;
+  kind: DraftKind;
+  to: string[];                        // Agent handles or alias names, expanded on delivery
+  cc: string[];
+  bcc: string[];
+  subject: string | null;
+  body: string;
+  threadId: ThreadId | null;           // Set for replies
+  replyToMessageId: MessageId | null;  // null = the latest message in the thread on delivery
+  forwardedFrom: MessageRef | null;    // Set for forwards, whose subject and body are quoted when scheduled
+  attachments: PendingAttachment[];
+  sendAt: string;                      // ISO 8601
+  status: ScheduledMessageStatus;
+  sentMessage: MessageRef | null;      // The delivered message, once sent
+  error: string | null;                // Why delivery failed
+  createdAt: string;
+  updatedAt: string;
+
+  constructor(groupId: GroupId, from: AgentAddress, kind: DraftKind, sendAt: string) {
+    this.id = randomUUID();
+    this.groupId = groupId;
+    this.from = from;
+    this.kind = kind;
+    this.to = [];
+    this.cc = [];
+    this.bcc = [];
+    this.subject = null;
+    this.body = "";
+    this.threadId = null;
+    this.replyToMessageId = null;
+    this.forwardedFrom = null;
+    this.attachments = [];
+    this.sendAt = sendAt;
+    this.status = "pending";
+    this.sentMessage = null;
+    this.error = null;
+    this.createdAt = new Date().toISOString();
+    this.updatedAt = this.createdAt;
+  }
+}
+
+// Every agent has these folders. Inbox, Archive and Trash are mutually exclusive locations: a message
+// the agent received is in Inbox unless it is archived or trashed. Starred, like custom labels, is a tag.
+export const BUILT_IN_LABELS = ["Inbox", "Archive", "Starred", "Trash"] as const;
+export type BuiltInLabel = typeof BUILT_IN_LABELS[number];
+export const LOCATION_LABELS: readonly BuiltInLabel[] = ["Inbox", "Archive", "Trash"];
+
+// A label an agent created to organize its own mail
+export class Label {
+  groupId: GroupId;
+  agent: AgentAddress;
+  name: string;
+  createdAt: string;
+
+  constructor(groupId: GroupId, agent: AgentAddress, name: string) {
+    this.groupId = groupId;
+    this.agent = agent;
+    this.name = name;
+    this.createdAt = new Date().toISOString();
+  }
+}
+
+// A group-scoped distribution list; sending to its name delivers to every member
+export class Alias {
+  groupId: GroupId;
+  name: string;
+  members: AgentAddress[];
+  createdAt: string;
+
+  constructor(groupId: GroupId, name: string, members: AgentAddress[]) {
+    this.groupId = groupId;
+    this.name = name;
+    this.members = members;
+    this.createdAt = new Date().toISOString();
   }
-}
\ No newline at end of file
+}
+
+// A file attached to a message. Content lives in the database or on disk, never on this object.
+export class Attachment {
+  id: AttachmentId;
+  threadId: ThreadId;
+  messageId: MessageId;
+  filename: string;
+  mimeType: string;
+  size: number;                        // bytes
+  sha256: string;                      // hex digest of the content
+  createdAt: string;
+
+  constructor(threadId: ThreadId, messageId: MessageId, filename: string, mimeType: string, size: number, sha256: string) {
+    this.id = randomUUID();
+    this.threadId = threadId;
+    this.messageId = messageId;
+    this.filename = filename;
+    this.mimeType = mimeType;
+    this.size = size;
+    this.sha256 = sha256;
+    this.createdAt = new Date().toISOString();
+  }
+}
+
+// Describes what an agent does, so other agents can decide whom to email
+export class AgentProfile {
+  groupId: GroupId;
+  agent: AgentAddress;
+  displayName: string | null;
+  role: string | null;
+  description: string | null;
+  capabilities: string[];
+  owner: string | null;                // Person or system responsible for the agent
+  metadata: Record<string, unknown>;   // Free-form, e.g. a system prompt or model settings
+  updatedAt: string;
+
+  constructor(groupId: GroupId, agent: AgentAddress) {
+    this.groupId = groupId;
+    this.agent = agent;
+    this.displayName = null;
+    this.role = null;
+    this.description = null;
+    this.capabilities = [];
+    this.owner = null;
+    this.metadata = {};
+    this.updatedAt = new Date().toISOString();
+  }
+}
+
+// An external endpoint notified whenever mail is delivered in a group, or to one agent when agent is set
+export class Webhook {
+  id: WebhookId;
+  groupId: GroupId;
+  agent: AgentAddress | null;          // null = every recipient in the group
+  url: string;
+  secret: string;                      // HMAC-SHA256 signing key
+  active: boolean;
+  createdAt: string;
+
+  constructor(groupId: GroupId, url: string, secret: string, agent: AgentAddress | null = null) {
+    this.id = randomUUID();
+    this.groupId = groupId;
+    this.agent = agent;
+    this.url = url;
+    this.secret = secret;
+    this.active = true;
+    this.createdAt = new Date().toISOString();
+  }
+}
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+// One attempt-tracked POST of one message to one webhook, on behalf of one recipient
+export class WebhookDelivery {
+  id: string;
+  webhookId: WebhookId;
+  threadId: ThreadId;
+  messageId: MessageId;
+  agent: AgentAddress;                 // The recipient this delivery announces mail for
+  payload: string;                     // Exact JSON body that is signed and sent on every attempt
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+
+  constructor(webhookId: WebhookId, threadId: ThreadId, messageId: MessageId, agent: AgentAddress, payload: string) {
+    this.id = randomUUID();
+    this.webhookId = webhookId;
+    this.threadId = threadId;
+    this.messageId = messageId;
+    this.agent = agent;
+    this.payload = payload;
+    this.status = "pending";
+    this.attempts = 0;
+    this.lastStatusCode = null;
+    this.lastError = null;
+    this.createdAt = new Date().toISOString();
+    this.updatedAt = this.createdAt;
+    this.nextAttemptAt = this.createdAt;
+  }
+}
+
+// A bearer token that lets its holder act as one agent of one group. Only a hash of the token is kept.
+export class AgentToken {
+  id: AgentTokenId;
+  groupId: GroupId;
+  agent: AgentAddress;
+  name: string | null;                 // What the token is for, e.g. the MCP client that holds it
+  tokenHash: string;                   // SHA-256 of the token, hex encoded
+  createdAt: string;
+
+  constructor(groupId: GroupId, agent: AgentAddress, tokenHash: string, name: string | null = null) {
+    this.id = randomUUID();
+    this.groupId = groupId;
+    this.agent = agent;
+    this.name = name;
+    this.tokenHash = tokenHash;
+    this.createdAt = new Date().toISOString();
+  }
+}
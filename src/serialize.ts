@@ -0,0 +1,269 @@
+// Response shapes shared by the REST routes, outgoing webhook payloads and the MCP server's embedded mode
+import * as schema from "./schema.js";
+import { DatabaseService, MessageCursor, MessagePage, MessageSearchResult, ThreadSummary } from "./db/service.js";
+import { PublishedMailEvent } from "./events/bus.js";
+
+const BODY_PREVIEW_LENGTH = 500;
+
+export function serializeAttachment(attachment: schema.Attachment) {
+  return {
+    attachmentId: attachment.id,
+    filename: attachment.filename,
+    mimeType: attachment.mimeType,
+    size: attachment.size,
+    sha256: attachment.sha256,
+    createdAt: attachment.createdAt,
+    downloadUrl: `/attachments/${attachment.id}`
+  };
+}
+
+// BCC recipients are only visible to the sender; a BCC'd agent sees only itself
+function visibleBcc(message: schema.Message, viewer?: schema.AgentAddress): schema.AgentAddress[] {
+  if (!viewer) return [];
+  if (viewer === message.from) return message.bcc;
+  return message.bcc.includes(viewer) ? [viewer] : [];
+}
+
+// When a viewer is given, the message is rendered from that agent's point of view, with its labels if passed
+export function serializeMessage(message: schema.Message, viewer?: schema.AgentAddress, labels?: string[]) {
+  const bcc = visibleBcc(message, viewer);
+  const hiddenBcc = new Set(message.bcc.filter(agent => !bcc.includes(agent)));
+  return {
+    messageId: message.messageid,
+    threadId: message.threadId,
+    groupId: message.groupId,
+    from: message.from,
+    to: message.to,
+    cc: message.cc,
+    bcc,
+    subject: message.subject,
+    body: message.body,
+    createdAt: message.createdAt,
+    readBy: message.readBy.filter(agent => !hiddenBcc.has(agent)),
+    // Like bcc itself, a bcc'd alias and its members are only shown to the sender
+    aliases: message.aliasExpansions.filter(e => e.field !== "bcc" || viewer === message.from),
+    forwardedFrom: message.forwardedFrom,
+    attachments: message.attachments.map(serializeAttachment),
+    ...(viewer ? { read: message.readBy.includes(viewer) } : {}),
+    ...(labels ? { labels } : {})
+  };
+}
+
+export function serializeShortMessage(message: schema.Message, viewer?: schema.AgentAddress) {
+  return {
+    messageId: message.messageid,
+    threadId: message.threadId,
+    groupId: message.groupId,
+    from: message.from,
+    subject: message.subject,
+    bodyPreview: message.body.slice(0, BODY_PREVIEW_LENGTH),
+    createdAt: message.createdAt,
+    attachmentCount: message.attachments.length,
+    ...(viewer ? { read: message.readBy.includes(viewer) } : {})
+  };
+}
+
+export function serializeThreadSummary(summary: ThreadSummary, viewer?: schema.AgentAddress) {
+  return {
+    threadId: summary.thread.threadId,
+    groupId: summary.thread.groupId,
+    subject: summary.thread.subject,
+    createdBy: summary.thread.createdBy,
+    createdAt: summary.thread.createdAt,
+    participants: summary.participants,
+    messageCount: summary.messageCount,
+    lastActivityAt: summary.lastActivityAt,
+    lastMessage: serializeShortMessage(summary.lastMessage, viewer),
+    ...(summary.unreadCount !== null ? { unreadCount: summary.unreadCount } : {})
+  };
+}
+
+export function serializeAlias(alias: schema.Alias) {
+  return {
+    name: alias.name,
+    groupId: alias.groupId,
+    members: alias.members,
+    createdAt: alias.createdAt
+  };
+}
+
+export function serializeLabel(label: schema.Label) {
+  return {
+    groupId: label.groupId,
+    agentAddress: label.agent,
+    name: label.name,
+    createdAt: label.createdAt
+  };
+}
+
+export function serializeAgentProfile(profile: schema.AgentProfile) {
+  return {
+    agentAddress: profile.agent,
+    groupId: profile.groupId,
+    displayName: profile.displayName,
+    role: profile.role,
+    description: profile.description,
+    capabilities: profile.capabilities,
+    owner: profile.owner,
+    metadata: profile.metadata,
+    updatedAt: profile.updatedAt
+  };
+}
+
+export function serializeDraft(draft: schema.Draft) {
+  return {
+    draftId: draft.id,
+    groupId: draft.groupId,
+    from: draft.from,
+    kind: draft.kind,
+    to: draft.to,
+    cc: draft.cc,
+    bcc: draft.bcc,
+    subject: draft.subject,
+    body: draft.body,
+    threadId: draft.threadId,
+    replyToMessageId: draft.replyToMessageId,
+    createdAt: draft.createdAt,
+    updatedAt: draft.updatedAt
+  };
+}
+
+export function serializeScheduledMessage(scheduled: schema.ScheduledMessage) {
+  return {
+    scheduledId: scheduled.id,
+    groupId: scheduled.groupId,
+    from: scheduled.from,
+    kind: scheduled.kind,
+    to: scheduled.to,
+    cc: scheduled.cc,
+    bcc: scheduled.bcc,
+    subject: scheduled.subject,
+    body: scheduled.body,
+    threadId: scheduled.threadId,
+    replyToMessageId: scheduled.replyToMessageId,
+    forwardedFrom: scheduled.forwardedFrom,
+    attachments: scheduled.attachments.map(attachment => ({
+      filename: attachment.filename,
+      mimeType: attachment.mimeType,
+      size: Buffer.byteLength(attachment.content, "base64")
+    })),
+    sendAt: scheduled.sendAt,
+    status: scheduled.status,
+    sentMessage: scheduled.sentMessage,
+    error: scheduled.error,
+    createdAt: scheduled.createdAt,
+    updatedAt: scheduled.updatedAt
+  };
+}
+
+// The secret is only returned when a webhook is created
+export function serializeWebhook(webhook: schema.Webhook, includeSecret = false) {
+  return {
+    webhookId: webhook.id,
+    groupId: webhook.groupId,
+    agentAddress: webhook.agent,
+    url: webhook.url,
+    active: webhook.active,
+    createdAt: webhook.createdAt,
+    ...(includeSecret ? { secret: webhook.secret } : {})
+  };
+}
+
+export function serializeWebhookDelivery(delivery: schema.WebhookDelivery) {
+  return {
+    deliveryId: delivery.id,
+    webhookId: delivery.webhookId,
+    threadId: delivery.threadId,
+    messageId: delivery.messageId,
+    agentAddress: delivery.agent,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    lastStatusCode: delivery.lastStatusCode,
+    lastError: delivery.lastError,
+    nextAttemptAt: delivery.nextAttemptAt,
+    createdAt: delivery.createdAt,
+    updatedAt: delivery.updatedAt,
+    payload: JSON.parse(delivery.payload)
+  };
+}
+
+// The token itself is only returned when it is created
+export function serializeAgentToken(token: schema.AgentToken, plaintext?: string) {
+  return {
+    tokenId: token.id,
+    groupId: token.groupId,
+    agentAddress: token.agent,
+    name: token.name,
+    createdAt: token.createdAt,
+    ...(plaintext ? { token: plaintext } : {})
+  };
+}
+
+// Cursors are opaque to clients: a base64url-encoded [direction, id] pair
+export function encodeCursor(cursor: MessageCursor | null): string | null {
+  return cursor ? Buffer.from(JSON.stringify([cursor.direction, cursor.id])).toString("base64url") : null;
+}
+
+export function pageCursors(page: MessagePage) {
+  return {
+    nextCursor: encodeCursor(page.nextCursor),
+    prevCursor: encodeCursor(page.prevCursor)
+  };
+}
+
+export function serializeSearchResult(result: MessageSearchResult, viewer?: schema.AgentAddress) {
+  return {
+    ...serializeMessage(result.message, viewer),
+    subjectHighlight: result.subjectHighlight,
+    snippet: result.snippet,
+    score: result.score
+  };
+}
+
+// Renders an event for one SSE subscriber, or returns null when that agent should not see it
+export function serializeEvent(event: PublishedMailEvent, dbService: DatabaseService, viewer?: schema.AgentAddress) {
+  const base = { id: event.id, type: event.type, groupId: event.groupId, emittedAt: event.emittedAt };
+
+  switch (event.type) {
+    case "message.created": {
+      // Re-read so attachments stored in the same transaction are included
+      const message = dbService.getMessage(event.message.threadId!, event.message.messageid) ?? event.message;
+      if (viewer && viewer !== message.from && !message.recipients().includes(viewer)) {
+        return null;
+      }
+      return { ...base, message: serializeMessage(message, viewer) };
+    }
+    case "thread.created": {
+      if (viewer && viewer !== event.thread.createdBy) {
+        const first = dbService.listMessagesByThread(event.thread.threadId)[0];
+        if (!first || !first.recipients().includes(viewer)) {
+          return null;
+        }
+      }
+      return { ...base, thread: event.thread };
+    }
+    case "message.scheduled": {
+      // Only the sender knows about mail before it is delivered
+      if (viewer && viewer !== event.scheduled.from) {
+        return null;
+      }
+      return { ...base, scheduled: serializeScheduledMessage(event.scheduled) };
+    }
+    case "message.deleted": {
+      if (viewer && !event.participants.includes(viewer)) {
+        return null;
+      }
+      return { ...base, threadId: event.threadId, messageIds: event.messageIds, threadDeleted: event.threadDeleted };
+    }
+    case "mailbox.restored":
+      // Everything the group's clients hold may be stale
+      return base;
+    case "message.read":
+    case "message.unread": {
+      if (viewer && viewer !== event.agent) {
+        return null;
+      }
+      return { ...base, threadId: event.threadId, messageIds: event.messageIds, agentAddress: event.agent };
+    }
+  }
+}
@@ -0,0 +1,106 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+import { DatabaseService } from "../db/service.js";
+import { GroupId } from "../schema.js";
+
+export const SNAPSHOT_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]{0,63}$/;
+
+const SNAPSHOT_EXTENSION = ".db";
+
+export interface Snapshot {
+  name: string;
+  groupId: GroupId | null;             // null = every group
+  size: number;                        // bytes on disk
+  createdAt: string;
+}
+
+// Named copies of the mailbox, each a SQLite file in one directory. A group snapshot holds only that group's
+// rows. Each file describes itself in a snapshot_info table, so the directory is the only state to keep.
+export class SnapshotStore {
+  private dbService: DatabaseService;
+  private dir: string;
+
+  constructor(dbService: DatabaseService, dir: string) {
+    this.dbService = dbService;
+    this.dir = dir;
+  }
+
+  // The caller checks that the name is free and the group exists
+  async create(name: string, groupId: GroupId | null = null): Promise<Snapshot> {
+    fs.mkdirSync(this.dir, { recursive: true });
+    const filePath = this.filePath(name);
+    const partialPath = `${filePath}.partial`;
+
+    try {
+      await this.dbService.backupTo(partialPath);
+
+      const db = new Database(partialPath);
+      try {
+        if (groupId) {
+          db.pragma("foreign_keys = ON");
+          db.prepare(`DELETE FROM groups WHERE id != ?`).run(groupId);
+        }
+        // Token hashes are credentials, and a restore keeps the live ones anyway
+        db.exec(`DELETE FROM agent_tokens`);
+        db.exec(`CREATE TABLE snapshot_info (group_id TEXT, created_at TEXT NOT NULL)`);
+        db.prepare(`INSERT INTO snapshot_info (group_id, created_at) VALUES (?, ?)`).run(groupId, new Date().toISOString());
+        if (groupId) {
+          db.exec(`VACUUM`);
+        }
+      } finally {
+        db.close();
+      }
+
+      fs.renameSync(partialPath, filePath);
+    } catch (error) {
+      fs.rmSync(partialPath, { force: true });
+      throw error;
+    }
+
+    return this.get(name)!;
+  }
+
+  get(name: string): Snapshot | null {
+    if (!SNAPSHOT_NAME_PATTERN.test(name)) return null;
+    const filePath = this.filePath(name);
+    if (!fs.existsSync(filePath)) return null;
+
+    const db = new Database(filePath, { readonly: true, fileMustExist: true });
+    try {
+      const info = db.prepare(`SELECT group_id, created_at FROM snapshot_info`).get() as
+        { group_id: string | null; created_at: string };
+      return { name, groupId: info.group_id, size: fs.statSync(filePath).size, createdAt: info.created_at };
+    } finally {
+      db.close();
+    }
+  }
+
+  // Newest first
+  list(): Snapshot[] {
+    if (!fs.existsSync(this.dir)) return [];
+    return fs.readdirSync(this.dir)
+      .filter(file => file.endsWith(SNAPSHOT_EXTENSION))
+      .map(file => this.get(file.slice(0, -SNAPSHOT_EXTENSION.length)))
+      .filter((snapshot): snapshot is Snapshot => snapshot !== null)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  // Replaces the snapshot's groups, or every group for a full snapshot, with their saved state
+  restore(name: string): Snapshot | null {
+    const snapshot = this.get(name);
+    if (!snapshot) return null;
+    this.dbService.restoreFrom(this.filePath(name), snapshot.groupId);
+    return snapshot;
+  }
+
+  delete(name: string): boolean {
+    if (!this.get(name)) return false;
+    fs.rmSync(this.filePath(name));
+    return true;
+  }
+
+  private filePath(name: string): string {
+    return path.join(this.dir, `${name}${SNAPSHOT_EXTENSION}`);
+  }
+}
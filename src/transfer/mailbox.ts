@@ -0,0 +1,297 @@
+// A portable JSON copy of groups and their mail, for moving a corpus between machines or keeping fixtures in git
+
+import { createHash } from "crypto";
+import { z } from "zod";
+import { DatabaseService } from "../db/service.js";
+import {
+  AGENT_HANDLE_PATTERN,
+  Attachment,
+  AttachmentId,
+  GROUP_ID_PATTERN,
+  Group,
+  GroupId,
+  Message,
+  Thread,
+  ThreadId
+} from "../schema.js";
+
+export const EXPORT_FORMAT = "ses-mailbox";
+export const EXPORT_VERSION = 1;
+
+const MESSAGE_ID_PATTERN = /^\d+$/;
+
+const timestampSchema = z.string().datetime({ offset: true });
+
+const attachmentSchema = z.object({
+  id: z.string().min(1),
+  filename: z.string().min(1),
+  mimeType: z.string().min(1),
+  createdAt: timestampSchema,
+  contentBase64: z.string()
+});
+
+const messageSchema = z.object({
+  messageId: z.string().regex(MESSAGE_ID_PATTERN, "must be a non-negative integer"),
+  from: z.string().min(1),
+  to: z.array(z.string().min(1)),
+  cc: z.array(z.string().min(1)).default([]),
+  bcc: z.array(z.string().min(1)).default([]),
+  subject: z.string().default(""),
+  body: z.string(),
+  createdAt: timestampSchema,
+  readBy: z.array(z.string().min(1)).default([]),
+  aliasExpansions: z
+    .array(z.object({ alias: z.string(), field: z.enum(["to", "cc", "bcc"]), members: z.array(z.string()) }))
+    .default([]),
+  forwardedFrom: z.object({ threadId: z.string(), messageId: z.string() }).nullable().default(null),
+  attachments: z.array(attachmentSchema).default([])
+});
+
+const threadSchema = z
+  .object({
+    threadId: z.string().min(1),
+    subject: z.string(),
+    createdAt: timestampSchema,
+    createdBy: z.string().min(1),
+    lastIndex: z.string().regex(MESSAGE_ID_PATTERN, "must be a non-negative integer").optional(),
+    messages: z.array(messageSchema).min(1, "a thread needs at least one message")
+  })
+  .superRefine((thread, ctx) => {
+    const ids = thread.messages.map(message => Number(message.messageId));
+    if (new Set(ids).size !== ids.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["messages"], message: "messageIds must be unique" });
+    }
+    if (thread.lastIndex !== undefined && Number(thread.lastIndex) < Math.max(...ids)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["lastIndex"], message: "must not be below a messageId" });
+    }
+  });
+
+const groupSchema = z
+  .object({
+    id: z.string().regex(GROUP_ID_PATTERN, "is not a valid group ID"),
+    createdAt: timestampSchema,
+    agents: z.array(z.string().regex(AGENT_HANDLE_PATTERN, "is not a valid agent handle")),
+    threads: z.array(threadSchema).default([])
+  })
+  .superRefine((group, ctx) => {
+    const agents = new Set(group.agents);
+    group.threads.forEach((thread, threadIndex) => {
+      thread.messages.forEach((message, messageIndex) => {
+        const fields = { from: [message.from], to: message.to, cc: message.cc, bcc: message.bcc, readBy: message.readBy };
+        for (const [field, addresses] of Object.entries(fields)) {
+          const stranger = addresses.find(address => !agents.has(address));
+          if (stranger !== undefined) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: ["threads", threadIndex, "messages", messageIndex, field],
+              message: `${stranger} is not an agent of ${group.id}`
+            });
+          }
+        }
+      });
+    });
+  });
+
+const mailboxExportSchema = z
+  .object({
+    format: z.literal(EXPORT_FORMAT),
+    version: z.literal(EXPORT_VERSION, { errorMap: () => ({ message: `only version ${EXPORT_VERSION} is supported` }) }),
+    exportedAt: timestampSchema,
+    groups: z.array(groupSchema)
+  })
+  .superRefine((document, ctx) => {
+    const groupIds = document.groups.map(group => group.id);
+    if (new Set(groupIds).size !== groupIds.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["groups"], message: "group IDs must be unique" });
+    }
+    const threadIds = document.groups.flatMap(group => group.threads.map(thread => thread.threadId));
+    if (new Set(threadIds).size !== threadIds.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["groups"], message: "threadIds must be unique" });
+    }
+    const attachmentIds = exportedAttachments(document).map(({ attachment }) => attachment.id);
+    if (new Set(attachmentIds).size !== attachmentIds.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["groups"], message: "attachment ids must be unique" });
+    }
+  });
+
+function exportedAttachments(document: { groups: { threads: ThreadExport[] }[] }) {
+  return document.groups.flatMap(group =>
+    group.threads.flatMap(thread =>
+      thread.messages.flatMap(message => message.attachments.map(attachment => ({ threadId: thread.threadId, attachment })))
+    )
+  );
+}
+
+export type MailboxExport = z.infer<typeof mailboxExportSchema>;
+type ThreadExport = z.infer<typeof threadSchema>;
+
+// What to do with a thread whose threadId is already in the database
+export type ImportConflictMode = "skip" | "replace" | "error";
+export const IMPORT_CONFLICT_MODES: readonly ImportConflictMode[] = ["skip", "replace", "error"];
+
+export interface ImportResult {
+  groupsCreated: GroupId[];
+  imported: ThreadId[];
+  replaced: ThreadId[];
+  skipped: ThreadId[];
+  conflicts: ThreadId[];               // Only set with "error"; nothing is imported when there are any
+  messages: number;
+}
+
+// An attachment id may already be in the database only on the same thread, which an import skips or replaces
+export function parseMailboxExport(
+  dbService: DatabaseService,
+  raw: unknown
+): { document: MailboxExport | null; error?: string } {
+  const parsed = mailboxExportSchema
+    .superRefine((document, ctx) => {
+      for (const { threadId, attachment } of exportedAttachments(document)) {
+        const stored = dbService.getAttachment(attachment.id);
+        if (stored && stored.threadId !== threadId) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["groups"],
+            message: `attachment ${attachment.id} already belongs to thread ${stored.threadId}`
+          });
+        }
+      }
+    })
+    .safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const location = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+    return { document: null, error: `Invalid export: ${location}${issue.message}` };
+  }
+  return { document: parsed.data };
+}
+
+// Every group, or only groupId, which the caller has checked exists. Threads are oldest first so that
+// exports of the same mailbox diff cleanly.
+export function exportMailbox(dbService: DatabaseService, groupId?: GroupId): MailboxExport {
+  const groups = groupId ? [dbService.getGroup(groupId)!] : dbService.listGroups();
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    groups: groups.map(group => ({
+      id: group.id,
+      createdAt: group.createdAt,
+      agents: group.agents,
+      threads: dbService.listThreadsByGroup(group.id).reverse().map(thread => ({
+        threadId: thread.threadId,
+        subject: thread.subject,
+        createdAt: thread.createdAt,
+        createdBy: thread.createdBy,
+        lastIndex: thread.lastIndex,
+        messages: dbService.listMessagesByThread(thread.threadId).map(message => ({
+          messageId: message.messageid,
+          from: message.from,
+          to: message.to,
+          cc: message.cc,
+          bcc: message.bcc,
+          subject: message.subject ?? "",
+          body: message.body,
+          createdAt: message.createdAt,
+          readBy: message.readBy,
+          aliasExpansions: message.aliasExpansions,
+          forwardedFrom: message.forwardedFrom,
+          attachments: message.attachments.map(attachment => ({
+            id: attachment.id,
+            filename: attachment.filename,
+            mimeType: attachment.mimeType,
+            createdAt: attachment.createdAt,
+            contentBase64: (dbService.getAttachmentContent(attachment.id) ?? Buffer.alloc(0)).toString("base64")
+          }))
+        }))
+      }))
+    }))
+  };
+}
+
+// Groups that already exist gain any agents they are missing. Importing the same document twice with
+// "skip" changes nothing the second time.
+export function importMailbox(
+  dbService: DatabaseService,
+  document: MailboxExport,
+  onConflict: ImportConflictMode = "skip"
+): ImportResult {
+  const result: ImportResult = { groupsCreated: [], imported: [], replaced: [], skipped: [], conflicts: [], messages: 0 };
+  const existing = new Set(
+    document.groups
+      .flatMap(group => group.threads.map(thread => thread.threadId))
+      .filter(threadId => dbService.getThread(threadId) !== null)
+  );
+  if (onConflict === "error" && existing.size > 0) {
+    result.conflicts = [...existing];
+    return result;
+  }
+
+  const changedGroups = new Set<GroupId>();
+  dbService.transaction(() => {
+    for (const entry of document.groups) {
+      const group = dbService.getGroup(entry.id);
+      if (!group) {
+        const created = new Group(entry.id, [...entry.agents]);
+        created.createdAt = entry.createdAt;
+        dbService.createGroup(created);
+        result.groupsCreated.push(entry.id);
+        changedGroups.add(entry.id);
+      } else if (entry.agents.some(agent => !group.agents.includes(agent))) {
+        entry.agents.forEach(agent => group.addAgent(agent));
+        dbService.updateGroup(group);
+        changedGroups.add(entry.id);
+      }
+
+      for (const threadEntry of entry.threads) {
+        if (existing.has(threadEntry.threadId)) {
+          if (onConflict === "skip") {
+            result.skipped.push(threadEntry.threadId);
+            continue;
+          }
+          dbService.deleteThread(threadEntry.threadId);
+          result.replaced.push(threadEntry.threadId);
+        } else {
+          result.imported.push(threadEntry.threadId);
+        }
+
+        const { thread, messages, attachmentContent } = threadFromExport(entry.id, threadEntry);
+        dbService.importThread(thread, messages, attachmentContent);
+        result.messages += messages.length;
+        changedGroups.add(entry.id);
+      }
+    }
+  });
+
+  // Imported mail raises no message events, so clients are told to reload instead
+  changedGroups.forEach(groupId => dbService.events.publish({ type: "mailbox.restored", groupId }));
+  return result;
+}
+
+function threadFromExport(groupId: GroupId, entry: ThreadExport) {
+  const thread = new Thread(groupId, entry.subject, entry.createdBy);
+  thread.threadId = entry.threadId;
+  thread.createdAt = entry.createdAt;
+  thread.lastIndex = entry.lastIndex ?? String(Math.max(...entry.messages.map(m => Number(m.messageId))));
+
+  const attachmentContent = new Map<AttachmentId, Buffer>();
+  const messages = entry.messages.map(item => {
+    const message = new Message(groupId, item.from, item.to, item.body, entry.threadId, item.subject, item.cc, item.bcc);
+    message.messageid = item.messageId;
+    message.createdAt = item.createdAt;
+    message.readBy = item.readBy;
+    message.aliasExpansions = item.aliasExpansions;
+    message.forwardedFrom = item.forwardedFrom;
+    message.attachments = item.attachments.map(file => {
+      const content = Buffer.from(file.contentBase64, "base64");
+      const sha256 = createHash("sha256").update(content).digest("hex");
+      const attachment = new Attachment(entry.threadId, item.messageId, file.filename, file.mimeType, content.length, sha256);
+      attachment.id = file.id;
+      attachment.createdAt = file.createdAt;
+      attachmentContent.set(attachment.id, content);
+      return attachment;
+    });
+    return message;
+  });
+
+  return { thread, messages, attachmentContent };
+}
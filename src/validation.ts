@@ -0,0 +1,144 @@
+// Checks on request input shared by the REST routes and the MCP server's embedded mode, so both answer the
+// same request with the same error
+import * as schema from "./schema.js";
+import { DatabaseService, MessageCursor } from "./db/service.js";
+import { validateAgents } from "./compose.js";
+
+export const DEFAULT_LIMIT = 10;
+
+export function parseLimit(raw: unknown, fallback = DEFAULT_LIMIT): number {
+  const parsed = Number(raw);
+  if (Number.isInteger(parsed) && parsed > 0) {
+    return parsed;
+  }
+  return fallback;
+}
+
+// The group a request names, or its only group when it names none
+export function lookupGroupId(
+  dbService: DatabaseService,
+  groupId: string | undefined
+): { groupId: schema.GroupId; error?: undefined } | { groupId?: undefined; error: { status: number; message: string } } {
+  if (groupId) {
+    if (!dbService.getGroup(groupId)) {
+      return { error: { status: 404, message: `Group ${groupId} not found` } };
+    }
+    return { groupId };
+  }
+
+  const groups = dbService.listGroups();
+  if (groups.length === 0) {
+    return { error: { status: 404, message: "No groups found. Create a group first." } };
+  }
+  if (groups.length === 1) {
+    return { groupId: groups[0]!.id };
+  }
+  return { error: { status: 400, message: "Multiple groups exist. Provide groupId as a query parameter." } };
+}
+
+// Returns undefined when absent and null when the value is not a valid date
+export function parseDateParam(raw: unknown): string | undefined | null {
+  if (raw === undefined || raw === "") return undefined;
+  if (typeof raw !== "string") return null;
+  const time = Date.parse(raw);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+// Returns undefined when absent and null when the cursor is malformed
+export function parseCursor(raw: unknown): MessageCursor | undefined | null {
+  if (raw === undefined || raw === "") return undefined;
+  if (typeof raw !== "string") return null;
+  try {
+    const decoded = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (
+      Array.isArray(decoded) &&
+      (decoded[0] === "before" || decoded[0] === "after") &&
+      Number.isInteger(decoded[1])
+    ) {
+      return { direction: decoded[0], id: decoded[1] };
+    }
+  } catch {
+    // Fall through to the invalid-cursor result
+  }
+  return null;
+}
+
+export function parseBoolean(raw: unknown): boolean {
+  return raw === true || raw === "true" || raw === "1";
+}
+
+export function groupIdError(groupId: unknown): string | null {
+  if (typeof groupId !== "string" || !schema.GROUP_ID_PATTERN.test(groupId)) {
+    return `Invalid group ID '${String(groupId)}'. Group IDs start with '@' followed by up to 64 letters, digits, '.', '_' or '-'`;
+  }
+  return null;
+}
+
+export function agentHandleError(agent: unknown): string | null {
+  if (typeof agent !== "string" || !schema.AGENT_HANDLE_PATTERN.test(agent)) {
+    return `Invalid agent handle '${String(agent)}'. Handles are up to 64 letters, digits, '.', '_' or '-' and must start with a letter or digit`;
+  }
+  return null;
+}
+
+const PROFILE_TEXT_FIELDS = ["displayName", "role", "description", "owner"] as const;
+
+// Validates a partial profile update, where null clears a text field
+export function profileUpdateError(raw: unknown): string | null {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return "profile must be an object";
+  }
+  const update = raw as Record<string, unknown>;
+  for (const field of PROFILE_TEXT_FIELDS) {
+    if (update[field] !== undefined && update[field] !== null && typeof update[field] !== "string") {
+      return `${field} must be a string or null`;
+    }
+  }
+  if (
+    update.capabilities !== undefined &&
+    !(Array.isArray(update.capabilities) && update.capabilities.every(c => typeof c === "string"))
+  ) {
+    return "capabilities must be an array of strings";
+  }
+  if (
+    update.metadata !== undefined &&
+    (typeof update.metadata !== "object" || update.metadata === null || Array.isArray(update.metadata))
+  ) {
+    return "metadata must be an object";
+  }
+  return null;
+}
+
+export function applyProfileUpdate(profile: schema.AgentProfile, update: Record<string, unknown>): void {
+  for (const field of PROFILE_TEXT_FIELDS) {
+    if (update[field] !== undefined) {
+      const value = update[field] as string | null;
+      profile[field] = value === null || value.trim() === "" ? null : value.trim();
+    }
+  }
+  if (update.capabilities !== undefined) {
+    profile.capabilities = (update.capabilities as string[]).map(c => c.trim()).filter(Boolean);
+  }
+  if (update.metadata !== undefined) {
+    profile.metadata = update.metadata as Record<string, unknown>;
+  }
+  profile.updatedAt = new Date().toISOString();
+}
+
+export const SCHEDULED_STATUSES: readonly schema.ScheduledMessageStatus[] = ["pending", "sent", "failed"];
+
+export function findDuplicates(values: string[]): string[] {
+  return Array.from(new Set(values.filter((value, index) => values.indexOf(value) !== index)));
+}
+
+export function aliasMembersError(members: unknown, group: schema.Group): string | null {
+  if (!Array.isArray(members) || members.length === 0 || !members.every(m => typeof m === "string")) {
+    return "members must be a non-empty array of agent handles";
+  }
+  const { invalidAgents } = validateAgents(members, group);
+  if (invalidAgents.length > 0) {
+    return `Invalid member(s): ${invalidAgents.join(", ")} are not valid agents in group ${group.id}`;
+  }
+  const duplicates = findDuplicates(members);
+  return duplicates.length > 0 ? `Duplicate member(s): ${duplicates.join(", ")}` : null;
+}
@@ -0,0 +1,166 @@
+import { createHmac } from "crypto";
+import { DatabaseService } from "../db/service.js";
+import { Message, WebhookDelivery } from "../schema.js";
+import { PublishedMailEvent } from "../events/bus.js";
+import { serializeMessage } from "../serialize.js";
+
+export const WEBHOOK_EVENT = "message.delivered";
+export const SIGNATURE_HEADER = "X-SES-Signature";
+export const TIMESTAMP_HEADER = "X-SES-Timestamp";
+export const EVENT_HEADER = "X-SES-Event";
+export const DELIVERY_HEADER = "X-SES-Delivery";
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+export interface WebhookDispatcherOptions {
+  maxAttempts?: number;                // Total attempts before a delivery is marked failed
+  baseDelayMs?: number;                // Attempt n is retried after baseDelayMs * 2^(n-1)
+  timeoutMs?: number;                  // Per-request timeout
+  fetch?: typeof fetch;
+}
+
+// Receivers verify with HMAC-SHA256(secret, `${timestamp}.${rawBody}`) compared to the signature header
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+// Turns message.created events into signed POSTs to registered webhooks, retrying with exponential backoff.
+// Every delivery and its latest outcome is persisted so it can be inspected and resumed after a restart.
+export class WebhookDispatcher {
+  private dbService: DatabaseService;
+  private maxAttempts: number;
+  private baseDelayMs: number;
+  private timeoutMs: number;
+  private fetchImpl: typeof fetch;
+  private timers = new Map<string, NodeJS.Timeout>();
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(dbService: DatabaseService, options: WebhookDispatcherOptions = {}) {
+    this.dbService = dbService;
+    this.maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    this.baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.fetchImpl = options.fetch ?? fetch;
+  }
+
+  start(): void {
+    if (this.unsubscribe) return;
+    this.unsubscribe = this.dbService.events.subscribe(event => this.handleEvent(event));
+
+    // Resume retries that were pending when the process last stopped
+    for (const delivery of this.dbService.listPendingWebhookDeliveries()) {
+      const dueIn = delivery.nextAttemptAt ? Date.parse(delivery.nextAttemptAt) - Date.now() : 0;
+      this.schedule(delivery.id, Math.max(0, dueIn));
+    }
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  // Creates one delivery per (recipient, matching webhook) pair and sends them
+  enqueue(message: Message): WebhookDelivery[] {
+    const deliveries: WebhookDelivery[] = [];
+
+    for (const agent of message.recipients()) {
+      for (const webhook of this.dbService.listWebhooksForRecipient(message.groupId, agent)) {
+        const delivery = new WebhookDelivery(webhook.id, message.threadId!, message.messageid, agent, "");
+        delivery.payload = JSON.stringify({
+          event: WEBHOOK_EVENT,
+          deliveryId: delivery.id,
+          webhookId: webhook.id,
+          groupId: message.groupId,
+          agentAddress: agent,
+          message: serializeMessage(message, agent)
+        });
+        this.dbService.createWebhookDelivery(delivery);
+        deliveries.push(delivery);
+      }
+    }
+
+    deliveries.forEach(delivery => this.schedule(delivery.id, 0));
+    return deliveries;
+  }
+
+  private handleEvent(event: PublishedMailEvent): void {
+    if (event.type !== "message.created") return;
+    try {
+      // Re-read so attachments stored in the same transaction are included
+      const message = this.dbService.getMessage(event.message.threadId!, event.message.messageid) ?? event.message;
+      this.enqueue(message);
+    } catch (error) {
+      console.error("Error enqueueing webhook deliveries:", error);
+    }
+  }
+
+  private schedule(deliveryId: string, delayMs: number): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(deliveryId);
+      this.attempt(deliveryId).catch(error => {
+        console.error(`Error delivering webhook ${deliveryId}:`, error);
+      });
+    }, delayMs);
+    this.timers.set(deliveryId, timer);
+  }
+
+  private async attempt(deliveryId: string): Promise<void> {
+    if (!this.unsubscribe) return;
+
+    const delivery = this.dbService.getWebhookDelivery(deliveryId);
+    if (!delivery || delivery.status !== "pending") return;
+
+    // The webhook may have been deleted since this delivery was queued
+    const webhook = this.dbService.getWebhook(delivery.webhookId);
+    if (!webhook) return;
+
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    let succeeded = false;
+    delivery.attempts += 1;
+
+    try {
+      const response = await this.fetchImpl(webhook.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          [SIGNATURE_HEADER]: `sha256=${signWebhookPayload(webhook.secret, timestamp, delivery.payload)}`,
+          [TIMESTAMP_HEADER]: timestamp,
+          [EVENT_HEADER]: WEBHOOK_EVENT,
+          [DELIVERY_HEADER]: delivery.id
+        },
+        body: delivery.payload,
+        signal: AbortSignal.timeout(this.timeoutMs)
+      });
+      await response.arrayBuffer().catch(() => undefined);
+
+      succeeded = response.ok;
+      delivery.lastStatusCode = response.status;
+      delivery.lastError = response.ok ? null : `HTTP ${response.status}`;
+    } catch (error) {
+      delivery.lastStatusCode = null;
+      delivery.lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    // Stopped while the request was in flight; the database may already be closed
+    if (!this.unsubscribe) return;
+
+    const now = Date.now();
+    if (succeeded) {
+      delivery.status = "succeeded";
+      delivery.nextAttemptAt = null;
+    } else if (delivery.attempts >= this.maxAttempts) {
+      delivery.status = "failed";
+      delivery.nextAttemptAt = null;
+    } else {
+      const delayMs = this.baseDelayMs * 2 ** (delivery.attempts - 1);
+      delivery.nextAttemptAt = new Date(now + delayMs).toISOString();
+      this.schedule(delivery.id, delayMs);
+    }
+    delivery.updatedAt = new Date(now).toISOString();
+    this.dbService.updateWebhookDelivery(delivery);
+  }
+}
@@ -1,9 +1,18 @@
 import request from "supertest";
-import { createServer } from "http";
+import { createServer, get as httpGet, IncomingMessage } from "http";
+import { AddressInfo } from "net";
+import fs from "fs";
+import os from "os";
+import path from "path";
 import { describe, it, beforeEach, afterEach, expect } from "vitest";
 import { createApp } from "../src/app.js";
 import { initDatabase } from "../src/db/init.js";
 import { DatabaseService } from "../src/db/service.js";
+import { Group } from "../src/schema.js";
+import { WebhookDispatcher, signWebhookPayload } from "../src/webhooks/dispatcher.js";
+import { DeliveryScheduler } from "../src/scheduler/scheduler.js";
+import { TrashPurger } from "../src/scheduler/purger.js";
+import { ManualClock } from "../src/scheduler/clock.js";
 
 let app: ReturnType<typeof createApp>;
 let dbService: DatabaseService;
@@ -20,6 +29,7 @@ const describeIfCanListen = canListen ? describe : describe.skip;
 beforeEach(() => {
   const db = initDatabase(":memory:");
   dbService = new DatabaseService(db);
+  dbService.createGroup(new Group("@group", ["alice", "bob", "carol", "dave"]));
   app = createApp(dbService);
 });
 
@@ -270,3 +280,1781 @@ describeIfCanListen("Filtering by sender", () => {
     expect(res.body.data[0]?.body).toBe("Inbound to Alice");
   });
 });
+
+describeIfCanListen("Read state", () => {
+  it("returns only unread messages when unreadOnly is set", async () => {
+    const first = await writeEmail({
+      groupId: "@group",
+      from: "alice",
+      to: ["bob"],
+      body: "First",
+      subject: "One"
+    }).expect(201);
+
+    await writeEmail({
+      groupId: "@group",
+      from: "carol",
+      to: ["bob"],
+      body: "Second",
+      subject: "Two"
+    }).expect(201);
+
+    await request(app)
+      .post(`/messages/${first.body.data.messageId}/read`)
+      .send({ threadId: first.body.data.threadId, agentAddress: "bob" })
+      .expect(200);
+
+    const unread = await request(app)
+      .get("/inbox")
+      .query({ groupId: "@group", agentAddress: "bob", unreadOnly: "true" })
+      .expect(200);
+
+    expect(unread.body.data).toHaveLength(1);
+    expect(unread.body.data[0]?.subject).toBe("Two");
+    expect(unread.body.data[0]?.read).toBe(false);
+
+    const all = await request(app)
+      .get("/inbox/short")
+      .query({ groupId: "@group", agentAddress: "bob" })
+      .expect(200);
+
+    expect(all.body.data).toHaveLength(2);
+    expect(all.body.data[1]?.read).toBe(true);
+  });
+
+  it("tracks read state per recipient", async () => {
+    const first = await writeEmail({
+      groupId: "@group",
+      from: "alice",
+      to: ["bob", "carol"],
+      body: "Shared"
+    }).expect(201);
+
+    await request(app)
+      .post(`/messages/${first.body.data.messageId}/read`)
+      .send({ threadId: first.body.data.threadId, agentAddress: "bob" })
+      .expect(200);
+
+    const counts = await request(app)
+      .get("/inbox/unread-counts")
+      .query({ groupId: "@group" })
+      .expect(200);
+
+    expect(counts.body.data.counts).toEqual({ alice: 0, bob: 0, carol: 1, dave: 0 });
+  });
+
+  it("marks a whole thread read and unread", async () => {
+    const first = await writeEmail({
+      groupId: "@group",
+      from: "alice",
+      to: ["bob"],
+      body: "Kickoff"
+    }).expect(201);
+    const threadId = first.body.data.threadId as string;
+
+    await replyEmail({ from: "bob", threadId, body: "Ack" }).expect(201);
+    await replyEmail({ from: "alice", threadId, body: "Follow-up" }).expect(201);
+
+    const readRes = await request(app)
+      .post(`/threads/${threadId}/read`)
+      .send({ agentAddress: "bob" })
+      .expect(200);
+    expect(readRes.body.data.messageIds).toEqual(["0", "2"]);
+
+    let counts = await request(app)
+      .get("/inbox/unread-counts")
+      .query({ groupId: "@group", agentAddress: "bob" })
+      .expect(200);
+    expect(counts.body.data.counts).toEqual({ bob: 0 });
+
+    await request(app)
+      .post(`/threads/${threadId}/unread`)
+      .send({ agentAddress: "bob" })
+      .expect(200);
+
+    counts = await request(app)
+      .get("/inbox/unread-counts")
+      .query({ groupId: "@group", agentAddress: "bob" })
+      .expect(200);
+    expect(counts.body.data.counts).toEqual({ bob: 2 });
+
+    await request(app)
+      .get("/inbox/unread-counts")
+      .query({ groupId: "@group", agentAddress: "mallory" })
+      .expect(404);
+  });
+
+  it("rejects marking a message read for a non-recipient", async () => {
+    const first = await writeEmail({
+      groupId: "@group",
+      from: "alice",
+      to: ["bob"],
+      body: "Private"
+    }).expect(201);
+
+    const res = await request(app)
+      .post(`/messages/${first.body.data.messageId}/read`)
+      .send({ threadId: first.body.data.threadId, agentAddress: "carol" })
+      .expect(400);
+    expect(res.body.message).toContain("not a recipient");
+  });
+});
+
+describeIfCanListen("Search", () => {
+  it("finds messages by subject and body with highlighted snippets", async () => {
+    await writeEmail({
+      groupId: "@group",
+      from: "alice",
+      to: ["bob"],
+      subject: "Database migration plan",
+      body: "We decided to migrate the billing tables on Friday."
+    }).expect(201);
+
+    await writeEmail({
+      groupId: "@group",
+      from: "carol",
+      to: ["bob"],
+      subject: "Lunch",
+      body: "Pizza or tacos?"
+    }).expect(201);
+
+    const res = await request(app)
+      .get("/search")
+      .query({ groupId: "@group", q: "billing" })
+      .expect(200);
+
+    expect(res.body.success).toBe(true);
+    expect(res.body.data).toHaveLength(1);
+    expect(res.body.data[0]?.subject).toBe("Database migration plan");
+    expect(res.body.data[0]?.snippet).toContain("<mark>billing</mark>");
+  });
+
+  it("applies sender, recipient and date filters", async () => {
+    await writeEmail({
+      groupId: "@group",
+      from: "alice",
+      to: ["bob"],
+      subject: "Release",
+      body: "Release notes draft"
+    }).expect(201);
+
+    await writeEmail({
+      groupId: "@group",
+      from: "carol",
+      to: ["dave"],
+      subject: "Release",
+      body: "Release checklist"
+    }).expect(201);
+
+    const bySender = await request(app)
+      .get("/search")
+      .query({ groupId: "@group", q: "release", from: "carol" })
+      .expect(200);
+    expect(bySender.body.data).toHaveLength(1);
+    expect(bySender.body.data[0]?.from).toBe("carol");
+
+    const byRecipient = await request(app)
+      .get("/search")
+      .query({ groupId: "@group", q: "release", to: "bob" })
+      .expect(200);
+    expect(byRecipient.body.data).toHaveLength(1);
+    expect(byRecipient.body.data[0]?.from).toBe("alice");
+
+    const future = await request(app)
+      .get("/search")
+      .query({ groupId: "@group", q: "release", since: "2999-01-01" })
+      .expect(200);
+    expect(future.body.data).toHaveLength(0);
+  });
+
+  it("does not reveal bcc recipients through the to filter", async () => {
+    await writeEmail({
+      groupId: "@group",
+      from: "alice",
+      to: ["bob"],
+      bcc: ["dave"],
+      subject: "Budget",
+      body: "Budget review"
+    }).expect(201);
+
+    const asBob = await request(app)
+      .get("/search")
+      .query({ groupId: "@group", q: "budget", agentAddress: "bob", to: "dave" })
+      .expect(200);
+    expect(asBob.body.data).toHaveLength(0);
+
+    const asDave = await request(app)
+      .get("/search")
+      .query({ groupId: "@group", q: "budget", agentAddress: "dave", to: "dave" })
+      .expect(200);
+    expect(asDave.body.data).toHaveLength(1);
+  });
+
+  it("treats query syntax characters as plain text", async () => {
+    await writeEmail({
+      groupId: "@group",
+      from: "alice",
+      to: ["bob"],
+      body: "Check the \"quoted\" value"
+    }).expect(201);
+
+    const res = await request(app)
+      .get("/search")
+      .query({ groupId: "@group", q: "\"quoted" })
+      .expect(200);
+    expect(res.body.success).toBe(true);
+  });
+
+  it("requires a query", async () => {
+    await request(app).get("/search").query({ groupId: "@group" }).expect(400);
+  });
+});
+
+describeIfCanListen("CC and BCC", () => {
+  it("delivers cc and bcc copies to each recipient's inbox", async () => {
+    await writeEmail({
+      groupId: "@group",
+      from: "alice",
+      to: ["bob"],
+      cc: ["carol"],
+      bcc: ["dave"],
+      subject: "Plan",
+      body: "Keeping everyone posted"
+    }).expect(201);
+
+    for (const agent of ["bob", "carol", "dave"]) {
+      const res = await request(app)
+        .get("/inbox")
+        .query({ groupId: "@group", agentAddress: agent })
+        .expect(200);
+      expect(res.body.data).toHaveLength(1);
+    }
+  });
+
+  it("hides bcc recipients from everyone but the sender and the bcc'd agent", async () => {
+    const first = await writeEmail({
+      groupId: "@group",
+      from: "alice",
+      to: ["bob"],
+      cc: ["carol"],
+      bcc: ["dave"],
+      body: "Secret copy"
+    }).expect(201);
+    const { threadId, messageId } = first.body.data;
+
+    const asRecipient = await request(app)
+      .get("/inbox")
+      .query({ groupId: "@group", agentAddress: "bob" })
+      .expect(200);
+    expect(asRecipient.body.data[0]?.cc).toEqual(["carol"]);
+    expect(asRecipient.body.data[0]?.bcc).toEqual([]);
+
+    const asBcc = await request(app)
+      .get("/inbox")
+      .query({ groupId: "@group", agentAddress: "dave" })
+      .expect(200);
+    expect(asBcc.body.data[0]?.bcc).toEqual(["dave"]);
+
+    const asSender = await request(app)
+      .get(`/messages/${messageId}`)
+      .query({ threadId, agentAddress: "alice" })
+      .expect(200);
+    expect(asSender.body.data.bcc).toEqual(["dave"]);
+
+    const groupView = await request(app).get(`/threads/${threadId}`).expect(200);
+    expect(groupView.body.data.messages[0]?.bcc).toEqual([]);
+  });
+
+  it("preserves cc but never bcc on reply-all", async () => {
+    const first = await writeEmail({
+      groupId: "@group",
+      from: "alice",
+      to: ["bob"],
+      cc: ["carol"],
+      bcc: ["dave"],
+      body: "Kickoff"
+    }).expect(201);
+    const threadId = first.body.data.threadId as string;
+
+    await replyAll({ from: "bob", threadId, body: "Replying to all" }).expect(201);
+
+    const res = await request(app)
+      .get(`/threads/${threadId}`)
+      .query({ agentAddress: "bob" })
+      .expect(200);
+    const lastMsg = res.body.data.messages.at(-1);
+    expect(lastMsg.to).toEqual(["alice"]);
+    expect(lastMsg.cc).toEqual(["carol"]);
+    expect(lastMsg.bcc).toEqual([]);
+
+    const daveInbox = await request(app)
+      .get("/inbox")
+      .query({ groupId: "@group", agentAddress: "dave" })
+      .expect(200);
+    expect(daveInbox.body.data).toHaveLength(1);
+  });
+
+  it("rejects unknown cc recipients", async () => {
+    const res = await writeEmail({
+      groupId: "@group",
+      from: "alice",
+      to: ["bob"],
+      cc: ["mallory"],
+      body: "Hi"
+    }).expect(400);
+    expect(res.body.message).toContain("mallory");
+  });
+});
+
+describeIfCanListen("Attachments", () => {
+  it("stores attachments and serves them for download", async () => {
+    const csv = "id,name\n1,widget\n";
+    const first = await writeEmail({
+      groupId: "@group",
+      from: "alice",
+      to: ["bob"],
+      body: "Spec attached",
+      attachments: [
+        { filename: "items.csv", mimeType: "text/csv", content: csv },
+        { filename: "blob.bin", encoding: "base64", content: Buffer.from([0, 1, 2, 255]).toString("base64") }
+      ]
+    }).expect(201);
+
+    expect(first.body.data.attachments).toHaveLength(2);
+    const [csvMeta, binMeta] = first.body.data.attachments;
+    expect(csvMeta.size).toBe(Buffer.byteLength(csv));
+    expect(binMeta.mimeType).toBe("application/octet-stream");
+
+    const inbox = await request(app)
+      .get("/inbox")
+      .query({ groupId: "@group", agentAddress: "bob" })
+      .expect(200);
+    expect(inbox.body.data[0]?.attachments.map((a: { filename: string }) => a.filename)).toEqual(["items.csv", "blob.bin"]);
+
+    const download = await request(app).get(csvMeta.downloadUrl).expect(200);
+    expect(download.headers["content-type"]).toContain("text/csv");
+    expect(download.headers["content-disposition"]).toContain("items.csv");
+    expect(download.text).toBe(csv);
+
+    const asJson = await request(app)
+      .get(binMeta.downloadUrl)
+      .query({ format: "base64" })
+      .expect(200);
+    expect(Buffer.from(asJson.body.data.contentBase64, "base64")).toEqual(Buffer.from([0, 1, 2, 255]));
+  });
+
+  it("accepts attachments on replies", async () => {
+    const first = await writeEmail({
+      groupId: "@group",
+      from: "alice",
+      to: ["bob"],
+      body: "Send me the notes"
+    }).expect(201);
+
+    const reply = await replyEmail({
+      from: "bob",
+      threadId: first.body.data.threadId,
+      body: "Here they are",
+      attachments: [{ filename: "notes.md", content: "# Notes" }]
+    }).expect(201);
+
+    expect(reply.body.data.attachments[0]?.filename).toBe("notes.md");
+  });
+
+  it("rejects malformed attachments", async () => {
+    const res = await writeEmail({
+      groupId: "@group",
+      from: "alice",
+      to: ["bob"],
+      body: "Broken",
+      attachments: [{ filename: "x.bin", encoding: "base64", content: "not base64!" }]
+    }).expect(400);
+    expect(res.body.message).toContain("base64");
+  });
+});
+
+// Opens an SSE stream on a real listener and resolves with the raw text once `until` matches
+async function collectEvents(path: string, trigger: () => Promise<unknown>, until: RegExp): Promise<string> {
+  const server = app.listen(0);
+  await new Promise(resolve => server.once("listening", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    return await new Promise<string>((resolve, reject) => {
+      const req = httpGet({ port, path }, (res: IncomingMessage) => {
+        let buffer = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk: string) => {
+          const first = buffer === "";
+          buffer += chunk;
+          if (first) {
+            trigger().catch(reject);
+          }
+          if (until.test(buffer)) {
+            req.destroy();
+            resolve(buffer);
+          }
+        });
+      });
+      req.on("error", reject);
+    });
+  } finally {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+describeIfCanListen("Server-sent events", () => {
+  it("streams thread and message creation to group subscribers", async () => {
+    const stream = await collectEvents(
+      "/events?groupId=%40group",
+      () => writeEmail({ groupId: "@group", from: "alice", to: ["bob"], body: "Live!", subject: "Realtime" }).expect(201),
+      /event: message\.created/
+    );
+
+    expect(stream).toMatch(/event: thread\.created[\s\S]*event: message\.created/);
+    const data = stream.split("\n").filter(line => line.startsWith("data: ")).at(-1)!;
+    expect(JSON.parse(data.slice(6)).message.body).toBe("Live!");
+  });
+
+  it("only streams events visible to the subscribed agent", async () => {
+    const stream = await collectEvents(
+      "/events?groupId=%40group&agentAddress=carol",
+      async () => {
+        await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], body: "Not for carol" }).expect(201);
+        await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], bcc: ["carol"], body: "Blind copy" }).expect(201);
+      },
+      /event: message\.created/
+    );
+
+    expect(stream).not.toContain("Not for carol");
+    expect(stream).toContain("Blind copy");
+  });
+
+  it("streams read-state changes", async () => {
+    const first = await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], body: "Read me" }).expect(201);
+
+    const stream = await collectEvents(
+      "/events?agentAddress=bob",
+      () => request(app)
+        .post(`/threads/${first.body.data.threadId}/read`)
+        .send({ agentAddress: "bob" })
+        .expect(200),
+      /event: message\.read\n/
+    );
+
+    expect(stream).toContain("\"messageIds\":[\"0\"]");
+  });
+});
+
+async function waitFor<T>(check: () => T | undefined | null | false, timeoutMs = 2000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const result = check();
+    if (result) return result;
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  throw new Error("Timed out waiting for condition");
+}
+
+describeIfCanListen("Webhooks", () => {
+  type Received = { headers: Record<string, string | string[] | undefined>; body: string };
+  let received: Received[];
+  let responder: (attempt: number) => number;
+  let receiver: ReturnType<typeof createServer>;
+  let receiverUrl: string;
+  let dispatcher: WebhookDispatcher;
+
+  beforeEach(async () => {
+    received = [];
+    responder = () => 200;
+    receiver = createServer((req, res) => {
+      let body = "";
+      req.on("data", chunk => (body += chunk));
+      req.on("end", () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responder(received.length);
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => receiver.listen(0, resolve));
+    receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+
+    dispatcher = new WebhookDispatcher(dbService, { baseDelayMs: 10, maxAttempts: 3 });
+    dispatcher.start();
+  });
+
+  afterEach(async () => {
+    dispatcher.stop();
+    await new Promise(resolve => receiver.close(resolve));
+  });
+
+  it("posts a signed payload when mail is delivered to the agent", async () => {
+    const hook = await request(app)
+      .post("/webhooks")
+      .send({ groupId: "@group", agentAddress: "bob", url: receiverUrl, secret: "s3cret" })
+      .expect(201);
+    expect(hook.body.data.secret).toBe("s3cret");
+
+    await writeEmail({ groupId: "@group", from: "alice", to: ["bob", "carol"], body: "Wake up" }).expect(201);
+
+    const [delivery] = await waitFor(() => received.length > 0 && received);
+    const payload = JSON.parse(delivery!.body);
+    expect(payload.event).toBe("message.delivered");
+    expect(payload.agentAddress).toBe("bob");
+    expect(payload.message.body).toBe("Wake up");
+
+    const timestamp = delivery!.headers["x-ses-timestamp"] as string;
+    expect(delivery!.headers["x-ses-signature"]).toBe(`sha256=${signWebhookPayload("s3cret", timestamp, delivery!.body)}`);
+
+    const log = await waitFor(() => {
+      const deliveries = dbService.listWebhookDeliveries(hook.body.data.webhookId);
+      return deliveries[0]?.status === "succeeded" && deliveries;
+    });
+    expect(log).toHaveLength(1);
+
+    const listed = await request(app).get("/webhooks").query({ groupId: "@group" }).expect(200);
+    expect(listed.body.data[0]?.secret).toBeUndefined();
+  });
+
+  it("delivers once per recipient for group-wide webhooks", async () => {
+    await request(app).post("/webhooks").send({ groupId: "@group", url: receiverUrl }).expect(201);
+
+    await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], cc: ["carol"], body: "Team update" }).expect(201);
+
+    await waitFor(() => received.length === 2);
+    const agents = received.map(r => JSON.parse(r.body).agentAddress).sort();
+    expect(agents).toEqual(["bob", "carol"]);
+  });
+
+  it("retries failed deliveries with backoff and records each outcome", async () => {
+    responder = attempt => (attempt < 2 ? 500 : 200);
+    const hook = await request(app)
+      .post("/webhooks")
+      .send({ groupId: "@group", agentAddress: "bob", url: receiverUrl })
+      .expect(201);
+
+    await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], body: "Retry me" }).expect(201);
+
+    const deliveries = await waitFor(() => {
+      const log = dbService.listWebhookDeliveries(hook.body.data.webhookId);
+      return log[0]?.status === "succeeded" && log;
+    });
+    expect(deliveries[0]?.attempts).toBe(2);
+    expect(received).toHaveLength(2);
+
+    const res = await request(app).get(`/webhooks/${hook.body.data.webhookId}/deliveries`).expect(200);
+    expect(res.body.data[0]?.status).toBe("succeeded");
+    expect(res.body.data[0]?.lastStatusCode).toBe(200);
+  });
+
+  it("marks a delivery failed after the final attempt", async () => {
+    responder = () => 503;
+    const hook = await request(app)
+      .post("/webhooks")
+      .send({ groupId: "@group", agentAddress: "bob", url: receiverUrl })
+      .expect(201);
+
+    await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], body: "Never lands" }).expect(201);
+
+    const [delivery] = await waitFor(() => {
+      const log = dbService.listWebhookDeliveries(hook.body.data.webhookId);
+      return log[0]?.status === "failed" && log;
+    });
+    expect(delivery?.attempts).toBe(3);
+    expect(delivery?.lastError).toBe("HTTP 503");
+  });
+
+  it("rejects webhooks for unknown agents or invalid URLs", async () => {
+    await request(app)
+      .post("/webhooks")
+      .send({ groupId: "@group", agentAddress: "mallory", url: receiverUrl })
+      .expect(400);
+    await request(app)
+      .post("/webhooks")
+      .send({ groupId: "@group", url: "ftp://example.com" })
+      .expect(400);
+  });
+});
+
+describeIfCanListen("Group and agent management", () => {
+  it("creates a group with agents and rejects duplicates", async () => {
+    const res = await request(app)
+      .post("/groups")
+      .send({ groupId: "@ops", agents: ["lead", "oncall"] })
+      .expect(201);
+    expect(res.body.data.agents).toEqual(["lead", "oncall"]);
+
+    await request(app).post("/groups").send({ groupId: "@ops" }).expect(409);
+    await request(app).post("/groups").send({ groupId: "@dup", agents: ["a", "a"] }).expect(400);
+    await request(app).post("/groups").send({ groupId: "no-at-sign" }).expect(400);
+    await request(app).post("/groups").send({ groupId: "@bad", agents: ["has space"] }).expect(400);
+  });
+
+  it("adds, renames and removes agents", async () => {
+    const added = await request(app)
+      .post(`/groups/${encodeURIComponent("@group")}/agents`)
+      .send({ agentAddress: "erin" })
+      .expect(201);
+    expect(added.body.data.agents).toContain("erin");
+
+    await request(app)
+      .post(`/groups/${encodeURIComponent("@group")}/agents`)
+      .send({ agentAddress: "erin" })
+      .expect(409);
+
+    const first = await writeEmail({ groupId: "@group", from: "alice", to: ["erin"], cc: ["bob"], body: "Welcome" }).expect(201);
+
+    const renamed = await request(app)
+      .patch(`/groups/${encodeURIComponent("@group")}/agents/erin`)
+      .send({ newAgentAddress: "erin2" })
+      .expect(200);
+    expect(renamed.body.data.agents).toContain("erin2");
+    expect(renamed.body.data.agents).not.toContain("erin");
+
+    const inbox = await request(app)
+      .get("/inbox")
+      .query({ groupId: "@group", agentAddress: "erin2" })
+      .expect(200);
+    expect(inbox.body.data[0]?.threadId).toBe(first.body.data.threadId);
+    expect(inbox.body.data[0]?.to).toEqual(["erin2"]);
+
+    await request(app)
+      .delete(`/groups/${encodeURIComponent("@group")}/agents/erin2`)
+      .expect(200);
+
+    await writeEmail({ groupId: "@group", from: "alice", to: ["erin2"], body: "Gone" }).expect(400);
+  });
+
+  it("renames a group and keeps its mail", async () => {
+    const first = await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], body: "Before rename" }).expect(201);
+
+    await request(app)
+      .patch(`/groups/${encodeURIComponent("@group")}`)
+      .send({ newGroupId: "@renamed" })
+      .expect(200);
+
+    const thread = await request(app).get(`/threads/${first.body.data.threadId}`).expect(200);
+    expect(thread.body.data.thread.groupId).toBe("@renamed");
+
+    const inbox = await request(app)
+      .get("/inbox")
+      .query({ groupId: "@renamed", agentAddress: "bob" })
+      .expect(200);
+    expect(inbox.body.data).toHaveLength(1);
+  });
+
+  it("deletes a group with its threads and messages", async () => {
+    const first = await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], body: "Doomed" }).expect(201);
+
+    await request(app).delete(`/groups/${encodeURIComponent("@group")}`).expect(200);
+
+    await request(app).get(`/threads/${first.body.data.threadId}`).expect(404);
+    await request(app).delete(`/groups/${encodeURIComponent("@group")}`).expect(404);
+  });
+
+  it("no longer creates empty groups implicitly when sending", async () => {
+    const res = await writeEmail({ groupId: "@missing", from: "alice", to: ["bob"], body: "Hi" }).expect(404);
+    expect(res.body.message).toContain("POST /groups");
+  });
+});
+
+describeIfCanListen("Pagination", () => {
+  it("pages through an inbox with next and previous cursors", async () => {
+    for (let i = 1; i <= 5; i++) {
+      await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], subject: `Mail ${i}`, body: "Hi" }).expect(201);
+    }
+
+    const first = await request(app)
+      .get("/inbox")
+      .query({ groupId: "@group", agentAddress: "bob", limit: 2 })
+      .expect(200);
+    expect(first.body.data.map((m: { subject: string }) => m.subject)).toEqual(["Mail 5", "Mail 4"]);
+    expect(first.body.prevCursor).toBeNull();
+    expect(first.body.nextCursor).toEqual(expect.any(String));
+
+    const second = await request(app)
+      .get("/inbox")
+      .query({ groupId: "@group", agentAddress: "bob", limit: 2, cursor: first.body.nextCursor })
+      .expect(200);
+    expect(second.body.data.map((m: { subject: string }) => m.subject)).toEqual(["Mail 3", "Mail 2"]);
+
+    const last = await request(app)
+      .get("/inbox/short")
+      .query({ groupId: "@group", agentAddress: "bob", limit: 2, cursor: second.body.nextCursor })
+      .expect(200);
+    expect(last.body.data.map((m: { subject: string }) => m.subject)).toEqual(["Mail 1"]);
+    expect(last.body.nextCursor).toBeNull();
+
+    const back = await request(app)
+      .get("/inbox")
+      .query({ groupId: "@group", agentAddress: "bob", limit: 2, cursor: second.body.prevCursor })
+      .expect(200);
+    expect(back.body.data.map((m: { subject: string }) => m.subject)).toEqual(["Mail 5", "Mail 4"]);
+    expect(back.body.prevCursor).toBeNull();
+  });
+
+  it("pages through group mail and threads", async () => {
+    const write = await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], subject: "Thread", body: "0" }).expect(201);
+    const threadId = write.body.data.threadId;
+    for (let i = 1; i <= 3; i++) {
+      await replyEmail({ threadId, from: i % 2 ? "bob" : "alice", body: `${i}` }).expect(201);
+    }
+
+    const groupPage = await request(app).get("/inbox").query({ groupId: "@group", limit: 3 }).expect(200);
+    expect(groupPage.body.data.map((m: { body: string }) => m.body)).toEqual(["3", "2", "1"]);
+    const groupRest = await request(app)
+      .get("/inbox")
+      .query({ groupId: "@group", limit: 3, cursor: groupPage.body.nextCursor })
+      .expect(200);
+    expect(groupRest.body.data.map((m: { body: string }) => m.body)).toEqual(["0"]);
+
+    const whole = await request(app).get(`/threads/${threadId}`).expect(200);
+    expect(whole.body.data.messages).toHaveLength(4);
+    expect(whole.body.nextCursor).toBeNull();
+
+    const threadPage = await request(app).get(`/threads/${threadId}`).query({ limit: 2 }).expect(200);
+    expect(threadPage.body.data.messages.map((m: { body: string }) => m.body)).toEqual(["0", "1"]);
+    const threadRest = await request(app)
+      .get(`/threads/${threadId}`)
+      .query({ limit: 2, cursor: threadPage.body.nextCursor })
+      .expect(200);
+    expect(threadRest.body.data.messages.map((m: { body: string }) => m.body)).toEqual(["2", "3"]);
+    expect(threadRest.body.nextCursor).toBeNull();
+    expect(threadRest.body.prevCursor).toEqual(expect.any(String));
+  });
+
+  it("rejects malformed cursors", async () => {
+    const res = await request(app)
+      .get("/inbox")
+      .query({ groupId: "@group", cursor: "not-a-cursor" })
+      .expect(400);
+    expect(res.body.message).toBe("Invalid cursor");
+  });
+});
+
+describeIfCanListen("Thread listing", () => {
+  it("summarises threads with participants, counts and unread state", async () => {
+    const first = await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], subject: "Plan", body: "Draft plan" }).expect(201);
+    await replyEmail({ threadId: first.body.data.threadId, from: "bob", body: "Looks good" }).expect(201);
+    await writeEmail({ groupId: "@group", from: "carol", to: ["dave"], bcc: ["bob"], subject: "Budget", body: "Numbers" }).expect(201);
+
+    const res = await request(app).get("/threads").query({ groupId: "@group", agentAddress: "bob" }).expect(200);
+    expect(res.body.data).toHaveLength(2);
+
+    const [budget, plan] = res.body.data;
+    expect(budget.subject).toBe("Budget");
+    expect(budget.participants).toEqual(["carol", "dave", "bob"]);
+    expect(budget.unreadCount).toBe(1);
+
+    expect(plan.subject).toBe("Plan");
+    expect(plan.createdBy).toBe("alice");
+    expect(plan.participants).toEqual(["alice", "bob"]);
+    expect(plan.messageCount).toBe(2);
+    expect(plan.lastMessage.bodyPreview).toBe("Looks good");
+    expect(plan.lastActivityAt).toBe(plan.lastMessage.createdAt);
+    expect(plan.unreadCount).toBe(1);
+
+    const anonymous = await request(app).get("/threads").query({ groupId: "@group" }).expect(200);
+    expect(anonymous.body.data[0].participants).toEqual(["carol", "dave"]);
+    expect(anonymous.body.data[0]).not.toHaveProperty("unreadCount");
+  });
+
+  it("filters by participant and last activity", async () => {
+    await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], subject: "One", body: "1" }).expect(201);
+    await writeEmail({ groupId: "@group", from: "carol", to: ["dave"], bcc: ["alice"], subject: "Two", body: "2" }).expect(201);
+
+    const byParticipant = await request(app).get("/threads").query({ groupId: "@group", participant: "alice" }).expect(200);
+    expect(byParticipant.body.data.map((t: { subject: string }) => t.subject)).toEqual(["One"]);
+
+    const asViewer = await request(app)
+      .get("/threads")
+      .query({ groupId: "@group", participant: "alice", agentAddress: "alice" })
+      .expect(200);
+    expect(asViewer.body.data.map((t: { subject: string }) => t.subject)).toEqual(["Two", "One"]);
+
+    const future = new Date(Date.now() + 60_000).toISOString();
+    const recent = await request(app).get("/threads").query({ groupId: "@group", since: future }).expect(200);
+    expect(recent.body.data).toEqual([]);
+
+    await request(app).get("/threads").query({ groupId: "@group", since: "yesterday-ish" }).expect(400);
+  });
+});
+
+describeIfCanListen("Agent directory", () => {
+  it("lists agents with unread counts and last activity", async () => {
+    const sent = await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], cc: ["carol"], subject: "Hi", body: "Hello" }).expect(201);
+    await request(app)
+      .post(`/messages/${sent.body.data.messageId}/read`)
+      .send({ threadId: sent.body.data.threadId, agentAddress: "carol" })
+      .expect(200);
+
+    const res = await request(app).get("/groups/%40group/agents").expect(200);
+    expect(res.body.data.groupId).toBe("@group");
+
+    const byAgent = Object.fromEntries(
+      res.body.data.agents.map((a: { agentAddress: string }) => [a.agentAddress, a])
+    );
+    expect(Object.keys(byAgent)).toEqual(["alice", "bob", "carol", "dave"]);
+    expect(byAgent.bob.unreadCount).toBe(1);
+    expect(byAgent.carol.unreadCount).toBe(0);
+    expect(byAgent.alice.lastActivityAt).toEqual(expect.any(String));
+    expect(byAgent.bob.lastActivityAt).toBe(byAgent.alice.lastActivityAt);
+    expect(byAgent.dave.lastActivityAt).toBeNull();
+  });
+
+  it("returns 404 for an unknown group", async () => {
+    await request(app).get("/groups/%40missing/agents").expect(404);
+  });
+});
+
+describeIfCanListen("Agent profiles", () => {
+  it("creates, updates and lists agent profiles", async () => {
+    const empty = await request(app).get("/groups/%40group/agents/bob/profile").expect(200);
+    expect(empty.body.data).toMatchObject({ agentAddress: "bob", role: null, capabilities: [], metadata: {} });
+
+    await request(app)
+      .patch("/groups/%40group/agents/bob/profile")
+      .send({ displayName: "Bob", role: "Reviewer", capabilities: ["code review"], metadata: { model: "small" } })
+      .expect(200);
+    const updated = await request(app)
+      .patch("/groups/%40group/agents/bob/profile")
+      .send({ description: "Reviews pull requests", role: null })
+      .expect(200);
+    expect(updated.body.data).toMatchObject({
+      displayName: "Bob",
+      role: null,
+      description: "Reviews pull requests",
+      capabilities: ["code review"],
+      metadata: { model: "small" }
+    });
+
+    await request(app)
+      .post("/groups/%40group/agents")
+      .send({ agentAddress: "erin", profile: { role: "Designer" } })
+      .expect(201);
+
+    const agents = await request(app).get("/groups/%40group/agents").expect(200);
+    const erin = agents.body.data.agents.find((a: { agentAddress: string }) => a.agentAddress === "erin");
+    expect(erin.role).toBe("Designer");
+    expect(erin.profile.role).toBe("Designer");
+
+    const groups = await request(app).get("/groups").expect(200);
+    expect(groups.body.data[0].profiles.map((p: { agentAddress: string }) => p.agentAddress)).toEqual(["bob", "erin"]);
+  });
+
+  it("follows agent renames and removals", async () => {
+    await request(app).patch("/groups/%40group/agents/bob/profile").send({ role: "Reviewer" }).expect(200);
+    await request(app).patch("/groups/%40group/agents/bob").send({ newAgentAddress: "robert" }).expect(200);
+
+    const renamed = await request(app).get("/groups/%40group/agents/robert/profile").expect(200);
+    expect(renamed.body.data.role).toBe("Reviewer");
+
+    await request(app).delete("/groups/%40group/agents/robert").expect(200);
+    await request(app).get("/groups/%40group/agents/robert/profile").expect(404);
+    const groups = await request(app).get("/groups").expect(200);
+    expect(groups.body.data[0].profiles).toEqual([]);
+  });
+
+  it("validates profile fields", async () => {
+    const res = await request(app)
+      .patch("/groups/%40group/agents/bob/profile")
+      .send({ capabilities: "everything" })
+      .expect(400);
+    expect(res.body.message).toBe("capabilities must be an array of strings");
+  });
+});
+
+describeIfCanListen("Aliases", () => {
+  beforeEach(async () => {
+    await request(app).post("/groups/%40group/aliases").send({ name: "eng", members: ["alice", "bob", "carol"] }).expect(201);
+  });
+
+  it("expands aliases at send time and records the expansion", async () => {
+    const sent = await writeEmail({ groupId: "@group", from: "alice", to: ["eng"], cc: ["dave"], subject: "Standup", body: "Notes" }).expect(201);
+
+    const res = await request(app)
+      .get(`/messages/${sent.body.data.messageId}`)
+      .query({ threadId: sent.body.data.threadId })
+      .expect(200);
+    expect(res.body.data.to).toEqual(["bob", "carol"]);
+    expect(res.body.data.cc).toEqual(["dave"]);
+    expect(res.body.data.aliases).toEqual([{ alias: "eng", field: "to", members: ["bob", "carol"] }]);
+
+    const inbox = await request(app).get("/inbox").query({ groupId: "@group", agentAddress: "carol" }).expect(200);
+    expect(inbox.body.data).toHaveLength(1);
+  });
+
+  it("hides bcc alias expansions from recipients", async () => {
+    const sent = await writeEmail({ groupId: "@group", from: "dave", to: ["alice"], bcc: ["eng"], subject: "Quiet", body: "Shh" }).expect(201);
+    const { messageId, threadId } = sent.body.data;
+
+    const asSender = await request(app).get(`/messages/${messageId}`).query({ threadId, agentAddress: "dave" }).expect(200);
+    expect(asSender.body.data.bcc).toEqual(["bob", "carol"]);
+    expect(asSender.body.data.aliases).toHaveLength(1);
+
+    const asRecipient = await request(app).get(`/messages/${messageId}`).query({ threadId, agentAddress: "bob" }).expect(200);
+    expect(asRecipient.body.data.aliases).toEqual([]);
+  });
+
+  it("manages aliases and keeps them in sync with the roster", async () => {
+    await request(app).post("/groups/%40group/aliases").send({ name: "alice", members: ["bob"] }).expect(409);
+    await request(app).post("/groups/%40group/aliases").send({ name: "ops", members: ["zed"] }).expect(400);
+    await request(app).post("/groups/%40group/agents").send({ agentAddress: "eng" }).expect(409);
+
+    await request(app).put("/groups/%40group/aliases/eng").send({ members: ["bob", "carol"] }).expect(200);
+    await request(app).patch("/groups/%40group/agents/bob").send({ newAgentAddress: "robert" }).expect(200);
+    await request(app).delete("/groups/%40group/agents/carol").expect(200);
+
+    const list = await request(app).get("/groups/%40group/aliases").expect(200);
+    expect(list.body.data).toEqual([expect.objectContaining({ name: "eng", members: ["robert"] })]);
+
+    await request(app).delete("/groups/%40group/aliases/eng").expect(200);
+    await writeEmail({ groupId: "@group", from: "alice", to: ["eng"], subject: "Gone", body: "?" }).expect(400);
+  });
+});
+
+describeIfCanListen("Forwarding", () => {
+  it("forwards a message into a new thread with a quoted body and copied attachments", async () => {
+    const original = await writeEmail({
+      groupId: "@group",
+      from: "alice",
+      to: ["bob"],
+      subject: "Spec",
+      body: "Line one\nLine two",
+      attachments: [{ filename: "spec.md", content: "# Spec" }]
+    }).expect(201);
+
+    const forwarded = await request(app)
+      .post("/emails/forward")
+      .send({
+        threadId: original.body.data.threadId,
+        messageId: original.body.data.messageId,
+        from: "bob",
+        to: ["carol"],
+        note: "FYI"
+      })
+      .expect(201);
+
+    expect(forwarded.body.data.threadId).not.toBe(original.body.data.threadId);
+    expect(forwarded.body.data.attachments).toHaveLength(1);
+
+    const thread = await request(app).get(`/threads/${forwarded.body.data.threadId}`).expect(200);
+    const [message] = thread.body.data.messages;
+    expect(thread.body.data.thread.subject).toBe("Fwd: Spec");
+    expect(message.to).toEqual(["carol"]);
+    expect(message.body).toMatch(/^FYI\n\n---------- Forwarded message ----------\nFrom: alice\n/);
+    expect(message.body).toContain("> Line one\n> Line two");
+    expect(message.forwardedFrom).toEqual({
+      threadId: original.body.data.threadId,
+      messageId: original.body.data.messageId
+    });
+
+    const download = await request(app).get(message.attachments[0].downloadUrl).expect(200);
+    expect(download.text).toBe("# Spec");
+  });
+
+  it("only lets senders and recipients forward a message", async () => {
+    const original = await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], subject: "Private", body: "x" }).expect(201);
+
+    await request(app)
+      .post("/emails/forward")
+      .send({ threadId: original.body.data.threadId, messageId: "0", from: "dave", to: ["carol"] })
+      .expect(403);
+    await request(app)
+      .post("/emails/forward")
+      .send({ threadId: original.body.data.threadId, messageId: "7", from: "bob", to: ["carol"] })
+      .expect(404);
+  });
+});
+
+describeIfCanListen("Drafts", () => {
+  it("saves, edits and sends a new-message draft, validating recipients only when sent", async () => {
+    const created = await request(app)
+      .post("/drafts")
+      .send({ groupId: "@group", from: "alice", to: ["mallory"], subject: "Plan", body: "First pass" })
+      .expect(201);
+    const { draftId } = created.body.data;
+    expect(created.body.data.kind).toBe("new");
+
+    const invalid = await request(app).post(`/drafts/${draftId}/send`).expect(400);
+    expect(invalid.body.message).toContain("mallory");
+    await request(app).get(`/drafts/${draftId}`).expect(200);
+
+    await request(app).patch(`/drafts/${draftId}`).send({ to: ["bob"], cc: "carol", body: "Final" }).expect(200);
+    const listed = await request(app).get("/drafts").query({ groupId: "@group", agentAddress: "alice" }).expect(200);
+    expect(listed.body.data.map((d: { draftId: string }) => d.draftId)).toEqual([draftId]);
+
+    const sent = await request(app).post(`/drafts/${draftId}/send`).expect(201);
+    expect(sent.body.data.newThreadCreated).toBe(true);
+
+    const thread = await request(app).get(`/threads/${sent.body.data.threadId}`).expect(200);
+    const [message] = thread.body.data.messages;
+    expect(thread.body.data.thread.subject).toBe("Plan");
+    expect(message.to).toEqual(["bob"]);
+    expect(message.cc).toEqual(["carol"]);
+    expect(message.body).toBe("Final");
+
+    await request(app).get(`/drafts/${draftId}`).expect(404);
+  });
+
+  it("sends reply drafts to the thread using the reply rules", async () => {
+    const original = await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], cc: ["carol"], subject: "Sync", body: "x" }).expect(201);
+    const { threadId } = original.body.data;
+
+    await request(app)
+      .post("/drafts")
+      .send({ from: "bob", threadId, to: ["dave"], body: "y" })
+      .expect(400);
+
+    const created = await request(app)
+      .post("/drafts")
+      .send({ from: "bob", threadId, kind: "reply-all", body: "Sounds good" })
+      .expect(201);
+    expect(created.body.data.groupId).toBe("@group");
+
+    const sent = await request(app).post(`/drafts/${created.body.data.draftId}/send`).expect(201);
+    expect(sent.body.data.threadId).toBe(threadId);
+
+    const thread = await request(app).get(`/threads/${threadId}`).expect(200);
+    const reply = thread.body.data.messages.at(-1);
+    expect(reply.to).toEqual(["alice"]);
+    expect(reply.cc).toEqual(["carol"]);
+    expect(thread.body.data.messages[1].subject).toBe("Re: Sync");
+  });
+
+  it("drops an agent's drafts when the agent is removed", async () => {
+    const created = await request(app).post("/drafts").send({ groupId: "@group", from: "dave", body: "" }).expect(201);
+    await request(app).delete("/groups/@group/agents/dave").expect(200);
+    await request(app).get(`/drafts/${created.body.data.draftId}`).expect(404);
+  });
+});
+
+describeIfCanListen("Scheduled delivery", () => {
+  let clock: ManualClock;
+  let scheduler: DeliveryScheduler;
+
+  beforeEach(() => {
+    clock = new ManualClock(new Date("2030-01-01T09:00:00.000Z"));
+    app = createApp(dbService, { clock });
+    scheduler = new DeliveryScheduler(dbService, { clock });
+    scheduler.start();
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+  });
+
+  function inboxFor(agent: string) {
+    return request(app).get("/inbox").query({ groupId: "@group", agentAddress: agent }).expect(200);
+  }
+
+  it("holds a message until its send time, then delivers it", async () => {
+    const scheduled = await writeEmail({
+      groupId: "@group",
+      from: "alice",
+      to: ["bob"],
+      subject: "Reminder",
+      body: "Standup in 5",
+      sendAt: "2030-01-01T10:00:00.000Z"
+    }).expect(202);
+    expect(scheduled.body.data.status).toBe("pending");
+
+    expect((await inboxFor("bob")).body.data).toHaveLength(0);
+
+    clock.advance(59 * 60_000);
+    expect((await inboxFor("bob")).body.data).toHaveLength(0);
+
+    clock.advance(60_000);
+    const inbox = await inboxFor("bob");
+    expect(inbox.body.data).toHaveLength(1);
+    expect(inbox.body.data[0].subject).toBe("Reminder");
+    expect(inbox.body.data[0].createdAt).toBe("2030-01-01T10:00:00.000Z");
+
+    const record = await request(app).get(`/scheduled/${scheduled.body.data.scheduledId}`).expect(200);
+    expect(record.body.data.status).toBe("sent");
+    expect(record.body.data.sentMessage.threadId).toBe(inbox.body.data[0].threadId);
+  });
+
+  it("sends immediately when sendAt is not in the future and validates before scheduling", async () => {
+    await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], body: "now", sendAt: "2029-12-31T00:00:00Z" }).expect(201);
+    await writeEmail({ groupId: "@group", from: "alice", to: ["mallory"], body: "later", sendAt: "2030-02-01T00:00:00Z" }).expect(400);
+    await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], body: "later", sendAt: "next week" }).expect(400);
+  });
+
+  it("lists and cancels pending messages, including scheduled replies", async () => {
+    const original = await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], subject: "Deadline", body: "Due Friday" }).expect(201);
+    const reply = await replyEmail({
+      threadId: original.body.data.threadId,
+      from: "bob",
+      body: "Follow-up",
+      sendAt: "2030-01-02T09:00:00Z"
+    }).expect(202);
+    const cancelled = await writeEmail({ groupId: "@group", from: "bob", to: ["carol"], body: "Never mind", sendAt: "2030-01-03T09:00:00Z" }).expect(202);
+
+    const pending = await request(app).get("/scheduled").query({ groupId: "@group", from: "bob", status: "pending" }).expect(200);
+    expect(pending.body.data.map((m: { scheduledId: string }) => m.scheduledId)).toEqual([
+      reply.body.data.scheduledId,
+      cancelled.body.data.scheduledId
+    ]);
+
+    await request(app).delete(`/scheduled/${cancelled.body.data.scheduledId}`).expect(200);
+    clock.advance(3 * 24 * 60 * 60_000);
+
+    const thread = await request(app).get(`/threads/${original.body.data.threadId}`).expect(200);
+    expect(thread.body.data.messages.map((m: { body: string }) => m.body)).toEqual(["Due Friday", "Follow-up"]);
+    expect((await inboxFor("carol")).body.data).toHaveLength(0);
+    await request(app).delete(`/scheduled/${reply.body.data.scheduledId}`).expect(409);
+  });
+
+  it("schedules a forward like any other message and keeps its link to the original", async () => {
+    const original = await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], subject: "Plan", body: "Ship it" }).expect(201);
+    const scheduled = await request(app)
+      .post("/emails/forward")
+      .send({
+        threadId: original.body.data.threadId,
+        messageId: original.body.data.messageId,
+        from: "bob",
+        to: ["carol"],
+        note: "FYI",
+        sendAt: "2030-01-01T10:00:00Z"
+      })
+      .expect(202);
+    expect(scheduled.body.data.kind).toBe("new");
+    expect(scheduled.body.data.subject).toBe("Fwd: Plan");
+    expect((await inboxFor("carol")).body.data).toHaveLength(0);
+
+    clock.advance(60 * 60_000);
+    const inbox = await inboxFor("carol");
+    expect(inbox.body.data).toHaveLength(1);
+    const thread = await request(app).get(`/threads/${inbox.body.data[0].threadId}`).expect(200);
+    expect(thread.body.data.messages[0].body).toContain("> Ship it");
+    expect(thread.body.data.messages[0].forwardedFrom).toEqual({
+      threadId: original.body.data.threadId,
+      messageId: original.body.data.messageId
+    });
+  });
+
+  it("marks a message failed when its sender is removed before delivery", async () => {
+    const scheduled = await writeEmail({ groupId: "@group", from: "alice", to: ["dave"], body: "Hi", sendAt: "2030-01-01T09:30:00Z" }).expect(202);
+    await request(app).delete("/groups/@group/agents/dave").expect(200);
+    clock.advance(60 * 60_000);
+
+    const record = await request(app).get(`/scheduled/${scheduled.body.data.scheduledId}`).expect(200);
+    expect(record.body.data.status).toBe("failed");
+    expect(record.body.data.error).toContain("dave");
+  });
+});
+
+describeIfCanListen("Labels", () => {
+  it("archives, stars and restores messages, filtering the inbox by label", async () => {
+    const first = await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], subject: "One", body: "x" }).expect(201);
+    await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], subject: "Two", body: "y" }).expect(201);
+    const { threadId, messageId } = first.body.data;
+
+    const archived = await request(app)
+      .post(`/messages/${messageId}/labels`)
+      .send({ threadId, agentAddress: "bob", add: ["archive", "Starred"] })
+      .expect(200);
+    expect(archived.body.data.messages[0].labels).toEqual(["Archive", "Starred"]);
+
+    const inbox = await request(app).get("/inbox").query({ groupId: "@group", agentAddress: "bob", label: "Inbox" }).expect(200);
+    expect(inbox.body.data.map((m: { subject: string }) => m.subject)).toEqual(["Two"]);
+    expect(inbox.body.data[0].labels).toEqual(["Inbox"]);
+
+    const starred = await request(app).get("/inbox").query({ groupId: "@group", agentAddress: "bob", label: "Starred" }).expect(200);
+    expect(starred.body.data.map((m: { subject: string }) => m.subject)).toEqual(["One"]);
+
+    const summaries = await request(app).get("/groups/@group/agents/bob/labels").expect(200);
+    const counts = Object.fromEntries(summaries.body.data.map((l: { name: string; messageCount: number }) => [l.name, l.messageCount]));
+    expect(counts).toEqual({ Inbox: 1, Archive: 1, Starred: 1, Trash: 0 });
+
+    const restored = await request(app)
+      .post(`/messages/${messageId}/labels`)
+      .send({ threadId, agentAddress: "bob", remove: ["Archive"] })
+      .expect(200);
+    expect(restored.body.data.messages[0].labels).toEqual(["Inbox", "Starred"]);
+
+    await request(app)
+      .post(`/messages/${messageId}/labels`)
+      .send({ threadId, agentAddress: "carol", add: ["Starred"] })
+      .expect(400);
+  });
+
+  it("labels whole threads and creates custom labels on first use", async () => {
+    const original = await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], subject: "Launch", body: "x" }).expect(201);
+    const { threadId } = original.body.data;
+    await request(app).post("/emails/reply").send({ threadId, from: "bob", body: "y" }).expect(201);
+
+    const labelled = await request(app)
+      .post(`/threads/${threadId}/labels`)
+      .send({ agentAddress: "bob", add: ["Projects"] })
+      .expect(200);
+    expect(labelled.body.data.messages.map((m: { labels: string[] }) => m.labels)).toEqual([["Inbox", "Projects"], ["Projects"]]);
+
+    await request(app).post("/groups/@group/agents/bob/labels").send({ name: "Projects" }).expect(409);
+    await request(app).post("/groups/@group/agents/bob/labels").send({ name: "trash" }).expect(409);
+
+    const projects = await request(app).get("/inbox").query({ groupId: "@group", agentAddress: "bob", label: "Projects" }).expect(200);
+    expect(projects.body.data).toHaveLength(2);
+
+    await request(app).delete("/groups/@group/agents/bob/labels/Inbox").expect(400);
+    await request(app).delete("/groups/@group/agents/bob/labels/Projects").expect(200);
+    const thread = await request(app).get(`/threads/${threadId}`).query({ agentAddress: "bob" }).expect(200);
+    expect(thread.body.data.messages.map((m: { labels: string[] }) => m.labels)).toEqual([["Inbox"], []]);
+  });
+
+  it("moves labels when an agent is renamed", async () => {
+    const sent = await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], subject: "Keep", body: "x" }).expect(201);
+    const { threadId, messageId } = sent.body.data;
+    await request(app)
+      .post(`/messages/${messageId}/labels`)
+      .send({ threadId, agentAddress: "bob", add: ["Keep"] })
+      .expect(200);
+
+    await request(app).patch("/groups/@group/agents/bob").send({ newAgentAddress: "robert" }).expect(200);
+    const labels = await request(app).get("/groups/@group/agents/robert/labels").expect(200);
+    expect(labels.body.data.find((l: { name: string }) => l.name === "Keep").messageCount).toBe(1);
+  });
+});
+
+describeIfCanListen("Deletion", () => {
+  it("moves mail to one agent's Trash without affecting anyone else", async () => {
+    const sent = await writeEmail({ groupId: "@group", from: "alice", to: ["bob", "carol"], subject: "Old", body: "x" }).expect(201);
+    const { threadId, messageId } = sent.body.data;
+
+    const deleted = await request(app)
+      .post(`/messages/${messageId}/delete`)
+      .send({ threadId, agentAddress: "bob" })
+      .expect(200);
+    expect(deleted.body.data.messages[0].labels).toEqual(["Trash"]);
+
+    const bobInbox = await request(app).get("/inbox").query({ groupId: "@group", agentAddress: "bob" }).expect(200);
+    expect(bobInbox.body.data).toHaveLength(0);
+    const bobTrash = await request(app).get("/inbox").query({ groupId: "@group", agentAddress: "bob", label: "Trash" }).expect(200);
+    expect(bobTrash.body.data).toHaveLength(1);
+    const carolInbox = await request(app).get("/inbox").query({ groupId: "@group", agentAddress: "carol" }).expect(200);
+    expect(carolInbox.body.data).toHaveLength(1);
+
+    const bobThread = await request(app).get(`/threads/${threadId}`).query({ agentAddress: "bob" }).expect(200);
+    expect(bobThread.body.data.messages).toHaveLength(0);
+    const withTrash = await request(app).get(`/threads/${threadId}`).query({ agentAddress: "bob", includeTrashed: "true" }).expect(200);
+    expect(withTrash.body.data.messages).toHaveLength(1);
+
+    await request(app).post(`/threads/${threadId}/restore`).send({ agentAddress: "bob" }).expect(200);
+    const restored = await request(app).get("/inbox").query({ groupId: "@group", agentAddress: "bob", label: "Inbox" }).expect(200);
+    expect(restored.body.data).toHaveLength(1);
+  });
+
+  it("hard deletes messages without reusing their IDs", async () => {
+    const sent = await writeEmail({
+      groupId: "@group",
+      from: "alice",
+      to: ["bob"],
+      subject: "Numbers",
+      body: "0",
+      attachments: [{ filename: "notes.md", content: "# Notes" }]
+    }).expect(201);
+    const { threadId } = sent.body.data;
+    await replyEmail({ threadId, from: "bob", body: "1" }).expect(201);
+    await replyEmail({ threadId, from: "alice", body: "2" }).expect(201);
+
+    const original = await request(app).get(`/threads/${threadId}`).expect(200);
+    const attachmentUrl = original.body.data.messages[0].attachments[0].downloadUrl;
+
+    await request(app).delete("/admin/messages/0").query({ threadId }).expect(200);
+    await request(app).delete("/admin/messages/2").query({ threadId }).expect(200);
+    await request(app).delete("/admin/messages/2").query({ threadId }).expect(404);
+    await request(app).get(attachmentUrl).expect(404);
+
+    const reply = await replyEmail({ threadId, from: "alice", body: "3" }).expect(201);
+    expect(reply.body.data.messageId).toBe("3");
+
+    const thread = await request(app).get(`/threads/${threadId}`).expect(200);
+    expect(thread.body.data.thread.messages).toEqual(["1", "3"]);
+    expect(thread.body.data.thread.lastIndex).toBe("3");
+
+    const removed = await request(app).delete(`/admin/threads/${threadId}`).expect(200);
+    expect(removed.body.data.messageIds).toEqual(["1", "3"]);
+    await request(app).get(`/threads/${threadId}`).expect(404);
+  });
+
+  it("purges mail once every participant has kept it in Trash past the retention period", async () => {
+    const clock = new ManualClock(new Date());
+    const purger = new TrashPurger(dbService, { clock, retentionMs: 7 * 24 * 60 * 60 * 1000 });
+
+    const both = await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], subject: "Both", body: "x" }).expect(201);
+    const one = await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], subject: "One", body: "y" }).expect(201);
+    for (const agentAddress of ["alice", "bob"]) {
+      await request(app).post(`/threads/${both.body.data.threadId}/delete`).send({ agentAddress }).expect(200);
+    }
+    await request(app).post(`/threads/${one.body.data.threadId}/delete`).send({ agentAddress: "bob" }).expect(200);
+
+    expect(purger.purge()).toEqual([]);
+    clock.advance(8 * 24 * 60 * 60 * 1000);
+    expect(purger.purge()).toEqual([{ threadId: both.body.data.threadId, messageId: "0" }]);
+
+    await request(app).get(`/threads/${both.body.data.threadId}`).expect(404);
+    await request(app).get(`/threads/${one.body.data.threadId}`).expect(200);
+  });
+});
+
+describeIfCanListen("Reset", () => {
+  it("deletes all mail in place while keeping agents", async () => {
+    const sent = await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], subject: "Hi", body: "x" }).expect(201);
+    await request(app).post("/groups/@group/aliases").send({ name: "team", members: ["bob", "carol"] }).expect(201);
+
+    const reset = await request(app).post("/admin/reset").send({ keepAgents: true }).expect(200);
+    expect(reset.body.data.groups.map((g: { id: string }) => g.id)).toEqual(["@group"]);
+
+    await request(app).get(`/threads/${sent.body.data.threadId}`).expect(404);
+    const aliases = await request(app).get("/groups/@group/aliases").expect(200);
+    expect(aliases.body.data.map((a: { name: string }) => a.name)).toEqual(["team"]);
+    await writeEmail({ groupId: "@group", from: "alice", to: ["team"], subject: "Again", body: "y" }).expect(201);
+  });
+
+  it("re-seeds groups and profiles from a supplied config", async () => {
+    const config = [
+      { id: "@fresh", agents: ["pm", "dev"], profiles: [{ agent: "pm", role: "Product manager" }] },
+      { id: "@other", agents: ["ops"] }
+    ];
+    await request(app).post("/admin/reset").send({ keepAgents: true, config }).expect(400);
+    await request(app).post("/admin/reset").send({ config: { id: "@bad", agents: ["pm"], profiles: [{ agent: "dev" }] } }).expect(400);
+
+    const reset = await request(app).post("/admin/reset").send({ config }).expect(200);
+    expect(reset.body.data.groups.map((g: { id: string }) => g.id).sort()).toEqual(["@fresh", "@other"]);
+
+    await request(app).get("/groups/@group").expect(404);
+    const profile = await request(app).get("/groups/@fresh/agents/pm/profile").expect(200);
+    expect(profile.body.data.role).toBe("Product manager");
+    await writeEmail({ groupId: "@fresh", from: "pm", to: ["dev"], subject: "Kickoff", body: "z" }).expect(201);
+  });
+
+  it("clears one group's mail without touching other groups", async () => {
+    dbService.createGroup(new Group("@side", ["x", "y"]));
+    const here = await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], subject: "Here", body: "x" }).expect(201);
+    const there = await writeEmail({ groupId: "@side", from: "x", to: ["y"], subject: "There", body: "y" }).expect(201);
+
+    const reset = await request(app).post("/groups/@group/reset").expect(200);
+    expect(reset.body.data.agents).toContain("alice");
+    await request(app).post("/groups/@missing/reset").expect(404);
+
+    await request(app).get(`/threads/${here.body.data.threadId}`).expect(404);
+    await request(app).get(`/threads/${there.body.data.threadId}`).expect(200);
+  });
+
+  it("tells each affected group's clients to reload", async () => {
+    dbService.createGroup(new Group("@side", ["x", "y"]));
+    const restored: string[] = [];
+    dbService.events.subscribe(event => {
+      if (event.type === "mailbox.restored") restored.push(event.groupId);
+    });
+
+    await request(app).post("/groups/@group/reset").expect(200);
+    expect(restored).toEqual(["@group"]);
+
+    restored.length = 0;
+    await request(app).post("/admin/reset").send({ keepAgents: true }).expect(200);
+    expect(restored.sort()).toEqual(["@group", "@side"]);
+
+    restored.length = 0;
+    await request(app).post("/admin/reset").send({ config: [{ id: "@group", agents: ["alice"] }] }).expect(200);
+    expect(restored.sort()).toEqual(["@group", "@side"]);
+
+    restored.length = 0;
+    await request(app).post("/admin/seed").send({ seed: { groups: [{ id: "@acme", agents: ["pm"] }] } }).expect(200);
+    expect(restored).toEqual(["@group"]);
+  });
+});
+
+describeIfCanListen("Snapshots", () => {
+  let snapshotDir: string;
+
+  beforeEach(() => {
+    snapshotDir = fs.mkdtempSync(path.join(os.tmpdir(), "ses-snapshots-"));
+    app = createApp(dbService, { snapshotDir });
+  });
+
+  afterEach(() => {
+    fs.rmSync(snapshotDir, { recursive: true, force: true });
+  });
+
+  it("restores the whole mailbox in place", async () => {
+    const before = await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], subject: "Before", body: "x" }).expect(201);
+    const created = await request(app).post("/snapshots").send({ name: "start" }).expect(201);
+    expect(created.body.data).toMatchObject({ name: "start", groupId: null });
+    await request(app).post("/snapshots").send({ name: "start" }).expect(409);
+    await request(app).post("/snapshots").send({ name: "../escape" }).expect(400);
+
+    const after = await writeEmail({ groupId: "@group", from: "bob", to: ["alice"], subject: "After", body: "y" }).expect(201);
+    await request(app).post(`/messages/0/read`).send({ threadId: before.body.data.threadId, agentAddress: "bob" }).expect(200);
+    await request(app).post("/groups").send({ groupId: "@later", agents: ["z"] }).expect(201);
+
+    await request(app).post("/snapshots/start/restore").expect(200);
+
+    await request(app).get(`/threads/${after.body.data.threadId}`).expect(404);
+    await request(app).get("/groups/@later").expect(404);
+    const unread = await request(app).get("/inbox/unread-counts").query({ groupId: "@group" }).expect(200);
+    expect(unread.body.data.counts.bob).toBe(1);
+    const search = await request(app).get("/search").query({ q: "Before" }).expect(200);
+    expect(search.body.data).toHaveLength(1);
+
+    const listed = await request(app).get("/snapshots").expect(200);
+    expect(listed.body.data.map((s: { name: string }) => s.name)).toEqual(["start"]);
+  });
+
+  it("snapshots and restores one group without touching the others", async () => {
+    dbService.createGroup(new Group("@side", ["x", "y"]));
+    await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], subject: "Kept", body: "x" }).expect(201);
+    await request(app).post("/snapshots").send({ name: "group-only", groupId: "@group" }).expect(201);
+    await request(app).post("/snapshots").send({ name: "missing", groupId: "@missing" }).expect(404);
+
+    await request(app).post("/groups/@group/reset").expect(200);
+    const side = await writeEmail({ groupId: "@side", from: "x", to: ["y"], subject: "Side", body: "y" }).expect(201);
+
+    await request(app).post("/snapshots/group-only/restore").expect(200);
+
+    const inbox = await request(app).get("/inbox").query({ groupId: "@group", agentAddress: "bob" }).expect(200);
+    expect(inbox.body.data.map((m: { subject: string }) => m.subject)).toEqual(["Kept"]);
+    await request(app).get(`/threads/${side.body.data.threadId}`).expect(200);
+
+    await request(app).delete("/snapshots/group-only").expect(200);
+    await request(app).post("/snapshots/group-only/restore").expect(404);
+  });
+
+  it("keeps agent tokens as they are when restoring", async () => {
+    const admin = { Authorization: "Bearer admin-secret" };
+    app = createApp(dbService, { snapshotDir, adminTokens: ["admin-secret"] });
+    const issue = async (agent: string) => {
+      const created = await request(app).post(`/groups/@group/agents/${agent}/tokens`).set(admin).send({ name: "mcp" }).expect(201);
+      return { id: created.body.data.tokenId as string, headers: { Authorization: `Bearer ${created.body.data.token}` } };
+    };
+
+    const bob = await issue("bob");
+    await request(app).post("/snapshots").set(admin).send({ name: "with-token" }).expect(201);
+    await request(app).delete(`/groups/@group/agents/bob/tokens/${bob.id}`).set(admin).expect(200);
+    const alice = await issue("alice");
+
+    await request(app).post("/snapshots/with-token/restore").set(admin).expect(200);
+
+    await request(app).get("/auth/me").set(bob.headers).expect(401);
+    await request(app).get("/auth/me").set(alice.headers).expect(200);
+  });
+
+  it("is disabled without a snapshot directory", async () => {
+    await request(createApp(dbService)).get("/snapshots").expect(503);
+  });
+});
+
+describeIfCanListen("Export and import", () => {
+  it("round-trips threads, messages, read state and attachments into another database", async () => {
+    const sent = await writeEmail({
+      groupId: "@group",
+      from: "alice",
+      to: ["bob"],
+      subject: "Corpus",
+      body: "original body",
+      attachments: [{ filename: "notes.txt", content: "hello" }]
+    }).expect(201);
+    const { threadId } = sent.body.data;
+    await replyEmail({ threadId, from: "bob", body: "reply" }).expect(201);
+    await replyEmail({ threadId, from: "alice", body: "dropped" }).expect(201);
+    await request(app).delete("/admin/messages/2").query({ threadId }).expect(200);
+    await request(app).post("/messages/0/read").send({ threadId, agentAddress: "bob" }).expect(200);
+
+    const exported = await request(app).get("/export").expect(200);
+    expect(exported.body).toMatchObject({ format: "ses-mailbox", version: 1 });
+    await request(app).get("/export").query({ groupId: "@missing" }).expect(404);
+
+    const other = new DatabaseService(initDatabase(":memory:"));
+    const otherApp = createApp(other);
+    try {
+      const imported = await request(otherApp).post("/import").send(exported.body).expect(200);
+      expect(imported.body.data).toMatchObject({ groupsCreated: ["@group"], imported: [threadId], messages: 2 });
+
+      const original = await request(app).get(`/threads/${threadId}`).expect(200);
+      const copy = await request(otherApp).get(`/threads/${threadId}`).expect(200);
+      expect(copy.body.data.thread).toEqual(original.body.data.thread);
+      expect(copy.body.data.messages).toEqual(original.body.data.messages);
+
+      const download = await request(otherApp).get(copy.body.data.messages[0].attachments[0].downloadUrl).expect(200);
+      expect(download.text).toBe("hello");
+      const search = await request(otherApp).get("/search").query({ q: "original" }).expect(200);
+      expect(search.body.data).toHaveLength(1);
+
+      // The deleted message's ID stays used in the copy too
+      const next = await request(otherApp).post("/emails/reply").send({ threadId, from: "alice", body: "after import" }).expect(201);
+      expect(next.body.data.messageId).toBe("3");
+    } finally {
+      other.close();
+    }
+  });
+
+  it("imports idempotently and handles existing threads as asked", async () => {
+    const sent = await writeEmail({ groupId: "@group", from: "alice", to: ["bob"], subject: "Once", body: "x" }).expect(201);
+    const { threadId } = sent.body.data;
+    const exported = await request(app).get("/export").query({ groupId: "@group" }).expect(200);
+
+    const again = await request(app).post("/import").send(exported.body).expect(200);
+    expect(again.body.data).toMatchObject({ groupsCreated: [], imported: [], skipped: [threadId], messages: 0 });
+
+    const conflict = await request(app).post("/import").query({ onConflict: "error" }).send(exported.body).expect(409);
+    expect(conflict.body.data.conflicts).toEqual([threadId]);
+
+    await replyEmail({ threadId, from: "bob", body: "later" }).expect(201);
+    const replaced = await request(app).post("/import").query({ onConflict: "replace" }).send(exported.body).expect(200);
+    expect(replaced.body.data.replaced).toEqual([threadId]);
+    const thread = await request(app).get(`/threads/${threadId}`).expect(200);
+    expect(thread.body.data.thread.messages).toEqual(["0"]);
+
+    await request(app).post("/import").query({ onConflict: "merge" }).send(exported.body).expect(400);
+  });
+
+  it("rejects documents that do not validate", async () => {
+    const exported = await request(app).get("/export").expect(200);
+
+    const wrongVersion = await request(app).post("/import").send({ ...exported.body, version: 2 }).expect(400);
+    expect(wrongVersion.body.message).toContain("version");
+
+    const message = { messageId: "0", from: "alice", to: ["bob"], body: "x", createdAt: new Date().toISOString() };
+    const thread = { threadId: "t-1", subject: "Dup", createdAt: message.createdAt, createdBy: "alice", messages: [message, message] };
+    const duplicate = await request(app)
+      .post("/import")
+      .send({ ...exported.body, groups: [{ id: "@new", createdAt: message.createdAt, agents: ["alice", "bob"], threads: [thread] }] })
+      .expect(400);
+    expect(duplicate.body.message).toContain("messageIds must be unique");
+    await request(app).get("/groups/@new").expect(404);
+  });
+
+  it("rejects mail from outside the group and attachment ids already taken", async () => {
+    const sent = await writeEmail({
+      groupId: "@group",
+      from: "alice",
+      to: ["bob"],
+      body: "with file",
+      attachments: [{ filename: "notes.txt", content: "hello" }]
+    }).expect(201);
+    const exported = await request(app).get("/export").query({ groupId: "@group" }).expect(200);
+    const [group] = exported.body.groups;
+    const [thread] = group.threads;
+
+    const stranger = await request(app)
+      .post("/import")
+      .send({ ...exported.body, groups: [{ ...group, threads: [{ ...thread, messages: [{ ...thread.messages[0], bcc: ["mallory"] }] }] }] })
+      .expect(400);
+    expect(stranger.body.message).toContain("mallory is not an agent of @group");
+
+    const copy = { ...thread, threadId: "t-copy" };
+    const taken = await request(app)
+      .post("/import")
+      .send({ ...exported.body, groups: [{ ...group, threads: [copy] }] })
+      .expect(400);
+    expect(taken.body.message).toContain(`already belongs to thread ${sent.body.data.threadId}`);
+
+    const twice = await request(app)
+      .post("/import")
+      .query({ onConflict: "replace" })
+      .send({ ...exported.body, groups: [{ ...group, threads: [thread, copy] }] })
+      .expect(400);
+    expect(twice.body.message).toContain("attachment ids must be unique");
+  });
+});
+
+describeIfCanListen("Seeding", () => {
+  const seed = {
+    groups: [
+      {
+        id: "@acme",
+        agents: [{ handle: "pm", role: "Product manager" }, "dev", "qa"],
+        aliases: { eng: ["dev", "qa"] },
+        threads: [
+          {
+            subject: "Kickoff",
+            messages: [
+              { from: "pm", to: ["eng"], body: "Plan the release", at: "-2d", readBy: ["dev"] },
+              { from: "dev", body: "On it", at: "-1d12h" }
+            ]
+          }
+        ]
+      }
+    ]
+  };
+
+  it("replaces the database with groups, profiles, aliases and mail from a seed", async () => {
+    const before = Date.now();
+    const seeded = await request(app).post("/admin/seed").send({ seed }).expect(200);
+    const after = Date.now();
+    expect(seeded.body.data.groups.map((g: { id: string }) => g.id)).toEqual(["@acme"]);
+    await request(app).get("/groups/@group").expect(404);
+
+    const profile = await request(app).get("/groups/@acme/agents/pm/profile").expect(200);
+    expect(profile.body.data.role).toBe("Product manager");
+
+    const threads = await request(app).get("/threads").query({ groupId: "@acme" }).expect(200);
+    const thread = await request(app).get(`/threads/${threads.body.data[0].threadId}`).expect(200);
+    const [kickoff, reply] = thread.body.data.messages;
+    expect(kickoff).toMatchObject({ to: ["dev", "qa"], readBy: ["dev"], aliases: [{ alias: "eng", field: "to" }] });
+    expect(reply).toMatchObject({ from: "dev", to: ["pm"], subject: "Re: Kickoff" });
+    expect(Date.parse(kickoff.createdAt)).toBeGreaterThanOrEqual(before - 2 * 24 * 60 * 60 * 1000);
+    expect(Date.parse(kickoff.createdAt)).toBeLessThanOrEqual(after - 2 * 24 * 60 * 60 * 1000);
+    expect(Date.parse(reply.createdAt) - Date.parse(kickoff.createdAt)).toBe(12 * 60 * 60 * 1000);
+
+    // Seeding again starts over rather than adding a second copy
+    await request(app).post("/admin/seed").send({ seed }).expect(200);
+    const again = await request(app).get("/threads").query({ groupId: "@acme" }).expect(200);
+    expect(again.body.data).toHaveLength(1);
+  });
+
+  it("rejects seeds that do not validate and leaves the database alone", async () => {
+    const stranger = structuredClone(seed);
+    stranger.groups[0].threads[0].messages[1].from = "stranger";
+    const unknown = await request(app).post("/admin/seed").send({ seed: stranger }).expect(400);
+    expect(unknown.body.message).toContain("stranger");
+
+    const badTime = structuredClone(seed);
+    badTime.groups[0].threads[0].messages[0].at = "two days ago";
+    await request(app).post("/admin/seed").send({ seed: badTime }).expect(400);
+
+    await request(app).post("/admin/seed").send({}).expect(404);
+    await request(app).get("/groups/@group").expect(200);
+  });
+});
+
+describeIfCanListen("Token auth", () => {
+  const admin = { Authorization: "Bearer admin-secret" };
+
+  beforeEach(() => {
+    app = createApp(dbService, { adminTokens: ["admin-secret"] });
+  });
+
+  async function agentToken(agent: string) {
+    const created = await request(app).post(`/groups/@group/agents/${agent}/tokens`).set(admin).send({ name: "mcp" }).expect(201);
+    return { Authorization: `Bearer ${created.body.data.token}` };
+  }
+
+  it("requires a valid token once admin tokens are configured", async () => {
+    await request(app).get("/").expect(200);
+    await request(app).get("/groups").expect(401);
+    await request(app).get("/groups").set("Authorization", "Bearer wrong").expect(401);
+    await request(app).get("/groups").set(admin).expect(200);
+    // Only the event stream, which EventSource opens without headers, takes the token in the URL
+    await request(app).get("/groups").query({ token: "admin-secret" }).expect(401);
+    await request(app).get("/events").query({ groupId: "@missing", token: "admin-secret" }).expect(404);
+
+    const me = await request(app).get("/auth/me").set(admin).expect(200);
+    expect(me.body.data).toEqual({ role: "admin", authEnabled: true });
+  });
+
+  it("lets an agent token act only as its agent and read only its own mail", async () => {
+    const alice = await agentToken("alice");
+    await request(app).post("/emails/write").set(alice).send({ from: "bob", to: ["carol"], body: "Spoofed" }).expect(403);
+    const sent = await request(app).post("/emails/write").set(alice).send({ to: ["bob"], subject: "Hi", body: "From alice" }).expect(201);
+    expect(sent.body.data).toMatchObject({ messageId: "0" });
+
+    const other = await request(app)
+      .post("/emails/write")
+      .set(admin)
+      .send({ groupId: "@group", from: "bob", to: ["carol"], subject: "Private", body: "Not for alice" })
+      .expect(201);
+    await request(app).get(`/threads/${other.body.data.threadId}`).set(alice).expect(404);
+    await request(app).get("/inbox").set(alice).query({ agentAddress: "carol" }).expect(403);
+
+    const threads = await request(app).get("/threads").set(alice).expect(200);
+    expect(threads.body.data.map((t: { threadId: string }) => t.threadId)).toEqual([sent.body.data.threadId]);
+    const search = await request(app).get("/search").set(alice).query({ q: "alice" }).expect(200);
+    expect(search.body.data).toHaveLength(1);
+
+    await request(app).get("/groups/@group/agents/alice/tokens").set(alice).expect(403);
+    await request(app).post("/groups").set(alice).send({ groupId: "@mine" }).expect(403);
+  });
+
+  it("hides replies in a shared thread that the agent did not receive", async () => {
+    const carol = await agentToken("carol");
+    const sent = await request(app)
+      .post("/emails/write")
+      .set(admin)
+      .send({ groupId: "@group", from: "alice", to: ["bob", "carol"], subject: "Plan", body: "For both of you" })
+      .expect(201);
+    const { threadId } = sent.body.data;
+    await request(app).post("/emails/reply").set(admin).send({ threadId, from: "bob", body: "Private to alice" }).expect(201);
+
+    const thread = await request(app).get(`/threads/${threadId}`).set(carol).expect(200);
+    expect(thread.body.data.messages.map((m: { body: string }) => m.body)).toEqual(["For both of you"]);
+    expect(thread.body.data.thread.messages).toEqual(["0"]);
+
+    const threads = await request(app).get("/threads").set(carol).expect(200);
+    expect(threads.body.data[0]).toMatchObject({ messageCount: 1, lastMessage: { messageId: "0" } });
+    expect(threads.body.data[0].lastMessage.bodyPreview).not.toContain("Private");
+  });
+
+  it("revokes tokens, and renaming or removing the agent carries its tokens along", async () => {
+    const bob = await agentToken("bob");
+    await request(app).patch("/groups/@group/agents/bob").set(admin).send({ newAgentAddress: "robert" }).expect(200);
+    const me = await request(app).get("/auth/me").set(bob).expect(200);
+    expect(me.body.data).toMatchObject({ role: "agent", groupId: "@group", agentAddress: "robert" });
+
+    const listed = await request(app).get("/groups/@group/agents/robert/tokens").set(admin).expect(200);
+    expect(listed.body.data).toHaveLength(1);
+    expect(listed.body.data[0].token).toBeUndefined();
+    await request(app).delete(`/groups/@group/agents/robert/tokens/${me.body.data.tokenId}`).set(admin).expect(200);
+    await request(app).get("/auth/me").set(bob).expect(401);
+
+    const carol = await agentToken("carol");
+    await request(app).delete("/groups/@group/agents/carol").set(admin).expect(200);
+    await request(app).get("/auth/me").set(carol).expect(401);
+  });
+});
+
+describeIfCanListen("Acting as an agent", () => {
+  const asAlice = { "X-SES-Group": "@group", "X-SES-Agent": "alice" };
+
+  it("scopes requests that name an agent in X-SES-Group and X-SES-Agent to that agent", async () => {
+    const me = await request(app).get("/auth/me").set(asAlice).expect(200);
+    expect(me.body.data).toEqual({ role: "agent", authEnabled: false, groupId: "@group", agentAddress: "alice", tokenId: null });
+
+    await request(app).post("/emails/write").set(asAlice).send({ from: "bob", to: ["carol"], body: "Spoofed" }).expect(403);
+    const sent = await request(app).post("/emails/write").set(asAlice).send({ to: ["bob"], subject: "Hi", body: "From alice" }).expect(201);
+    const other = await request(app)
+      .post("/emails/write")
+      .send({ groupId: "@group", from: "bob", to: ["carol"], subject: "Private", body: "Not for alice" })
+      .expect(201);
+
+    await request(app).get(`/threads/${other.body.data.threadId}`).set(asAlice).expect(404);
+    const threads = await request(app).get("/threads").set(asAlice).expect(200);
+    expect(threads.body.data.map((t: { threadId: string }) => t.threadId)).toEqual([sent.body.data.threadId]);
+    await request(app).post("/snapshots").set(asAlice).send({ name: "mine" }).expect(403);
+  });
+
+  it("leaves out replies the agent did not receive", async () => {
+    const asCarol = { "X-SES-Group": "@group", "X-SES-Agent": "carol" };
+    const sent = await request(app)
+      .post("/emails/write")
+      .send({ groupId: "@group", from: "alice", to: ["bob", "carol"], subject: "Plan", body: "For both of you" })
+      .expect(201);
+    const { threadId } = sent.body.data;
+    await request(app).post("/emails/reply").send({ threadId, from: "bob", body: "Private to alice" }).expect(201);
+
+    const thread = await request(app).get(`/threads/${threadId}`).set(asCarol).expect(200);
+    expect(thread.body.data.messages).toHaveLength(1);
+    const threads = await request(app).get("/threads").set(asCarol).expect(200);
+    expect(threads.body.data[0]).toMatchObject({ messageCount: 1, lastMessage: { messageId: "0" } });
+
+    // Without the headers the whole thread is still there
+    const full = await request(app).get(`/threads/${threadId}`).expect(200);
+    expect(full.body.data.messages).toHaveLength(2);
+  });
+
+  it("only honours the headers for admins once auth is on", async () => {
+    app = createApp(dbService, { adminTokens: ["admin-secret"] });
+    const created = await request(app)
+      .post("/groups/@group/agents/bob/tokens")
+      .set("Authorization", "Bearer admin-secret")
+      .expect(201);
+
+    await request(app).get("/inbox").set(asAlice).expect(401);
+    const viaAdmin = await request(app).get("/auth/me").set("Authorization", "Bearer admin-secret").set(asAlice).expect(200);
+    expect(viaAdmin.body.data).toMatchObject({ role: "agent", agentAddress: "alice", tokenId: null });
+    const viaBob = await request(app).get("/auth/me").set("Authorization", `Bearer ${created.body.data.token}`).set(asAlice).expect(200);
+    expect(viaBob.body.data).toMatchObject({ role: "agent", agentAddress: "bob" });
+  });
+});
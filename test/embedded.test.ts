@@ -0,0 +1,122 @@
+import request from "supertest";
+import { createServer } from "http";
+import { describe, it, beforeEach, afterEach, expect } from "vitest";
+import { createApp } from "../src/app.js";
+import { EmbeddedApi, EmbeddedRequest, HttpMethod } from "../src/embedded.js";
+import { initDatabase } from "../src/db/init.js";
+import { DatabaseService } from "../src/db/service.js";
+import { Group } from "../src/schema.js";
+
+let restDb: DatabaseService;
+let embeddedDb: DatabaseService;
+let app: ReturnType<typeof createApp>;
+let api: EmbeddedApi;
+const canListen = await new Promise<boolean>((resolve) => {
+  const srv = createServer();
+  srv.once("listening", () => {
+    srv.close(() => resolve(true));
+  });
+  srv.once("error", () => resolve(false));
+  srv.listen(0);
+});
+const describeIfCanListen = canListen ? describe : describe.skip;
+
+beforeEach(() => {
+  restDb = new DatabaseService(initDatabase(":memory:"));
+  embeddedDb = new DatabaseService(initDatabase(":memory:"));
+  for (const dbService of [restDb, embeddedDb]) {
+    dbService.createGroup(new Group("@team", ["alice", "bob"]));
+  }
+  app = createApp(restDb, { adminTokens: ["admin-secret"] });
+  api = new EmbeddedApi(embeddedDb, { adminTokens: ["admin-secret"] });
+});
+
+afterEach(() => {
+  restDb.close();
+  embeddedDb.close();
+});
+
+// The same call made over HTTP and to the embedded backend
+async function both(method: HttpMethod, path: string, call: EmbeddedRequest) {
+  let http = request(app)[method.toLowerCase() as "get" | "post" | "put" | "patch" | "delete"](`/${path}`);
+  if (call.token) http = http.set("Authorization", `Bearer ${call.token}`);
+  if (call.groupId) http = http.set("X-SES-Group", call.groupId);
+  if (call.agentAddress) http = http.set("X-SES-Agent", call.agentAddress);
+  if (call.query) http = http.query(call.query);
+  const rest = call.body !== undefined ? await http.send(call.body as object) : await http;
+  return { rest: { status: rest.status, body: rest.body }, embedded: await api.request(method, path, call) };
+}
+
+describeIfCanListen("Embedded mode", () => {
+  it.each<[string, HttpMethod, string, EmbeddedRequest]>([
+    ["a missing token", "GET", "inbox", { token: null }],
+    ["an unknown token", "GET", "inbox", { token: "wrong" }],
+    ["an empty recipient list", "POST", "emails/write", {
+      token: "admin-secret",
+      body: { groupId: "@team", from: "alice", to: [], body: "Hi" }
+    }],
+    ["a sender outside the group", "POST", "emails/write", {
+      token: "admin-secret",
+      body: { groupId: "@team", from: "mallory", to: ["bob"], body: "Hi" }
+    }],
+    ["another agent's inbox", "GET", "inbox", {
+      token: "admin-secret",
+      groupId: "@team",
+      agentAddress: "bob",
+      query: { agentAddress: "alice" }
+    }],
+    ["an admin endpoint called as an agent", "POST", "groups", {
+      token: "admin-secret",
+      groupId: "@team",
+      agentAddress: "bob",
+      body: { groupId: "@other", agents: ["carol"] }
+    }],
+    ["disabled snapshots", "GET", "snapshots", { token: "admin-secret" }],
+    ["an unknown thread", "GET", "threads/nope", { token: "admin-secret" }]
+  ])("answers %s as the REST API does", async (_name, method, path, call) => {
+    const { rest, embedded } = await both(method, path, call);
+
+    expect(embedded).toEqual(rest);
+  });
+
+  it("fills in what an agent's call leaves out from its identity", async () => {
+    const bob = { token: "admin-secret", groupId: "@team", agentAddress: "bob" };
+    await both("POST", "emails/write", { ...bob, body: { to: ["alice"], subject: "Hi", body: "From bob" } });
+
+    const { rest, embedded } = await both("GET", "inbox/short", { token: "admin-secret", query: { groupId: "@team", agentAddress: "alice" } });
+
+    expect(embedded.status).toBe(200);
+    expect(embedded.body.data).toHaveLength(1);
+    expect(embedded.body.data).toMatchObject(rest.body.data.map(({ from, subject }: { from: string; subject: string }) => ({ from, subject })));
+  });
+
+  it("streams only the events the subscriber's agent may see", async () => {
+    const events: Record<string, unknown>[] = [];
+    const followed = api.subscribe(
+      { token: "admin-secret", groupId: "@team", agentAddress: "alice", query: {} },
+      event => events.push(event)
+    );
+    expect(followed.error).toBeUndefined();
+
+    await api.request("POST", "emails/write", {
+      token: "admin-secret",
+      body: { groupId: "@team", from: "bob", to: ["bob"], body: "Note to self" }
+    });
+    await api.request("POST", "emails/write", {
+      token: "admin-secret",
+      body: { groupId: "@team", from: "bob", to: ["alice"], body: "For alice" }
+    });
+    followed.unsubscribe?.();
+
+    expect(events.filter(event => event.type === "message.created")).toHaveLength(1);
+  });
+
+  it("refuses to stream another agent's events", () => {
+    const followed = api.subscribe(
+      { token: "admin-secret", groupId: "@team", agentAddress: "alice", query: { agentAddress: "bob" } },
+      () => undefined
+    );
+
+    expect(followed.error?.status).toBe(403);
+  });
+});
@@ -0,0 +1,214 @@
+import { spawn, ChildProcess } from "child_process";
+import { createServer } from "http";
+import { AddressInfo } from "net";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { setTimeout as delay } from "timers/promises";
+import { describe, it, beforeAll, afterAll, expect } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { initDatabase } from "../src/db/init.js";
+import { DatabaseService } from "../src/db/service.js";
+import { Group } from "../src/schema.js";
+
+const canListen = await new Promise<boolean>((resolve) => {
+  const srv = createServer();
+  srv.once("listening", () => {
+    srv.close(() => resolve(true));
+  });
+  srv.once("error", () => resolve(false));
+  srv.listen(0);
+});
+const describeIfCanListen = canListen ? describe : describe.skip;
+
+async function freePort(): Promise<number> {
+  const srv = createServer();
+  await new Promise<void>(resolve => srv.listen(0, "127.0.0.1", resolve));
+  const { port } = srv.address() as AddressInfo;
+  await new Promise(resolve => srv.close(resolve));
+  return port;
+}
+
+// The MCP server in embedded mode, so one child process holds both the mailbox and the MCP endpoint
+async function startMcp(dbPath: string, env: Record<string, string>): Promise<{ url: string; stop(): Promise<void> }> {
+  const port = await freePort();
+  const child: ChildProcess = spawn(process.execPath, ["--import", "tsx", "mcp/mcp.ts", "--embedded"], {
+    cwd: path.join(import.meta.dirname, ".."),
+    env: { ...process.env, DB_PATH: dbPath, MCP_PORT: String(port), MCP_HOST: "127.0.0.1", ...env },
+    stdio: "ignore"
+  });
+  const stop = async () => {
+    if (child.exitCode !== null || child.signalCode !== null) return;
+    const exited = new Promise(resolve => child.once("exit", resolve));
+    child.kill();
+    await exited;
+  };
+
+  const url = `http://127.0.0.1:${port}`;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await fetch(`${url}/health`);
+      return { url, stop };
+    } catch (error) {
+      if (attempt >= 100 || child.exitCode !== null || child.signalCode !== null) {
+        await stop();
+        throw error;
+      }
+      await delay(200);
+    }
+  }
+}
+
+async function connect(url: string, headers: Record<string, string> = {}, search = ""): Promise<Client> {
+  const client = new Client({ name: "test", version: "0.0.0" });
+  await client.connect(new StreamableHTTPClientTransport(new URL(`${url}/mcp${search}`), { requestInit: { headers } }));
+  return client;
+}
+
+function collectUpdates(client: Client): string[] {
+  const updated: string[] = [];
+  client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+    updated.push(notification.params.uri);
+  });
+  return updated;
+}
+
+async function waitFor(check: () => boolean): Promise<void> {
+  for (let attempt = 0; attempt < 50 && !check(); attempt++) {
+    await delay(100);
+  }
+}
+
+describeIfCanListen("MCP resource subscriptions", () => {
+  let dataDir: string;
+  let observer: { url: string; stop(): Promise<void> };
+  let client: Client;
+
+  beforeAll(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "ses-mcp-"));
+    observer = await startMcp(path.join(dataDir, "email.db"), { MCP_MODE: "observer" });
+    client = await connect(observer.url);
+    await client.callTool({ name: "create_group", arguments: { groupId: "@team", agents: ["alice", "bob"] } });
+  }, 60_000);
+
+  afterAll(async () => {
+    await client?.close();
+    await observer?.stop();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("advertises resource subscriptions in its initialize result", () => {
+    expect(client.getServerCapabilities()?.resources).toMatchObject({ subscribe: true });
+  });
+
+  it("announces mail sent right after subscribing", async () => {
+    const updated = collectUpdates(client);
+
+    await client.subscribeResource({ uri: "ses://@team/bob/inbox" });
+    await client.callTool({
+      name: "send_email",
+      arguments: { groupId: "@team", from: "alice", to: ["bob"], subject: "Hi", body: "Right away" }
+    });
+
+    await waitFor(() => updated.length > 0);
+    expect(updated).toContain("ses://@team/bob/inbox");
+  });
+
+  it("refuses resources it does not know", async () => {
+    await expect(client.subscribeResource({ uri: "ses://nowhere" })).rejects.toThrow(/Unknown resource/);
+  });
+});
+
+describeIfCanListen("MCP resource subscriptions in agent mode", () => {
+  let dataDir: string;
+  let mcp: { url: string; stop(): Promise<void> };
+  let bob: Client;
+
+  beforeAll(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "ses-mcp-"));
+    const dbPath = path.join(dataDir, "email.db");
+    const dbService = new DatabaseService(initDatabase(dbPath));
+    dbService.createGroup(new Group("@team", ["alice", "bob"]));
+    dbService.close();
+
+    mcp = await startMcp(dbPath, { MCP_MODE: "agent" });
+    bob = await connect(mcp.url, { "X-SES-Group": "@team", "X-SES-Agent": "bob" });
+  }, 60_000);
+
+  afterAll(async () => {
+    await bob?.close();
+    await mcp?.stop();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("subscribes only to what the session's agent may read", async () => {
+    const updated = collectUpdates(bob);
+    await expect(bob.subscribeResource({ uri: "ses://@team/alice/inbox" })).rejects.toThrow();
+
+    await bob.subscribeResource({ uri: "ses://@team/bob/inbox" });
+    await bob.callTool({ name: "send_email", arguments: { to: ["alice"], body: "Sent by bob" } });
+
+    await waitFor(() => updated.length > 0);
+    expect(updated).toEqual(["ses://@team/bob/inbox"]);
+  });
+
+  it("refuses requests on a session that name another agent", async () => {
+    const { sessionId } = bob.transport as StreamableHTTPClientTransport;
+    const response = await fetch(`${mcp.url}/mcp`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        "Mcp-Session-Id": sessionId!,
+        "X-SES-Group": "@team",
+        "X-SES-Agent": "alice"
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/call", params: { name: "get_inbox", arguments: {} } })
+    });
+    expect(response.status).toBe(401);
+
+    await expect(bob.callTool({ name: "get_inbox", arguments: {} })).resolves.toBeDefined();
+  });
+});
+
+describeIfCanListen("MCP agent mode with API auth on", () => {
+  let dataDir: string;
+  let mcp: { url: string; stop(): Promise<void> };
+
+  beforeAll(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "ses-mcp-"));
+    const dbPath = path.join(dataDir, "email.db");
+    const dbService = new DatabaseService(initDatabase(dbPath));
+    dbService.createGroup(new Group("@team", ["alice", "bob"]));
+    dbService.close();
+
+    mcp = await startMcp(dbPath, { MCP_MODE: "agent", ADMIN_TOKENS: "admin-secret" });
+  }, 60_000);
+
+  afterAll(async () => {
+    await mcp?.stop();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("refuses connections that name an agent without a token", async () => {
+    await expect(connect(mcp.url, { "X-SES-Group": "@team", "X-SES-Agent": "bob" })).rejects.toThrow();
+    await expect(connect(mcp.url, {}, "?group=@team&agent=bob")).rejects.toThrow();
+  });
+
+  it("acts as the named agent for a connection with an admin token", async () => {
+    const bob = await connect(mcp.url, {
+      Authorization: "Bearer admin-secret",
+      "X-SES-Group": "@team",
+      "X-SES-Agent": "bob"
+    });
+    try {
+      await bob.callTool({ name: "send_email", arguments: { to: ["alice"], body: "Sent by bob" } });
+      const inbox = await bob.callTool({ name: "get_inbox", arguments: {} });
+      expect(inbox.isError).toBeFalsy();
+    } finally {
+      await bob.close();
+    }
+  });
+});